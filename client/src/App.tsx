@@ -9,10 +9,27 @@ import Machines from "./pages/machines/Machines";
 import Materials from "./pages/materials/Materials";
 import Customers from "./pages/customers/Customers";
 import CustomerDetails from "./pages/customers/CustomerDetails";
+import CustomerStatement from "./pages/customers/CustomerStatement";
 import Invoices from "./pages/invoices/Invoices";
 import InvoiceDetails from "./pages/invoices/InvoiceDetails";
 import CreateInvoice from "./pages/invoices/CreateInvoice";
 import HSNList from "./pages/invoices/HSNList";
+import Gstr1 from "./pages/invoices/Gstr1";
+import Ageing from "./pages/invoices/Ageing";
+import TallyExport from "./pages/invoices/TallyExport";
+import BankReconciliation from "./pages/invoices/BankReconciliation";
+import Cheques from "./pages/invoices/Cheques";
+import Notes from "./pages/invoices/Notes";
+import NoteDetails from "./pages/invoices/NoteDetails";
+import CreateNote from "./pages/invoices/CreateNote";
+import Quotations from "./pages/quotations/Quotations";
+import QuotationDetails from "./pages/quotations/QuotationDetails";
+import CreateQuotation from "./pages/quotations/CreateQuotation";
+import SalesOrders from "./pages/sales-orders/SalesOrders";
+import SalesOrderDetails from "./pages/sales-orders/SalesOrderDetails";
+import CreateSalesOrder from "./pages/sales-orders/CreateSalesOrder";
+import RecurringInvoices from "./pages/recurring-invoices/RecurringInvoices";
+import CreateRecurringInvoice from "./pages/recurring-invoices/CreateRecurringInvoice";
 import PurchaseOrders from "./pages/purchase-orders/PurchaseOrders";
 import PODetails from "./pages/purchase-orders/PODetails";
 import CreatePO from "./pages/purchase-orders/CreatePO";
@@ -24,6 +41,8 @@ import Notifications from "./pages/Notifications";
 import Settings from "./pages/Settings";
 import Attendance from "./pages/attendance/Attendance";
 import Fabrics from "./pages/fabrics/Fabrics";
+import Products from "./pages/products/Products";
+import PayInvoice from "./pages/pay/PayInvoice";
 
 function PrivateRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated } = useAuthStore();
@@ -34,6 +53,7 @@ function App() {
   return (
     <Routes>
       <Route path="/login" element={<Login />} />
+      <Route path="/pay/:token" element={<PayInvoice />} />
 
       <Route
         path="/"
@@ -50,13 +70,43 @@ function App() {
         <Route path="machines" element={<Machines />} />
         <Route path="materials" element={<Materials />} />
         <Route path="fabrics" element={<Fabrics />} />
+        <Route path="products" element={<Products />} />
         <Route path="customers" element={<Customers />} />
         <Route path="customers/:id" element={<CustomerDetails />} />
+        <Route path="customers/:id/statement" element={<CustomerStatement />} />
+        <Route path="quotations" element={<Quotations />} />
+        <Route path="quotations/new" element={<CreateQuotation />} />
+        <Route path="quotations/:id" element={<QuotationDetails />} />
+        <Route path="quotations/:id/edit" element={<CreateQuotation />} />
+        <Route path="sales-orders" element={<SalesOrders />} />
+        <Route path="sales-orders/new" element={<CreateSalesOrder />} />
+        <Route path="sales-orders/:id" element={<SalesOrderDetails />} />
+        <Route path="sales-orders/:id/edit" element={<CreateSalesOrder />} />
+        <Route path="recurring-invoices" element={<RecurringInvoices />} />
+        <Route
+          path="recurring-invoices/new"
+          element={<CreateRecurringInvoice />}
+        />
+        <Route
+          path="recurring-invoices/:id/edit"
+          element={<CreateRecurringInvoice />}
+        />
         <Route path="invoices" element={<Invoices />} />
         <Route path="invoices/new" element={<CreateInvoice />} />
         <Route path="invoices/hsn" element={<HSNList />} />
+        <Route path="invoices/gstr1" element={<Gstr1 />} />
+        <Route path="invoices/ageing" element={<Ageing />} />
+        <Route path="invoices/tally" element={<TallyExport />} />
+        <Route
+          path="invoices/bank-reconciliation"
+          element={<BankReconciliation />}
+        />
+        <Route path="invoices/cheques" element={<Cheques />} />
+        <Route path="invoices/notes" element={<Notes />} />
+        <Route path="invoices/notes/:noteId" element={<NoteDetails />} />
         <Route path="invoices/:id" element={<InvoiceDetails />} />
         <Route path="invoices/:id/edit" element={<CreateInvoice />} />
+        <Route path="invoices/:id/notes/new" element={<CreateNote />} />
         <Route path="purchase-orders" element={<PurchaseOrders />} />
         <Route path="purchase-orders/new" element={<CreatePO />} />
         <Route path="purchase-orders/:id" element={<PODetails />} />
@@ -17,6 +17,10 @@ import {
   WrenchScrewdriverIcon,
   UserGroupIcon,
   SwatchIcon,
+  DocumentDuplicateIcon,
+  ClipboardDocumentCheckIcon,
+  ArrowPathIcon,
+  TagIcon,
 } from "@heroicons/react/24/outline";
 import { cn } from "@/lib/utils";
 
@@ -27,9 +31,21 @@ const navigation = [
   { name: "Machines", href: "/machines", icon: WrenchScrewdriverIcon },
   { name: "Materials", href: "/materials", icon: CubeIcon },
   { name: "Fabrics", href: "/fabrics", icon: SwatchIcon },
+  { name: "Products", href: "/products", icon: TagIcon },
   { name: "Customers", href: "/customers", icon: UserGroupIcon },
   { name: "Measurements", href: "/measurements", icon: ScissorsIcon },
+  { name: "Quotations", href: "/quotations", icon: DocumentDuplicateIcon },
+  {
+    name: "Sales Orders",
+    href: "/sales-orders",
+    icon: ClipboardDocumentCheckIcon,
+  },
   { name: "Invoices", href: "/invoices", icon: DocumentTextIcon },
+  {
+    name: "Recurring Invoices",
+    href: "/recurring-invoices",
+    icon: ArrowPathIcon,
+  },
   { name: "Purchase Orders", href: "/purchase-orders", icon: ShoppingCartIcon },
   { name: "Analytics", href: "/analytics", icon: ChartBarIcon },
   { name: "Notifications", href: "/notifications", icon: BellIcon },
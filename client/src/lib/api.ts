@@ -1,5 +1,6 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
 import { useAuthStore } from "../store/authStore";
+import type { ApiResponse, Cheque, ChequeTotal, Product } from "../types";
 
 const API_URL = import.meta.env.VITE_API_URL || "/api";
 
@@ -138,6 +139,19 @@ export const customersAPI = {
   create: (data: any) => api.post("/customers", data),
   update: (id: string, data: any) => api.put(`/customers/${id}`, data),
   delete: (id: string) => api.delete(`/customers/${id}`),
+  getLedger: (id: string, params?: { from?: string; to?: string }) =>
+    api.get(`/customers/${id}/ledger`, { params }),
+  downloadLedger: (
+    id: string,
+    format: "pdf" | "csv",
+    params?: { from?: string; to?: string },
+  ) =>
+    api.get<Blob>(`/customers/${id}/ledger`, {
+      params: { ...params, format },
+      responseType: "blob",
+    }),
+  importOpeningBalances: (balances: any[]) =>
+    api.post("/customers/opening-balances", { balances }),
 };
 
 // Suppliers API
@@ -153,14 +167,107 @@ export const suppliersAPI = {
 export const invoicesAPI = {
   getAll: (params?: any) => api.get("/invoices", { params }),
   getById: (id: string) => api.get(`/invoices/${id}`),
+  downloadPdf: (id: string) =>
+    api.get<Blob>(`/invoices/${id}/pdf`, { responseType: "blob" }),
+  getEInvoice: (id: string) => api.get(`/invoices/${id}/einvoice`),
+  generateIrn: (id: string) => api.post(`/invoices/${id}/einvoice`),
+  saveIrn: (id: string, data: any) => api.put(`/invoices/${id}/einvoice`, data),
+  getEwayBill: (id: string) => api.get(`/invoices/${id}/ewaybill`),
+  saveEwayBill: (id: string, data: any) =>
+    api.put(`/invoices/${id}/ewaybill`, data),
+  getEmailDraft: (id: string) => api.get(`/invoices/${id}/email-draft`),
+  send: (
+    id: string,
+    data?: { email?: boolean; to?: string; subject?: string; body?: string },
+  ) => api.post(`/invoices/${id}/send`, data),
+  cancel: (id: string, reason: string) =>
+    api.post(`/invoices/${id}/cancel`, { reason }),
+  reopen: (id: string) => api.post(`/invoices/${id}/reopen`),
+  createPaymentLink: (id: string) => api.post(`/invoices/${id}/payment-link`),
+  getRevisions: (id: string) => api.get(`/invoices/${id}/revisions`),
+  getRevisionDiff: (id: string, params?: { from?: number; to?: number }) =>
+    api.get(`/invoices/${id}/revisions/diff`, { params }),
+  getExpiringEwayBills: (hours?: number) =>
+    api.get("/invoices/eway-bills/expiring", { params: { hours } }),
   create: (data: any) => api.post("/invoices", data),
   update: (id: string, data: any) => api.put(`/invoices/${id}`, data),
   delete: (id: string) => api.delete(`/invoices/${id}`),
   addPayment: (id: string, data: any) =>
     api.post(`/invoices/${id}/payments`, data),
+  updatePayment: (id: string, paymentId: string, data: any) =>
+    api.put(`/invoices/${id}/payments/${paymentId}`, data),
+  reversePayment: (id: string, paymentId: string, reason: string) =>
+    api.post(`/invoices/${id}/payments/${paymentId}/reverse`, { reason }),
+  addRefund: (id: string, data: any) =>
+    api.post(`/invoices/${id}/refunds`, data),
+  applyCredit: (id: string) => api.post(`/invoices/${id}/apply-credit`),
+  runReminders: () => api.post("/invoices/reminders/run"),
   getSummary: () => api.get("/invoices/summary/stats"),
 };
 
+// Public payment links (no login)
+export const paymentLinksAPI = {
+  get: (token: string) => api.get(`/pay/${token}`),
+};
+
+// Credit/Debit Notes API
+export const invoiceNotesAPI = {
+  getAll: (params?: any) => api.get("/invoice-notes", { params }),
+  getById: (id: string) => api.get(`/invoice-notes/${id}`),
+  create: (data: any) => api.post("/invoice-notes", data),
+  delete: (id: string) => api.delete(`/invoice-notes/${id}`),
+};
+
+// Quotations API
+export const quotationsAPI = {
+  getAll: (params?: any) => api.get("/quotations", { params }),
+  getById: (id: string) => api.get(`/quotations/${id}`),
+  create: (data: any) => api.post("/quotations", data),
+  update: (id: string, data: any) => api.put(`/quotations/${id}`, data),
+  updateStatus: (id: string, status: string) =>
+    api.patch(`/quotations/${id}/status`, { status }),
+  delete: (id: string) => api.delete(`/quotations/${id}`),
+  getWinRate: (params?: any) =>
+    api.get("/quotations/stats/win-rate", { params }),
+};
+
+// Recurring Invoices API
+export const recurringInvoicesAPI = {
+  getAll: (params?: any) => api.get("/recurring-invoices", { params }),
+  getById: (id: string) => api.get(`/recurring-invoices/${id}`),
+  create: (data: any) => api.post("/recurring-invoices", data),
+  update: (id: string, data: any) => api.put(`/recurring-invoices/${id}`, data),
+  pause: (id: string) => api.post(`/recurring-invoices/${id}/pause`),
+  resume: (id: string) => api.post(`/recurring-invoices/${id}/resume`),
+  skip: (id: string) => api.post(`/recurring-invoices/${id}/skip`),
+  runDue: () => api.post("/recurring-invoices/run"),
+  delete: (id: string) => api.delete(`/recurring-invoices/${id}`),
+};
+
+// Customer Receipts API
+export const customerReceiptsAPI = {
+  getAll: (params?: any) => api.get("/customer-receipts", { params }),
+  getById: (id: string) => api.get(`/customer-receipts/${id}`),
+  getOpenInvoices: (customerId: string) =>
+    api.get("/customer-receipts/open-invoices", { params: { customerId } }),
+  create: (data: any) => api.post("/customer-receipts", data),
+  allocate: (id: string, data: any) =>
+    api.post(`/customer-receipts/${id}/allocate`, data),
+  delete: (id: string) => api.delete(`/customer-receipts/${id}`),
+};
+
+// Sales Orders API
+export const salesOrdersAPI = {
+  getAll: (params?: any) => api.get("/sales-orders", { params }),
+  getById: (id: string) => api.get(`/sales-orders/${id}`),
+  create: (data: any) => api.post("/sales-orders", data),
+  update: (id: string, data: any) => api.put(`/sales-orders/${id}`, data),
+  dispatch: (id: string, items: any[]) =>
+    api.post(`/sales-orders/${id}/dispatch`, { items }),
+  cancel: (id: string) => api.post(`/sales-orders/${id}/cancel`),
+  delete: (id: string) => api.delete(`/sales-orders/${id}`),
+};
+
 // Purchase Orders API
 export const purchaseOrdersAPI = {
   getAll: (params?: any) => api.get("/purchase-orders", { params }),
@@ -191,6 +298,8 @@ export const analyticsAPI = {
   getDashboard: () => api.get("/analytics/dashboard"),
   getRevenue: (period?: number) =>
     api.get("/analytics/revenue", { params: { period } }),
+  getProductSales: (period?: number) =>
+    api.get("/analytics/products", { params: { period } }),
   getAttendance: (period?: number) =>
     api.get("/analytics/attendance", { params: { period } }),
   getMachines: () => api.get("/analytics/machines"),
@@ -199,6 +308,24 @@ export const analyticsAPI = {
     api.get("/analytics/productivity", { params: { period } }),
   getFinancial: (year?: number) =>
     api.get("/analytics/financial", { params: { year } }),
+  getGst: (params?: { startDate?: string; endDate?: string }) =>
+    api.get("/analytics/gst", { params }),
+  getGstr1: (month?: string) =>
+    api.get("/analytics/gstr1", { params: { month } }),
+  downloadGstr1Csv: (month: string, section: string) =>
+    api.get<Blob>("/analytics/gstr1/csv", {
+      params: { month, section },
+      responseType: "blob",
+    }),
+  getAgeing: (params?: { customerId?: string; city?: string }) =>
+    api.get("/analytics/ageing", { params }),
+  downloadAgeingCsv: (params?: {
+    customerId?: string;
+    city?: string;
+    bucket?: string;
+    detail?: boolean;
+  }) =>
+    api.get<Blob>("/analytics/ageing/csv", { params, responseType: "blob" }),
 };
 
 // Notifications API
@@ -220,6 +347,8 @@ export const settingsAPI = {
   bulkUpdate: (settings: Record<string, any>) =>
     api.put("/settings", { settings }),
   getCompanyInfo: () => api.get("/settings/company/info"),
+  getEmailSettings: () => api.get("/settings/email/effective"),
+  sendTestEmail: (to: string) => api.post("/settings/email/test", { to }),
 };
 
 // HSN API
@@ -232,6 +361,82 @@ export const hsnAPI = {
   delete: (id: string) => api.delete(`/hsn/${id}`),
 };
 
+// Products API
+export const productsAPI = {
+  getAll: (params?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    isActive?: boolean;
+    customerId?: string;
+  }) => api.get<ApiResponse<Product[]>>("/products", { params }),
+  getById: (id: string) => api.get(`/products/${id}`),
+  create: (data: any) => api.post("/products", data),
+  update: (id: string, data: any) => api.put(`/products/${id}`, data),
+  delete: (id: string) => api.delete(`/products/${id}`),
+  setPrice: (id: string, customerId: string, price: number) =>
+    api.put(`/products/${id}/prices/${customerId}`, { price }),
+  removePrice: (id: string, customerId: string) =>
+    api.delete(`/products/${id}/prices/${customerId}`),
+};
+
+// Tally export API
+export const tallyAPI = {
+  getSettings: () => api.get("/tally/settings"),
+  updateSettings: (data: any) => api.put("/tally/settings", data),
+  preview: (params: { from: string; to: string; types: string }) =>
+    api.get("/tally/preview", { params }),
+  downloadExport: (data: {
+    from: string;
+    to: string;
+    types: string[];
+    includeExported?: boolean;
+  }) => api.post<Blob>("/tally/exports", data, { responseType: "blob" }),
+  getExports: (params?: { page?: number; limit?: number }) =>
+    api.get("/tally/exports", { params }),
+};
+
+// Bank Reconciliation API
+export const bankReconciliationAPI = {
+  getSettings: () => api.get("/bank-reconciliation/settings"),
+  getStatements: () => api.get("/bank-reconciliation/statements"),
+  uploadStatement: (formData: FormData) =>
+    api.post("/bank-reconciliation/statements", formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    }),
+  deleteStatement: (id: string) =>
+    api.delete(`/bank-reconciliation/statements/${id}`),
+  getLines: (params?: { status?: string; statementId?: string }) =>
+    api.get("/bank-reconciliation/lines", { params }),
+  autoMatch: () => api.post("/bank-reconciliation/auto-match"),
+  match: (lineId: string, data: { type: string; id: string }) =>
+    api.post(`/bank-reconciliation/lines/${lineId}/match`, data),
+  ignore: (lineId: string) =>
+    api.post(`/bank-reconciliation/lines/${lineId}/ignore`),
+  unmatch: (lineId: string) =>
+    api.post(`/bank-reconciliation/lines/${lineId}/unmatch`),
+};
+
+// Cheques API
+export const chequesAPI = {
+  getAll: (params?: {
+    status?: string;
+    customerId?: string;
+    search?: string;
+  }) =>
+    api.get<ApiResponse<Cheque[]> & { totals: ChequeTotal[] }>("/cheques", {
+      params,
+    }),
+  getDue: (days?: number) => api.get("/cheques/due", { params: { days } }),
+  getById: (id: string) => api.get(`/cheques/${id}`),
+  deposit: (id: string, date?: string) =>
+    api.post(`/cheques/${id}/deposit`, { date }),
+  clear: (id: string, date?: string) =>
+    api.post(`/cheques/${id}/clear`, { date }),
+  bounce: (id: string, reason: string) =>
+    api.post(`/cheques/${id}/bounce`, { reason }),
+};
+
 // Fabrics API
 export const fabricsAPI = {
   getAll: () => api.get("/fabrics"),
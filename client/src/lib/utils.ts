@@ -5,18 +5,28 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 export function formatCurrency(
-  amount: number | string | undefined | null
+  amount: number | string | undefined | null,
+  currency = "INR"
 ): string {
-  if (amount === undefined || amount === null) return "₹ 0.00";
+  const zero = currency === "INR" ? "₹ 0.00" : `${currency} 0.00`;
+  if (amount === undefined || amount === null) return zero;
   const num = typeof amount === "string" ? parseFloat(amount) : amount;
-  if (isNaN(num)) return "₹ 0.00";
+  if (isNaN(num)) return zero;
   return new Intl.NumberFormat("en-IN", {
     style: "currency",
-    currency: "INR",
+    currency,
     minimumFractionDigits: 2,
   }).format(num);
 }
 
+// Rupee amount in an export invoice's currency
+export function foreignAmount(
+  amount: number | string | undefined | null,
+  exchangeRate: number | string | undefined | null
+): number {
+  return Number(amount || 0) / (Number(exchangeRate) || 1);
+}
+
 export function formatDate(
   date: string | Date,
   options?: Intl.DateTimeFormatOptions
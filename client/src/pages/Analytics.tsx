@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -39,6 +40,14 @@ ChartJS.register(
   Filler
 );
 
+// Look-back window in days for each period option
+const PERIOD_DAYS: Record<string, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+};
+
 export default function Analytics() {
   const [period, setPeriod] = useState("month");
   const [year, setYear] = useState(new Date().getFullYear());
@@ -60,6 +69,24 @@ export default function Analytics() {
       analyticsAPI.getExpenses({ period, year }).then((res) => res.data),
   });
 
+  const { data: productSales } = useQuery({
+    queryKey: ["analytics-products", period],
+    queryFn: () =>
+      analyticsAPI
+        .getProductSales(PERIOD_DAYS[period])
+        .then((res) => res.data),
+  });
+
+  const { data: gstData } = useQuery({
+    queryKey: ["analytics-gst"],
+    queryFn: () => analyticsAPI.getGst().then((res) => res.data),
+  });
+
+  const { data: ageingData } = useQuery({
+    queryKey: ["ageing", {}],
+    queryFn: () => analyticsAPI.getAgeing().then((res) => res.data),
+  });
+
   const isLoading = dashboardLoading || revenueLoading;
 
   // Revenue Chart Data
@@ -119,19 +146,13 @@ export default function Analytics() {
     ],
   };
 
-  // Category Revenue Chart
-  const categoryRevenueData = {
-    labels: dashboardData?.categoryRevenue?.labels || [
-      "Shirts",
-      "Pants",
-      "Suits",
-      "Dresses",
-      "Other",
-    ],
+  // Product Sales Chart
+  const productSalesData = {
+    labels: productSales?.labels || [],
     datasets: [
       {
-        label: "Revenue by Category",
-        data: dashboardData?.categoryRevenue?.data || [0, 0, 0, 0, 0],
+        label: "Sales by Product",
+        data: productSales?.data || [],
         backgroundColor: [
           "rgba(59, 130, 246, 0.8)",
           "rgba(34, 197, 94, 0.8)",
@@ -296,6 +317,104 @@ export default function Analytics() {
             </div>
           </div>
 
+          {/* Receivables Ageing */}
+          <div className="card">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Receivables Ageing
+              </h3>
+              <Link to="/invoices/ageing" className="btn btn-outline text-sm">
+                View Report
+              </Link>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+              {(ageingData?.buckets || []).map((bucket: any) => (
+                <div key={bucket.key}>
+                  <p className="text-sm text-gray-500">{bucket.label}</p>
+                  <p
+                    className={`text-xl font-bold ${
+                      bucket.key === "days90plus"
+                        ? "text-red-600"
+                        : "text-gray-900"
+                    }`}
+                  >
+                    {formatCurrency(ageingData?.totals?.[bucket.key] || 0)}
+                  </p>
+                </div>
+              ))}
+              <div>
+                <p className="text-sm text-gray-500">Total Outstanding</p>
+                <p className="text-xl font-bold text-primary-600">
+                  {formatCurrency(ageingData?.totals?.total || 0)}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* GST Summary */}
+          <div className="card">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                GST Summary (This Month)
+              </h3>
+              <Link to="/invoices/gstr1" className="btn btn-outline text-sm">
+                GSTR-1 Export
+              </Link>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              <div>
+                <p className="text-sm text-gray-500">Taxable Value</p>
+                <p className="text-xl font-bold text-gray-900">
+                  {formatCurrency(gstData?.totals?.taxableValue || 0)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">CGST</p>
+                <p className="text-xl font-bold text-gray-900">
+                  {formatCurrency(gstData?.totals?.cgstAmount || 0)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">SGST</p>
+                <p className="text-xl font-bold text-gray-900">
+                  {formatCurrency(gstData?.totals?.sgstAmount || 0)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">IGST</p>
+                <p className="text-xl font-bold text-gray-900">
+                  {formatCurrency(gstData?.totals?.igstAmount || 0)}
+                </p>
+              </div>
+            </div>
+            {gstData?.byRate?.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Rate</th>
+                      <th>Taxable Value</th>
+                      <th>CGST</th>
+                      <th>SGST</th>
+                      <th>IGST</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {gstData.byRate.map((row: any) => (
+                      <tr key={row.taxRate}>
+                        <td>{row.taxRate}%</td>
+                        <td>{formatCurrency(row.taxableValue)}</td>
+                        <td>{formatCurrency(row.cgstAmount)}</td>
+                        <td>{formatCurrency(row.sgstAmount)}</td>
+                        <td>{formatCurrency(row.igstAmount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Invoice Status */}
             <div className="card">
@@ -318,14 +437,14 @@ export default function Analytics() {
               </div>
             </div>
 
-            {/* Category Revenue */}
+            {/* Product Sales */}
             <div className="card">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                Revenue by Category
+                Sales by Product
               </h3>
               <div className="h-64">
                 <Bar
-                  data={categoryRevenueData}
+                  data={productSalesData}
                   options={{
                     responsive: true,
                     maintainAspectRatio: false,
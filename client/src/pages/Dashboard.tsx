@@ -424,6 +424,58 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* Cheques due for deposit */}
+      {data?.chequesDue && data.chequesDue.length > 0 && (
+        <div className="card">
+          <div className="card-header flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Cheques Due for Deposit This Week
+            </h2>
+            <Link
+              to="/invoices/cheques"
+              className="text-sm text-primary-600 hover:text-primary-700"
+            >
+              Cheque register →
+            </Link>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Cheque Date</th>
+                  <th>Cheque</th>
+                  <th>Customer</th>
+                  <th>Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {data.chequesDue.map((cheque) => (
+                  <tr key={cheque.id}>
+                    <td
+                      className={
+                        new Date(cheque.chequeDate) < new Date()
+                          ? "text-red-600"
+                          : "text-gray-500"
+                      }
+                    >
+                      {formatDate(cheque.chequeDate)}
+                    </td>
+                    <td>
+                      {cheque.chequeNumber}
+                      <span className="text-gray-500"> · {cheque.bankName}</span>
+                    </td>
+                    <td>{cheque.customer?.name}</td>
+                    <td className="font-medium">
+                      {formatCurrency(cheque.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Recent Invoices */}
       <div className="card">
         <div className="card-header flex items-center justify-between">
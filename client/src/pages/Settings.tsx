@@ -8,15 +8,18 @@ import {
   PaintBrushIcon,
   UserCircleIcon,
   ShieldCheckIcon,
+  EnvelopeIcon,
 } from "@heroicons/react/24/outline";
 import { useForm } from "react-hook-form";
 import toast from "react-hot-toast";
 import { settingsAPI, authAPI } from "@/lib/api";
 import { useAuthStore } from "@/store/authStore";
+import type { EmailSettings as EmailSettingsForm } from "@/types";
 
 type SettingsTab =
   | "company"
   | "invoice"
+  | "email"
   | "notifications"
   | "profile"
   | "security";
@@ -29,6 +32,7 @@ export default function Settings() {
   const tabs = [
     { id: "company", label: "Company", icon: BuildingOfficeIcon },
     { id: "invoice", label: "Invoice", icon: DocumentTextIcon },
+    { id: "email", label: "Email", icon: EnvelopeIcon },
     { id: "notifications", label: "Notifications", icon: BellIcon },
     { id: "profile", label: "Profile", icon: UserCircleIcon },
     { id: "security", label: "Security", icon: ShieldCheckIcon },
@@ -66,6 +70,7 @@ export default function Settings() {
         <div className="flex-1">
           {activeTab === "company" && <CompanySettings />}
           {activeTab === "invoice" && <InvoiceSettings />}
+          {activeTab === "email" && <EmailSettings />}
           {activeTab === "notifications" && <NotificationSettings />}
           {activeTab === "profile" && <ProfileSettings user={user} />}
           {activeTab === "security" && <SecuritySettings />}
@@ -80,7 +85,11 @@ function CompanySettings() {
 
   const { data: settings, isLoading } = useQuery({
     queryKey: ["settings", "company"],
-    queryFn: () => settingsAPI.getByCategory("company"),
+    queryFn: () =>
+      settingsAPI
+        .getByKey("company")
+        .then((res) => res.data?.value || {})
+        .catch(() => ({})),
   });
 
   const { register, handleSubmit } = useForm({
@@ -94,6 +103,11 @@ function CompanySettings() {
       email: settings?.email || "",
       gstNumber: settings?.gstNumber || "",
       panNumber: settings?.panNumber || "",
+      bankAccountName: settings?.bankAccountName || "",
+      bankAccountNumber: settings?.bankAccountNumber || "",
+      bankIfsc: settings?.bankIfsc || "",
+      bankName: settings?.bankName || "",
+      upiId: settings?.upiId || "",
     },
   });
 
@@ -134,7 +148,11 @@ function CompanySettings() {
         </div>
         <div>
           <label className="label">State</label>
-          <input {...register("state")} className="input" />
+          <input
+            {...register("state")}
+            className="input"
+            placeholder="Used to decide CGST/SGST or IGST"
+          />
         </div>
         <div>
           <label className="label">Pincode</label>
@@ -156,6 +174,30 @@ function CompanySettings() {
           <label className="label">PAN Number</label>
           <input {...register("panNumber")} className="input" />
         </div>
+        <div>
+          <label className="label">Bank Account Name</label>
+          <input {...register("bankAccountName")} className="input" />
+        </div>
+        <div>
+          <label className="label">Bank Account Number</label>
+          <input {...register("bankAccountNumber")} className="input" />
+        </div>
+        <div>
+          <label className="label">IFSC Code</label>
+          <input {...register("bankIfsc")} className="input" />
+        </div>
+        <div>
+          <label className="label">Bank Name</label>
+          <input {...register("bankName")} className="input" />
+        </div>
+        <div>
+          <label className="label">UPI ID (VPA)</label>
+          <input
+            {...register("upiId")}
+            className="input"
+            placeholder="Printed as a UPI QR on invoices"
+          />
+        </div>
       </div>
 
       <div className="flex justify-end">
@@ -171,18 +213,45 @@ function CompanySettings() {
   );
 }
 
+const NUMBER_FORMAT = "{PREFIX}{FY}/{SEQ:4}";
+
 function InvoiceSettings() {
   const queryClient = useQueryClient();
 
-  const { register, handleSubmit } = useForm({
+  const { data: settings } = useQuery({
+    queryKey: ["settings", "invoice"],
+    queryFn: () =>
+      settingsAPI
+        .getByKey("invoice")
+        .then((res) => res.data?.value || {})
+        .catch(() => ({})),
+  });
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm({
     defaultValues: {
-      invoicePrefix: "INV-",
-      poPrefix: "PO-",
+      invoicePrefix: "INV/",
+      invoiceNumberFormat: NUMBER_FORMAT,
+      poPrefix: "PO/",
+      poNumberFormat: NUMBER_FORMAT,
       defaultTaxRate: 18,
       defaultPaymentTerms: 30,
       invoiceNotes: "",
       invoiceTerms: "",
     },
+    values: settings && {
+      invoicePrefix: settings.invoicePrefix ?? "INV/",
+      invoiceNumberFormat: settings.invoiceNumberFormat || NUMBER_FORMAT,
+      poPrefix: settings.poPrefix ?? "PO/",
+      poNumberFormat: settings.poNumberFormat || NUMBER_FORMAT,
+      defaultTaxRate: settings.defaultTaxRate ?? 18,
+      defaultPaymentTerms: settings.defaultPaymentTerms ?? 30,
+      invoiceNotes: settings.invoiceNotes || "",
+      invoiceTerms: settings.invoiceTerms || "",
+    },
   });
 
   const updateMutation = useMutation({
@@ -191,8 +260,16 @@ function InvoiceSettings() {
       queryClient.invalidateQueries({ queryKey: ["settings"] });
       toast.success("Invoice settings saved");
     },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to save settings");
+    },
   });
 
+  const formatRules = {
+    validate: (value: string) =>
+      /\{SEQ(:\d+)?\}/.test(value) || "Format must include {SEQ} or {SEQ:n}",
+  };
+
   return (
     <form
       onSubmit={handleSubmit((data) => updateMutation.mutate(data))}
@@ -205,10 +282,37 @@ function InvoiceSettings() {
           <label className="label">Invoice Number Prefix</label>
           <input {...register("invoicePrefix")} className="input" />
         </div>
+        <div>
+          <label className="label">Invoice Number Format</label>
+          <input
+            {...register("invoiceNumberFormat", formatRules)}
+            className="input"
+          />
+          {errors.invoiceNumberFormat && (
+            <p className="text-sm text-red-600 mt-1">
+              {String(errors.invoiceNumberFormat.message)}
+            </p>
+          )}
+        </div>
         <div>
           <label className="label">PO Number Prefix</label>
           <input {...register("poPrefix")} className="input" />
         </div>
+        <div>
+          <label className="label">PO Number Format</label>
+          <input {...register("poNumberFormat", formatRules)} className="input" />
+          {errors.poNumberFormat && (
+            <p className="text-sm text-red-600 mt-1">
+              {String(errors.poNumberFormat.message)}
+            </p>
+          )}
+        </div>
+        <p className="md:col-span-2 text-sm text-gray-500">
+          Use {"{PREFIX}"}, {"{FY}"} (financial year, e.g. 25-26), {"{YYYY}"},{" "}
+          {"{MM}"} and {"{SEQ:4}"} (running number, 4 digits). Numbers restart
+          from 0001 every April when the format contains {"{FY}"}. Keep invoice
+          numbers within 16 characters for e-invoicing.
+        </p>
         <div>
           <label className="label">Default Tax Rate (%)</label>
           <input
@@ -248,22 +352,238 @@ function InvoiceSettings() {
   );
 }
 
+function EmailSettings() {
+  const queryClient = useQueryClient();
+  const [testTo, setTestTo] = useState("");
+
+  const { data: effective } = useQuery({
+    queryKey: ["settings", "email"],
+    queryFn: () => settingsAPI.getEmailSettings(),
+    select: (res: any) => res.data,
+  });
+
+  const { register, handleSubmit } = useForm<EmailSettingsForm>({
+    values: effective?.data,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (data: EmailSettingsForm) =>
+      settingsAPI.update("email", { ...data, smtpPort: Number(data.smtpPort) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["settings"] });
+      toast.success("Email settings saved");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to save settings");
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => settingsAPI.sendTestEmail(testTo),
+    onSuccess: () => {
+      toast.success(`Test email sent to ${testTo}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to send test email");
+    },
+  });
+
+  return (
+    <form
+      onSubmit={handleSubmit((data) => updateMutation.mutate(data))}
+      className="card space-y-6"
+    >
+      <h2 className="text-lg font-semibold text-gray-900">Email Settings</h2>
+
+      <div>
+        <h3 className="font-medium text-gray-900 mb-3">SMTP Server</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="label">Host</label>
+            <input
+              {...register("smtpHost")}
+              className="input"
+              placeholder="smtp.example.com"
+            />
+          </div>
+          <div>
+            <label className="label">Port</label>
+            <input type="number" {...register("smtpPort")} className="input" />
+          </div>
+          <div>
+            <label className="label">Username</label>
+            <input {...register("smtpUser")} className="input" />
+          </div>
+          <div className="flex items-end pb-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                {...register("smtpSecure")}
+                className="h-4 w-4 rounded border-gray-300 text-primary-600"
+              />
+              Use SSL/TLS (port 465)
+            </label>
+          </div>
+          <p className="md:col-span-2 text-sm text-gray-500">
+            The password is read from SMTP_PASS in the server environment
+            {effective &&
+              (effective.passwordSet ? " (currently set)." : " (not set).")}{" "}
+            For local testing use a mail catcher such as Mailpit on
+            localhost:1025 without a username.
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-900 mb-3">Sender</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="label">From Name</label>
+            <input {...register("fromName")} className="input" />
+          </div>
+          <div>
+            <label className="label">From Address</label>
+            <input
+              type="email"
+              {...register("fromAddress")}
+              className="input"
+              placeholder="accounts@example.com"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-900 mb-3">Templates</h3>
+        <div className="grid grid-cols-1 gap-4">
+          <div>
+            <label className="label">Invoice Subject</label>
+            <input {...register("invoiceSubject")} className="input" />
+          </div>
+          <div>
+            <label className="label">Invoice Message</label>
+            <textarea
+              {...register("invoiceBody")}
+              rows={6}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Reminder Subject</label>
+            <input {...register("reminderSubject")} className="input" />
+          </div>
+          <div>
+            <label className="label">Reminder Message</label>
+            <textarea
+              {...register("reminderBody")}
+              rows={6}
+              className="input"
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            Available placeholders:{" "}
+            {(effective?.placeholders || [])
+              .map((key: string) => `{{${key}}}`)
+              .join(", ")}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-3 border-t border-gray-200 pt-4">
+        <div className="flex-1">
+          <label className="label">Send a Test Email To</label>
+          <input
+            type="email"
+            value={testTo}
+            onChange={(e) => setTestTo(e.target.value)}
+            className="input"
+            placeholder="you@example.com"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => testMutation.mutate()}
+          disabled={!testTo || testMutation.isPending}
+          className="btn btn-outline"
+        >
+          {testMutation.isPending ? "Sending..." : "Send Test"}
+        </button>
+        <button
+          type="submit"
+          disabled={updateMutation.isPending}
+          className="btn btn-primary"
+        >
+          {updateMutation.isPending ? "Saving..." : "Save Changes"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+const NOTIFICATION_DEFAULTS = {
+  emailNotifications: true,
+  lowStockAlerts: true,
+  paymentReminders: true,
+  maintenanceAlerts: true,
+  dailyReport: false,
+  weeklyReport: true,
+  // Customer payment reminder schedule
+  reminderDaysBefore: [3] as number[],
+  reminderOnDueDate: true,
+  reminderRepeatDays: 7,
+};
+
 function NotificationSettings() {
-  const [settings, setSettings] = useState({
-    emailNotifications: true,
-    lowStockAlerts: true,
-    paymentReminders: true,
-    maintenanceAlerts: true,
-    dailyReport: false,
-    weeklyReport: true,
+  const queryClient = useQueryClient();
+
+  const { data: saved } = useQuery<Partial<typeof NOTIFICATION_DEFAULTS>>({
+    queryKey: ["settings", "notifications"],
+    queryFn: () =>
+      settingsAPI
+        .getByKey("notifications")
+        .then((res) => res.data?.value || {})
+        .catch(() => ({})),
+  });
+
+  const settings = { ...NOTIFICATION_DEFAULTS, ...saved };
+  const [daysBefore, setDaysBefore] = useState<string | null>(null);
+  const [repeatDays, setRepeatDays] = useState<string | null>(null);
+
+  const updateMutation = useMutation({
+    mutationFn: (value: typeof settings) =>
+      settingsAPI.update("notifications", value),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["settings"] });
+      toast.success("Setting updated");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to save settings");
+    },
   });
 
   const handleToggle = (key: string) => {
-    setSettings((prev) => ({
-      ...prev,
-      [key]: !prev[key as keyof typeof prev],
-    }));
-    toast.success("Setting updated");
+    updateMutation.mutate({
+      ...settings,
+      [key]: !settings[key as keyof typeof settings],
+    });
+  };
+
+  const saveReminderSchedule = () => {
+    const days = (daysBefore ?? settings.reminderDaysBefore.join(", "))
+      .split(",")
+      .map((value) => Number(value.trim()))
+      .filter((value) => Number.isInteger(value) && value > 0);
+
+    updateMutation.mutate({
+      ...settings,
+      reminderDaysBefore: Array.from(new Set(days)).sort((a, b) => b - a),
+      reminderRepeatDays: Math.max(
+        0,
+        Math.floor(Number(repeatDays ?? settings.reminderRepeatDays) || 0)
+      ),
+    });
+    setDaysBefore(null);
+    setRepeatDays(null);
   };
 
   return (
@@ -336,6 +656,59 @@ function NotificationSettings() {
           </button>
         </div>
 
+        {settings.paymentReminders && (
+          <div className="py-3 border-b border-gray-200 space-y-4">
+            <p className="text-sm text-gray-500">
+              Customers are reminded on this schedule while an invoice has a
+              balance. Overdue invoices are flagged to accountants.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className="label">Days Before Due</label>
+                <input
+                  type="text"
+                  value={daysBefore ?? settings.reminderDaysBefore.join(", ")}
+                  onChange={(e) => setDaysBefore(e.target.value)}
+                  className="input"
+                  placeholder="e.g. 7, 3"
+                />
+              </div>
+              <div>
+                <label className="label">Repeat After Due (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={repeatDays ?? settings.reminderRepeatDays}
+                  onChange={(e) => setRepeatDays(e.target.value)}
+                  className="input"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  0 turns repeats off
+                </p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+                <input
+                  type="checkbox"
+                  checked={settings.reminderOnDueDate}
+                  onChange={() => handleToggle("reminderOnDueDate")}
+                  className="rounded border-gray-300 text-primary-600"
+                />
+                Remind on the due date
+              </label>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={saveReminderSchedule}
+                disabled={updateMutation.isPending}
+                className="btn btn-outline btn-sm"
+              >
+                Save Schedule
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="flex items-center justify-between py-3 border-b border-gray-200">
           <div>
             <p className="font-medium text-gray-900">Maintenance Alerts</p>
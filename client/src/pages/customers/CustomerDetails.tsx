@@ -1,5 +1,6 @@
+import { useState } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   ArrowLeftIcon,
   EnvelopeIcon,
@@ -8,17 +9,24 @@ import {
   BuildingOfficeIcon,
   DocumentTextIcon,
   PlusIcon,
+  BanknotesIcon,
 } from "@heroicons/react/24/outline";
-import { customersAPI, invoicesAPI } from "@/lib/api";
+import toast from "react-hot-toast";
+import { customersAPI, customerReceiptsAPI, invoicesAPI } from "@/lib/api";
 import { formatDate, formatCurrency, getInitials } from "@/lib/utils";
+import type { CustomerReceipt } from "@/types";
+import ReceiptModal from "./ReceiptModal";
 
 export default function CustomerDetails() {
   const { id } = useParams();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [showReceiptModal, setShowReceiptModal] = useState(false);
 
   const { data: customer, isLoading } = useQuery({
     queryKey: ["customer", id],
     queryFn: () => customersAPI.getById(id!),
+    select: (res: any) => res.data,
   });
 
   const { data: invoicesData } = useQuery({
@@ -26,6 +34,27 @@ export default function CustomerDetails() {
     queryFn: () => invoicesAPI.getAll({ customerId: id, limit: 10 }),
   });
 
+  const { data: receipts = [] } = useQuery<CustomerReceipt[]>({
+    queryKey: ["customer-receipts", { customerId: id, limit: 10 }],
+    queryFn: () => customerReceiptsAPI.getAll({ customerId: id, limit: 10 }),
+    select: (res: any) => res.data || [],
+  });
+
+  // Spend a receipt's unallocated credit on open invoices, oldest first
+  const allocateMutation = useMutation({
+    mutationFn: (receiptId: string) =>
+      customerReceiptsAPI.allocate(receiptId, { autoAllocate: true }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["customer", id] });
+      queryClient.invalidateQueries({ queryKey: ["customer-receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      toast.success("Credit allocated to open invoices");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to allocate credit");
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -49,6 +78,7 @@ export default function CustomerDetails() {
   }
 
   const recentInvoices = invoicesData?.data || [];
+  const openOrders = customer.salesOrders || [];
 
   return (
     <div className="space-y-6">
@@ -62,13 +92,29 @@ export default function CustomerDetails() {
           </Link>
           <h1 className="text-2xl font-bold text-gray-900">Customer Details</h1>
         </div>
-        <Link
-          to={`/invoices/create?customerId=${id}`}
-          className="btn btn-primary inline-flex items-center gap-2"
-        >
-          <PlusIcon className="h-5 w-5" />
-          Create Invoice
-        </Link>
+        <div className="flex gap-2">
+          <Link
+            to={`/customers/${id}/statement`}
+            className="btn btn-outline inline-flex items-center gap-2"
+          >
+            <DocumentTextIcon className="h-5 w-5" />
+            Statement
+          </Link>
+          <button
+            onClick={() => setShowReceiptModal(true)}
+            className="btn btn-outline inline-flex items-center gap-2"
+          >
+            <BanknotesIcon className="h-5 w-5" />
+            Receive Payment
+          </button>
+          <Link
+            to={`/invoices/create?customerId=${id}`}
+            className="btn btn-primary inline-flex items-center gap-2"
+          >
+            <PlusIcon className="h-5 w-5" />
+            Create Invoice
+          </Link>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -137,6 +183,12 @@ export default function CustomerDetails() {
                   {formatCurrency(customer.outstandingBalance || 0)}
                 </p>
               </div>
+              <div>
+                <p className="text-sm text-gray-500">Customer Credit</p>
+                <p className="text-xl font-bold text-green-600">
+                  {formatCurrency(customer.creditBalance || 0)}
+                </p>
+              </div>
               <div>
                 <p className="text-sm text-gray-500">Credit Limit</p>
                 <p className="text-xl font-bold text-gray-900">
@@ -179,6 +231,121 @@ export default function CustomerDetails() {
             </div>
           </div>
 
+          {/* Open Sales Orders */}
+          <div className="card">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Open Orders
+              </h3>
+              <Link
+                to="/sales-orders/new"
+                className="text-sm text-primary-600 hover:text-primary-700"
+              >
+                New Order
+              </Link>
+            </div>
+            {openOrders.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Order #</th>
+                      <th>Buyer's Order</th>
+                      <th>Date</th>
+                      <th>Order Value</th>
+                      <th>Pending</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {openOrders.map((order: any) => (
+                      <tr key={order.id}>
+                        <td>
+                          <Link
+                            to={`/sales-orders/${order.id}`}
+                            className="text-primary-600 hover:text-primary-700 font-medium"
+                          >
+                            {order.orderNumber}
+                          </Link>
+                        </td>
+                        <td>{order.buyersOrderNo || "-"}</td>
+                        <td>{formatDate(order.orderDate)}</td>
+                        <td>{formatCurrency(order.totalAmount)}</td>
+                        <td className="font-medium text-orange-600">
+                          {formatCurrency(order.pendingAmount || 0)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No open orders</p>
+            )}
+          </div>
+
+          {/* Receipts */}
+          <div className="card">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Receipts</h3>
+              <button
+                onClick={() => setShowReceiptModal(true)}
+                className="text-sm text-primary-600 hover:text-primary-700"
+              >
+                Receive Payment
+              </button>
+            </div>
+            {receipts.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Receipt #</th>
+                      <th>Date</th>
+                      <th>Reference</th>
+                      <th>Amount</th>
+                      <th>Unallocated</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {receipts.map((receipt) => (
+                      <tr key={receipt.id}>
+                        <td className="font-medium">{receipt.receiptNumber}</td>
+                        <td>{formatDate(receipt.receivedAt)}</td>
+                        <td>{receipt.reference || "-"}</td>
+                        <td>{formatCurrency(receipt.amount)}</td>
+                        <td
+                          className={
+                            receipt.unallocatedAmount > 0
+                              ? "font-medium text-green-600"
+                              : "text-gray-500"
+                          }
+                        >
+                          {formatCurrency(receipt.unallocatedAmount)}
+                        </td>
+                        <td className="text-right">
+                          {receipt.unallocatedAmount > 0 && (
+                            <button
+                              onClick={() =>
+                                allocateMutation.mutate(receipt.id)
+                              }
+                              disabled={allocateMutation.isPending}
+                              className="text-sm text-primary-600 hover:text-primary-700"
+                            >
+                              Allocate
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No receipts recorded</p>
+            )}
+          </div>
+
           {/* Recent Invoices */}
           <div className="card">
             <div className="flex items-center justify-between mb-4">
@@ -253,6 +420,13 @@ export default function CustomerDetails() {
           </div>
         </div>
       </div>
+
+      {showReceiptModal && (
+        <ReceiptModal
+          customerId={id!}
+          onClose={() => setShowReceiptModal(false)}
+        />
+      )}
     </div>
   );
 }
@@ -25,6 +25,8 @@ interface FormData {
   panNumber: string;
   creditLimit: number;
   paymentTerms: number;
+  openingBalance: number;
+  openingBalanceDate: string;
   isActive: boolean;
 }
 
@@ -54,6 +56,10 @@ export default function CustomerModal({
           panNumber: customer.panNumber || "",
           creditLimit: Number(customer.creditLimit) || 0,
           paymentTerms: customer.paymentTerms || 30,
+          openingBalance: Number(customer.openingBalance) || 0,
+          openingBalanceDate: customer.openingBalanceDate
+            ? customer.openingBalanceDate.split("T")[0]
+            : "",
           isActive: customer.isActive ?? true,
         }
       : {
@@ -225,6 +231,29 @@ export default function CustomerModal({
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="label">Opening Balance</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        {...register("openingBalance")}
+                        className="input"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Owed at go-live; negative if in credit
+                      </p>
+                    </div>
+                    <div>
+                      <label className="label">As On</label>
+                      <input
+                        type="date"
+                        {...register("openingBalanceDate")}
+                        className="input"
+                      />
+                    </div>
+                  </div>
+
                   <div className="flex items-center gap-2">
                     <input
                       type="checkbox"
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  ArrowDownTrayIcon,
+  DocumentTextIcon,
+} from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { customersAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { CustomerLedger, LedgerEntry } from "@/types";
+
+// Balances are shown the way Indian statements do: Dr when the customer
+// owes, Cr when they are in credit
+const drCr = (amount: number) =>
+  `${formatCurrency(Math.abs(amount))} ${amount < 0 ? "Cr" : "Dr"}`;
+
+const entryLink = (entry: LedgerEntry) => {
+  switch (entry.type) {
+    case "INVOICE":
+    case "PAYMENT":
+    case "REFUND":
+    case "REVERSAL":
+      return `/invoices/${entry.documentId}`;
+    case "CREDIT_NOTE":
+    case "DEBIT_NOTE":
+      return `/invoices/notes/${entry.documentId}`;
+    case "BOUNCED_CHEQUE":
+      return "/invoices/cheques";
+    default:
+      return null;
+  }
+};
+
+// Start of the current financial year (April)
+const financialYearStart = () => {
+  const now = new Date();
+  const year = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  return `${year}-04-01`;
+};
+
+export default function CustomerStatement() {
+  const { id } = useParams();
+  const [from, setFrom] = useState(financialYearStart());
+  const [to, setTo] = useState(new Date().toISOString().split("T")[0]);
+
+  const range = { from: from || undefined, to: to || undefined };
+
+  const { data: ledger, isLoading } = useQuery<CustomerLedger>({
+    queryKey: ["customer-ledger", id, range],
+    queryFn: () => customersAPI.getLedger(id!, range),
+    select: (res: any) => res.data,
+  });
+
+  const handleDownload = async (format: "pdf" | "csv") => {
+    try {
+      const blob = await customersAPI.downloadLedger(id!, format, range);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `Statement_${ledger?.customer.customerCode || id}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error(`Failed to download ${format.toUpperCase()}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link
+            to={`/customers/${id}`}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Statement of Account
+            </h1>
+            {ledger && (
+              <p className="text-gray-500">
+                {ledger.customer.name} ({ledger.customer.customerCode})
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleDownload("csv")}
+            disabled={!ledger}
+            className="btn btn-outline inline-flex items-center gap-2"
+          >
+            <ArrowDownTrayIcon className="h-5 w-5" />
+            CSV
+          </button>
+          <button
+            onClick={() => handleDownload("pdf")}
+            disabled={!ledger}
+            className="btn btn-primary inline-flex items-center gap-2"
+          >
+            <DocumentTextIcon className="h-5 w-5" />
+            PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="label">From</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">To</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="input"
+            />
+          </div>
+          <div className="sm:col-span-2 grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm text-gray-500">Opening Balance</p>
+              <p className="text-lg font-semibold text-gray-900">
+                {ledger ? drCr(ledger.openingBalance) : "-"}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Closing Outstanding</p>
+              <p
+                className={`text-lg font-semibold ${
+                  ledger && ledger.closingBalance > 0
+                    ? "text-red-600"
+                    : "text-green-600"
+                }`}
+              >
+                {ledger ? drCr(ledger.closingBalance) : "-"}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="card p-0 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : !ledger ? (
+          <p className="p-6 text-gray-500">Customer not found</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Reference</th>
+                  <th>Particulars</th>
+                  <th className="text-right">Debit</th>
+                  <th className="text-right">Credit</th>
+                  <th className="text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="bg-gray-50">
+                  <td>{ledger.from ? formatDate(ledger.from) : "-"}</td>
+                  <td></td>
+                  <td className="font-medium">Opening balance</td>
+                  <td></td>
+                  <td></td>
+                  <td className="text-right font-medium">
+                    {drCr(ledger.openingBalance)}
+                  </td>
+                </tr>
+                {ledger.entries.map((entry, index) => {
+                  const link = entryLink(entry);
+                  return (
+                    <tr key={`${entry.type}-${entry.documentId}-${index}`}>
+                      <td>{formatDate(entry.date)}</td>
+                      <td className="font-medium">
+                        {link ? (
+                          <Link
+                            to={link}
+                            className="text-primary-600 hover:text-primary-700"
+                          >
+                            {entry.reference}
+                          </Link>
+                        ) : (
+                          entry.reference
+                        )}
+                      </td>
+                      <td className="text-gray-600">{entry.description}</td>
+                      <td className="text-right">
+                        {entry.debit ? formatCurrency(entry.debit) : ""}
+                      </td>
+                      <td className="text-right">
+                        {entry.credit ? formatCurrency(entry.credit) : ""}
+                      </td>
+                      <td className="text-right">{drCr(entry.balance)}</td>
+                    </tr>
+                  );
+                })}
+                {ledger.entries.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="text-center text-gray-500">
+                      No transactions in this period
+                    </td>
+                  </tr>
+                )}
+                <tr className="bg-gray-50 font-semibold">
+                  <td>{ledger.to ? formatDate(ledger.to) : "-"}</td>
+                  <td></td>
+                  <td>Closing balance</td>
+                  <td className="text-right">
+                    {formatCurrency(ledger.totalDebit)}
+                  </td>
+                  <td className="text-right">
+                    {formatCurrency(ledger.totalCredit)}
+                  </td>
+                  <td className="text-right">{drCr(ledger.closingBalance)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Link } from "react-router-dom";
 import {
@@ -8,6 +8,7 @@ import {
   TrashIcon,
   UserGroupIcon,
   EyeIcon,
+  ArrowUpTrayIcon,
 } from "@heroicons/react/24/outline";
 import toast from "react-hot-toast";
 import { customersAPI } from "@/lib/api";
@@ -24,6 +25,7 @@ export default function Customers() {
   );
   const [page, setPage] = useState(1);
   const limit = 10;
+  const importInput = useRef<HTMLInputElement>(null);
 
   const { data, isLoading } = useQuery({
     queryKey: ["customers", { search, page, limit }],
@@ -41,6 +43,50 @@ export default function Customers() {
     },
   });
 
+  const importMutation = useMutation({
+    mutationFn: (balances: any[]) =>
+      customersAPI.importOpeningBalances(balances),
+    onSuccess: (res: any) => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["customer"] });
+      toast.success(res.message || "Opening balances imported");
+      if (res.data?.notFound?.length) {
+        toast.error(`Unknown customer codes: ${res.data.notFound.join(", ")}`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(
+        error.response?.data?.message || "Failed to import opening balances"
+      );
+    },
+  });
+
+  // CSV with a header row: customerCode, openingBalance, openingBalanceDate
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const [header, ...lines] = (await file.text())
+      .split(/\r?\n/)
+      .filter((line) => line.trim());
+    const columns = (header || "").split(",").map((col) => col.trim());
+    const balances = lines.map((line) => {
+      const cells = line.split(",").map((cell) => cell.trim());
+      return Object.fromEntries(
+        columns.map((column, index) => [column, cells[index] || ""])
+      );
+    });
+
+    if (!columns.includes("customerCode") || balances.length === 0) {
+      toast.error(
+        "Expected columns customerCode, openingBalance, openingBalanceDate"
+      );
+      return;
+    }
+    importMutation.mutate(balances);
+  };
+
   const handleEdit = (customer: Customer) => {
     setSelectedCustomer(customer);
     setShowModal(true);
@@ -65,13 +111,30 @@ export default function Customers() {
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <h1 className="text-2xl font-bold text-gray-900">Customers</h1>
-        <button
-          onClick={() => setShowModal(true)}
-          className="btn btn-primary inline-flex items-center gap-2"
-        >
-          <PlusIcon className="h-5 w-5" />
-          Add Customer
-        </button>
+        <div className="flex gap-2">
+          <input
+            ref={importInput}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            onClick={() => importInput.current?.click()}
+            disabled={importMutation.isPending}
+            className="btn btn-outline inline-flex items-center gap-2"
+          >
+            <ArrowUpTrayIcon className="h-5 w-5" />
+            Import Opening Balances
+          </button>
+          <button
+            onClick={() => setShowModal(true)}
+            className="btn btn-primary inline-flex items-center gap-2"
+          >
+            <PlusIcon className="h-5 w-5" />
+            Add Customer
+          </button>
+        </div>
       </div>
 
       {/* Stats */}
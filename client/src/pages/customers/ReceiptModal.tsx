@@ -0,0 +1,380 @@
+import { Fragment, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { customerReceiptsAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { OpenInvoice } from "@/types";
+
+interface ReceiptModalProps {
+  customerId: string;
+  onClose: () => void;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// One lump receipt split across the customer's open invoices. Anything left
+// unallocated is kept as customer credit.
+export default function ReceiptModal({
+  customerId,
+  onClose,
+}: ReceiptModalProps) {
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState("");
+  const [receivedAt, setReceivedAt] = useState(
+    new Date().toISOString().split("T")[0],
+  );
+  const [method, setMethod] = useState("BANK_TRANSFER");
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+  const [chequeNumber, setChequeNumber] = useState("");
+  const [bankName, setBankName] = useState("");
+  const [chequeDate, setChequeDate] = useState("");
+  const isCheque = method === "CHEQUE";
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+
+  const { data: invoices = [], isLoading } = useQuery<OpenInvoice[]>({
+    queryKey: ["customer-open-invoices", customerId],
+    queryFn: () => customerReceiptsAPI.getOpenInvoices(customerId),
+    select: (res: any) => res.data || [],
+  });
+
+  const allocated = round2(
+    Object.values(allocations).reduce(
+      (sum, value) => sum + (Number(value) || 0),
+      0,
+    ),
+  );
+  const unallocated = round2((Number(amount) || 0) - allocated);
+
+  // Oldest due first until the amount runs out
+  const autoAllocate = () => {
+    let remaining = Number(amount) || 0;
+    const next: Record<string, string> = {};
+    for (const invoice of invoices) {
+      if (remaining <= 0) break;
+      const applied = round2(Math.min(invoice.balanceDue, remaining));
+      if (applied <= 0) continue;
+      next[invoice.id] = String(applied);
+      remaining = round2(remaining - applied);
+    }
+    setAllocations(next);
+  };
+
+  const receiptMutation = useMutation({
+    mutationFn: (data: any) => customerReceiptsAPI.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["customer", customerId] });
+      queryClient.invalidateQueries({ queryKey: ["customer-receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["invoice"] });
+      toast.success("Receipt recorded successfully");
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to record receipt");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!(Number(amount) > 0)) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+    if (unallocated < -0.005) {
+      toast.error("Allocations cannot exceed the amount received");
+      return;
+    }
+    if (isCheque && (!chequeNumber.trim() || !bankName.trim())) {
+      toast.error("Please enter the cheque number and bank");
+      return;
+    }
+    const overpaid = invoices.find(
+      (invoice) => Number(allocations[invoice.id] || 0) > invoice.balanceDue,
+    );
+    if (overpaid) {
+      toast.error(
+        `Allocation exceeds the balance of ${overpaid.invoiceNumber}`,
+      );
+      return;
+    }
+
+    receiptMutation.mutate({
+      customerId,
+      amount: Number(amount),
+      receivedAt,
+      method,
+      reference,
+      notes,
+      ...(isCheque && {
+        chequeNumber,
+        bankName,
+        chequeDate: chequeDate || undefined,
+      }),
+      allocations: Object.entries(allocations)
+        .filter(([, value]) => Number(value) > 0)
+        .map(([invoiceId, value]) => ({ invoiceId, amount: Number(value) })),
+    });
+  };
+
+  return (
+    <Transition.Root show as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-xl bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-2xl">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                  <Dialog.Title className="text-lg font-semibold text-gray-900">
+                    Receive Payment
+                  </Dialog.Title>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-500"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="label">Amount Received *</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        className="input"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="label">Date Received *</label>
+                      <input
+                        type="date"
+                        value={receivedAt}
+                        onChange={(e) => setReceivedAt(e.target.value)}
+                        className="input"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="label">Payment Method *</label>
+                      <select
+                        value={method}
+                        onChange={(e) => setMethod(e.target.value)}
+                        className="input"
+                      >
+                        <option value="CASH">Cash</option>
+                        <option value="BANK_TRANSFER">Bank Transfer</option>
+                        <option value="CHEQUE">Cheque</option>
+                        <option value="UPI">UPI</option>
+                        <option value="CARD">Credit/Debit Card</option>
+                        <option value="OTHER">Other</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="label">Reference Number</label>
+                      <input
+                        type="text"
+                        value={reference}
+                        onChange={(e) => setReference(e.target.value)}
+                        className="input"
+                        placeholder="UTR, Cheque number, etc."
+                      />
+                    </div>
+                    {isCheque && (
+                      <>
+                        <div>
+                          <label className="label">Cheque Number *</label>
+                          <input
+                            type="text"
+                            value={chequeNumber}
+                            onChange={(e) => setChequeNumber(e.target.value)}
+                            className="input"
+                            required
+                          />
+                        </div>
+                        <div>
+                          <label className="label">Bank *</label>
+                          <input
+                            type="text"
+                            value={bankName}
+                            onChange={(e) => setBankName(e.target.value)}
+                            className="input"
+                            placeholder="e.g. HDFC Bank"
+                            required
+                          />
+                        </div>
+                        <div className="sm:col-span-2">
+                          <label className="label">Cheque Date</label>
+                          <input
+                            type="date"
+                            value={chequeDate}
+                            onChange={(e) => setChequeDate(e.target.value)}
+                            className="input sm:w-1/2"
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            For post-dated cheques. Allocated invoices count the
+                            payment once the cheque clears.
+                          </p>
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="label mb-0">Allocate to Invoices</label>
+                      <div className="flex gap-3">
+                        <button
+                          type="button"
+                          onClick={autoAllocate}
+                          disabled={!(Number(amount) > 0)}
+                          className="text-sm text-primary-600 hover:text-primary-700 disabled:text-gray-400"
+                        >
+                          Auto (oldest first)
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setAllocations({})}
+                          className="text-sm text-gray-500 hover:text-gray-700"
+                        >
+                          Clear
+                        </button>
+                      </div>
+                    </div>
+                    {isLoading ? (
+                      <p className="text-sm text-gray-500">Loading...</p>
+                    ) : invoices.length === 0 ? (
+                      <p className="text-sm text-gray-500">
+                        No open invoices. The full amount will be kept as
+                        customer credit.
+                      </p>
+                    ) : (
+                      <div className="overflow-x-auto max-h-64 border border-gray-200 rounded-lg">
+                        <table className="table">
+                          <thead>
+                            <tr>
+                              <th>Invoice #</th>
+                              <th>Due</th>
+                              <th className="text-right">Balance</th>
+                              <th className="text-right">Allocate</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {invoices.map((invoice) => (
+                              <tr key={invoice.id}>
+                                <td className="font-medium">
+                                  {invoice.invoiceNumber}
+                                </td>
+                                <td>{formatDate(invoice.dueDate)}</td>
+                                <td className="text-right">
+                                  {formatCurrency(invoice.balanceDue)}
+                                </td>
+                                <td className="text-right">
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    max={invoice.balanceDue}
+                                    value={allocations[invoice.id] || ""}
+                                    onChange={(e) =>
+                                      setAllocations({
+                                        ...allocations,
+                                        [invoice.id]: e.target.value,
+                                      })
+                                    }
+                                    className="input w-32 text-right ml-auto"
+                                  />
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="bg-primary-50 p-4 rounded-lg space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Allocated</span>
+                      <span className="font-medium">
+                        {formatCurrency(allocated)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">
+                        Kept as customer credit
+                      </span>
+                      <span
+                        className={`font-bold ${
+                          unallocated < 0 ? "text-red-600" : "text-primary-600"
+                        }`}
+                      >
+                        {formatCurrency(unallocated)}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="label">Notes</label>
+                    <textarea
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={2}
+                      className="input"
+                    />
+                  </div>
+
+                  <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="btn btn-outline"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={receiptMutation.isPending}
+                      className="btn btn-primary"
+                    >
+                      {receiptMutation.isPending
+                        ? "Saving..."
+                        : "Record Receipt"}
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+}
@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  ArrowDownTrayIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { analyticsAPI, customersAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type {
+  AgeingBucket,
+  AgeingInvoice,
+  AgeingReport,
+  Customer,
+} from "@/types";
+
+interface DrillDown {
+  bucket: AgeingBucket | "total";
+  customerId?: string;
+}
+
+const saveFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function Ageing() {
+  const [customerId, setCustomerId] = useState("");
+  const [city, setCity] = useState("");
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const filters = {
+    customerId: customerId || undefined,
+    city: city.trim() || undefined,
+  };
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["customers", { limit: 1000 }],
+    queryFn: () => customersAPI.getAll({ limit: 1000 }),
+    select: (res: any) => res.data || [],
+  });
+
+  const { data: report, isLoading } = useQuery<AgeingReport>({
+    queryKey: ["ageing", filters],
+    queryFn: () => analyticsAPI.getAgeing(filters),
+    select: (res: any) => res.data,
+  });
+
+  const buckets = report?.buckets || [];
+
+  const drillInvoices: Array<AgeingInvoice & { customerName: string }> =
+    drillDown && report
+      ? report.customers
+          .filter(
+            (customer) =>
+              !drillDown.customerId ||
+              customer.customerId === drillDown.customerId,
+          )
+          .flatMap((customer) =>
+            customer.invoices
+              .filter(
+                (invoice) =>
+                  drillDown.bucket === "total" ||
+                  invoice.bucket === drillDown.bucket,
+              )
+              .map((invoice) => ({ ...invoice, customerName: customer.name })),
+          )
+      : [];
+
+  const drillTitle = () => {
+    if (!drillDown || !report) return "";
+    const bucket =
+      drillDown.bucket === "total"
+        ? "All open invoices"
+        : buckets.find((b) => b.key === drillDown.bucket)?.label;
+    const customer = report.customers.find(
+      (c) => c.customerId === drillDown.customerId,
+    );
+    return customer ? `${bucket} - ${customer.name}` : bucket;
+  };
+
+  const handleDownload = async (detail: boolean) => {
+    try {
+      const blob = await analyticsAPI.downloadAgeingCsv({ ...filters, detail });
+      saveFile(
+        blob,
+        `Ageing_${detail ? "Invoices_" : ""}${new Date().toISOString().split("T")[0]}.csv`,
+      );
+    } catch {
+      toast.error("Failed to download CSV");
+    }
+  };
+
+  const amountCell = (
+    amount: number,
+    bucket: AgeingBucket | "total",
+    rowCustomerId?: string,
+  ) =>
+    amount > 0 ? (
+      <button
+        onClick={() => setDrillDown({ bucket, customerId: rowCustomerId })}
+        className="text-primary-600 hover:text-primary-700 hover:underline"
+      >
+        {formatCurrency(amount)}
+      </button>
+    ) : (
+      <span className="text-gray-400">-</span>
+    );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link
+            to="/analytics"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Receivables Ageing
+            </h1>
+            <p className="text-gray-500">
+              Outstanding balances by days past the due date
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleDownload(false)}
+            className="btn btn-outline inline-flex items-center gap-2"
+          >
+            <ArrowDownTrayIcon className="h-5 w-5" />
+            Summary CSV
+          </button>
+          <button
+            onClick={() => handleDownload(true)}
+            className="btn btn-outline inline-flex items-center gap-2"
+          >
+            <ArrowDownTrayIcon className="h-5 w-5" />
+            Invoice CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="label">Customer</label>
+            <select
+              value={customerId}
+              onChange={(e) => {
+                setCustomerId(e.target.value);
+                setDrillDown(null);
+              }}
+              className="input"
+            >
+              <option value="">All customers</option>
+              {customers.map((customer) => (
+                <option key={customer.id} value={customer.id}>
+                  {customer.name} ({customer.customerCode})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">City</label>
+            <input
+              type="text"
+              value={city}
+              onChange={(e) => {
+                setCity(e.target.value);
+                setDrillDown(null);
+              }}
+              className="input"
+              placeholder="All cities"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Bucket totals */}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {buckets.map((bucket) => (
+          <button
+            key={bucket.key}
+            onClick={() => setDrillDown({ bucket: bucket.key })}
+            className="card text-left hover:ring-2 hover:ring-primary-200"
+          >
+            <p className="text-sm text-gray-500">{bucket.label}</p>
+            <p
+              className={`text-xl font-bold ${
+                bucket.key === "days90plus" ? "text-red-600" : "text-gray-900"
+              }`}
+            >
+              {formatCurrency(report?.totals[bucket.key] || 0)}
+            </p>
+          </button>
+        ))}
+        <button
+          onClick={() => setDrillDown({ bucket: "total" })}
+          className="card text-left hover:ring-2 hover:ring-primary-200"
+        >
+          <p className="text-sm text-gray-500">Total Outstanding</p>
+          <p className="text-xl font-bold text-primary-600">
+            {formatCurrency(report?.totals.total || 0)}
+          </p>
+        </button>
+      </div>
+
+      <div className="card p-0 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Customer</th>
+                  <th>City</th>
+                  {buckets.map((bucket) => (
+                    <th key={bucket.key} className="text-right">
+                      {bucket.label}
+                    </th>
+                  ))}
+                  <th className="text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report?.customers.map((customer) => (
+                  <tr key={customer.customerId}>
+                    <td>
+                      <Link
+                        to={`/customers/${customer.customerId}`}
+                        className="font-medium text-gray-900 hover:text-primary-600"
+                      >
+                        {customer.name}
+                      </Link>
+                      <p className="text-xs text-gray-500">
+                        {customer.customerCode}
+                      </p>
+                    </td>
+                    <td>{customer.city || "-"}</td>
+                    {buckets.map((bucket) => (
+                      <td key={bucket.key} className="text-right">
+                        {amountCell(
+                          customer[bucket.key],
+                          bucket.key,
+                          customer.customerId,
+                        )}
+                      </td>
+                    ))}
+                    <td className="text-right font-semibold">
+                      {amountCell(customer.total, "total", customer.customerId)}
+                    </td>
+                  </tr>
+                ))}
+                {report && report.customers.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={buckets.length + 3}
+                      className="text-center text-gray-500"
+                    >
+                      Nothing outstanding
+                    </td>
+                  </tr>
+                )}
+                {report && report.customers.length > 0 && (
+                  <tr className="bg-gray-50 font-semibold">
+                    <td>Total</td>
+                    <td></td>
+                    {buckets.map((bucket) => (
+                      <td key={bucket.key} className="text-right">
+                        {formatCurrency(report.totals[bucket.key])}
+                      </td>
+                    ))}
+                    <td className="text-right">
+                      {formatCurrency(report.totals.total)}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Drill-down */}
+      {drillDown && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {drillTitle()}
+            </h3>
+            <button
+              onClick={() => setDrillDown(null)}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+          {drillInvoices.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Invoice #</th>
+                    <th>Customer</th>
+                    <th>Invoice Date</th>
+                    <th>Due Date</th>
+                    <th className="text-right">Days Overdue</th>
+                    <th className="text-right">Invoice Value</th>
+                    <th className="text-right">Balance Due</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {drillInvoices.map((invoice) => (
+                    <tr key={invoice.id}>
+                      <td>
+                        <Link
+                          to={`/invoices/${invoice.id}`}
+                          className="font-medium text-primary-600 hover:text-primary-700"
+                        >
+                          {invoice.invoiceNumber}
+                        </Link>
+                      </td>
+                      <td>{invoice.customerName}</td>
+                      <td>{formatDate(invoice.issueDate)}</td>
+                      <td>{formatDate(invoice.dueDate)}</td>
+                      <td className="text-right">
+                        {invoice.daysOverdue > 0 ? invoice.daysOverdue : "-"}
+                      </td>
+                      <td className="text-right">
+                        {formatCurrency(invoice.totalAmount)}
+                      </td>
+                      <td className="text-right font-medium">
+                        {formatCurrency(invoice.balanceDue)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No invoices</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,635 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  ArrowPathIcon,
+  ArrowUpTrayIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { bankReconciliationAPI, customersAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type {
+  BankColumnMapping,
+  BankLineStatus,
+  BankMatchSuggestion,
+  BankPreset,
+  BankStatement,
+  BankStatementImport,
+  BankStatementLine,
+  BankStatementSettings,
+  Customer,
+} from "@/types";
+
+const MAPPING_FIELDS: Array<{
+  key: Exclude<keyof BankColumnMapping, "dateOrder">;
+  label: string;
+}> = [
+  { key: "date", label: "Date" },
+  { key: "description", label: "Narration" },
+  { key: "reference", label: "Reference / UTR" },
+  { key: "credit", label: "Credit (deposit)" },
+  { key: "amount", label: "Amount (with Dr/Cr)" },
+  { key: "creditDebit", label: "Dr/Cr" },
+];
+
+const STATUS_TABS: Array<{ status: BankLineStatus; label: string }> = [
+  { status: "UNMATCHED", label: "To Reconcile" },
+  { status: "MATCHED", label: "Matched" },
+  { status: "IGNORED", label: "Ignored" },
+];
+
+const SUGGESTION_LABELS: Record<BankMatchSuggestion["type"], string> = {
+  PAYMENT: "Recorded payment",
+  RECEIPT: "Customer receipt",
+  INVOICE: "Record payment on",
+};
+
+const suggestionTitle = (suggestion: BankMatchSuggestion) =>
+  `${SUGGESTION_LABELS[suggestion.type]} ${
+    suggestion.receiptNumber || suggestion.invoiceNumber
+  }`;
+
+export default function BankReconciliation() {
+  const queryClient = useQueryClient();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [bank, setBank] = useState("HDFC");
+  const [mapping, setMapping] = useState<BankColumnMapping | null>(null);
+  const [dateWindowDays, setDateWindowDays] = useState(3);
+  const [status, setStatus] = useState<BankLineStatus>("UNMATCHED");
+  const [statementId, setStatementId] = useState("");
+  const [customerFor, setCustomerFor] = useState<Record<string, string>>({});
+
+  const { data: settings } = useQuery<{
+    data: BankStatementSettings;
+    presets: Record<string, BankPreset>;
+  }>({
+    queryKey: ["bank-statement-settings"],
+    queryFn: bankReconciliationAPI.getSettings,
+  });
+
+  const { data: statements = [] } = useQuery<BankStatement[]>({
+    queryKey: ["bank-statements"],
+    queryFn: bankReconciliationAPI.getStatements,
+    select: (res: any) => res.data || [],
+  });
+
+  const { data: lines = [], isLoading } = useQuery<BankStatementLine[]>({
+    queryKey: ["bank-lines", status, statementId],
+    queryFn: () =>
+      bankReconciliationAPI.getLines({
+        status,
+        statementId: statementId || undefined,
+      }),
+    select: (res: any) => res.data || [],
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["customers-list"],
+    queryFn: () => customersAPI.getAll({ limit: 1000 }),
+    select: (res: any) => res.data || [],
+  });
+
+  // Start from the mapping used for the last statement
+  useEffect(() => {
+    if (!settings) return;
+    setBank(settings.data.bank);
+    setMapping(settings.data.mapping);
+    setDateWindowDays(settings.data.dateWindowDays);
+  }, [settings]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["bank-lines"] });
+    queryClient.invalidateQueries({ queryKey: ["bank-statements"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("bank", bank);
+      formData.append("mapping", JSON.stringify(mapping));
+      formData.append("dateWindowDays", String(dateWindowDays));
+      return bankReconciliationAPI.uploadStatement(formData);
+    },
+    onSuccess: (res: any) => {
+      const result = res.data as BankStatementImport;
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["bank-statement-settings"] });
+      setFile(null);
+      if (fileRef.current) fileRef.current.value = "";
+      toast.success(
+        `${result.imported} credit(s) imported, ${result.autoMatched} matched automatically` +
+          (result.duplicates
+            ? `, ${result.duplicates} already imported before`
+            : ""),
+      );
+    },
+    onError: (error: any) => {
+      toast.error(
+        error.response?.data?.message || "Failed to import statement",
+      );
+    },
+  });
+
+  const autoMatchMutation = useMutation({
+    mutationFn: bankReconciliationAPI.autoMatch,
+    onSuccess: (res: any) => {
+      refresh();
+      toast.success(res.message || "Auto-match complete");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to match lines");
+    },
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: ({
+      lineId,
+      type,
+      id,
+    }: {
+      lineId: string;
+      type: string;
+      id: string;
+    }) => bankReconciliationAPI.match(lineId, { type, id }),
+    onSuccess: () => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      toast.success("Bank line matched");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to match line");
+    },
+  });
+
+  const ignoreMutation = useMutation({
+    mutationFn: bankReconciliationAPI.ignore,
+    onSuccess: () => {
+      refresh();
+      toast.success("Bank line ignored");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to ignore line");
+    },
+  });
+
+  const unmatchMutation = useMutation({
+    mutationFn: bankReconciliationAPI.unmatch,
+    onSuccess: (res: any) => {
+      refresh();
+      toast.success(res.message || "Line returned to the queue");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to unmatch line");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: bankReconciliationAPI.deleteStatement,
+    onSuccess: () => {
+      setStatementId("");
+      refresh();
+      toast.success("Statement deleted");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error.response?.data?.message || "Failed to delete statement",
+      );
+    },
+  });
+
+  const choosePreset = (key: string) => {
+    setBank(key);
+    const preset = settings?.presets[key];
+    if (preset) setMapping(preset.mapping);
+  };
+
+  const busy =
+    matchMutation.isPending ||
+    ignoreMutation.isPending ||
+    unmatchMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link
+            to="/invoices"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Bank Reconciliation
+            </h1>
+            <p className="text-gray-500">
+              Match bank credits to customer payments and invoices
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => autoMatchMutation.mutate()}
+          disabled={autoMatchMutation.isPending}
+          className="btn btn-outline inline-flex items-center gap-2"
+        >
+          <ArrowPathIcon className="h-5 w-5" />
+          {autoMatchMutation.isPending ? "Matching..." : "Re-run Auto Match"}
+        </button>
+      </div>
+
+      {/* Import */}
+      <div className="card space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">
+          Import Statement
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div>
+            <label className="label">Bank</label>
+            <select
+              value={bank}
+              onChange={(e) => choosePreset(e.target.value)}
+              className="input"
+            >
+              {Object.entries(settings?.presets || {}).map(([key, preset]) => (
+                <option key={key} value={key}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="sm:col-span-2">
+            <label className="label">Statement File (CSV, XLS, XLSX)</label>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,.xls,.xlsx"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Date Window (days)</label>
+            <input
+              type="number"
+              min={0}
+              max={30}
+              value={dateWindowDays}
+              onChange={(e) => setDateWindowDays(Number(e.target.value))}
+              className="input"
+            />
+          </div>
+        </div>
+
+        {mapping && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900">
+              Column Headings
+            </h4>
+            <p className="text-xs text-gray-500 mb-2">
+              As printed on the statement. Fill either Credit, or Amount with
+              Dr/Cr.
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+              {MAPPING_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label className="label">{field.label}</label>
+                  <input
+                    value={mapping[field.key]}
+                    onChange={(e) =>
+                      setMapping({ ...mapping, [field.key]: e.target.value })
+                    }
+                    className="input"
+                  />
+                </div>
+              ))}
+              <div>
+                <label className="label">Date Format</label>
+                <select
+                  value={mapping.dateOrder}
+                  onChange={(e) =>
+                    setMapping({
+                      ...mapping,
+                      dateOrder: e.target
+                        .value as BankColumnMapping["dateOrder"],
+                    })
+                  }
+                  className="input"
+                >
+                  <option value="DMY">DD/MM/YYYY</option>
+                  <option value="MDY">MM/DD/YYYY</option>
+                  <option value="YMD">YYYY-MM-DD</option>
+                </select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={() => uploadMutation.mutate()}
+            disabled={!file || !mapping || uploadMutation.isPending}
+            className="btn btn-primary inline-flex items-center gap-2"
+          >
+            <ArrowUpTrayIcon className="h-5 w-5" />
+            {uploadMutation.isPending ? "Importing..." : "Import"}
+          </button>
+        </div>
+      </div>
+
+      {/* Queue */}
+      <div className="card p-0 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex gap-2">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab.status}
+                onClick={() => setStatus(tab.status)}
+                className={`btn btn-sm ${
+                  status === tab.status ? "btn-primary" : "btn-outline"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={statementId}
+            onChange={(e) => setStatementId(e.target.value)}
+            className="input sm:w-72"
+          >
+            <option value="">All statements</option>
+            {statements.map((statement) => (
+              <option key={statement.id} value={statement.id}>
+                {statement.fileName} ({formatDate(statement.createdAt)})
+              </option>
+            ))}
+          </select>
+        </div>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Narration</th>
+                  <th className="text-right">Amount</th>
+                  <th>
+                    {status === "UNMATCHED" ? "Suggested Matches" : "Match"}
+                  </th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line) => (
+                  <tr key={line.id} className="align-top">
+                    <td className="whitespace-nowrap">
+                      {formatDate(line.txnDate)}
+                    </td>
+                    <td className="max-w-xs">
+                      <div className="text-sm break-words">
+                        {line.description}
+                      </div>
+                      {line.reference && (
+                        <div className="text-xs text-gray-500">
+                          Ref: {line.reference}
+                        </div>
+                      )}
+                    </td>
+                    <td className="text-right font-medium whitespace-nowrap">
+                      {formatCurrency(line.amount)}
+                    </td>
+                    <td className="min-w-[20rem]">
+                      {line.status === "UNMATCHED" && (
+                        <div className="space-y-2">
+                          {line.suggestions.map((suggestion) => (
+                            <div
+                              key={`${suggestion.type}-${suggestion.id}`}
+                              className="flex items-start justify-between gap-3 rounded-lg border border-gray-200 p-2"
+                            >
+                              <div className="text-sm">
+                                <div className="font-medium">
+                                  {suggestionTitle(suggestion)}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                  {suggestion.customerName} ·{" "}
+                                  {formatCurrency(suggestion.amount)} ·{" "}
+                                  {suggestion.reasons.join(", ")}
+                                </div>
+                              </div>
+                              <button
+                                onClick={() =>
+                                  matchMutation.mutate({
+                                    lineId: line.id,
+                                    type: suggestion.type,
+                                    id: suggestion.id,
+                                  })
+                                }
+                                disabled={busy}
+                                className="btn btn-primary btn-sm"
+                              >
+                                Confirm
+                              </button>
+                            </div>
+                          ))}
+                          {line.suggestions.length === 0 && (
+                            <p className="text-sm text-gray-500">
+                              No payment or invoice fits this credit
+                            </p>
+                          )}
+                          <div className="flex gap-2">
+                            <select
+                              value={customerFor[line.id] || ""}
+                              onChange={(e) =>
+                                setCustomerFor({
+                                  ...customerFor,
+                                  [line.id]: e.target.value,
+                                })
+                              }
+                              className="input text-sm"
+                            >
+                              <option value="">
+                                Record as receipt from...
+                              </option>
+                              {customers.map((customer) => (
+                                <option key={customer.id} value={customer.id}>
+                                  {customer.name}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() =>
+                                matchMutation.mutate({
+                                  lineId: line.id,
+                                  type: "CUSTOMER",
+                                  id: customerFor[line.id],
+                                })
+                              }
+                              disabled={!customerFor[line.id] || busy}
+                              className="btn btn-outline btn-sm whitespace-nowrap"
+                            >
+                              Record
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                      {line.status === "MATCHED" && (
+                        <div className="text-sm">
+                          {line.payment && (
+                            <Link
+                              to={`/invoices/${line.payment.invoice.id}`}
+                              className="font-medium text-primary-600 hover:underline"
+                            >
+                              Payment on {line.payment.invoice.invoiceNumber}
+                            </Link>
+                          )}
+                          {line.receipt && (
+                            <Link
+                              to={`/customers/${line.receipt.customer.id}`}
+                              className="font-medium text-primary-600 hover:underline"
+                            >
+                              Receipt {line.receipt.receiptNumber}
+                            </Link>
+                          )}
+                          <div className="text-xs text-gray-500">
+                            {line.payment?.invoice.customer.name ||
+                              line.receipt?.customer.name}
+                            {line.matchedBy &&
+                              ` · ${line.matchedBy.firstName} ${line.matchedBy.lastName}`}
+                          </div>
+                          <div className="flex gap-1 mt-1">
+                            {line.autoMatched && (
+                              <span className="badge badge-info">Auto</span>
+                            )}
+                            {line.createdPayment && (
+                              <span className="badge badge-gray">
+                                Recorded from statement
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                      {line.status === "IGNORED" && (
+                        <span className="badge badge-gray">Ignored</span>
+                      )}
+                    </td>
+                    <td className="text-right whitespace-nowrap">
+                      {line.status === "UNMATCHED" ? (
+                        <button
+                          onClick={() => ignoreMutation.mutate(line.id)}
+                          disabled={busy}
+                          className="btn btn-outline btn-sm"
+                        >
+                          Ignore
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => unmatchMutation.mutate(line.id)}
+                          disabled={busy}
+                          className="btn btn-outline btn-sm"
+                        >
+                          {line.status === "IGNORED" ? "Restore" : "Unmatch"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {lines.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="text-center text-gray-500">
+                      {status === "UNMATCHED"
+                        ? "Nothing left to reconcile"
+                        : "No lines"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Statements */}
+      <div className="card">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          Imported Statements
+        </h3>
+        {statements.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>File</th>
+                  <th>Period</th>
+                  <th>Uploaded</th>
+                  <th className="text-right">Credits</th>
+                  <th>Progress</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {statements.map((statement) => (
+                  <tr key={statement.id}>
+                    <td>
+                      <div className="font-medium">{statement.fileName}</div>
+                      <div className="text-xs text-gray-500">
+                        {settings?.presets[statement.bank]?.label ||
+                          statement.bank}
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap">
+                      {statement.fromDate && formatDate(statement.fromDate)} –{" "}
+                      {statement.toDate && formatDate(statement.toDate)}
+                    </td>
+                    <td>
+                      {formatDate(statement.createdAt)}
+                      <div className="text-xs text-gray-500">
+                        {statement.uploadedBy.firstName}{" "}
+                        {statement.uploadedBy.lastName}
+                      </div>
+                    </td>
+                    <td className="text-right">
+                      {formatCurrency(statement.totalAmount)}
+                      <div className="text-xs text-gray-500">
+                        {statement.lineCount} line(s)
+                      </div>
+                    </td>
+                    <td className="text-sm">
+                      {statement.matchedCount} matched,{" "}
+                      {statement.unmatchedCount} open, {statement.ignoredCount}{" "}
+                      ignored
+                    </td>
+                    <td className="text-right">
+                      {statement.matchedCount === 0 && (
+                        <button
+                          onClick={() => {
+                            if (confirm(`Delete ${statement.fileName}?`)) {
+                              deleteMutation.mutate(statement.id);
+                            }
+                          }}
+                          className="p-2 text-gray-500 hover:text-red-600"
+                          title="Delete statement"
+                        >
+                          <TrashIcon className="h-5 w-5" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No statements imported yet</p>
+        )}
+      </div>
+    </div>
+  );
+}
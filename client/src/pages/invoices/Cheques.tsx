@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  MagnifyingGlassIcon,
+} from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { chequesAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { ChequeStatus } from "@/types";
+
+const STATUS_TABS: Array<{ status: ChequeStatus | ""; label: string }> = [
+  { status: "RECEIVED", label: "In Hand" },
+  { status: "DEPOSITED", label: "Deposited" },
+  { status: "CLEARED", label: "Cleared" },
+  { status: "BOUNCED", label: "Bounced" },
+  { status: "", label: "All" },
+];
+
+const chequeStatusColors: Record<ChequeStatus, string> = {
+  RECEIVED: "badge-info",
+  DEPOSITED: "badge-warning",
+  CLEARED: "badge-success",
+  BOUNCED: "badge-danger",
+};
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// Post-dated and other customer cheques from receipt to clearing
+export default function Cheques() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ChequeStatus | "">("RECEIVED");
+  const [search, setSearch] = useState("");
+  const [bouncing, setBouncing] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["cheques", status, search],
+    queryFn: () =>
+      chequesAPI.getAll({
+        status: status || undefined,
+        search: search || undefined,
+      }),
+  });
+  const cheques = data?.data || [];
+  const totalFor = (chequeStatus: ChequeStatus) =>
+    data?.totals.find((total) => total.status === chequeStatus);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["cheques"] });
+    queryClient.invalidateQueries({ queryKey: ["invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["invoice"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard"] });
+  };
+
+  const depositMutation = useMutation({
+    mutationFn: (id: string) => chequesAPI.deposit(id, today()),
+    onSuccess: (res: any) => {
+      refresh();
+      toast.success(res.message || "Cheque deposited");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to deposit cheque");
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: (id: string) => chequesAPI.clear(id, today()),
+    onSuccess: (res: any) => {
+      refresh();
+      toast.success(res.message || "Cheque cleared");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to clear cheque");
+    },
+  });
+
+  const bounceMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      chequesAPI.bounce(id, reason),
+    onSuccess: (res: any) => {
+      refresh();
+      setBouncing(null);
+      setReason("");
+      toast.success(res.message || "Cheque marked bounced");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to bounce cheque");
+    },
+  });
+
+  const busy =
+    depositMutation.isPending ||
+    clearMutation.isPending ||
+    bounceMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link
+          to="/invoices"
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Cheque Register</h1>
+          <p className="text-gray-500">
+            Deposit cheques when they fall due and record whether they clear
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {STATUS_TABS.filter(
+          (tab): tab is { status: ChequeStatus; label: string } =>
+            tab.status !== "",
+        ).map((tab) => (
+          <div key={tab.status} className="card p-4">
+            <p className="text-sm text-gray-500">{tab.label}</p>
+            <p className="text-xl font-bold text-gray-900">
+              {formatCurrency(totalFor(tab.status)?.amount || 0)}
+            </p>
+            <p className="text-xs text-gray-500">
+              {totalFor(tab.status)?.count || 0} cheque(s)
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="card">
+        <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex flex-wrap gap-2">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab.label}
+                onClick={() => setStatus(tab.status)}
+                className={`btn btn-sm ${
+                  status === tab.status ? "btn-primary" : "btn-outline"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <div className="relative sm:w-72">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Cheque no., bank or customer"
+              className="input pl-10"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : cheques.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">No cheques found</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Cheque Date</th>
+                  <th>Cheque</th>
+                  <th>Customer</th>
+                  <th>Paid For</th>
+                  <th className="text-right">Amount</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {cheques.map((cheque) => {
+                  const dueNow = new Date(cheque.chequeDate) <= new Date();
+                  const invoices = (cheque.payments || []).filter(
+                    (payment) => payment.type === "RECEIPT",
+                  );
+                  return (
+                    <tr key={cheque.id} className="align-top">
+                      <td className="whitespace-nowrap">
+                        {formatDate(cheque.chequeDate)}
+                      </td>
+                      <td>
+                        <div className="font-medium">{cheque.chequeNumber}</div>
+                        <div className="text-xs text-gray-500">
+                          {cheque.bankName}
+                        </div>
+                      </td>
+                      <td>
+                        {cheque.customer && (
+                          <Link
+                            to={`/customers/${cheque.customer.id}`}
+                            className="text-primary-600 hover:text-primary-700"
+                          >
+                            {cheque.customer.name}
+                          </Link>
+                        )}
+                      </td>
+                      <td className="text-sm">
+                        {cheque.receipt && (
+                          <div className="text-gray-600">
+                            Receipt {cheque.receipt.receiptNumber}
+                          </div>
+                        )}
+                        {invoices.map((payment) => (
+                          <div key={payment.id}>
+                            <Link
+                              to={`/invoices/${payment.invoice.id}`}
+                              className="text-primary-600 hover:text-primary-700"
+                            >
+                              {payment.invoice.invoiceNumber}
+                            </Link>{" "}
+                            <span className="text-gray-500">
+                              {formatCurrency(payment.amount)}
+                            </span>
+                          </div>
+                        ))}
+                      </td>
+                      <td className="text-right font-medium whitespace-nowrap">
+                        {formatCurrency(cheque.amount)}
+                      </td>
+                      <td>
+                        <span
+                          className={`badge ${chequeStatusColors[cheque.status]}`}
+                        >
+                          {cheque.status}
+                        </span>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {cheque.status === "DEPOSITED" &&
+                            cheque.depositedAt &&
+                            `on ${formatDate(cheque.depositedAt)}`}
+                          {cheque.status === "CLEARED" &&
+                            cheque.clearedAt &&
+                            `on ${formatDate(cheque.clearedAt)}`}
+                          {cheque.status === "BOUNCED" && cheque.bounceReason}
+                        </div>
+                      </td>
+                      <td className="whitespace-nowrap">
+                        {bouncing === cheque.id ? (
+                          <form
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              if (!reason.trim()) {
+                                toast.error("Please enter a reason");
+                                return;
+                              }
+                              bounceMutation.mutate({
+                                id: cheque.id,
+                                reason,
+                              });
+                            }}
+                            className="flex items-center gap-2"
+                          >
+                            <input
+                              type="text"
+                              value={reason}
+                              onChange={(e) => setReason(e.target.value)}
+                              placeholder="e.g. Insufficient funds"
+                              className="input w-48"
+                              autoFocus
+                            />
+                            <button
+                              type="submit"
+                              disabled={busy}
+                              className="btn btn-sm btn-primary"
+                            >
+                              Bounce
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setBouncing(null)}
+                              className="btn btn-sm btn-outline"
+                            >
+                              Cancel
+                            </button>
+                          </form>
+                        ) : (
+                          <div className="flex gap-2">
+                            {cheque.status === "RECEIVED" && (
+                              <button
+                                onClick={() =>
+                                  depositMutation.mutate(cheque.id)
+                                }
+                                disabled={busy || !dueNow}
+                                title={
+                                  dueNow
+                                    ? undefined
+                                    : "Cannot be deposited before the cheque date"
+                                }
+                                className="btn btn-sm btn-outline"
+                              >
+                                Deposit
+                              </button>
+                            )}
+                            {(cheque.status === "RECEIVED" ||
+                              cheque.status === "DEPOSITED") && (
+                              <>
+                                <button
+                                  onClick={() =>
+                                    clearMutation.mutate(cheque.id)
+                                  }
+                                  disabled={busy}
+                                  className="btn btn-sm btn-primary"
+                                >
+                                  Cleared
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setBouncing(cheque.id);
+                                    setReason("");
+                                  }}
+                                  disabled={busy}
+                                  className="btn btn-sm btn-outline text-red-600"
+                                >
+                                  Bounced
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,19 +10,60 @@ import {
 import { CheckIcon, ChevronUpDownIcon } from "@heroicons/react/20/solid";
 import { useForm, useFieldArray } from "react-hook-form";
 import toast from "react-hot-toast";
-import { invoicesAPI, customersAPI, hsnAPI } from "@/lib/api";
+import {
+  invoicesAPI,
+  customersAPI,
+  hsnAPI,
+  productsAPI,
+  quotationsAPI,
+  salesOrdersAPI,
+} from "@/lib/api";
 import { formatCurrency } from "@/lib/utils";
+import type { ExportType, ItemUnit, LineDiscountType } from "@/types";
+
+const ITEM_UNITS: ItemUnit[] = ["PCS", "MTR", "KG", "SET"];
+
+// Rupees first, then the currencies our export buyers pay in
+const CURRENCIES = [
+  "INR",
+  "USD",
+  "AED",
+  "SAR",
+  "OMR",
+  "QAR",
+  "KWD",
+  "BHD",
+  "EUR",
+  "GBP",
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
 
 interface InvoiceItem {
+  productId?: string;
   description: string;
   quantity: number;
+  unit: ItemUnit;
   unitPrice: number;
-  discount: number;
+  discountType: LineDiscountType;
+  discountValue: number;
   taxRate: number;
   amount: number;
   hsnCode?: string;
+  salesOrderItemId?: string;
 }
 
+// Line value after its trade discount; tax is charged on this
+const lineAmount = (item?: Partial<InvoiceItem>) => {
+  const gross = (item?.quantity || 0) * (item?.unitPrice || 0);
+  const value = item?.discountValue || 0;
+  const discount =
+    item?.discountType === "FLAT"
+      ? Math.min(value, gross)
+      : gross * (Math.min(value, 100) / 100);
+  return gross - discount;
+};
+
 interface FormData {
   customerId: string;
   // Customer Details (for display or new creation)
@@ -59,6 +100,16 @@ interface FormData {
   billOfLading?: string;
   motorVehicleNo?: string;
   termsOfDelivery?: string;
+  transporterId?: string;
+  transportDistance?: number | string;
+  // Export fields; prices are entered in the invoice currency
+  currency: string;
+  exchangeRate: number;
+  exportType: ExportType | "";
+  lutNumber?: string;
+  portCode?: string;
+  shippingBillNumber?: string;
+  shippingBillDate?: string;
 }
 
 export default function CreateInvoice() {
@@ -67,6 +118,8 @@ export default function CreateInvoice() {
   const queryClient = useQueryClient();
   const [searchParams] = useSearchParams();
   const preselectedCustomerId = searchParams.get("customerId") || "";
+  const quotationId = searchParams.get("quotationId") || "";
+  const salesOrderId = searchParams.get("salesOrderId") || "";
   const [query, setQuery] = useState("");
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
 
@@ -100,6 +153,20 @@ export default function CreateInvoice() {
     select: (res: any) => res.data,
   });
 
+  const { data: quotation } = useQuery({
+    queryKey: ["quotation", quotationId],
+    queryFn: () => quotationsAPI.getById(quotationId),
+    enabled: !isEdit && Boolean(quotationId),
+    select: (res: any) => res.data,
+  });
+
+  const { data: salesOrder } = useQuery({
+    queryKey: ["sales-order", salesOrderId],
+    queryFn: () => salesOrdersAPI.getById(salesOrderId),
+    enabled: !isEdit && Boolean(salesOrderId),
+    select: (res: any) => res.data,
+  });
+
   const { data: hsns } = useQuery({
     queryKey: ["hsn"],
     queryFn: hsnAPI.getAll,
@@ -124,7 +191,9 @@ export default function CreateInvoice() {
             description: "",
             quantity: 1,
             unitPrice: 0,
-            discount: 0,
+            unit: "PCS",
+            discountType: "PERCENTAGE",
+            discountValue: 0,
             taxRate: 18,
             amount: 0,
             hsnCode: "",
@@ -146,6 +215,15 @@ export default function CreateInvoice() {
         billOfLading: "",
         motorVehicleNo: "",
         termsOfDelivery: "",
+        transporterId: "",
+        transportDistance: "",
+        currency: "INR",
+        exchangeRate: 1,
+        exportType: "",
+        lutNumber: "",
+        portCode: "",
+        shippingBillNumber: "",
+        shippingBillDate: "",
       },
     });
 
@@ -154,6 +232,12 @@ export default function CreateInvoice() {
       // Pre-populate form with invoice data
       console.log("Invoice data loaded:", invoice);
 
+      // Amounts are stored in rupees; the form shows them in the invoice
+      // currency as entered, converting only invoices saved without them
+      const rate = Number(invoice.exchangeRate) || 1;
+      const asEntered = (entered: any, value: any) =>
+        entered != null ? Number(entered) : round2(Number(value || 0) / rate);
+
       // Reset entire form with invoice data
       const formData = {
         customerId: invoice.customerId,
@@ -174,10 +258,10 @@ export default function CreateInvoice() {
         notes: invoice.notes || "",
         terms: invoice.terms || "",
         shippingAddress: invoice.shippingAddress || "",
-        discountType: invoice.discountType || "percentage",
-        discountValue: invoice.discountValue || 0,
+        discountType: "percentage" as const,
+        discountValue: Number(invoice.discountRate || 0),
         taxRate: invoice.taxRate || 18,
-        roundOff: Number(invoice.roundOff || 0),
+        roundOff: asEntered(invoice.foreignRoundOff, invoice.roundOff),
         deliveryNote: invoice.deliveryNote || "",
         deliveryNoteDate: invoice.deliveryNoteDate
           ? invoice.deliveryNoteDate.split("T")[0]
@@ -194,11 +278,27 @@ export default function CreateInvoice() {
         billOfLading: invoice.billOfLading || "",
         motorVehicleNo: invoice.motorVehicleNo || "",
         termsOfDelivery: invoice.termsOfDelivery || "",
+        transporterId: invoice.transporterId || "",
+        transportDistance: invoice.transportDistance ?? "",
+        currency: invoice.currency || "INR",
+        exchangeRate: rate,
+        exportType: invoice.exportType || ("" as const),
+        lutNumber: invoice.lutNumber || "",
+        portCode: invoice.portCode || "",
+        shippingBillNumber: invoice.shippingBillNumber || "",
+        shippingBillDate: invoice.shippingBillDate
+          ? invoice.shippingBillDate.split("T")[0]
+          : "",
         items: (invoice.items || []).map((item: any) => ({
           ...item,
+          unit: item.unit || "PCS",
+          discountType: item.discountType || "PERCENTAGE",
           quantity: Number(item.quantity),
-          unitPrice: Number(item.unitPrice),
-          discount: Number(item.discount || 0),
+          unitPrice: asEntered(item.foreignUnitPrice, item.unitPrice),
+          discountValue:
+            item.discountType === "FLAT"
+              ? asEntered(item.foreignDiscountValue, item.discountValue)
+              : Number(item.discountValue || 0),
           taxRate: Number(item.taxRate || 18),
         })),
       };
@@ -239,27 +339,152 @@ export default function CreateInvoice() {
         setValue("billOfLading", formData.billOfLading);
         setValue("motorVehicleNo", formData.motorVehicleNo);
         setValue("termsOfDelivery", formData.termsOfDelivery);
+        setValue("transporterId", formData.transporterId);
+        setValue("transportDistance", formData.transportDistance);
+        setValue("currency", formData.currency);
+        setValue("exchangeRate", formData.exchangeRate);
+        setValue("exportType", formData.exportType);
+        setValue("lutNumber", formData.lutNumber);
+        setValue("portCode", formData.portCode);
+        setValue("shippingBillNumber", formData.shippingBillNumber);
+        setValue("shippingBillDate", formData.shippingBillDate);
         console.log("Individual setValue calls completed");
       }, 100);
     }
   }, [invoice, reset, setValue]);
 
+  // Converting a quotation: start from its customer, items and terms
+  useEffect(() => {
+    if (!quotation) return;
+    const customer = quotation.customer || {};
+    reset((values) => ({
+      ...values,
+      customerId: quotation.customerId,
+      customerName: customer.name || "",
+      customerEmail: customer.email || "",
+      customerPhone: customer.phone || "",
+      customerAddress: customer.address || "",
+      customerCity: customer.city || "",
+      customerState: customer.state || "",
+      customerPincode: customer.pincode || "",
+      customerGst: customer.gstNumber || "",
+      customerPan: customer.panNumber || "",
+      notes: quotation.notes || "",
+      terms: quotation.terms || "",
+      discountType: "percentage",
+      discountValue: Number(quotation.discountRate || 0),
+      roundOff: Number(quotation.roundOff || 0),
+      items: (quotation.items || []).map((item: any) => ({
+        productId: item.productId || "",
+        description: item.description,
+        hsnCode: item.hsnCode || "",
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unitPrice),
+        unit: "PCS",
+        discountType: "PERCENTAGE",
+        discountValue: 0,
+        taxRate: Number(item.taxRate || 0),
+        amount: Number(item.amount),
+      })),
+    }));
+  }, [quotation, reset]);
+
+  // Invoicing a sales order: bill what is still pending on each line
+  useEffect(() => {
+    if (!salesOrder) return;
+    const customer = salesOrder.customer || {};
+    reset((values) => ({
+      ...values,
+      customerId: salesOrder.customerId,
+      customerName: customer.name || "",
+      customerEmail: customer.email || "",
+      customerPhone: customer.phone || "",
+      customerAddress: customer.address || "",
+      customerCity: customer.city || "",
+      customerState: customer.state || "",
+      customerPincode: customer.pincode || "",
+      customerGst: customer.gstNumber || "",
+      customerPan: customer.panNumber || "",
+      buyersOrderNo: salesOrder.buyersOrderNo || salesOrder.orderNumber,
+      buyersOrderDate: (
+        salesOrder.buyersOrderDate || salesOrder.orderDate
+      ).split("T")[0],
+      terms: salesOrder.terms || "",
+      items: (salesOrder.items || [])
+        .filter((item: any) => item.pendingInvoiceQty > 0)
+        .map((item: any) => ({
+          description: item.description,
+          hsnCode: item.hsnCode || "",
+          quantity: item.pendingInvoiceQty,
+          unitPrice: Number(item.unitPrice),
+          unit: "PCS",
+          discountType: "PERCENTAGE",
+          discountValue: 0,
+          taxRate: Number(item.taxRate || 0),
+          amount: item.pendingInvoiceQty * Number(item.unitPrice),
+          salesOrderItemId: item.id,
+        })),
+    }));
+  }, [salesOrder, reset]);
+
   const { fields, append, remove } = useFieldArray({
     control,
     name: "items",
   });
 
   const watchItems = watch("items") || [];
+  const watchCustomerId = watch("customerId");
+
+  // Priced for the selected customer where they have a price list rate
+  const { data: products } = useQuery({
+    queryKey: ["products", { customerId: watchCustomerId, isActive: true }],
+    queryFn: () =>
+      productsAPI.getAll({
+        limit: 1000,
+        isActive: true,
+        customerId: watchCustomerId || undefined,
+      }),
+    select: (res) => res.data,
+  });
+
+  // Fill a line from the product master; the fields stay editable
+  const applyProduct = (index: number, productId: string) => {
+    const product = products?.find((p) => p.id === productId);
+    if (!product) return;
+    setValue(`items.${index}.description`, product.name);
+    setValue(`items.${index}.hsnCode`, product.hsn?.code || "");
+    if (product.hsn) {
+      setValue(`items.${index}.taxRate`, Number(product.hsn.taxRate));
+    }
+    setValue(`items.${index}.unit`, product.unit);
+    setValue(
+      `items.${index}.unitPrice`,
+      round2(Number(product.price ?? product.basePrice) / exchangeRate),
+    );
+  };
+
+  const productOptions = (
+    <>
+      <option value="">Custom item</option>
+      {products?.map((product) => (
+        <option key={product.id} value={product.id}>
+          {product.sku} - {product.name}
+        </option>
+      ))}
+    </>
+  );
+  const watchCurrency = watch("currency") || "INR";
+  const watchExportType = watch("exportType");
+  const isForeign = watchCurrency !== "INR";
+  const exchangeRate = isForeign ? Number(watch("exchangeRate")) || 1 : 1;
+  const money = (amount: number) => formatCurrency(amount, watchCurrency);
+
   const watchDiscountType = watch("discountType");
   const watchDiscountValue = watch("discountValue");
   const watchRoundOff = watch("roundOff") || 0;
 
   // Calculate totals
-  const subtotal = watchItems.reduce((sum, item) => {
-    const itemTotal = (item.quantity || 0) * (item.unitPrice || 0);
-    const itemDiscount = itemTotal * ((item.discount || 0) / 100);
-    return sum + (itemTotal - itemDiscount);
-  }, 0);
+  const subtotal = watchItems.reduce((sum, item) => sum + lineAmount(item), 0);
 
   const discountAmount =
     watchDiscountType === "percentage"
@@ -268,12 +493,14 @@ export default function CreateInvoice() {
 
   const taxableAmount = subtotal - discountAmount;
 
-  const taxAmount = watchItems.reduce((sum, item) => {
-    const itemTotal = (item.quantity || 0) * (item.unitPrice || 0);
-    const itemDiscount = itemTotal * ((item.discount || 0) / 100);
-    const itemTaxable = itemTotal - itemDiscount;
-    return sum + itemTaxable * ((item.taxRate || 0) / 100);
-  }, 0);
+  // Exports under LUT are zero-rated
+  const taxAmount =
+    watchExportType === "UNDER_LUT"
+      ? 0
+      : watchItems.reduce(
+          (sum, item) => sum + lineAmount(item) * ((item.taxRate || 0) / 100),
+          0,
+        );
 
   const totalBeforeRoundOff = taxableAmount + taxAmount;
   const totalAmount = totalBeforeRoundOff + watchRoundOff;
@@ -395,19 +622,37 @@ export default function CreateInvoice() {
       }
     }
 
+    // The server works in rupees whatever the invoice currency, and keeps
+    // foreign prices as entered alongside
+    const toInr = (value: number) => round2((value || 0) * exchangeRate);
+    const asEntered = (value: number) => (isForeign ? value || 0 : null);
+
     const invoiceData = {
       ...data,
       customerId: finalCustomerId,
-      subtotal,
-      discountAmount,
-      taxAmount,
-      totalAmount,
+      quotationId: !isEdit && quotation ? quotation.id : undefined,
+      salesOrderId: !isEdit && salesOrder ? salesOrder.id : undefined,
+      exchangeRate,
+      exportType: data.exportType || null,
+      subtotal: toInr(subtotal),
+      // The server keeps the invoice-level discount as a rate
+      discountRate: subtotal > 0 ? (discountAmount / subtotal) * 100 : 0,
+      discountAmount: toInr(discountAmount),
+      taxAmount: toInr(taxAmount),
+      totalAmount: toInr(totalAmount),
+      roundOff: toInr(data.roundOff),
+      foreignRoundOff: asEntered(data.roundOff),
       items: data.items.map((item) => ({
         ...item,
-        amount:
-          (item.quantity || 0) *
-          (item.unitPrice || 0) *
-          (1 - (item.discount || 0) / 100),
+        unitPrice: toInr(item.unitPrice),
+        discountValue:
+          item.discountType === "FLAT"
+            ? toInr(item.discountValue)
+            : item.discountValue,
+        amount: toInr(lineAmount(item)),
+        foreignUnitPrice: asEntered(item.unitPrice),
+        foreignDiscountValue:
+          item.discountType === "FLAT" ? asEntered(item.discountValue) : null,
       })),
     };
 
@@ -423,7 +668,9 @@ export default function CreateInvoice() {
       description: "",
       quantity: 1,
       unitPrice: 0,
-      discount: 0,
+      unit: "PCS",
+      discountType: "PERCENTAGE",
+      discountValue: 0,
       taxRate: 18,
       amount: 0,
     });
@@ -438,9 +685,21 @@ export default function CreateInvoice() {
         >
           <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
         </button>
-        <h1 className="text-2xl font-bold text-gray-900">
-          {isEdit ? "Edit Invoice" : "Create Invoice"}
-        </h1>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {isEdit ? "Edit Invoice" : "Create Invoice"}
+          </h1>
+          {!isEdit && quotation && (
+            <p className="text-sm text-gray-500">
+              From quotation {quotation.quotationNumber}
+            </p>
+          )}
+          {!isEdit && salesOrder && (
+            <p className="text-sm text-gray-500">
+              Against sales order {salesOrder.orderNumber}
+            </p>
+          )}
+        </div>
       </div>
 
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
@@ -701,6 +960,7 @@ export default function CreateInvoice() {
               <input
                 type="text"
                 {...register("buyersOrderNo")}
+                readOnly={Boolean(salesOrder)}
                 className="input h-8 text-sm py-0"
               />
             </div>
@@ -709,6 +969,7 @@ export default function CreateInvoice() {
               <input
                 type="date"
                 {...register("buyersOrderDate")}
+                readOnly={Boolean(salesOrder)}
                 className="input h-8 text-sm py-0"
               />
             </div>
@@ -760,6 +1021,24 @@ export default function CreateInvoice() {
                 className="input h-8 text-sm py-0"
               />
             </div>
+            <div>
+              <label className="label text-xs">Transporter ID</label>
+              <input
+                type="text"
+                {...register("transporterId")}
+                className="input h-8 text-sm py-0"
+                placeholder="GSTIN / TRANSIN"
+              />
+            </div>
+            <div>
+              <label className="label text-xs">Distance (km)</label>
+              <input
+                type="number"
+                min={0}
+                {...register("transportDistance")}
+                className="input h-8 text-sm py-0"
+              />
+            </div>
             <div className="md:col-span-4">
               <label className="label text-xs">Terms of Delivery</label>
               <textarea
@@ -771,6 +1050,104 @@ export default function CreateInvoice() {
           </div>
         </div>
 
+        {/* Export & Currency */}
+        <div className="card">
+          <h2 className="text-md font-semibold text-gray-900 mb-2 pb-2 border-b">
+            Export & Currency
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+            <div>
+              <label className="label text-xs">Currency</label>
+              <select
+                {...register("currency")}
+                className="input h-8 text-sm py-0"
+              >
+                {CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {isForeign && (
+              <div>
+                <label className="label text-xs">
+                  Exchange Rate (₹ per {watchCurrency})
+                </label>
+                <input
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  {...register("exchangeRate", {
+                    valueAsNumber: true,
+                    validate: (value) =>
+                      value > 0 || "Exchange rate is required",
+                  })}
+                  className="input h-8 text-sm py-0"
+                />
+              </div>
+            )}
+            <div>
+              <label className="label text-xs">Export Type</label>
+              <select
+                {...register("exportType")}
+                className="input h-8 text-sm py-0"
+              >
+                <option value="">Not an export</option>
+                <option value="WITH_IGST">Export with payment of IGST</option>
+                <option value="UNDER_LUT">Export under LUT (no IGST)</option>
+              </select>
+            </div>
+            {watchExportType === "UNDER_LUT" && (
+              <div>
+                <label className="label text-xs">LUT Number</label>
+                <input
+                  type="text"
+                  {...register("lutNumber")}
+                  className="input h-8 text-sm py-0"
+                  placeholder="ARN of the LUT"
+                />
+              </div>
+            )}
+            {watchExportType && (
+              <>
+                <div>
+                  <label className="label text-xs">Port Code</label>
+                  <input
+                    type="text"
+                    maxLength={6}
+                    {...register("portCode")}
+                    className="input h-8 text-sm py-0 uppercase"
+                    placeholder="e.g. INNSA1"
+                  />
+                </div>
+                <div>
+                  <label className="label text-xs">Shipping Bill No.</label>
+                  <input
+                    type="text"
+                    {...register("shippingBillNumber")}
+                    className="input h-8 text-sm py-0"
+                  />
+                </div>
+                <div>
+                  <label className="label text-xs">Shipping Bill Date</label>
+                  <input
+                    type="date"
+                    {...register("shippingBillDate")}
+                    className="input h-8 text-sm py-0"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          {isForeign && (
+            <p className="text-xs text-gray-500 mt-2">
+              Enter prices in {watchCurrency}. GST and all reports use the rupee
+              value at this rate.
+            </p>
+          )}
+        </div>
+
         {/* Invoice Items */}
         <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
           <div className="flex items-center justify-between mb-4">
@@ -802,11 +1179,14 @@ export default function CreateInvoice() {
                     <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
                       Qty
                     </th>
+                    <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
+                      Unit
+                    </th>
                     <th className="text-left py-2 text-sm font-medium text-gray-500 w-32">
                       Unit Price
                     </th>
-                    <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
-                      Disc %
+                    <th className="text-left py-2 text-sm font-medium text-gray-500 w-40">
+                      Discount
                     </th>
                     <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
                       Tax %
@@ -819,16 +1199,20 @@ export default function CreateInvoice() {
                 </thead>
                 <tbody>
                   {fields.map((field, index) => {
-                    const item = watchItems[index];
-                    const itemTotal =
-                      (item?.quantity || 0) * (item?.unitPrice || 0);
-                    const itemDiscount =
-                      itemTotal * ((item?.discount || 0) / 100);
-                    const itemAmount = itemTotal - itemDiscount;
+                    const itemAmount = lineAmount(watchItems[index]);
 
                     return (
                       <tr key={field.id} className="border-b border-gray-100">
                         <td className="py-2 pr-2">
+                          <select
+                            {...register(`items.${index}.productId` as const, {
+                              onChange: (e) =>
+                                applyProduct(index, e.target.value),
+                            })}
+                            className="input text-sm mb-1"
+                          >
+                            {productOptions}
+                          </select>
                           <input
                             {...register(
                               `items.${index}.description` as const,
@@ -869,14 +1253,27 @@ export default function CreateInvoice() {
                         <td className="py-2 pr-2">
                           <input
                             type="number"
+                            step="0.01"
                             {...register(`items.${index}.quantity` as const, {
                               valueAsNumber: true,
-                              min: 1,
+                              min: 0.01,
                             })}
                             className="input text-sm"
-                            min="1"
+                            min="0.01"
                           />
                         </td>
+                        <td className="py-2 pr-2">
+                          <select
+                            {...register(`items.${index}.unit` as const)}
+                            className="input text-sm"
+                          >
+                            {ITEM_UNITS.map((unit) => (
+                              <option key={unit} value={unit}>
+                                {unit}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
                         <td className="py-2 pr-2">
                           <input
                             type="number"
@@ -890,17 +1287,27 @@ export default function CreateInvoice() {
                           />
                         </td>
                         <td className="py-2 pr-2">
-                          <input
-                            type="number"
-                            {...register(`items.${index}.discount` as const, {
-                              valueAsNumber: true,
-                              min: 0,
-                              max: 100,
-                            })}
-                            className="input text-sm"
-                            min="0"
-                            max="100"
-                          />
+                          <div className="flex gap-1">
+                            <input
+                              type="number"
+                              step="0.01"
+                              {...register(
+                                `items.${index}.discountValue` as const,
+                                { valueAsNumber: true, min: 0 },
+                              )}
+                              className="input text-sm"
+                              min="0"
+                            />
+                            <select
+                              {...register(
+                                `items.${index}.discountType` as const,
+                              )}
+                              className="input text-sm w-16 px-2"
+                            >
+                              <option value="PERCENTAGE">%</option>
+                              <option value="FLAT">₹</option>
+                            </select>
+                          </div>
                         </td>
                         <td className="py-2 pr-2">
                           <input
@@ -914,7 +1321,7 @@ export default function CreateInvoice() {
                           />
                         </td>
                         <td className="py-2 text-right font-medium">
-                          {formatCurrency(itemAmount)}
+                          {money(itemAmount)}
                         </td>
                         <td className="py-2 pl-2">
                           {fields.length > 1 && (
@@ -939,11 +1346,7 @@ export default function CreateInvoice() {
           {isMobile && (
             <div className="md:hidden space-y-4">
               {fields.map((field, index) => {
-                const item = watchItems[index];
-                const itemTotal =
-                  (item?.quantity || 0) * (item?.unitPrice || 0);
-                const itemDiscount = itemTotal * ((item?.discount || 0) / 100);
-                const itemAmount = itemTotal - itemDiscount;
+                const itemAmount = lineAmount(watchItems[index]);
 
                 return (
                   <div
@@ -966,6 +1369,22 @@ export default function CreateInvoice() {
                     </div>
 
                     <div className="space-y-3">
+                      {/* Product */}
+                      <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">
+                          Product
+                        </label>
+                        <select
+                          {...register(`items.${index}.productId` as const, {
+                            onChange: (e) =>
+                              applyProduct(index, e.target.value),
+                          })}
+                          className="input text-sm w-full"
+                        >
+                          {productOptions}
+                        </select>
+                      </div>
+
                       {/* Description */}
                       <div>
                         <label className="block text-xs font-medium text-gray-500 mb-1">
@@ -1017,15 +1436,28 @@ export default function CreateInvoice() {
                           <label className="block text-xs font-medium text-gray-500 mb-1">
                             Quantity
                           </label>
-                          <input
-                            type="number"
-                            {...register(`items.${index}.quantity` as const, {
-                              valueAsNumber: true,
-                              min: 1,
-                            })}
-                            className="input text-sm w-full"
-                            min="1"
-                          />
+                          <div className="flex gap-1">
+                            <input
+                              type="number"
+                              step="0.01"
+                              {...register(`items.${index}.quantity` as const, {
+                                valueAsNumber: true,
+                                min: 0.01,
+                              })}
+                              className="input text-sm w-full"
+                              min="0.01"
+                            />
+                            <select
+                              {...register(`items.${index}.unit` as const)}
+                              className="input text-sm w-20 px-2"
+                            >
+                              {ITEM_UNITS.map((unit) => (
+                                <option key={unit} value={unit}>
+                                  {unit}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
                         </div>
                         <div>
                           <label className="block text-xs font-medium text-gray-500 mb-1">
@@ -1048,19 +1480,29 @@ export default function CreateInvoice() {
                       <div className="grid grid-cols-2 gap-3">
                         <div>
                           <label className="block text-xs font-medium text-gray-500 mb-1">
-                            Discount %
+                            Discount
                           </label>
-                          <input
-                            type="number"
-                            {...register(`items.${index}.discount` as const, {
-                              valueAsNumber: true,
-                              min: 0,
-                              max: 100,
-                            })}
-                            className="input text-sm w-full"
-                            min="0"
-                            max="100"
-                          />
+                          <div className="flex gap-1">
+                            <input
+                              type="number"
+                              step="0.01"
+                              {...register(
+                                `items.${index}.discountValue` as const,
+                                { valueAsNumber: true, min: 0 },
+                              )}
+                              className="input text-sm w-full"
+                              min="0"
+                            />
+                            <select
+                              {...register(
+                                `items.${index}.discountType` as const,
+                              )}
+                              className="input text-sm w-16 px-2"
+                            >
+                              <option value="PERCENTAGE">%</option>
+                              <option value="FLAT">₹</option>
+                            </select>
+                          </div>
                         </div>
                         <div>
                           <label className="block text-xs font-medium text-gray-500 mb-1">
@@ -1085,7 +1527,7 @@ export default function CreateInvoice() {
                             Amount:
                           </span>
                           <span className="text-lg font-semibold text-gray-900">
-                            {formatCurrency(itemAmount)}
+                            {money(itemAmount)}
                           </span>
                         </div>
                       </div>
@@ -1142,7 +1584,7 @@ export default function CreateInvoice() {
             <div className="space-y-3">
               <div className="flex justify-between text-sm">
                 <span className="text-gray-500">Subtotal</span>
-                <span className="font-medium">{formatCurrency(subtotal)}</span>
+                <span className="font-medium">{money(subtotal)}</span>
               </div>
 
               <div className="flex items-center gap-2">
@@ -1161,13 +1603,13 @@ export default function CreateInvoice() {
                   min="0"
                 />
                 <span className="ml-auto font-medium text-red-600">
-                  -{formatCurrency(discountAmount)}
+                  -{money(discountAmount)}
                 </span>
               </div>
 
               <div className="flex justify-between text-sm">
                 <span className="text-gray-500">Tax</span>
-                <span className="font-medium">{formatCurrency(taxAmount)}</span>
+                <span className="font-medium">{money(taxAmount)}</span>
               </div>
 
               <div className="flex items-center gap-2">
@@ -1191,7 +1633,7 @@ export default function CreateInvoice() {
                   }`}
                 >
                   {watchRoundOff >= 0 ? "+" : ""}
-                  {formatCurrency(watchRoundOff)}
+                  {money(watchRoundOff)}
                 </span>
               </div>
 
@@ -1200,9 +1642,17 @@ export default function CreateInvoice() {
                   Total
                 </span>
                 <span className="text-lg font-bold text-primary-600">
-                  {formatCurrency(totalAmount)}
+                  {money(totalAmount)}
                 </span>
               </div>
+              {isForeign && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-500">In INR @ {exchangeRate}</span>
+                  <span className="font-medium">
+                    {formatCurrency(totalAmount * exchangeRate)}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
         </div>
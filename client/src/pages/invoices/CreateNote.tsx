@@ -0,0 +1,417 @@
+import { useEffect } from "react";
+import {
+  Link,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { useForm, useFieldArray } from "react-hook-form";
+import toast from "react-hot-toast";
+import { invoiceNotesAPI, invoicesAPI, materialsAPI } from "@/lib/api";
+import { formatCurrency } from "@/lib/utils";
+import type { NoteType } from "@/types";
+
+interface NoteItem {
+  description: string;
+  hsnCode?: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate: number;
+  materialId?: string;
+}
+
+interface FormData {
+  noteType: NoteType;
+  issueDate: string;
+  reason: string;
+  items: NoteItem[];
+  returnToStock: boolean;
+  roundOff: number;
+  notes: string;
+}
+
+const REASONS: Record<NoteType, string[]> = {
+  CREDIT: [
+    "Goods returned",
+    "Rate difference",
+    "Discount after sale",
+    "Deficiency in goods",
+  ],
+  DEBIT: ["Rate difference", "Additional charges", "Short billing"],
+};
+
+export default function CreateNote() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const initialType: NoteType =
+    searchParams.get("type") === "DEBIT" ? "DEBIT" : "CREDIT";
+
+  const { data: invoice, isLoading } = useQuery({
+    queryKey: ["invoice", id],
+    queryFn: () => invoicesAPI.getById(id!),
+    select: (res: any) => res.data,
+  });
+
+  const { data: materials } = useQuery({
+    queryKey: ["materials-list"],
+    queryFn: () => materialsAPI.getAll({ limit: 200 }),
+    select: (res: any) => res.data || [],
+  });
+
+  const { register, control, handleSubmit, watch, reset } = useForm<FormData>({
+    defaultValues: {
+      noteType: initialType,
+      issueDate: new Date().toISOString().split("T")[0],
+      reason: REASONS[initialType][0],
+      items: [],
+      returnToStock: false,
+      roundOff: 0,
+      notes: "",
+    },
+  });
+
+  // Start from the invoice lines; the user trims them to what is adjusted
+  useEffect(() => {
+    if (!invoice) return;
+    reset((values) => ({
+      ...values,
+      items: invoice.items.map((item: any) => ({
+        description: item.description,
+        hsnCode: item.hsnCode || "",
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unitPrice),
+        taxRate: Number(item.taxRate),
+        materialId: "",
+      })),
+    }));
+  }, [invoice, reset]);
+
+  const { fields, append, remove } = useFieldArray({ control, name: "items" });
+
+  const noteType = watch("noteType");
+  const returnToStock = watch("returnToStock");
+  const watchItems = watch("items") || [];
+  const roundOff = Number(watch("roundOff") || 0);
+
+  const subtotal = watchItems.reduce(
+    (sum, item) => sum + (item.quantity || 0) * (item.unitPrice || 0),
+    0,
+  );
+  const taxAmount = watchItems.reduce(
+    (sum, item) =>
+      sum +
+      (item.quantity || 0) *
+        (item.unitPrice || 0) *
+        ((item.taxRate || 0) / 100),
+    0,
+  );
+  const totalAmount = subtotal + taxAmount + roundOff;
+
+  const createMutation = useMutation({
+    mutationFn: (data: any) => invoiceNotesAPI.create(data),
+    onSuccess: (response: any) => {
+      queryClient.invalidateQueries({ queryKey: ["invoice", id] });
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["invoice-notes"] });
+      toast.success(
+        `${noteType === "CREDIT" ? "Credit" : "Debit"} note created`,
+      );
+      navigate(`/invoices/notes/${response.data.id}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to create note");
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    if (data.items.length === 0) {
+      toast.error("Add at least one item");
+      return;
+    }
+
+    const stockReturn = data.noteType === "CREDIT" && data.returnToStock;
+    createMutation.mutate({
+      invoiceId: id,
+      noteType: data.noteType,
+      issueDate: data.issueDate,
+      reason: data.reason,
+      roundOff: Number(data.roundOff || 0),
+      returnToStock: stockReturn,
+      notes: data.notes,
+      items: data.items.map((item) => ({
+        ...item,
+        materialId: stockReturn ? item.materialId || undefined : undefined,
+      })),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link
+          to={`/invoices/${id}`}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            New {noteType === "CREDIT" ? "Credit" : "Debit"} Note
+          </h1>
+          <p className="text-sm text-gray-500">
+            Against {invoice?.invoiceNumber} - {invoice?.customer?.name}
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div className="card grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="label">Note Type *</label>
+            <select {...register("noteType")} className="input">
+              <option value="CREDIT">Credit Note (reduce amount)</option>
+              <option value="DEBIT">Debit Note (increase amount)</option>
+            </select>
+          </div>
+          <div>
+            <label className="label">Date *</label>
+            <input
+              type="date"
+              {...register("issueDate", { required: true })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Reason *</label>
+            <input
+              list="note-reasons"
+              {...register("reason", { required: true })}
+              className="input"
+            />
+            <datalist id="note-reasons">
+              {REASONS[noteType].map((reason) => (
+                <option key={reason} value={reason} />
+              ))}
+            </datalist>
+          </div>
+          {noteType === "CREDIT" && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 md:col-span-3">
+              <input
+                type="checkbox"
+                {...register("returnToStock")}
+                className="rounded border-gray-300"
+              />
+              Goods returned - put the quantities back into material stock
+            </label>
+          )}
+        </div>
+
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Items</h2>
+            <button
+              type="button"
+              onClick={() =>
+                append({
+                  description: "",
+                  hsnCode: "",
+                  quantity: 1,
+                  unitPrice: 0,
+                  taxRate: 5,
+                  materialId: "",
+                })
+              }
+              className="btn btn-outline btn-sm gap-1"
+            >
+              <PlusIcon className="h-4 w-4" />
+              Add Item
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 text-sm font-medium text-gray-500">
+                    Description
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-28">
+                    HSN/SAC
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
+                    Qty
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-32">
+                    Unit Price
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
+                    Tax %
+                  </th>
+                  {noteType === "CREDIT" && returnToStock && (
+                    <th className="text-left py-2 text-sm font-medium text-gray-500 w-48">
+                      Return to Material
+                    </th>
+                  )}
+                  <th className="text-right py-2 text-sm font-medium text-gray-500 w-32">
+                    Amount
+                  </th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((field, index) => {
+                  const item = watchItems[index];
+                  const amount = (item?.quantity || 0) * (item?.unitPrice || 0);
+
+                  return (
+                    <tr key={field.id} className="border-b border-gray-100">
+                      <td className="py-2 pr-2">
+                        <input
+                          {...register(`items.${index}.description` as const, {
+                            required: true,
+                          })}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          {...register(`items.${index}.hsnCode` as const)}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.quantity` as const, {
+                            valueAsNumber: true,
+                            min: 0.01,
+                          })}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.unitPrice` as const, {
+                            valueAsNumber: true,
+                            min: 0,
+                          })}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.taxRate` as const, {
+                            valueAsNumber: true,
+                            min: 0,
+                          })}
+                          className="input text-sm"
+                        />
+                      </td>
+                      {noteType === "CREDIT" && returnToStock && (
+                        <td className="py-2 pr-2">
+                          <select
+                            {...register(`items.${index}.materialId` as const)}
+                            className="input text-sm"
+                          >
+                            <option value="">Not stocked</option>
+                            {materials?.map((material: any) => (
+                              <option key={material.id} value={material.id}>
+                                {material.name} ({material.unit})
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      )}
+                      <td className="py-2 text-right font-medium">
+                        {formatCurrency(amount)}
+                      </td>
+                      <td className="py-2 pl-2">
+                        <button
+                          type="button"
+                          onClick={() => remove(index)}
+                          className="p-1 text-red-500 hover:bg-red-50 rounded"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="card">
+            <label className="label">Notes</label>
+            <textarea {...register("notes")} rows={4} className="input" />
+          </div>
+          <div className="card space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Taxable Value</span>
+              <span>{formatCurrency(subtotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">
+                {invoice?.isInterState ? "IGST" : "CGST + SGST"}
+              </span>
+              <span>{formatCurrency(taxAmount)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-500">Round Off</span>
+              <input
+                type="number"
+                step="0.01"
+                {...register("roundOff", { valueAsNumber: true })}
+                className="input text-sm w-28 text-right"
+              />
+            </div>
+            <div className="flex justify-between border-t border-gray-200 pt-2 text-base font-semibold">
+              <span>Note Total</span>
+              <span>{formatCurrency(totalAmount)}</span>
+            </div>
+            <p className="text-xs text-gray-500">
+              Invoice total {formatCurrency(invoice?.totalAmount || 0)}, already
+              credited {formatCurrency(invoice?.creditedAmount || 0)}.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Link to={`/invoices/${id}`} className="btn btn-outline">
+            Cancel
+          </Link>
+          <button
+            type="submit"
+            disabled={createMutation.isPending}
+            className="btn btn-primary"
+          >
+            {createMutation.isPending ? "Saving..." : "Create Note"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { Fragment, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { XMarkIcon, ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { invoicesAPI } from "@/lib/api";
+import type { Invoice } from "@/types";
+
+// Value for a datetime-local input in the browser's timezone
+const toLocalInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+
+interface EwayBillModalProps {
+  invoice: Invoice;
+  onClose: () => void;
+}
+
+export default function EwayBillModal({
+  invoice,
+  onClose,
+}: EwayBillModalProps) {
+  const queryClient = useQueryClient();
+  const [errors, setErrors] = useState<string[]>([]);
+  const [ewbNumber, setEwbNumber] = useState(invoice.ewbNumber || "");
+  const [ewbDate, setEwbDate] = useState(
+    toLocalInput(invoice.ewbDate ? new Date(invoice.ewbDate) : new Date()),
+  );
+  const [ewbValidUntil, setEwbValidUntil] = useState(
+    invoice.ewbValidUntil ? toLocalInput(new Date(invoice.ewbValidUntil)) : "",
+  );
+
+  const handleDownload = async () => {
+    try {
+      const res = await invoicesAPI.getEwayBill(invoice.id);
+      setErrors([]);
+      const blob = new Blob([JSON.stringify(res.data, null, 2)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `EWB_${invoice.invoiceNumber}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      const data = error.response?.data;
+      setErrors(data?.errors || []);
+      toast.error(data?.message || "Failed to generate e-way bill JSON");
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: any) => invoicesAPI.saveEwayBill(invoice.id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoice", invoice.id] });
+      toast.success("E-way bill saved");
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to save e-way bill");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^\d{12}$/.test(ewbNumber)) {
+      toast.error("E-way bill number must be 12 digits");
+      return;
+    }
+
+    saveMutation.mutate({
+      ewbNumber,
+      ewbDate: new Date(ewbDate).toISOString(),
+      ewbValidUntil: ewbValidUntil
+        ? new Date(ewbValidUntil).toISOString()
+        : undefined,
+    });
+  };
+
+  return (
+    <Transition.Root show as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-xl bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-md">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                  <Dialog.Title className="text-lg font-semibold text-gray-900">
+                    E-Way Bill
+                  </Dialog.Title>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-500"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                  <div className="bg-primary-50 p-4 rounded-lg space-y-2">
+                    <p className="text-sm text-gray-600">
+                      Download the bulk-upload JSON and upload it on the e-way
+                      bill portal, then record the bill number below.
+                    </p>
+                    <button
+                      type="button"
+                      onClick={handleDownload}
+                      className="btn btn-outline inline-flex items-center gap-2"
+                    >
+                      <ArrowDownTrayIcon className="h-5 w-5" />
+                      Download JSON
+                    </button>
+                    {errors.length > 0 && (
+                      <ul className="text-sm text-red-600 list-disc pl-5">
+                        {errors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                      <label className="label">E-Way Bill No. *</label>
+                      <input
+                        type="text"
+                        value={ewbNumber}
+                        onChange={(e) => setEwbNumber(e.target.value.trim())}
+                        className="input"
+                        placeholder="12 digit number"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="label">Generated On *</label>
+                      <input
+                        type="datetime-local"
+                        value={ewbDate}
+                        onChange={(e) => setEwbDate(e.target.value)}
+                        className="input"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="label">Valid Until</label>
+                      <input
+                        type="datetime-local"
+                        value={ewbValidUntil}
+                        onChange={(e) => setEwbValidUntil(e.target.value)}
+                        className="input"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Leave blank to work it out from the distance.
+                      </p>
+                    </div>
+
+                    <div className="flex justify-end gap-3 pt-2">
+                      <button
+                        type="button"
+                        onClick={onClose}
+                        className="btn btn-outline"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={saveMutation.isPending}
+                        className="btn btn-primary"
+                      >
+                        {saveMutation.isPending ? "Saving..." : "Save"}
+                      </button>
+                    </div>
+                  </form>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeftIcon, ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { analyticsAPI } from "@/lib/api";
+import { formatCurrency } from "@/lib/utils";
+
+const CSV_SECTIONS = [
+  { key: "b2b", label: "B2B" },
+  { key: "b2cl", label: "B2CL" },
+  { key: "b2cs", label: "B2CS" },
+  { key: "cdnr", label: "CDNR" },
+  { key: "cdnur", label: "CDNUR" },
+  { key: "exp", label: "EXP" },
+  { key: "hsn_b2b", label: "HSN (B2B)" },
+  { key: "hsn_b2c", label: "HSN (B2C)" },
+];
+
+// Previous month as YYYY-MM, the month usually being filed
+const lastMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const saveFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function Gstr1() {
+  const [month, setMonth] = useState(lastMonth());
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["gstr1", month],
+    queryFn: () => analyticsAPI.getGstr1(month),
+    select: (res: any) => res.data,
+    enabled: Boolean(month),
+  });
+
+  const handleDownloadJson = () => {
+    if (!data) return;
+    saveFile(
+      new Blob([JSON.stringify(data.portal, null, 2)], {
+        type: "application/json",
+      }),
+      `GSTR1_${data.period}.json`,
+    );
+  };
+
+  const handleDownloadCsv = async (section: string) => {
+    try {
+      const blob = await analyticsAPI.downloadGstr1Csv(month, section);
+      saveFile(blob, `GSTR1_${data?.period || month}_${section}.csv`);
+    } catch {
+      toast.error("Failed to download CSV");
+    }
+  };
+
+  const hsnRows = [
+    ...(data?.hsn?.hsn_b2b || []).map((row: any) => ({ ...row, type: "B2B" })),
+    ...(data?.hsn?.hsn_b2c || []).map((row: any) => ({ ...row, type: "B2C" })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link
+            to="/invoices"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">GSTR-1 Export</h1>
+            <p className="text-sm text-gray-500">
+              Outward supplies for the month, with credit and debit notes. Draft
+              and cancelled invoices are left out.
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2 items-center">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="input"
+          />
+          <button
+            onClick={handleDownloadJson}
+            disabled={!data}
+            className="btn btn-primary inline-flex items-center gap-2 whitespace-nowrap"
+          >
+            <ArrowDownTrayIcon className="h-5 w-5" />
+            Portal JSON
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+        </div>
+      ) : (
+        <>
+          <div className="card">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Summary
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Section</th>
+                    <th>Documents</th>
+                    <th>Taxable Value</th>
+                    <th>IGST</th>
+                    <th>CGST</th>
+                    <th>SGST</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data?.summary?.map((row: any) => (
+                    <tr key={row.section}>
+                      <td className="font-medium">{row.section}</td>
+                      <td>{row.count}</td>
+                      <td>{formatCurrency(row.taxableValue)}</td>
+                      <td>{formatCurrency(row.igstAmount)}</td>
+                      <td>{formatCurrency(row.cgstAmount)}</td>
+                      <td>{formatCurrency(row.sgstAmount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="card">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              HSN-wise Summary
+            </h3>
+            {hsnRows.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No invoices for this month.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Type</th>
+                      <th>HSN</th>
+                      <th>Description</th>
+                      <th>UQC</th>
+                      <th>Qty</th>
+                      <th>Rate</th>
+                      <th>Taxable Value</th>
+                      <th>IGST</th>
+                      <th>CGST</th>
+                      <th>SGST</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {hsnRows.map((row: any) => (
+                      <tr key={`${row.type}-${row.hsn_sc}-${row.rt}`}>
+                        <td>{row.type}</td>
+                        <td>{row.hsn_sc || "-"}</td>
+                        <td>{row.desc || "-"}</td>
+                        <td>{row.uqc}</td>
+                        <td>{row.qty}</td>
+                        <td>{row.rt}%</td>
+                        <td>{formatCurrency(row.txval)}</td>
+                        <td>{formatCurrency(row.iamt)}</td>
+                        <td>{formatCurrency(row.camt)}</td>
+                        <td>{formatCurrency(row.samt)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="card">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              CSV (Offline Tool Templates)
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {CSV_SECTIONS.map((section) => (
+                <button
+                  key={section.key}
+                  onClick={() => handleDownloadCsv(section.key)}
+                  className="btn btn-outline inline-flex items-center gap-2 text-sm"
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4" />
+                  {section.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
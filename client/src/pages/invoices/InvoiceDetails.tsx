@@ -8,13 +8,35 @@ import {
   BanknotesIcon,
   XCircleIcon,
   ArrowDownTrayIcon,
+  ArrowUturnLeftIcon,
+  ReceiptRefundIcon,
+  ClockIcon,
+  LinkIcon,
+  EnvelopeIcon,
 } from "@heroicons/react/24/outline";
 import toast from "react-hot-toast";
 import { invoicesAPI } from "@/lib/api";
-import { formatCurrency, formatDate, numberToWords } from "@/lib/utils";
+import {
+  foreignAmount,
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  numberToWords,
+} from "@/lib/utils";
 import PaymentModal from "./PaymentModal";
+import EwayBillModal from "./EwayBillModal";
+import RevisionHistoryModal from "./RevisionHistoryModal";
+import SendInvoiceModal from "./SendInvoiceModal";
 import logo from "@/assets/logo.png";
 import { useReactToPrint } from "react-to-print";
+import { QRCodeSVG } from "qrcode.react";
+import type {
+  CompanyProfile,
+  Payment,
+  PaymentReminder,
+  InvoiceEmail,
+  TaxBreakdown,
+} from "@/types";
 
 const statusColors: Record<string, string> = {
   DRAFT: "badge-gray",
@@ -25,11 +47,66 @@ const statusColors: Record<string, string> = {
   CANCELLED: "badge-gray",
 };
 
+const paymentTypeColors: Record<string, string> = {
+  RECEIPT: "badge-success",
+  REFUND: "badge-warning",
+  REVERSAL: "badge-error",
+};
+
+// Endorsement a zero-rated export invoice must carry
+const exportDeclaration = (invoice: any) => {
+  if (invoice.exportType === "UNDER_LUT") {
+    return `Supply meant for export under LUT${
+      invoice.lutNumber ? ` No. ${invoice.lutNumber}` : ""
+    } without payment of IGST`;
+  }
+  if (invoice.exportType === "WITH_IGST") {
+    return "Supply meant for export on payment of IGST";
+  }
+  return null;
+};
+
+const chequeStatusColors: Record<string, string> = {
+  RECEIVED: "badge-info",
+  DEPOSITED: "badge-warning",
+  CLEARED: "badge-success",
+  BOUNCED: "badge-danger",
+};
+
+const reminderStatusColors: Record<string, string> = {
+  QUEUED: "badge-info",
+  SENT: "badge-success",
+  FAILED: "badge-error",
+  SKIPPED: "badge-gray",
+};
+
+const describeReminder = (daysFromDue: number) =>
+  daysFromDue < 0
+    ? `${-daysFromDue} day(s) before due`
+    : daysFromDue === 0
+      ? "On due date"
+      : `${daysFromDue} day(s) overdue`;
+
+// Consignments above this value need an e-way bill
+const EWAY_BILL_THRESHOLD = 50000;
+
+// "120 MTR, 4 PCS" for goods billed in more than one unit
+const formatQuantities = (quantities: Record<string, number> = {}) =>
+  Object.entries(quantities)
+    .map(([unit, qty]) => `${Number(qty.toFixed(2))} ${unit}`)
+    .join(", ");
+
 export default function InvoiceDetails() {
   const { id } = useParams();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
-  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [paymentModal, setPaymentModal] = useState<{
+    payment?: Payment;
+    refund?: boolean;
+  } | null>(null);
+  const [showEwayBillModal, setShowEwayBillModal] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSendModal, setShowSendModal] = useState(false);
   const invoiceRef = useRef<HTMLDivElement>(null);
 
   const {
@@ -43,14 +120,100 @@ export default function InvoiceDetails() {
     retry: false,
   });
 
+  const sendMutation = useMutation({
+    mutationFn: () => invoicesAPI.send(id!, { email: false }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoice", id] });
+      toast.success("Invoice marked as sent");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to send invoice");
+    },
+  });
+
   const cancelMutation = useMutation({
-    mutationFn: () => invoicesAPI.update(id!, { status: "CANCELLED" }),
+    mutationFn: (reason: string) => invoicesAPI.cancel(id!, reason),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["invoice", id] });
       toast.success("Invoice cancelled");
     },
-    onError: () => {
-      toast.error("Failed to cancel invoice");
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to cancel invoice");
+    },
+  });
+
+  const paymentLinkMutation = useMutation({
+    mutationFn: () => invoicesAPI.createPaymentLink(id!),
+    onSuccess: async (res: any) => {
+      const url = `${window.location.origin}/pay/${res.data.token}`;
+      try {
+        await navigator.clipboard.writeText(url);
+        toast.success("Payment link copied");
+      } catch {
+        window.prompt("Copy the payment link:", url);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(
+        error.response?.data?.message || "Failed to create payment link",
+      );
+    },
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: () => invoicesAPI.reopen(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoice", id] });
+      toast.success("Invoice reopened as a draft");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to reopen invoice");
+    },
+  });
+
+  const irnMutation = useMutation({
+    mutationFn: () => invoicesAPI.generateIrn(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoice", id] });
+      toast.success("IRN generated");
+    },
+    onError: (error: any) => {
+      const data = error.response?.data;
+      toast.error(
+        [data?.message || "Failed to generate IRN", ...(data?.errors || [])]
+          .filter(Boolean)
+          .join("\n"),
+      );
+    },
+  });
+
+  const reverseMutation = useMutation({
+    mutationFn: ({
+      paymentId,
+      reason,
+    }: {
+      paymentId: string;
+      reason: string;
+    }) => invoicesAPI.reversePayment(id!, paymentId, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoice", id] });
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      toast.success("Payment reversed");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to reverse payment");
+    },
+  });
+
+  const applyCreditMutation = useMutation({
+    mutationFn: () => invoicesAPI.applyCredit(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoice", id] });
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      toast.success("Customer credit applied");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to apply credit");
     },
   });
 
@@ -59,10 +222,40 @@ export default function InvoiceDetails() {
     documentTitle: `Invoice_${invoice?.invoiceNumber || "document"}`,
   });
 
+  const handleDownloadPdf = async () => {
+    try {
+      const blob = await invoicesAPI.downloadPdf(id!);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `Invoice_${invoice?.invoiceNumber || id}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error("Failed to download PDF");
+    }
+  };
+
+  const handleReverse = (payment: Payment) => {
+    const reason = window.prompt(
+      `Reverse the payment of ${formatCurrency(payment.amount)}? Enter a reason:`,
+    );
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast.error("A reason is required to reverse a payment");
+      return;
+    }
+    reverseMutation.mutate({ paymentId: payment.id, reason });
+  };
+
   const handleCancel = () => {
-    if (window.confirm("Are you sure you want to cancel this invoice?")) {
-      cancelMutation.mutate();
+    const reason = window.prompt("Cancel this invoice? Enter a reason:");
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast.error("A reason is required to cancel an invoice");
+      return;
     }
+    cancelMutation.mutate(reason);
   };
 
   if (isLoading) {
@@ -93,52 +286,73 @@ export default function InvoiceDetails() {
     );
   }
 
-  // Group items by HSN for tax breakdown
-  const hsnGroups =
-    invoice.items
-      ?.reduce((acc: any[], item: any) => {
-        const hsn = item.hsnCode || "Other";
-        const itemTaxRate = Number(item.taxRate || 0);
-        const existingGroup = acc.find(
-          (g) => g.hsn === hsn && g.taxRate === itemTaxRate,
-        );
-        const amount = Number(item.amount);
-
-        if (existingGroup) {
-          existingGroup.taxableValue += amount;
-        } else {
-          acc.push({
-            hsn,
-            taxRate: itemTaxRate,
-            taxableValue: amount,
-          });
-        }
-        return acc;
-      }, [])
-      .map((group: any) => {
-        const cRate = group.taxRate / 2;
-        const sRate = group.taxRate / 2;
-        const cAmount = (group.taxableValue * cRate) / 100;
-        const sAmount = (group.taxableValue * sRate) / 100;
-        return {
-          ...group,
-          cgstRate: cRate,
-          sgstRate: sRate,
-          cgstAmount: cAmount,
-          sgstAmount: sAmount,
-          totalTax: cAmount + sAmount,
-        };
-      }) || [];
-
-  const cgstAmount = hsnGroups.reduce((sum, g) => sum + g.cgstAmount, 0);
-  const sgstAmount = hsnGroups.reduce((sum, g) => sum + g.sgstAmount, 0);
+  // HSN-wise tax breakdown (CGST/SGST or IGST) is worked out on the server
+  const taxBreakdown: TaxBreakdown = invoice.taxBreakdown || {
+    isInterState: false,
+    placeOfSupply: null,
+    placeOfSupplyName: null,
+    rows: [],
+    totals: {
+      taxableValue: 0,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount: 0,
+      totalTax: 0,
+    },
+  };
+  const hsnGroups = taxBreakdown.rows;
+  const company: CompanyProfile | undefined = invoice.company;
+  const isInterState = taxBreakdown.isInterState;
 
   // Ideally use a library like 'number-to-words'
   const amountInWords = (amount: number) => {
     return `INR ${amount.toFixed(2)}`;
   };
 
-  const balanceDue = Number(invoice.totalAmount) - Number(invoice.paidAmount);
+  // Credit/debit notes adjust what the customer still owes
+  const netAmount =
+    Number(invoice.totalAmount) +
+    Number(invoice.debitedAmount || 0) -
+    Number(invoice.creditedAmount || 0);
+  const balanceDue = netAmount - Number(invoice.paidAmount);
+  // Amounts are stored in rupees; exports also show the invoice currency
+  const isForeign = Boolean(invoice.currency && invoice.currency !== "INR");
+  const inForeign = (amount: number | string) =>
+    formatCurrency(
+      foreignAmount(amount, invoice.exchangeRate),
+      invoice.currency,
+    );
+  const declaration = exportDeclaration(invoice);
+  // Cheque payments waiting to clear are not in paidAmount yet
+  const pendingCheques = ((invoice.payments || []) as Payment[])
+    .filter(
+      (payment) =>
+        payment.cheque &&
+        ["RECEIVED", "DEPOSITED"].includes(payment.cheque.status),
+    )
+    .reduce(
+      (sum, payment) =>
+        sum + (payment.type === "RECEIPT" ? 1 : -1) * Number(payment.amount),
+      0,
+    );
+  const canApplyCredit =
+    Number(invoice.customerCredit) > 0 &&
+    balanceDue > 0 &&
+    ["PENDING", "SENT", "PARTIALLY_PAID", "OVERDUE"].includes(invoice.status);
+  const canRaiseNote =
+    invoice.status !== "DRAFT" && invoice.status !== "CANCELLED";
+  const canSend = ["DRAFT", "PENDING"].includes(invoice.status);
+  // Payments have to be reversed or refunded before cancelling
+  const canCancel =
+    ["DRAFT", "PENDING", "SENT", "OVERDUE"].includes(invoice.status) &&
+    Number(invoice.paidAmount) === 0;
+  const needsEwayBill =
+    Number(invoice.totalAmount) > EWAY_BILL_THRESHOLD &&
+    invoice.status !== "DRAFT" &&
+    invoice.status !== "CANCELLED";
+  const ewbHoursLeft = invoice.ewbValidUntil
+    ? (new Date(invoice.ewbValidUntil).getTime() - Date.now()) / 3600000
+    : null;
 
   return (
     <div className="space-y-6 print:space-y-0 print:m-0 print:p-0">
@@ -158,36 +372,155 @@ export default function InvoiceDetails() {
             <span className={`badge ${statusColors[invoice.status]}`}>
               {invoice.status}
             </span>
+            {invoice.quotation && (
+              <Link
+                to={`/quotations/${invoice.quotation.id}`}
+                className="ml-2 text-sm text-gray-500 hover:text-primary-600"
+              >
+                From {invoice.quotation.quotationNumber}
+              </Link>
+            )}
+            {invoice.salesOrder && (
+              <Link
+                to={`/sales-orders/${invoice.salesOrder.id}`}
+                className="ml-2 text-sm text-gray-500 hover:text-primary-600"
+              >
+                Order {invoice.salesOrder.orderNumber}
+              </Link>
+            )}
           </div>
         </div>
         <div className="flex gap-2">
           {invoice.status !== "CANCELLED" && invoice.status !== "PAID" && (
             <button
-              onClick={() => setShowPaymentModal(true)}
+              onClick={() => setPaymentModal({})}
               className="btn btn-primary inline-flex items-center gap-2"
             >
               <BanknotesIcon className="h-5 w-5" />
               Record Payment
             </button>
           )}
-          <Link
-            to={`/invoices/${id}/edit`}
+          {canApplyCredit && (
+            <button
+              onClick={() => applyCreditMutation.mutate()}
+              disabled={applyCreditMutation.isPending}
+              className="btn btn-outline inline-flex items-center gap-2"
+              title="Settle from the customer's unallocated receipts"
+            >
+              <BanknotesIcon className="h-5 w-5" />
+              Apply Credit ({formatCurrency(invoice.customerCredit)})
+            </button>
+          )}
+          {!invoice.irn &&
+            invoice.customer?.gstNumber &&
+            invoice.status !== "DRAFT" &&
+            invoice.status !== "CANCELLED" && (
+              <button
+                onClick={() => irnMutation.mutate()}
+                disabled={irnMutation.isPending}
+                className="btn btn-outline"
+              >
+                {irnMutation.isPending ? "Generating..." : "Generate IRN"}
+              </button>
+            )}
+          {needsEwayBill && (
+            <button
+              onClick={() => setShowEwayBillModal(true)}
+              className="btn btn-outline"
+            >
+              E-Way Bill
+            </button>
+          )}
+          {canRaiseNote && (
+            <>
+              <Link
+                to={`/invoices/${id}/notes/new?type=CREDIT`}
+                className="btn btn-outline"
+              >
+                Credit Note
+              </Link>
+              <Link
+                to={`/invoices/${id}/notes/new?type=DEBIT`}
+                className="btn btn-outline"
+              >
+                Debit Note
+              </Link>
+            </>
+          )}
+          {invoice.upiIntent && (
+            <button
+              onClick={() => paymentLinkMutation.mutate()}
+              disabled={paymentLinkMutation.isPending}
+              className="btn btn-outline inline-flex items-center gap-2"
+              title="Copy a link the customer can pay from"
+            >
+              <LinkIcon className="h-5 w-5" />
+              Payment Link
+            </button>
+          )}
+          {invoice.status !== "CANCELLED" && (
+            <button
+              onClick={() => setShowSendModal(true)}
+              className="btn btn-outline inline-flex items-center gap-2"
+            >
+              <EnvelopeIcon className="h-5 w-5" />
+              Email
+            </button>
+          )}
+          {canSend && (
+            <button
+              onClick={() => sendMutation.mutate()}
+              disabled={sendMutation.isPending}
+              className="btn btn-outline"
+            >
+              {sendMutation.isPending ? "Saving..." : "Mark as Sent"}
+            </button>
+          )}
+          {invoice.status === "CANCELLED" ? (
+            <button
+              onClick={() => reopenMutation.mutate()}
+              disabled={reopenMutation.isPending}
+              className="btn btn-outline inline-flex items-center gap-2"
+            >
+              <ArrowUturnLeftIcon className="h-5 w-5" />
+              Reopen
+            </button>
+          ) : (
+            <Link
+              to={`/invoices/${id}/edit`}
+              className="btn btn-outline inline-flex items-center gap-2"
+            >
+              <PencilSquareIcon className="h-5 w-5" />
+              Edit
+            </Link>
+          )}
+          <button
+            onClick={() => setShowHistory(true)}
             className="btn btn-outline inline-flex items-center gap-2"
           >
-            <PencilSquareIcon className="h-5 w-5" />
-            Edit
-          </Link>
+            <ClockIcon className="h-5 w-5" />
+            History
+          </button>
           <button
             onClick={handlePrint}
             className="btn btn-primary inline-flex items-center gap-2"
           >
             <PrinterIcon className="h-5 w-5" />
-            Download / Print
+            Print
+          </button>
+          <button
+            onClick={handleDownloadPdf}
+            className="btn btn-outline inline-flex items-center gap-2"
+          >
+            <ArrowDownTrayIcon className="h-5 w-5" />
+            PDF
           </button>
-          {invoice.status === "DRAFT" && (
+          {canCancel && (
             <button
               onClick={handleCancel}
+              disabled={cancelMutation.isPending}
               className="btn btn-outline text-red-600 hover:bg-red-50"
+              title="Cancel invoice"
             >
               <XCircleIcon className="h-5 w-5" />
             </button>
@@ -195,6 +528,34 @@ export default function InvoiceDetails() {
         </div>
       </div>
 
+      {/* Cancellation details */}
+      {invoice.status === "CANCELLED" && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800 print:hidden">
+          Cancelled
+          {invoice.cancelledAt && ` on ${formatDateTime(invoice.cancelledAt)}`}
+          {invoice.cancelledBy &&
+            ` by ${invoice.cancelledBy.firstName} ${invoice.cancelledBy.lastName}`}
+          {invoice.cancellationReason && `: ${invoice.cancellationReason}`}
+        </div>
+      )}
+
+      {/* E-way bill expiry warning */}
+      {ewbHoursLeft !== null &&
+        ewbHoursLeft < 24 &&
+        invoice.status !== "CANCELLED" && (
+          <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800 print:hidden">
+            {ewbHoursLeft > 0
+              ? `E-way bill ${invoice.ewbNumber} expires on ${formatDateTime(invoice.ewbValidUntil)}. Extend it on the portal if the goods are still in transit.`
+              : `E-way bill ${invoice.ewbNumber} expired on ${formatDateTime(invoice.ewbValidUntil)}.`}
+          </div>
+        )}
+      {needsEwayBill && !invoice.ewbNumber && (
+        <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800 print:hidden">
+          This invoice is above {formatCurrency(EWAY_BILL_THRESHOLD)} and needs
+          an e-way bill before the goods are dispatched.
+        </div>
+      )}
+
       {/* Invoice Document - Modeled after Tax Invoice Image */}
       <div
         ref={invoiceRef}
@@ -203,8 +564,39 @@ export default function InvoiceDetails() {
       >
         {/* Title */}
         <div className="text-center font-bold text-xl mb-2 uppercase border border-black border-b-0 p-1">
-          Tax Invoice
+          {invoice.exportType ? "Export Invoice" : "Tax Invoice"}
         </div>
+        {declaration && (
+          <div className="text-center font-semibold text-xs uppercase border border-black border-b-0 p-1">
+            {declaration}
+          </div>
+        )}
+
+        {/* E-invoice IRN and signed QR */}
+        {invoice.irn && (
+          <div className="border border-black border-b-0 p-2 flex justify-between items-center gap-4 text-xs">
+            <div className="break-all leading-tight space-y-0.5">
+              <p>
+                <span className="font-bold">IRN:</span> {invoice.irn}
+              </p>
+              <p>
+                <span className="font-bold">Ack No.:</span> {invoice.ackNo}
+              </p>
+              <p>
+                <span className="font-bold">Ack Date:</span>{" "}
+                {formatDate(invoice.ackDate)}
+              </p>
+            </div>
+            {invoice.signedQrCode && (
+              <QRCodeSVG
+                value={invoice.signedQrCode}
+                size={96}
+                level="L"
+                className="flex-shrink-0"
+              />
+            )}
+          </div>
+        )}
 
         <div className="border border-black flex flex-col sm:flex-row text-sm">
           {/* Left Column: Company & Buyer */}
@@ -212,26 +604,47 @@ export default function InvoiceDetails() {
             {/* Company Info */}
             <div className="p-2 border-b border-black flex-grow flex justify-between items-start">
               <div>
-                <h2 className="font-bold text-base">SHRADDHA GARMENT</h2>
-                <p className="text-xs">Bhatwadi, Near Ghoti Bypass</p>
-                <p className="text-xs">Sinnar, Nashik MH, 422103 </p>
-                <p className="text-xs">GSTIN/UIN: 27CRYPP2986H1ZQ</p>
-                <p className="text-xs">PAN No.: CRYPP2986H</p>
-                <p className="text-xs">State: Maharashtra, Code: 27</p>
+                <h2 className="font-bold text-base uppercase">
+                  {company?.companyName}
+                </h2>
+                <p className="text-xs">{company?.address}</p>
+                <p className="text-xs">
+                  {company?.city}, {company?.state} {company?.pincode}
+                </p>
+                <p className="text-xs">
+                  GSTIN/UIN: {company?.gstNumber || "Not configured"}
+                </p>
+                <p className="text-xs">
+                  PAN No.: {company?.panNumber || "Not configured"}
+                </p>
+                <p className="text-xs">
+                  State: {company?.state}, Code: {company?.stateCode || "-"}
+                </p>
                 <div className="mt-2 text-[10px] leading-tight border-t border-gray-200 pt-1">
                   <p className="font-bold border-b border-gray-100 mb-0.5 inline-block">
                     Bank Details:
                   </p>
-                  <p>A/c Name: Shraddha Garments</p>
-                  <p>A/c No.: 5607201000297</p>
-                  <p>IFSC: CNRB0005607 (Canara Bank)</p>
+                  {company?.bankAccountNumber ? (
+                    <>
+                      <p>
+                        A/c Name:{" "}
+                        {company.bankAccountName || company.companyName}
+                      </p>
+                      <p>A/c No.: {company.bankAccountNumber}</p>
+                      <p>
+                        IFSC: {company.bankIfsc} ({company.bankName})
+                      </p>
+                    </>
+                  ) : (
+                    <p>Not configured</p>
+                  )}
                 </div>
                 {/* <p className="text-xs">E-Mail: support@shraddhagarments.com</p> */}
               </div>
               <img
                 src={logo}
                 className="h-24 w-auto object-contain"
-                alt="Shraddha Garment"
+                alt={company?.companyName}
               />
             </div>
 
@@ -251,6 +664,12 @@ export default function InvoiceDetails() {
               <p className="text-xs">
                 GSTIN/UIN: {invoice.customer?.gstNumber || "N/A"}
               </p>
+              {taxBreakdown.placeOfSupply && (
+                <p className="text-xs">
+                  Place of Supply: {taxBreakdown.placeOfSupplyName}, Code:{" "}
+                  {taxBreakdown.placeOfSupply}
+                </p>
+              )}
             </div>
           </div>
 
@@ -380,6 +799,62 @@ export default function InvoiceDetails() {
               </div>
             </div>
 
+            {invoice.ewbNumber && (
+              <div className="flex border-b border-black">
+                <div className="w-1/2 p-1 border-r border-black">
+                  <span className="block text-[10px] text-gray-600 leading-tight">
+                    e-Way Bill No.
+                  </span>
+                  <span className="font-bold">{invoice.ewbNumber}</span>
+                </div>
+                <div className="w-1/2 p-1">
+                  <span className="block text-[10px] text-gray-600 leading-tight">
+                    Valid Until
+                  </span>
+                  <span>{formatDateTime(invoice.ewbValidUntil)}</span>
+                </div>
+              </div>
+            )}
+
+            {(invoice.exportType || isForeign) && (
+              <>
+                <div className="flex border-b border-black">
+                  <div className="w-1/2 p-1 border-r border-black">
+                    <span className="block text-[10px] text-gray-600 leading-tight">
+                      Currency
+                    </span>
+                    <span>
+                      {invoice.currency} @ ₹ {Number(invoice.exchangeRate)}
+                    </span>
+                  </div>
+                  <div className="w-1/2 p-1">
+                    <span className="block text-[10px] text-gray-600 leading-tight">
+                      Port Code
+                    </span>
+                    <span>{invoice.portCode || "-"}</span>
+                  </div>
+                </div>
+                <div className="flex border-b border-black">
+                  <div className="w-1/2 p-1 border-r border-black">
+                    <span className="block text-[10px] text-gray-600 leading-tight">
+                      Shipping Bill No.
+                    </span>
+                    <span>{invoice.shippingBillNumber || "-"}</span>
+                  </div>
+                  <div className="w-1/2 p-1">
+                    <span className="block text-[10px] text-gray-600 leading-tight">
+                      Shipping Bill Date
+                    </span>
+                    <span>
+                      {invoice.shippingBillDate
+                        ? formatDate(invoice.shippingBillDate)
+                        : "-"}
+                    </span>
+                  </div>
+                </div>
+              </>
+            )}
+
             {/* Row 8 */}
             <div className="flex flex-grow">
               <div className="w-full p-1">
@@ -396,7 +871,7 @@ export default function InvoiceDetails() {
 
         {/* Goods Table */}
         <div className="border border-black border-t-0 text-[11px] flex-grow flex flex-col">
-          <div className="grid grid-cols-[30px_1fr_75px_40px_65px_75px_30px_90px] font-semibold text-center bg-gray-50 print:bg-white border-b border-black">
+          <div className="grid grid-cols-[30px_1fr_75px_40px_65px_75px_30px_45px_90px] font-semibold text-center bg-gray-50 print:bg-white border-b border-black">
             <div className="p-1 border-r border-black">SI No.</div>
             <div className="p-1 border-r border-black font-bold">
               Description of Goods
@@ -410,6 +885,9 @@ export default function InvoiceDetails() {
             <div className="p-1 border-r border-black flex items-center justify-center text-[10px]">
               per
             </div>
+            <div className="p-1 border-r border-black flex items-center justify-center text-[10px]">
+              Disc.
+            </div>
             <div className="p-1">Amount</div>
           </div>
 
@@ -417,7 +895,7 @@ export default function InvoiceDetails() {
           {invoice.items?.map((item: any, index: number) => (
             <div
               key={item.id}
-              className="grid grid-cols-[30px_1fr_75px_40px_65px_75px_30px_90px] text-center min-h-[40px] items-start"
+              className="grid grid-cols-[30px_1fr_75px_40px_65px_75px_30px_45px_90px] text-center min-h-[40px] items-start"
             >
               <div className="p-1 border-r border-black flex items-start justify-center h-full">
                 {index + 1}
@@ -432,13 +910,21 @@ export default function InvoiceDetails() {
                 {item.taxRate}%
               </div>
               <div className="p-1 border-r border-black font-bold whitespace-nowrap h-full">
-                {item.quantity} Nos
-              </div>{" "}
-              {/* Assuming Nos for now */}
+                {item.quantity} {item.unit}
+              </div>
               <div className="p-1 border-r border-black text-right pr-1 h-full font-mono">
                 {formatCurrency(item.unitPrice).replace("₹", "")}
               </div>
-              <div className="p-1 border-r border-black h-full">Nos</div>
+              <div className="p-1 border-r border-black h-full">
+                {item.unit}
+              </div>
+              <div className="p-1 border-r border-black text-right pr-1 h-full font-mono">
+                {Number(item.discountAmount) > 0
+                  ? item.discountType === "PERCENTAGE"
+                    ? `${Number(item.discountValue)}%`
+                    : formatCurrency(item.discountAmount).replace("₹", "")
+                  : ""}
+              </div>
               <div className="p-1 font-bold text-right pr-1 h-full font-mono">
                 {formatCurrency(item.amount).replace("₹", "")}
               </div>
@@ -446,20 +932,26 @@ export default function InvoiceDetails() {
           ))}
 
           {/* Spacer to fill height if needed - Reduced min-height to prevent pushing content over the page limit */}
-          <div className="grid grid-cols-[30px_1fr_75px_40px_65px_75px_30px_90px] flex-grow min-h-[50px]">
+          <div className="grid grid-cols-[30px_1fr_75px_40px_65px_75px_30px_45px_90px] flex-grow min-h-[50px]">
             <div className="border-r border-black"></div>
             <div className="border-r border-black"></div>
             <div className="border-r border-black"></div>
             <div className="border-r border-black"></div>
             <div className="border-r border-black"></div>
             <div className="border-r border-black flex flex-col justify-end pb-2 pr-1 text-right leading-tight text-[10px]">
-              {hsnGroups.map((group: any, i: number) => (
-                <div key={i} className="font-bold">
-                  CGST {group.cgstRate}%
-                  <br />
-                  SGST {group.sgstRate}%
-                </div>
-              ))}
+              {hsnGroups.map((group, i) =>
+                isInterState ? (
+                  <div key={i} className="font-bold">
+                    IGST {group.igstRate}%
+                  </div>
+                ) : (
+                  <div key={i} className="font-bold">
+                    CGST {group.cgstRate}%
+                    <br />
+                    SGST {group.sgstRate}%
+                  </div>
+                ),
+              )}
               <div className="italic font-normal">Basic Amount</div>
               {Number(invoice.roundOff) !== 0 && (
                 <div className="italic font-normal">Rounding</div>
@@ -468,18 +960,28 @@ export default function InvoiceDetails() {
             </div>
             <div className="border-r border-black"></div>{" "}
             {/* Empty 'per' column */}
+            <div className="border-r border-black"></div>{" "}
+            {/* Empty 'Disc.' column */}
             <div className="text-right pr-1 flex flex-col justify-end pb-2 font-bold leading-tight text-[10px]">
-              {hsnGroups.map((group: any, i: number) => (
-                <div key={i}>
-                  <span>
-                    {formatCurrency(group.cgstAmount).replace("₹", "")}
-                  </span>
-                  <br />
-                  <span>
-                    {formatCurrency(group.sgstAmount).replace("₹", "")}
-                  </span>
-                </div>
-              ))}
+              {hsnGroups.map((group, i) =>
+                isInterState ? (
+                  <div key={i}>
+                    <span>
+                      {formatCurrency(group.igstAmount).replace("₹", "")}
+                    </span>
+                  </div>
+                ) : (
+                  <div key={i}>
+                    <span>
+                      {formatCurrency(group.cgstAmount).replace("₹", "")}
+                    </span>
+                    <br />
+                    <span>
+                      {formatCurrency(group.sgstAmount).replace("₹", "")}
+                    </span>
+                  </div>
+                ),
+              )}
               <span>
                 {formatCurrency(
                   Number(invoice.subtotal) - Number(invoice.discountAmount),
@@ -496,23 +998,41 @@ export default function InvoiceDetails() {
           </div>
 
           {/* Total */}
-          <div className="grid grid-cols-[30px_1fr_75px_40px_65px_75px_30px_90px] border-t border-black font-bold h-10 items-center bg-gray-50 print:bg-white text-xs">
+          <div className="grid grid-cols-[30px_1fr_75px_40px_65px_75px_30px_45px_90px] border-t border-black font-bold h-10 items-center bg-gray-50 print:bg-white text-xs">
             <div className="col-span-2 text-right pr-2">Document Total</div>
             <div className="border-l border-r border-black h-full"></div>
             <div className="border-r border-black h-full"></div>
             <div className="border-r border-black h-full flex items-center justify-center whitespace-nowrap">
-              {invoice.items?.reduce(
-                (sum: number, item: any) => sum + Number(item.quantity),
-                0,
-              )}{" "}
-              Nos
+              {formatQuantities(
+                (invoice.items || []).reduce(
+                  (totals: Record<string, number>, item: any) => ({
+                    ...totals,
+                    [item.unit]:
+                      (totals[item.unit] || 0) + Number(item.quantity),
+                  }),
+                  {},
+                ),
+              )}
             </div>
             <div className="border-r border-black h-full"></div> {/* Rate */}
             <div className="border-r border-black h-full"></div> {/* Per */}
+            <div className="border-r border-black h-full"></div> {/* Disc. */}
             <div className="text-right pr-1 h-full flex items-center justify-end whitespace-nowrap font-mono">
               ₹ {formatCurrency(invoice.totalAmount).replace("₹", "")}
             </div>
           </div>
+          {isForeign && (
+            <div className="grid grid-cols-[30px_1fr_90px] border-t border-black font-bold h-8 items-center text-xs">
+              <div className="col-span-2 text-right pr-2">
+                Total in {invoice.currency} @ ₹ {Number(invoice.exchangeRate)}
+              </div>
+              <div className="text-right pr-1 h-full flex items-center justify-end whitespace-nowrap font-mono border-l border-black">
+                {invoice.foreignTotalAmount != null
+                  ? formatCurrency(invoice.foreignTotalAmount, invoice.currency)
+                  : inForeign(invoice.totalAmount)}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Amount in Words */}
@@ -528,76 +1048,169 @@ export default function InvoiceDetails() {
         </div>
 
         {/* Tax Breakdown Table */}
-        <div className="border border-black border-t-0 text-[10px]">
-          <div className="grid grid-cols-[100px_1fr_1fr_1fr_1fr_1fr_100px] text-center border-b border-black font-semibold bg-gray-50 print:bg-white">
-            <div className="p-1 border-r border-black row-span-2 flex items-center justify-center">
-              HSN
-            </div>
-            <div className="p-1 border-r border-black row-span-2 flex items-center justify-center">
-              Taxable Value
-            </div>
-            <div className="col-span-2 border-r border-black border-b">
-              Central Tax
-            </div>
-            <div className="col-span-2 border-r border-black border-b">
-              State Tax
-            </div>
-            <div className="p-1 row-span-2 flex items-center justify-center">
-              Total Tax Amount
+        {isInterState ? (
+          <div className="border border-black border-t-0 text-[10px]">
+            <div className="grid grid-cols-[70px_80px_1fr_1fr_1fr_100px] text-center border-b border-black font-semibold bg-gray-50 print:bg-white">
+              <div className="p-1 border-r border-black row-span-2 flex items-center justify-center">
+                HSN
+              </div>
+              <div className="p-1 border-r border-black row-span-2 flex items-center justify-center">
+                Quantity
+              </div>
+              <div className="p-1 border-r border-black row-span-2 flex items-center justify-center">
+                Taxable Value
+              </div>
+              <div className="col-span-2 border-r border-black border-b">
+                Integrated Tax
+              </div>
+              <div className="p-1 row-span-2 flex items-center justify-center">
+                Total Tax Amount
+              </div>
+
+              {/* Sub headers */}
+              <div className="p-1 border-r border-black">Rate</div>
+              <div className="p-1 border-r border-black">Amount</div>
             </div>
 
-            {/* Sub headers */}
-            <div className="p-1 border-r border-black">Rate</div>
-            <div className="p-1 border-r border-black">Amount</div>
-            <div className="p-1 border-r border-black">Rate</div>
-            <div className="p-1 border-r border-black">Amount</div>
-          </div>
+            {hsnGroups.map((group, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-[70px_80px_1fr_1fr_1fr_100px] text-center"
+              >
+                <div className="p-1 border-r border-black">{group.hsnCode}</div>
+                <div className="p-1 border-r border-black">
+                  {formatQuantities(group.quantities)}
+                </div>
+                <div className="p-1 border-r border-black text-right pr-2">
+                  {formatCurrency(group.taxableValue).replace("₹", "")}
+                </div>
+                <div className="p-1 border-r border-black">
+                  {group.igstRate}%
+                </div>
+                <div className="p-1 border-r border-black text-right pr-2">
+                  {formatCurrency(group.igstAmount).replace("₹", "")}
+                </div>
+                <div className="p-1 text-right pr-2 font-bold">
+                  {formatCurrency(group.totalTax).replace("₹", "")}
+                </div>
+              </div>
+            ))}
 
-          {/* Tax Rows - Broken down by HSN */}
-          {hsnGroups.map((group: any, index: number) => (
-            <div
-              key={index}
-              className="grid grid-cols-[100px_1fr_1fr_1fr_1fr_1fr_100px] text-center"
-            >
-              <div className="p-1 border-r border-black">{group.hsn}</div>
+            <div className="grid grid-cols-[70px_80px_1fr_1fr_1fr_100px] text-center border-t border-black font-bold">
               <div className="p-1 border-r border-black text-right pr-2">
-                {formatCurrency(group.taxableValue).replace("₹", "")}
+                Total
               </div>
-              <div className="p-1 border-r border-black">{group.cgstRate}%</div>
+              <div className="p-1 border-r border-black"></div>
               <div className="p-1 border-r border-black text-right pr-2">
-                {formatCurrency(group.cgstAmount).replace("₹", "")}
+                {formatCurrency(taxBreakdown.totals.taxableValue).replace(
+                  "₹",
+                  "",
+                )}
               </div>
-              <div className="p-1 border-r border-black">{group.sgstRate}%</div>
+              <div className="p-1 border-r border-black"></div>
               <div className="p-1 border-r border-black text-right pr-2">
-                {formatCurrency(group.sgstAmount).replace("₹", "")}
+                {formatCurrency(taxBreakdown.totals.igstAmount).replace(
+                  "₹",
+                  "",
+                )}
               </div>
-              <div className="p-1 text-right pr-2 font-bold">
-                {formatCurrency(group.totalTax).replace("₹", "")}
+              <div className="p-1 text-right pr-2">
+                {formatCurrency(invoice.taxAmount).replace("₹", "")}
               </div>
             </div>
-          ))}
+          </div>
+        ) : (
+          <div className="border border-black border-t-0 text-[10px]">
+            <div className="grid grid-cols-[70px_80px_1fr_1fr_1fr_1fr_1fr_100px] text-center border-b border-black font-semibold bg-gray-50 print:bg-white">
+              <div className="p-1 border-r border-black row-span-2 flex items-center justify-center">
+                HSN
+              </div>
+              <div className="p-1 border-r border-black row-span-2 flex items-center justify-center">
+                Quantity
+              </div>
+              <div className="p-1 border-r border-black row-span-2 flex items-center justify-center">
+                Taxable Value
+              </div>
+              <div className="col-span-2 border-r border-black border-b">
+                Central Tax
+              </div>
+              <div className="col-span-2 border-r border-black border-b">
+                State Tax
+              </div>
+              <div className="p-1 row-span-2 flex items-center justify-center">
+                Total Tax Amount
+              </div>
 
-          {/* Tax Total */}
-          <div className="grid grid-cols-[100px_1fr_1fr_1fr_1fr_1fr_100px] text-center border-t border-black font-bold">
-            <div className="p-1 border-r border-black text-right pr-2">
-              Total
-            </div>
-            <div className="p-1 border-r border-black text-right pr-2">
-              {formatCurrency(invoice.subtotal).replace("₹", "")}
+              {/* Sub headers */}
+              <div className="p-1 border-r border-black">Rate</div>
+              <div className="p-1 border-r border-black">Amount</div>
+              <div className="p-1 border-r border-black">Rate</div>
+              <div className="p-1 border-r border-black">Amount</div>
             </div>
-            <div className="p-1 border-r border-black"></div>
-            <div className="p-1 border-r border-black text-right pr-2">
-              {formatCurrency(cgstAmount).replace("₹", "")}
-            </div>
-            <div className="p-1 border-r border-black"></div>
-            <div className="p-1 border-r border-black text-right pr-2">
-              {formatCurrency(sgstAmount).replace("₹", "")}
-            </div>
-            <div className="p-1 text-right pr-2">
-              {formatCurrency(invoice.taxAmount).replace("₹", "")}
+
+            {/* Tax Rows - Broken down by HSN */}
+            {hsnGroups.map((group, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-[70px_80px_1fr_1fr_1fr_1fr_1fr_100px] text-center"
+              >
+                <div className="p-1 border-r border-black">{group.hsnCode}</div>
+                <div className="p-1 border-r border-black">
+                  {formatQuantities(group.quantities)}
+                </div>
+                <div className="p-1 border-r border-black text-right pr-2">
+                  {formatCurrency(group.taxableValue).replace("₹", "")}
+                </div>
+                <div className="p-1 border-r border-black">
+                  {group.cgstRate}%
+                </div>
+                <div className="p-1 border-r border-black text-right pr-2">
+                  {formatCurrency(group.cgstAmount).replace("₹", "")}
+                </div>
+                <div className="p-1 border-r border-black">
+                  {group.sgstRate}%
+                </div>
+                <div className="p-1 border-r border-black text-right pr-2">
+                  {formatCurrency(group.sgstAmount).replace("₹", "")}
+                </div>
+                <div className="p-1 text-right pr-2 font-bold">
+                  {formatCurrency(group.totalTax).replace("₹", "")}
+                </div>
+              </div>
+            ))}
+
+            {/* Tax Total */}
+            <div className="grid grid-cols-[70px_80px_1fr_1fr_1fr_1fr_1fr_100px] text-center border-t border-black font-bold">
+              <div className="p-1 border-r border-black text-right pr-2">
+                Total
+              </div>
+              <div className="p-1 border-r border-black"></div>
+              <div className="p-1 border-r border-black text-right pr-2">
+                {formatCurrency(taxBreakdown.totals.taxableValue).replace(
+                  "₹",
+                  "",
+                )}
+              </div>
+              <div className="p-1 border-r border-black"></div>
+              <div className="p-1 border-r border-black text-right pr-2">
+                {formatCurrency(taxBreakdown.totals.cgstAmount).replace(
+                  "₹",
+                  "",
+                )}
+              </div>
+              <div className="p-1 border-r border-black"></div>
+              <div className="p-1 border-r border-black text-right pr-2">
+                {formatCurrency(taxBreakdown.totals.sgstAmount).replace(
+                  "₹",
+                  "",
+                )}
+              </div>
+              <div className="p-1 text-right pr-2">
+                {formatCurrency(invoice.taxAmount).replace("₹", "")}
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         <div className="border border-black border-t-0 p-1">
           <div className="flex items-center text-[10px]">
@@ -610,6 +1223,19 @@ export default function InvoiceDetails() {
           </div>
         </div>
 
+        {/* UPI QR for the balance due */}
+        {invoice.upiIntent && (
+          <div className="border border-black border-t-0 p-2 flex items-center gap-3 text-[10px]">
+            <QRCodeSVG value={invoice.upiIntent} size={80} level="M" />
+            <div className="leading-tight space-y-0.5">
+              <p className="font-bold">Scan to pay with any UPI app</p>
+              <p>UPI ID: {company?.upiId}</p>
+              <p>Amount: {formatCurrency(balanceDue)}</p>
+              <p>Note: Invoice {invoice.invoiceNumber}</p>
+            </div>
+          </div>
+        )}
+
         {/* Declaration & Signature */}
         <div className="border border-black border-t-0 flex">
           <div className="w-3/5 p-2 text-[9px] border-r border-black leading-tight">
@@ -640,7 +1266,7 @@ export default function InvoiceDetails() {
           </div>
           <div className="w-2/5 p-2 flex flex-col justify-between leading-tight">
             <div className="text-right text-[10px] font-bold uppercase">
-              For SHRADDHA GARMENTS
+              For {company?.companyName}
             </div>
             <div className="h-12"></div>
             <div className="text-right text-[10px]">Authorised Signatory</div>
@@ -652,13 +1278,310 @@ export default function InvoiceDetails() {
         </div> */}
       </div>
 
+      {/* Credit/Debit Notes */}
+      {invoice.creditDebitNotes?.length > 0 && (
+        <div className="card max-w-[210mm] mx-auto print:hidden">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Credit & Debit Notes
+          </h3>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Note #</th>
+                <th>Date</th>
+                <th>Reason</th>
+                <th className="text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoice.creditDebitNotes.map((note: any) => (
+                <tr key={note.id}>
+                  <td>
+                    <Link
+                      to={`/invoices/notes/${note.id}`}
+                      className="text-primary-600 hover:text-primary-700 font-medium"
+                    >
+                      {note.noteNumber}
+                    </Link>
+                  </td>
+                  <td>{formatDate(note.issueDate)}</td>
+                  <td className="text-sm text-gray-600">{note.reason}</td>
+                  <td className="text-right font-medium">
+                    {note.noteType === "CREDIT" ? "-" : "+"}
+                    {formatCurrency(note.totalAmount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-4 flex justify-end gap-6 text-sm">
+            <span>
+              Net Amount:{" "}
+              <span className="font-semibold">{formatCurrency(netAmount)}</span>
+            </span>
+            <span>
+              Balance Due:{" "}
+              <span className="font-semibold text-orange-600">
+                {formatCurrency(balanceDue)}
+                {isForeign && ` (${inForeign(balanceDue)})`}
+              </span>
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Payments */}
+      {invoice.payments?.length > 0 && (
+        <div className="card max-w-[210mm] mx-auto print:hidden">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Payments</h3>
+            {Number(invoice.paidAmount) > 0 && (
+              <button
+                onClick={() => setPaymentModal({ refund: true })}
+                className="btn btn-outline btn-sm inline-flex items-center gap-1"
+              >
+                <ReceiptRefundIcon className="h-4 w-4" />
+                Refund
+              </button>
+            )}
+          </div>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Type</th>
+                <th>Method</th>
+                <th>Reference</th>
+                <th>Reason / Notes</th>
+                <th className="text-right">Amount</th>
+                <th className="text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoice.payments.map((payment: Payment) => {
+                const reversed = invoice.payments.some(
+                  (p: Payment) => p.reversalOfId === payment.id,
+                );
+                const credit = payment.type === "RECEIPT";
+                return (
+                  <tr
+                    key={payment.id}
+                    className={reversed ? "text-gray-400" : undefined}
+                  >
+                    <td>{formatDate(payment.paidAt)}</td>
+                    <td>
+                      <span
+                        className={`badge ${paymentTypeColors[payment.type]}`}
+                      >
+                        {payment.type}
+                      </span>
+                      {reversed && (
+                        <span className="ml-1 text-xs">Reversed</span>
+                      )}
+                    </td>
+                    <td>{payment.method.replace(/_/g, " ")}</td>
+                    <td>
+                      {payment.reference || "-"}
+                      {payment.receipt && (
+                        <span className="block text-xs text-gray-500">
+                          {payment.receipt.receiptNumber}
+                        </span>
+                      )}
+                      {payment.cheque && (
+                        <span className="block text-xs text-gray-500">
+                          {payment.cheque.bankName}, dated{" "}
+                          {formatDate(payment.cheque.chequeDate)}{" "}
+                          <span
+                            className={`badge ${
+                              chequeStatusColors[payment.cheque.status]
+                            }`}
+                          >
+                            {payment.cheque.status}
+                          </span>
+                        </span>
+                      )}
+                    </td>
+                    <td className="text-sm text-gray-600">
+                      {[payment.reason, payment.notes]
+                        .filter(Boolean)
+                        .join(" · ") || "-"}
+                    </td>
+                    <td className="text-right font-medium whitespace-nowrap">
+                      {credit ? "+" : "-"}
+                      {formatCurrency(payment.amount)}
+                    </td>
+                    <td className="text-right whitespace-nowrap">
+                      {credit &&
+                        !reversed &&
+                        invoice.status !== "CANCELLED" && (
+                          <>
+                            <button
+                              onClick={() => setPaymentModal({ payment })}
+                              className="p-1 text-gray-500 hover:text-primary-600 inline-flex"
+                              title="Edit"
+                            >
+                              <PencilSquareIcon className="h-5 w-5" />
+                            </button>
+                            <button
+                              onClick={() => handleReverse(payment)}
+                              disabled={reverseMutation.isPending}
+                              className="p-1 text-gray-500 hover:text-red-600 inline-flex"
+                              title="Reverse"
+                            >
+                              <ArrowUturnLeftIcon className="h-5 w-5" />
+                            </button>
+                          </>
+                        )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="mt-4 flex justify-end gap-6 text-sm">
+            {pendingCheques > 0 && (
+              <Link to="/invoices/cheques" className="text-gray-600">
+                Cheques not cleared:{" "}
+                <span className="font-semibold">
+                  {formatCurrency(pendingCheques)}
+                </span>
+              </Link>
+            )}
+            <span>
+              Paid:{" "}
+              <span className="font-semibold">
+                {formatCurrency(invoice.paidAmount)}
+              </span>
+            </span>
+            <span>
+              Balance Due:{" "}
+              <span className="font-semibold text-orange-600">
+                {formatCurrency(balanceDue)}
+                {isForeign && ` (${inForeign(balanceDue)})`}
+              </span>
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Email Log */}
+      {invoice.emails?.length > 0 && (
+        <div className="card max-w-[210mm] mx-auto print:hidden">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Emails Sent
+          </h3>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Recipient</th>
+                <th>Subject</th>
+                <th>By</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoice.emails.map((email: InvoiceEmail) => (
+                <tr key={email.id}>
+                  <td>{formatDateTime(email.createdAt)}</td>
+                  <td>{email.recipient}</td>
+                  <td>{email.subject}</td>
+                  <td>
+                    {email.sentBy
+                      ? `${email.sentBy.firstName} ${email.sentBy.lastName}`
+                      : "-"}
+                  </td>
+                  <td>
+                    <span
+                      className={`badge ${reminderStatusColors[email.status]}`}
+                      title={email.error}
+                    >
+                      {email.status}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Payment Reminders */}
+      {invoice.reminders?.length > 0 && (
+        <div className="card max-w-[210mm] mx-auto print:hidden">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Payment Reminders
+          </h3>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Reminder</th>
+                <th>Recipient</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoice.reminders.map((reminder: PaymentReminder) => (
+                <tr key={reminder.id}>
+                  <td>{formatDate(reminder.sentAt || reminder.createdAt)}</td>
+                  <td>{describeReminder(reminder.daysFromDue)}</td>
+                  <td>{reminder.recipient || "-"}</td>
+                  <td>
+                    <span
+                      className={`badge ${reminderStatusColors[reminder.status]}`}
+                      title={reminder.error}
+                    >
+                      {reminder.status}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Payment Modal */}
-      {showPaymentModal && (
+      {paymentModal && (
         <div className="print:hidden">
           <PaymentModal
             invoiceId={invoice.id}
             balanceDue={balanceDue}
-            onClose={() => setShowPaymentModal(false)}
+            payment={paymentModal.payment}
+            refund={paymentModal.refund}
+            paidAmount={Number(invoice.paidAmount)}
+            onClose={() => setPaymentModal(null)}
+          />
+        </div>
+      )}
+
+      {/* E-Way Bill Modal */}
+      {showEwayBillModal && (
+        <div className="print:hidden">
+          <EwayBillModal
+            invoice={invoice}
+            onClose={() => setShowEwayBillModal(false)}
+          />
+        </div>
+      )}
+
+      {/* Send Invoice Modal */}
+      {showSendModal && (
+        <div className="print:hidden">
+          <SendInvoiceModal
+            invoice={invoice}
+            onClose={() => setShowSendModal(false)}
+          />
+        </div>
+      )}
+
+      {/* Revision History Modal */}
+      {showHistory && (
+        <div className="print:hidden">
+          <RevisionHistoryModal
+            invoiceId={invoice.id}
+            onClose={() => setShowHistory(false)}
           />
         </div>
       )}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Link, useSearchParams } from "react-router-dom";
 import {
   PlusIcon,
@@ -8,13 +8,16 @@ import {
   EyeIcon,
   PrinterIcon,
   FunnelIcon,
+  BellAlertIcon,
 } from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
 import { invoicesAPI, customersAPI } from "@/lib/api";
 import { formatCurrency, formatDate } from "@/lib/utils";
 
 const statusColors: Record<string, string> = {
   DRAFT: "badge-gray",
   PENDING: "badge-warning",
+  SENT: "badge-info",
   PAID: "badge-success",
   PARTIALLY_PAID: "badge-info",
   OVERDUE: "badge-error",
@@ -22,6 +25,7 @@ const statusColors: Record<string, string> = {
 };
 
 export default function Invoices() {
+  const queryClient = useQueryClient();
   const [searchParams] = useSearchParams();
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("");
@@ -51,6 +55,24 @@ export default function Invoices() {
     queryFn: () => customersAPI.getAll({ limit: 100 }),
   });
 
+  const { data: expiringEwayBills } = useQuery({
+    queryKey: ["eway-bills-expiring"],
+    queryFn: () => invoicesAPI.getExpiringEwayBills(),
+    select: (res: any) => res.data || [],
+  });
+
+  // The server runs this hourly; the button is for checking right away
+  const remindersMutation = useMutation({
+    mutationFn: () => invoicesAPI.runReminders(),
+    onSuccess: (response: any) => {
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      toast.success(response.message || "Overdue invoices updated");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to check overdue");
+    },
+  });
+
   const invoices = data?.data || [];
   const total = data?.pagination?.total || 0;
   const totalPages = data?.pagination?.pages || Math.ceil(total / limit);
@@ -74,6 +96,44 @@ export default function Invoices() {
           >
             Manage HSNs
           </Link>
+          <Link
+            to="/invoices/notes"
+            className="btn btn-secondary inline-flex items-center gap-2 text-sm"
+          >
+            Credit/Debit Notes
+          </Link>
+          <Link
+            to="/invoices/gstr1"
+            className="btn btn-secondary inline-flex items-center gap-2 text-sm"
+          >
+            GSTR-1
+          </Link>
+          <Link
+            to="/invoices/tally"
+            className="btn btn-secondary inline-flex items-center gap-2 text-sm"
+          >
+            Tally Export
+          </Link>
+          <Link
+            to="/invoices/bank-reconciliation"
+            className="btn btn-secondary inline-flex items-center gap-2 text-sm"
+          >
+            Bank Reconciliation
+          </Link>
+          <Link
+            to="/invoices/cheques"
+            className="btn btn-secondary inline-flex items-center gap-2 text-sm"
+          >
+            Cheques
+          </Link>
+          <button
+            onClick={() => remindersMutation.mutate()}
+            disabled={remindersMutation.isPending}
+            className="btn btn-secondary inline-flex items-center gap-2 text-sm"
+          >
+            <BellAlertIcon className="h-4 w-4" />
+            {remindersMutation.isPending ? "Checking..." : "Check Overdue"}
+          </button>
           <Link
             to="/invoices/new"
             className="btn btn-primary inline-flex items-center gap-2"
@@ -84,6 +144,26 @@ export default function Invoices() {
         </div>
       </div>
 
+      {expiringEwayBills?.length > 0 && (
+        <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+          <p className="font-medium">E-way bills expiring within 24 hours</p>
+          <ul className="mt-1 space-y-0.5">
+            {expiringEwayBills.map((invoice: any) => (
+              <li key={invoice.id}>
+                <Link
+                  to={`/invoices/${invoice.id}`}
+                  className="font-medium underline"
+                >
+                  {invoice.invoiceNumber}
+                </Link>{" "}
+                ({invoice.customer?.name}) - EWB {invoice.ewbNumber}, valid
+                until {new Date(invoice.ewbValidUntil).toLocaleString("en-IN")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="card">
@@ -133,6 +213,7 @@ export default function Invoices() {
             <option value="">All Status</option>
             <option value="DRAFT">Draft</option>
             <option value="PENDING">Pending</option>
+            <option value="SENT">Sent</option>
             <option value="PAID">Paid</option>
             <option value="PARTIAL">Partial</option>
             <option value="OVERDUE">Overdue</option>
@@ -215,7 +296,12 @@ export default function Invoices() {
                       {formatCurrency(invoice.paidAmount)}
                     </td>
                     <td className="font-medium text-orange-600">
-                      {formatCurrency(invoice.totalAmount - invoice.paidAmount)}
+                      {formatCurrency(
+                        Number(invoice.totalAmount) +
+                          Number(invoice.debitedAmount || 0) -
+                          Number(invoice.creditedAmount || 0) -
+                          Number(invoice.paidAmount),
+                      )}
                     </td>
                     <td>
                       <span className={`badge ${statusColors[invoice.status]}`}>
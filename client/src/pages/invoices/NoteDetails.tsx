@@ -0,0 +1,394 @@
+import { useRef } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  PrinterIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { useReactToPrint } from "react-to-print";
+import { invoiceNotesAPI } from "@/lib/api";
+import { formatCurrency, formatDate, numberToWords } from "@/lib/utils";
+import logo from "@/assets/logo.png";
+import type { InvoiceNote, TaxBreakdown } from "@/types";
+
+const amount = (value: number) => formatCurrency(value).replace("₹", "");
+
+export default function NoteDetails() {
+  const { noteId } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const noteRef = useRef<HTMLDivElement>(null);
+
+  const { data: note, isLoading } = useQuery<InvoiceNote>({
+    queryKey: ["invoice-note", noteId],
+    queryFn: () => invoiceNotesAPI.getById(noteId!),
+    select: (res: any) => res.data,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => invoiceNotesAPI.delete(noteId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoice", note?.invoiceId] });
+      queryClient.invalidateQueries({ queryKey: ["invoice-notes"] });
+      toast.success("Note deleted");
+      navigate(`/invoices/${note?.invoiceId}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to delete note");
+    },
+  });
+
+  const handlePrint = useReactToPrint({
+    contentRef: noteRef,
+    documentTitle: `Note_${note?.noteNumber || "document"}`,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  if (!note) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500 mb-4">Note not found</p>
+        <Link to="/invoices/notes" className="btn btn-primary">
+          Back to Notes
+        </Link>
+      </div>
+    );
+  }
+
+  const title = note.noteType === "CREDIT" ? "Credit Note" : "Debit Note";
+  const company = note.company;
+  const taxBreakdown = note.taxBreakdown as TaxBreakdown;
+  const isInterState = taxBreakdown.isInterState;
+
+  const handleDelete = () => {
+    if (
+      window.confirm(
+        `Delete ${note.noteNumber}? The invoice balance${
+          note.returnToStock ? " and returned stock" : ""
+        } will be reversed.`,
+      )
+    ) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-6 print:space-y-0">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-4">
+          <Link
+            to={`/invoices/${note.invoiceId}`}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {note.noteNumber}
+            </h1>
+            <span
+              className={`badge ${note.noteType === "CREDIT" ? "badge-info" : "badge-warning"}`}
+            >
+              {title}
+            </span>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handlePrint}
+            className="btn btn-primary inline-flex items-center gap-2"
+          >
+            <PrinterIcon className="h-5 w-5" />
+            Print
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={deleteMutation.isPending}
+            className="btn btn-outline text-red-600 hover:bg-red-50"
+          >
+            <TrashIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={noteRef}
+        className="bg-white text-black p-4 sm:p-6 md:p-8 max-w-[210mm] mx-auto print:max-w-none print:mx-0 print:p-[10mm] print:w-[210mm]"
+      >
+        <div className="text-center font-bold text-xl mb-2 uppercase border border-black border-b-0 p-1">
+          {title}
+        </div>
+
+        <div className="border border-black flex flex-col sm:flex-row text-sm">
+          <div className="w-full sm:w-1/2 border-r border-black flex flex-col">
+            <div className="p-2 border-b border-black flex justify-between items-start">
+              <div>
+                <h2 className="font-bold text-base uppercase">
+                  {company?.companyName}
+                </h2>
+                <p className="text-xs">{company?.address}</p>
+                <p className="text-xs">
+                  {company?.city}, {company?.state} {company?.pincode}
+                </p>
+                <p className="text-xs">
+                  GSTIN/UIN: {company?.gstNumber || "Not configured"}
+                </p>
+                <p className="text-xs">
+                  State: {company?.state}, Code: {company?.stateCode || "-"}
+                </p>
+              </div>
+              <img
+                src={logo}
+                className="h-20 w-auto object-contain"
+                alt={company?.companyName}
+              />
+            </div>
+            <div className="p-2">
+              <span className="text-[10px] text-gray-600 block leading-tight">
+                Buyer
+              </span>
+              <h2 className="font-bold text-base">{note.customer?.name}</h2>
+              <p className="text-xs whitespace-pre-line">
+                {note.customer?.address}
+              </p>
+              <p className="text-xs">
+                {note.customer?.city}, {note.customer?.state} -{" "}
+                {note.customer?.pincode}
+              </p>
+              <p className="text-xs">
+                GSTIN/UIN: {note.customer?.gstNumber || "N/A"}
+              </p>
+              {taxBreakdown.placeOfSupply && (
+                <p className="text-xs">
+                  Place of Supply: {taxBreakdown.placeOfSupplyName}, Code:{" "}
+                  {taxBreakdown.placeOfSupply}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="w-full sm:w-1/2 flex flex-col text-xs">
+            <div className="flex border-b border-black">
+              <div className="w-1/2 p-1 border-r border-black">
+                <span className="block text-[10px] text-gray-600 leading-tight">
+                  {title} No.
+                </span>
+                <span className="font-bold">{note.noteNumber}</span>
+              </div>
+              <div className="w-1/2 p-1">
+                <span className="block text-[10px] text-gray-600 leading-tight">
+                  Dated
+                </span>
+                <span className="font-bold">{formatDate(note.issueDate)}</span>
+              </div>
+            </div>
+            <div className="flex border-b border-black">
+              <div className="w-1/2 p-1 border-r border-black">
+                <span className="block text-[10px] text-gray-600 leading-tight">
+                  Original Invoice No.
+                </span>
+                <span className="font-bold">{note.invoice?.invoiceNumber}</span>
+              </div>
+              <div className="w-1/2 p-1">
+                <span className="block text-[10px] text-gray-600 leading-tight">
+                  Invoice Date
+                </span>
+                <span>
+                  {note.invoice?.issueDate
+                    ? formatDate(note.invoice.issueDate)
+                    : "-"}
+                </span>
+              </div>
+            </div>
+            <div className="flex-grow p-1">
+              <span className="block text-[10px] text-gray-600 leading-tight">
+                Reason
+              </span>
+              <span>{note.reason}</span>
+              {note.returnToStock && (
+                <span className="block mt-1 italic">
+                  Goods received back into stock
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Items */}
+        <table className="w-full border border-black border-t-0 text-[11px]">
+          <thead>
+            <tr className="border-b border-black bg-gray-50 print:bg-white">
+              <th className="p-1 border-r border-black w-8">SI No.</th>
+              <th className="p-1 border-r border-black text-left">
+                Description of Goods
+              </th>
+              <th className="p-1 border-r border-black w-20">HSN</th>
+              <th className="p-1 border-r border-black w-12">GST</th>
+              <th className="p-1 border-r border-black w-16">Qty</th>
+              <th className="p-1 border-r border-black w-20">Rate</th>
+              <th className="p-1 w-24">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {note.items?.map((item, index) => (
+              <tr key={item.id} className="align-top">
+                <td className="p-1 border-r border-black text-center">
+                  {index + 1}
+                </td>
+                <td className="p-1 border-r border-black font-bold">
+                  {item.description}
+                </td>
+                <td className="p-1 border-r border-black text-center">
+                  {item.hsnCode || "-"}
+                </td>
+                <td className="p-1 border-r border-black text-center">
+                  {Number(item.taxRate)}%
+                </td>
+                <td className="p-1 border-r border-black text-center">
+                  {Number(item.quantity)}
+                </td>
+                <td className="p-1 border-r border-black text-right font-mono">
+                  {amount(item.unitPrice)}
+                </td>
+                <td className="p-1 text-right font-mono font-bold">
+                  {amount(item.amount)}
+                </td>
+              </tr>
+            ))}
+            {taxBreakdown.rows.map((row) =>
+              isInterState ? (
+                <tr key={`${row.hsnCode}-${row.taxRate}`}>
+                  <td className="border-r border-black" />
+                  <td
+                    colSpan={5}
+                    className="p-1 border-r border-black text-right font-bold"
+                  >
+                    IGST {row.igstRate}%
+                  </td>
+                  <td className="p-1 text-right font-mono">
+                    {amount(row.igstAmount)}
+                  </td>
+                </tr>
+              ) : (
+                <tr key={`${row.hsnCode}-${row.taxRate}`}>
+                  <td className="border-r border-black" />
+                  <td
+                    colSpan={5}
+                    className="p-1 border-r border-black text-right font-bold"
+                  >
+                    CGST {row.cgstRate}% / SGST {row.sgstRate}%
+                  </td>
+                  <td className="p-1 text-right font-mono">
+                    {amount(row.cgstAmount)} / {amount(row.sgstAmount)}
+                  </td>
+                </tr>
+              ),
+            )}
+            {Number(note.roundOff) !== 0 && (
+              <tr>
+                <td className="border-r border-black" />
+                <td
+                  colSpan={5}
+                  className="p-1 border-r border-black text-right italic"
+                >
+                  Rounding
+                </td>
+                <td className="p-1 text-right font-mono">
+                  {amount(note.roundOff)}
+                </td>
+              </tr>
+            )}
+            <tr className="border-t border-black font-bold">
+              <td colSpan={6} className="p-1 border-r border-black text-right">
+                Total
+              </td>
+              <td className="p-1 text-right font-mono">
+                ₹ {amount(note.totalAmount)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div className="border border-black border-t-0 p-1 text-[10px]">
+          <span className="text-gray-600 mr-2">Amount (in words) :</span>
+          <span className="font-bold uppercase italic">
+            {numberToWords(Number(note.totalAmount))}
+          </span>
+        </div>
+
+        {/* HSN-wise tax summary */}
+        <table className="w-full border border-black border-t-0 text-[10px] text-center">
+          <thead>
+            <tr className="border-b border-black bg-gray-50 print:bg-white">
+              <th className="p-1 border-r border-black">HSN</th>
+              <th className="p-1 border-r border-black">Taxable Value</th>
+              {isInterState ? (
+                <th className="p-1 border-r border-black">IGST</th>
+              ) : (
+                <>
+                  <th className="p-1 border-r border-black">CGST</th>
+                  <th className="p-1 border-r border-black">SGST</th>
+                </>
+              )}
+              <th className="p-1">Total Tax</th>
+            </tr>
+          </thead>
+          <tbody>
+            {taxBreakdown.rows.map((row) => (
+              <tr key={`${row.hsnCode}-${row.taxRate}`}>
+                <td className="p-1 border-r border-black">{row.hsnCode}</td>
+                <td className="p-1 border-r border-black text-right">
+                  {amount(row.taxableValue)}
+                </td>
+                {isInterState ? (
+                  <td className="p-1 border-r border-black text-right">
+                    {amount(row.igstAmount)}
+                  </td>
+                ) : (
+                  <>
+                    <td className="p-1 border-r border-black text-right">
+                      {amount(row.cgstAmount)}
+                    </td>
+                    <td className="p-1 border-r border-black text-right">
+                      {amount(row.sgstAmount)}
+                    </td>
+                  </>
+                )}
+                <td className="p-1 text-right font-bold">
+                  {amount(row.totalTax)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="border border-black border-t-0 flex">
+          <div className="w-3/5 p-2 text-[9px] border-r border-black leading-tight">
+            {note.notes && <p className="mb-1">{note.notes}</p>}
+            <p>
+              This {title.toLowerCase()} is issued against invoice{" "}
+              {note.invoice?.invoiceNumber} and adjusts the amount payable on
+              it.
+            </p>
+          </div>
+          <div className="w-2/5 p-2 flex flex-col justify-between leading-tight">
+            <div className="text-right text-[10px] font-bold uppercase">
+              For {company?.companyName}
+            </div>
+            <div className="h-12"></div>
+            <div className="text-right text-[10px]">Authorised Signatory</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import {
+  ArrowLeftIcon,
+  DocumentTextIcon,
+  MagnifyingGlassIcon,
+} from "@heroicons/react/24/outline";
+import { invoiceNotesAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+export default function Notes() {
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState("");
+  const [page, setPage] = useState(1);
+  const limit = 10;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["invoice-notes", { search, noteType: typeFilter, page, limit }],
+    queryFn: () =>
+      invoiceNotesAPI.getAll({
+        search,
+        noteType: typeFilter || undefined,
+        page,
+        limit,
+      }),
+  });
+
+  const notes = data?.data || [];
+  const total = data?.pagination?.total || 0;
+  const totalPages = data?.pagination?.pages || Math.ceil(total / limit);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link
+          to="/invoices"
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Credit & Debit Notes
+          </h1>
+          <p className="text-sm text-gray-500">
+            Raise a note from the invoice it adjusts.
+          </p>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by note, invoice or customer..."
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              className="input pl-10"
+            />
+          </div>
+          <select
+            value={typeFilter}
+            onChange={(e) => {
+              setTypeFilter(e.target.value);
+              setPage(1);
+            }}
+            className="input max-w-xs"
+          >
+            <option value="">All Types</option>
+            <option value="CREDIT">Credit Notes</option>
+            <option value="DEBIT">Debit Notes</option>
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+        </div>
+      ) : notes.length === 0 ? (
+        <div className="card text-center py-12">
+          <DocumentTextIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No notes found</p>
+        </div>
+      ) : (
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Note #</th>
+                  <th>Type</th>
+                  <th>Invoice</th>
+                  <th>Customer</th>
+                  <th>Date</th>
+                  <th>Reason</th>
+                  <th className="text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {notes.map((note: any) => (
+                  <tr key={note.id}>
+                    <td>
+                      <Link
+                        to={`/invoices/notes/${note.id}`}
+                        className="text-primary-600 hover:text-primary-700 font-medium"
+                      >
+                        {note.noteNumber}
+                      </Link>
+                    </td>
+                    <td>
+                      <span
+                        className={`badge ${note.noteType === "CREDIT" ? "badge-info" : "badge-warning"}`}
+                      >
+                        {note.noteType === "CREDIT" ? "Credit" : "Debit"}
+                      </span>
+                    </td>
+                    <td>
+                      <Link
+                        to={`/invoices/${note.invoice?.id}`}
+                        className="text-gray-700 hover:text-primary-600"
+                      >
+                        {note.invoice?.invoiceNumber}
+                      </Link>
+                    </td>
+                    <td>{note.customer?.name}</td>
+                    <td>{formatDate(note.issueDate)}</td>
+                    <td className="text-sm text-gray-600">{note.reason}</td>
+                    <td className="text-right font-medium">
+                      {note.noteType === "CREDIT" ? "-" : "+"}
+                      {formatCurrency(note.totalAmount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+              <p className="text-sm text-gray-500">
+                Showing {(page - 1) * limit + 1} to{" "}
+                {Math.min(page * limit, total)} of {total} notes
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="btn btn-outline btn-sm"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                  className="btn btn-outline btn-sm"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,37 +5,86 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import toast from "react-hot-toast";
 import { invoicesAPI } from "@/lib/api";
 import { formatCurrency } from "@/lib/utils";
+import type { Payment } from "@/types";
 
 interface PaymentModalProps {
   invoiceId: string;
   balanceDue: number;
+  // Correct an existing receipt instead of recording a new one
+  payment?: Payment;
+  // Record money paid back to the customer, up to paidAmount
+  refund?: boolean;
+  paidAmount?: number;
   onClose: () => void;
 }
 
 export default function PaymentModal({
   invoiceId,
   balanceDue,
+  payment,
+  refund = false,
+  paidAmount = 0,
   onClose,
 }: PaymentModalProps) {
   const queryClient = useQueryClient();
-  const [amount, setAmount] = useState(balanceDue.toString());
+  const maxAmount = refund
+    ? paidAmount
+    : payment
+    ? balanceDue + Number(payment.amount)
+    : balanceDue;
+  const [amount, setAmount] = useState(
+    payment ? String(Number(payment.amount)) : maxAmount.toString()
+  );
   const [paymentDate, setPaymentDate] = useState(
-    new Date().toISOString().split("T")[0]
+    (payment?.paidAt || new Date().toISOString()).split("T")[0]
+  );
+  const [paymentMethod, setPaymentMethod] = useState<string>(
+    payment?.method || "BANK_TRANSFER"
   );
-  const [paymentMethod, setPaymentMethod] = useState("BANK_TRANSFER");
-  const [reference, setReference] = useState("");
-  const [notes, setNotes] = useState("");
+  const [reference, setReference] = useState(payment?.reference || "");
+  const [notes, setNotes] = useState(payment?.notes || "");
+  const [reason, setReason] = useState("");
+  const [chequeNumber, setChequeNumber] = useState("");
+  const [bankName, setBankName] = useState("");
+  const [chequeDate, setChequeDate] = useState("");
+
+  // New cheque payments go in the cheque register; recorded ones keep
+  // their amount and method and are bounced from there instead
+  const isCheque = !refund && !payment && paymentMethod === "CHEQUE";
+  const chequeLocked = Boolean(payment?.chequeId);
+
+  // Changing an amount reverses the original, so it needs a reason too
+  const amountChanged =
+    payment !== undefined &&
+    Math.abs(Number(amount) - Number(payment.amount)) >= 0.005;
+  const needsReason = refund || amountChanged;
+  const title = refund
+    ? "Record Refund"
+    : payment
+    ? "Edit Payment"
+    : "Record Payment";
 
   const paymentMutation = useMutation({
-    mutationFn: (data: any) => invoicesAPI.addPayment(invoiceId, data),
+    mutationFn: (data: any) =>
+      refund
+        ? invoicesAPI.addRefund(invoiceId, data)
+        : payment
+        ? invoicesAPI.updatePayment(invoiceId, payment.id, data)
+        : invoicesAPI.addPayment(invoiceId, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["invoice", invoiceId] });
       queryClient.invalidateQueries({ queryKey: ["invoices"] });
-      toast.success("Payment recorded successfully");
+      toast.success(
+        refund
+          ? "Refund recorded successfully"
+          : payment
+          ? "Payment updated successfully"
+          : "Payment recorded successfully"
+      );
       onClose();
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || "Failed to record payment");
+      toast.error(error.response?.data?.message || "Failed to save payment");
     },
   });
 
@@ -47,8 +96,20 @@ export default function PaymentModal({
       toast.error("Please enter a valid amount");
       return;
     }
-    if (paymentAmount > balanceDue) {
-      toast.error("Payment amount cannot exceed balance due");
+    if (paymentAmount > maxAmount + 0.01) {
+      toast.error(
+        refund
+          ? "Refund cannot exceed the amount paid"
+          : "Payment amount cannot exceed balance due"
+      );
+      return;
+    }
+    if (needsReason && !reason.trim()) {
+      toast.error("Please enter a reason");
+      return;
+    }
+    if (isCheque && (!chequeNumber.trim() || !bankName.trim())) {
+      toast.error("Please enter the cheque number and bank");
       return;
     }
 
@@ -58,6 +119,12 @@ export default function PaymentModal({
       method: paymentMethod,
       reference,
       notes,
+      reason: needsReason ? reason : undefined,
+      ...(isCheque && {
+        chequeNumber,
+        bankName,
+        chequeDate: chequeDate || undefined,
+      }),
     });
   };
 
@@ -90,7 +157,7 @@ export default function PaymentModal({
               <Dialog.Panel className="relative transform overflow-hidden rounded-xl bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-md">
                 <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
                   <Dialog.Title className="text-lg font-semibold text-gray-900">
-                    Record Payment
+                    {title}
                   </Dialog.Title>
                   <button
                     onClick={onClose}
@@ -103,28 +170,35 @@ export default function PaymentModal({
                 <form onSubmit={handleSubmit} className="p-6 space-y-4">
                   <div className="bg-primary-50 p-4 rounded-lg">
                     <div className="flex justify-between">
-                      <span className="text-sm text-gray-600">Balance Due</span>
+                      <span className="text-sm text-gray-600">
+                        {refund ? "Amount Paid" : "Balance Due"}
+                      </span>
                       <span className="text-lg font-bold text-primary-600">
-                        {formatCurrency(balanceDue)}
+                        {formatCurrency(refund ? paidAmount : balanceDue)}
                       </span>
                     </div>
                   </div>
 
                   <div>
-                    <label className="label">Payment Amount *</label>
+                    <label className="label">
+                      {refund ? "Refund Amount *" : "Payment Amount *"}
+                    </label>
                     <input
                       type="number"
                       step="0.01"
                       value={amount}
                       onChange={(e) => setAmount(e.target.value)}
                       className="input"
-                      max={balanceDue}
+                      max={maxAmount}
+                      disabled={chequeLocked}
                       required
                     />
                   </div>
 
                   <div>
-                    <label className="label">Payment Date *</label>
+                    <label className="label">
+                      {refund ? "Refund Date *" : "Payment Date *"}
+                    </label>
                     <input
                       type="date"
                       value={paymentDate}
@@ -140,6 +214,7 @@ export default function PaymentModal({
                       value={paymentMethod}
                       onChange={(e) => setPaymentMethod(e.target.value)}
                       className="input"
+                      disabled={chequeLocked}
                     >
                       <option value="CASH">Cash</option>
                       <option value="BANK_TRANSFER">Bank Transfer</option>
@@ -150,6 +225,45 @@ export default function PaymentModal({
                     </select>
                   </div>
 
+                  {isCheque && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="label">Cheque Number *</label>
+                        <input
+                          type="text"
+                          value={chequeNumber}
+                          onChange={(e) => setChequeNumber(e.target.value)}
+                          className="input"
+                          required
+                        />
+                      </div>
+                      <div>
+                        <label className="label">Bank *</label>
+                        <input
+                          type="text"
+                          value={bankName}
+                          onChange={(e) => setBankName(e.target.value)}
+                          className="input"
+                          placeholder="e.g. HDFC Bank"
+                          required
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        <label className="label">Cheque Date</label>
+                        <input
+                          type="date"
+                          value={chequeDate}
+                          onChange={(e) => setChequeDate(e.target.value)}
+                          className="input"
+                        />
+                        <p className="mt-1 text-xs text-gray-500">
+                          For post-dated cheques. The payment counts towards
+                          the balance once the cheque clears.
+                        </p>
+                      </div>
+                    </div>
+                  )}
+
                   <div>
                     <label className="label">Reference Number</label>
                     <input
@@ -161,6 +275,24 @@ export default function PaymentModal({
                     />
                   </div>
 
+                  {needsReason && (
+                    <div>
+                      <label className="label">Reason *</label>
+                      <input
+                        type="text"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        className="input"
+                        placeholder={
+                          refund
+                            ? "e.g. Excess payment returned"
+                            : "e.g. Wrong amount entered"
+                        }
+                        required
+                      />
+                    </div>
+                  )}
+
                   <div>
                     <label className="label">Notes</label>
                     <textarea
@@ -184,9 +316,7 @@ export default function PaymentModal({
                       disabled={paymentMutation.isPending}
                       className="btn btn-primary"
                     >
-                      {paymentMutation.isPending
-                        ? "Recording..."
-                        : "Record Payment"}
+                      {paymentMutation.isPending ? "Saving..." : title}
                     </button>
                   </div>
                 </form>
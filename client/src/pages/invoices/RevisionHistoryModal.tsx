@@ -0,0 +1,313 @@
+import { Fragment, useEffect, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { useQuery } from "@tanstack/react-query";
+import { invoicesAPI } from "@/lib/api";
+import {
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  formatStatus,
+} from "@/lib/utils";
+import type {
+  InvoiceRevision,
+  InvoiceRevisionAction,
+  InvoiceRevisionDiff,
+  RevisionFieldChange,
+  RevisionValue,
+} from "@/types";
+
+const actionLabels: Record<InvoiceRevisionAction, string> = {
+  BASELINE: "Before history",
+  CREATED: "Created",
+  UPDATED: "Edited",
+  EINVOICE: "IRN saved",
+  EWAY_BILL: "E-way bill saved",
+  SENT: "Sent",
+  CANCELLED: "Cancelled",
+  REOPENED: "Reopened",
+  PAYMENT: "Payment",
+  NOTE: "Credit/debit note",
+  OVERDUE: "Marked overdue",
+};
+
+const formatValue = (value: RevisionValue) => {
+  if (value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return formatDate(value);
+  }
+  return String(value);
+};
+
+function ChangeRows({ changes }: { changes: RevisionFieldChange[] }) {
+  return (
+    <>
+      {changes.map((change) => (
+        <tr key={change.field}>
+          <td className="text-gray-600">{change.label}</td>
+          <td className="text-red-600 line-through">
+            {formatValue(change.before)}
+          </td>
+          <td className="text-green-700">{formatValue(change.after)}</td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+interface RevisionHistoryModalProps {
+  invoiceId: string;
+  onClose: () => void;
+}
+
+export default function RevisionHistoryModal({
+  invoiceId,
+  onClose,
+}: RevisionHistoryModalProps) {
+  const [from, setFrom] = useState<number>();
+  const [to, setTo] = useState<number>();
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: ["invoice-revisions", invoiceId],
+    queryFn: () => invoicesAPI.getRevisions(invoiceId),
+    select: (res: any) => res.data as InvoiceRevision[],
+  });
+
+  // Compare the latest version with the one before it to start with
+  useEffect(() => {
+    if (revisions.length > 1 && to === undefined) {
+      setTo(revisions[0].version);
+      setFrom(revisions[1].version);
+    }
+  }, [revisions, to]);
+
+  const { data: diff, isFetching } = useQuery({
+    queryKey: ["invoice-revision-diff", invoiceId, from, to],
+    queryFn: () => invoicesAPI.getRevisionDiff(invoiceId, { from, to }),
+    select: (res: any) => res.data as InvoiceRevisionDiff,
+    enabled: from !== undefined && to !== undefined && from !== to,
+  });
+
+  const hasChanges =
+    diff &&
+    (diff.fields.length > 0 ||
+      diff.lines.added.length > 0 ||
+      diff.lines.removed.length > 0 ||
+      diff.lines.changed.length > 0);
+
+  const versionSelect = (
+    value: number | undefined,
+    onChange: (version: number) => void,
+  ) => (
+    <select
+      value={value ?? ""}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="input"
+    >
+      {revisions.map((revision) => (
+        <option key={revision.version} value={revision.version}>
+          v{revision.version} · {formatDateTime(revision.createdAt)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Transition.Root show as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-xl bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-4xl">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                  <Dialog.Title className="text-lg font-semibold text-gray-900">
+                    Revision History
+                  </Dialog.Title>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-500"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                  {isLoading ? (
+                    <p className="text-sm text-gray-500">Loading...</p>
+                  ) : revisions.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      No revisions yet. A snapshot is kept each time the invoice
+                      is changed.
+                    </p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="table">
+                        <thead>
+                          <tr>
+                            <th>Version</th>
+                            <th>Change</th>
+                            <th>By</th>
+                            <th>When</th>
+                            <th>Status</th>
+                            <th className="text-right">Items</th>
+                            <th className="text-right">Total</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {revisions.map((revision) => (
+                            <tr key={revision.id}>
+                              <td className="font-medium">
+                                v{revision.version}
+                              </td>
+                              <td>{actionLabels[revision.action]}</td>
+                              <td>
+                                {revision.createdBy
+                                  ? `${revision.createdBy.firstName} ${revision.createdBy.lastName}`
+                                  : "System"}
+                              </td>
+                              <td>{formatDateTime(revision.createdAt)}</td>
+                              <td>{formatStatus(revision.status)}</td>
+                              <td className="text-right">
+                                {revision.itemCount}
+                              </td>
+                              <td className="text-right">
+                                {formatCurrency(revision.totalAmount)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {revisions.length > 1 && (
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="label">Compare</label>
+                          {versionSelect(from, setFrom)}
+                        </div>
+                        <div>
+                          <label className="label">With</label>
+                          {versionSelect(to, setTo)}
+                        </div>
+                      </div>
+
+                      {from === to ? (
+                        <p className="text-sm text-gray-500">
+                          Pick two different versions to compare.
+                        </p>
+                      ) : isFetching && !diff ? (
+                        <p className="text-sm text-gray-500">Loading...</p>
+                      ) : diff && !hasChanges ? (
+                        <p className="text-sm text-gray-500">
+                          No differences between these versions.
+                        </p>
+                      ) : (
+                        diff && (
+                          <div className="space-y-4">
+                            {diff.fields.length > 0 && (
+                              <div>
+                                <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                                  Invoice fields
+                                </h4>
+                                <table className="table">
+                                  <thead>
+                                    <tr>
+                                      <th>Field</th>
+                                      <th>v{diff.from.version}</th>
+                                      <th>v{diff.to.version}</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    <ChangeRows changes={diff.fields} />
+                                  </tbody>
+                                </table>
+                              </div>
+                            )}
+
+                            {diff.lines.changed.map((line, index) => (
+                              <div key={index}>
+                                <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                                  Changed line: {formatValue(line.description)}
+                                </h4>
+                                <table className="table">
+                                  <tbody>
+                                    <ChangeRows changes={line.changes} />
+                                  </tbody>
+                                </table>
+                              </div>
+                            ))}
+
+                            {diff.lines.added.length > 0 && (
+                              <div>
+                                <h4 className="text-sm font-semibold text-green-700 mb-2">
+                                  Added lines
+                                </h4>
+                                <ul className="text-sm text-gray-700 list-disc pl-5">
+                                  {diff.lines.added.map((item, index) => (
+                                    <li key={index}>
+                                      {formatValue(item.description)} —{" "}
+                                      {formatValue(item.quantity)}{" "}
+                                      {formatValue(item.unit)} @{" "}
+                                      {formatValue(item.unitPrice)} ={" "}
+                                      {formatValue(item.amount)}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+
+                            {diff.lines.removed.length > 0 && (
+                              <div>
+                                <h4 className="text-sm font-semibold text-red-600 mb-2">
+                                  Removed lines
+                                </h4>
+                                <ul className="text-sm text-gray-700 list-disc pl-5">
+                                  {diff.lines.removed.map((item, index) => (
+                                    <li key={index}>
+                                      {formatValue(item.description)} —{" "}
+                                      {formatValue(item.quantity)}{" "}
+                                      {formatValue(item.unit)} @{" "}
+                                      {formatValue(item.unitPrice)} ={" "}
+                                      {formatValue(item.amount)}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                          </div>
+                        )
+                      )}
+                    </div>
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+}
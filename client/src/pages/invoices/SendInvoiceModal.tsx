@@ -0,0 +1,169 @@
+import { Fragment, useEffect, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { invoicesAPI } from "@/lib/api";
+import type { Invoice, InvoiceEmailDraft } from "@/types";
+
+interface SendInvoiceModalProps {
+  invoice: Invoice;
+  onClose: () => void;
+}
+
+export default function SendInvoiceModal({
+  invoice,
+  onClose,
+}: SendInvoiceModalProps) {
+  const queryClient = useQueryClient();
+  const [to, setTo] = useState("");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+
+  const { data: draft, isLoading } = useQuery({
+    queryKey: ["invoice-email-draft", invoice.id],
+    queryFn: () => invoicesAPI.getEmailDraft(invoice.id),
+    select: (res: any) => res.data as InvoiceEmailDraft,
+  });
+
+  // Start from the templates; edits only apply to this email
+  useEffect(() => {
+    if (draft) {
+      setTo(draft.to);
+      setSubject(draft.subject);
+      setBody(draft.body);
+    }
+  }, [draft]);
+
+  const sendMutation = useMutation({
+    mutationFn: () => invoicesAPI.send(invoice.id, { to, subject, body }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoice", invoice.id] });
+      toast.success(`Invoice emailed to ${to}`);
+      onClose();
+    },
+    onError: (error: any) => {
+      // Failed attempts are logged on the invoice as well
+      queryClient.invalidateQueries({ queryKey: ["invoice", invoice.id] });
+      toast.error(error.response?.data?.message || "Failed to email invoice");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendMutation.mutate();
+  };
+
+  return (
+    <Transition.Root show as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-xl bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                  <Dialog.Title className="text-lg font-semibold text-gray-900">
+                    Email Invoice {invoice.invoiceNumber}
+                  </Dialog.Title>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-500"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {isLoading ? (
+                  <div className="p-6 text-sm text-gray-500">Loading...</div>
+                ) : (
+                  <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    {draft && !draft.configured && (
+                      <p className="rounded-lg border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+                        Email is not set up yet. Add the SMTP server in Settings
+                        &gt; Email.
+                      </p>
+                    )}
+
+                    <div>
+                      <label className="label">To *</label>
+                      <input
+                        type="email"
+                        value={to}
+                        onChange={(e) => setTo(e.target.value)}
+                        className="input"
+                        placeholder="customer@example.com"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="label">Subject *</label>
+                      <input
+                        type="text"
+                        value={subject}
+                        onChange={(e) => setSubject(e.target.value)}
+                        className="input"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="label">Message *</label>
+                      <textarea
+                        value={body}
+                        onChange={(e) => setBody(e.target.value)}
+                        rows={8}
+                        className="input"
+                        required
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        The invoice PDF is attached.
+                      </p>
+                    </div>
+
+                    <div className="flex justify-end gap-3 pt-2">
+                      <button
+                        type="button"
+                        onClick={onClose}
+                        className="btn btn-outline"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={sendMutation.isPending || !draft?.configured}
+                        className="btn btn-primary"
+                      >
+                        {sendMutation.isPending ? "Sending..." : "Send"}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+}
@@ -0,0 +1,484 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  ArrowDownTrayIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { tallyAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type {
+  TallyExport as TallyExportRecord,
+  TallySettings,
+  TallyVoucherDeletion,
+  TallyVoucherPreview,
+  TallyVoucherType,
+} from "@/types";
+
+const VOUCHER_GROUPS: Array<{ label: string; types: TallyVoucherType[] }> = [
+  { label: "Sales invoices", types: ["SALES"] },
+  { label: "Receipts & refunds", types: ["RECEIPT", "PAYMENT"] },
+  { label: "Purchases (received POs)", types: ["PURCHASE"] },
+];
+
+const TYPE_LABELS: Record<TallyVoucherType, string> = {
+  SALES: "Sales",
+  RECEIPT: "Receipt",
+  PAYMENT: "Payment",
+  PURCHASE: "Purchase",
+};
+
+const LEDGER_FIELDS: Array<{ key: keyof TallySettings; label: string }> = [
+  { key: "salesLedger", label: "Sales" },
+  { key: "outputCgstLedger", label: "Output CGST" },
+  { key: "outputSgstLedger", label: "Output SGST" },
+  { key: "outputIgstLedger", label: "Output IGST" },
+  { key: "purchaseLedger", label: "Purchase" },
+  { key: "inputCgstLedger", label: "Input CGST" },
+  { key: "inputSgstLedger", label: "Input SGST" },
+  { key: "inputIgstLedger", label: "Input IGST" },
+  { key: "discountLedger", label: "Discount" },
+  { key: "freightLedger", label: "Freight" },
+  { key: "roundOffLedger", label: "Round Off" },
+  { key: "cashLedger", label: "Cash" },
+  { key: "bankLedger", label: "Bank (all non-cash receipts)" },
+];
+
+const toDateInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .split("T")[0];
+
+// Previous calendar month, the period usually handed to the CA
+const lastMonthRange = () => {
+  const now = new Date();
+  return {
+    from: toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+    to: toDateInput(new Date(now.getFullYear(), now.getMonth(), 0)),
+  };
+};
+
+const saveFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Errors on a blob request arrive as a blob holding the JSON body
+const blobErrorMessage = async (error: any, fallback: string) => {
+  const data = error.response?.data;
+  if (data instanceof Blob) {
+    try {
+      return JSON.parse(await data.text()).message || fallback;
+    } catch {
+      return fallback;
+    }
+  }
+  return data?.message || fallback;
+};
+
+export default function TallyExport() {
+  const queryClient = useQueryClient();
+  const [range, setRange] = useState(lastMonthRange());
+  const [groups, setGroups] = useState<string[]>([
+    VOUCHER_GROUPS[0].label,
+    VOUCHER_GROUPS[1].label,
+  ]);
+  const [includeExported, setIncludeExported] = useState(false);
+  const [ledgers, setLedgers] = useState<TallySettings | null>(null);
+  const [parties, setParties] = useState<
+    Array<{ code: string; ledger: string }>
+  >([]);
+
+  const types = VOUCHER_GROUPS.filter((group) =>
+    groups.includes(group.label),
+  ).flatMap((group) => group.types);
+
+  const { data: preview, isLoading } = useQuery<{
+    vouchers: TallyVoucherPreview[];
+    deletions: TallyVoucherDeletion[];
+  }>({
+    queryKey: ["tally-preview", range, types],
+    queryFn: () => tallyAPI.preview({ ...range, types: types.join(",") }),
+    select: (res: any) => ({
+      vouchers: res.data || [],
+      deletions: res.deletions || [],
+    }),
+    enabled: Boolean(range.from && range.to && types.length),
+  });
+  const vouchers = preview?.vouchers || [];
+  const deletions = preview?.deletions || [];
+
+  const { data: settings } = useQuery<TallySettings>({
+    queryKey: ["tally-settings"],
+    queryFn: tallyAPI.getSettings,
+    select: (res: any) => res.data,
+  });
+
+  const { data: exports = [] } = useQuery<TallyExportRecord[]>({
+    queryKey: ["tally-exports"],
+    queryFn: () => tallyAPI.getExports({ limit: 10 }),
+    select: (res: any) => res.data || [],
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setLedgers(settings);
+    setParties(
+      Object.entries(settings.partyLedgers).map(([code, ledger]) => ({
+        code,
+        ledger,
+      })),
+    );
+  }, [settings]);
+
+  const exportMutation = useMutation({
+    mutationFn: () =>
+      tallyAPI.downloadExport({ ...range, types, includeExported }),
+    onSuccess: (blob: Blob) => {
+      saveFile(blob, `Tally_${range.from}_${range.to}.xml`);
+      queryClient.invalidateQueries({ queryKey: ["tally-preview"] });
+      queryClient.invalidateQueries({ queryKey: ["tally-exports"] });
+      toast.success("Tally vouchers exported");
+    },
+    onError: async (error: any) => {
+      toast.error(await blobErrorMessage(error, "Failed to export vouchers"));
+    },
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: () =>
+      tallyAPI.updateSettings({
+        ...ledgers,
+        partyLedgers: Object.fromEntries(
+          parties
+            .filter((party) => party.code.trim() && party.ledger.trim())
+            .map((party) => [party.code.trim(), party.ledger.trim()]),
+        ),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tally-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["tally-preview"] });
+      toast.success("Ledger mapping saved");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error.response?.data?.message || "Failed to save ledger mapping",
+      );
+    },
+  });
+
+  const toggleGroup = (label: string) =>
+    setGroups((current) =>
+      current.includes(label)
+        ? current.filter((value) => value !== label)
+        : [...current, label],
+    );
+
+  const pending = vouchers.filter((voucher) => !voucher.exportedAt);
+  const exportCount =
+    (includeExported ? vouchers.length : pending.length) + deletions.length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link
+            to="/invoices"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Tally Export</h1>
+            <p className="text-gray-500">
+              Vouchers as Tally XML for Gateway of Tally &gt; Import &gt;
+              Vouchers
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => exportMutation.mutate()}
+          disabled={exportCount === 0 || exportMutation.isPending}
+          className="btn btn-primary inline-flex items-center gap-2"
+        >
+          <ArrowDownTrayIcon className="h-5 w-5" />
+          {exportMutation.isPending
+            ? "Exporting..."
+            : `Export ${exportCount} Voucher${exportCount === 1 ? "" : "s"}`}
+        </button>
+      </div>
+
+      <div className="card space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div>
+            <label className="label">From</label>
+            <input
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">To</label>
+            <input
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="input"
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="label">Vouchers</label>
+            <div className="flex flex-wrap gap-4 pt-2">
+              {VOUCHER_GROUPS.map((group) => (
+                <label
+                  key={group.label}
+                  className="flex items-center gap-2 text-sm text-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={groups.includes(group.label)}
+                    onChange={() => toggleGroup(group.label)}
+                    className="h-4 w-4 text-primary-600 rounded border-gray-300"
+                  />
+                  {group.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={includeExported}
+            onChange={(e) => setIncludeExported(e.target.checked)}
+            className="h-4 w-4 text-primary-600 rounded border-gray-300"
+          />
+          Include vouchers already exported (sent as alterations)
+        </label>
+      </div>
+
+      {/* Vouchers in the period */}
+      <div className="card p-0 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 text-sm text-gray-500">
+          {pending.length} new, {vouchers.length - pending.length} already
+          exported
+          {deletions.length > 0 &&
+            `, ${deletions.length} cancelled to delete in Tally`}
+        </div>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Type</th>
+                  <th>Voucher #</th>
+                  <th>Party Ledger</th>
+                  <th className="text-right">Amount</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {vouchers.map((voucher) => (
+                  <tr key={`${voucher.type}-${voucher.documentId}`}>
+                    <td>{formatDate(voucher.date)}</td>
+                    <td>{TYPE_LABELS[voucher.type]}</td>
+                    <td className="font-medium">{voucher.number}</td>
+                    <td>{voucher.partyLedger}</td>
+                    <td className="text-right">
+                      {formatCurrency(voucher.amount)}
+                    </td>
+                    <td>
+                      {voucher.exportedAt ? (
+                        <span className="badge badge-gray">
+                          Exported {formatDate(voucher.exportedAt)}
+                        </span>
+                      ) : (
+                        <span className="badge badge-success">New</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {deletions.map((voucher) => (
+                  <tr key={`${voucher.type}-${voucher.documentId}`}>
+                    <td>{formatDate(voucher.date)}</td>
+                    <td>{TYPE_LABELS[voucher.type]}</td>
+                    <td className="font-medium">{voucher.number}</td>
+                    <td>-</td>
+                    <td className="text-right">
+                      {formatCurrency(voucher.amount)}
+                    </td>
+                    <td>
+                      <span className="badge badge-danger">
+                        Cancelled, will be deleted
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+                {vouchers.length === 0 && deletions.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="text-center text-gray-500">
+                      No vouchers in this period
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Ledger mapping */}
+      {ledgers && (
+        <div className="card space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Ledger Mapping
+            </h3>
+            <p className="text-sm text-gray-500">
+              Names must match the ledgers in Tally. {"{rate}"} is replaced with
+              the GST rate, e.g. "Output CGST @ {"{rate}"}%" becomes "Output
+              CGST @ 2.5%".
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {LEDGER_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="label">{field.label}</label>
+                <input
+                  value={String(ledgers[field.key])}
+                  onChange={(e) =>
+                    setLedgers({ ...ledgers, [field.key]: e.target.value })
+                  }
+                  className="input"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900">
+              Party Ledgers
+            </h4>
+            <p className="text-xs text-gray-500 mb-2">
+              Customers and suppliers not listed are posted to a ledger with
+              their name
+            </p>
+            <div className="space-y-2">
+              {parties.map((party, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    value={party.code}
+                    onChange={(e) =>
+                      setParties(
+                        parties.map((p, i) =>
+                          i === index ? { ...p, code: e.target.value } : p,
+                        ),
+                      )
+                    }
+                    className="input w-40"
+                    placeholder="Customer/supplier code"
+                  />
+                  <input
+                    value={party.ledger}
+                    onChange={(e) =>
+                      setParties(
+                        parties.map((p, i) =>
+                          i === index ? { ...p, ledger: e.target.value } : p,
+                        ),
+                      )
+                    }
+                    className="input flex-1"
+                    placeholder="Tally ledger name"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setParties(parties.filter((_, i) => i !== index))
+                    }
+                    className="p-2 text-gray-500 hover:text-red-600"
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  setParties([...parties, { code: "", ledger: "" }])
+                }
+                className="btn btn-outline btn-sm inline-flex items-center gap-1"
+              >
+                <PlusIcon className="h-4 w-4" />
+                Add Party
+              </button>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => settingsMutation.mutate()}
+              disabled={settingsMutation.isPending}
+              className="btn btn-primary"
+            >
+              {settingsMutation.isPending ? "Saving..." : "Save Mapping"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Export history */}
+      <div className="card">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          Recent Exports
+        </h3>
+        {exports.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Exported</th>
+                  <th>Period</th>
+                  <th className="text-right">Vouchers</th>
+                  <th className="text-right">First Exported</th>
+                  <th>By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {exports.map((record) => (
+                  <tr key={record.id}>
+                    <td>{formatDate(record.createdAt)}</td>
+                    <td>
+                      {formatDate(record.fromDate)} -{" "}
+                      {formatDate(record.toDate)}
+                    </td>
+                    <td className="text-right">{record.voucherCount}</td>
+                    <td className="text-right">{record._count.vouchers}</td>
+                    <td>
+                      {record.createdBy.firstName} {record.createdBy.lastName}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Nothing exported yet</p>
+        )}
+      </div>
+    </div>
+  );
+}
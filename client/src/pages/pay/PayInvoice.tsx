@@ -0,0 +1,83 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { paymentLinksAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { PaymentLinkDetails } from "@/types";
+
+// Public page behind an invoice's shared payment link
+export default function PayInvoice() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: details, isLoading } = useQuery({
+    queryKey: ["payment-link", token],
+    queryFn: () => paymentLinksAPI.get(token!),
+    select: (res: any) => res.data as PaymentLinkDetails,
+    retry: false,
+  });
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4 py-12">
+      <div className="card w-full max-w-md space-y-6 text-center">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : !details ? (
+          <p className="text-sm text-gray-500">
+            This payment link is not valid. Please contact us for a new one.
+          </p>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">
+                {details.companyName}
+              </h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Invoice {details.invoiceNumber} for {details.customerName}
+              </p>
+              <p className="text-xs text-gray-500">
+                Dated {formatDate(details.issueDate)} · Due{" "}
+                {formatDate(details.dueDate)}
+              </p>
+            </div>
+
+            <div>
+              <p className="text-sm text-gray-500">Balance due</p>
+              <p className="text-3xl font-bold text-gray-900">
+                {formatCurrency(details.balanceDue)}
+              </p>
+              {Number(details.balanceDue) !== Number(details.totalAmount) && (
+                <p className="text-xs text-gray-500">
+                  of {formatCurrency(details.totalAmount)}
+                </p>
+              )}
+            </div>
+
+            {details.upiIntent ? (
+              <div className="space-y-4">
+                <div className="flex justify-center">
+                  <QRCodeSVG value={details.upiIntent} size={200} level="M" />
+                </div>
+                <p className="text-sm text-gray-600">
+                  Scan with any UPI app, or on your phone tap below.
+                </p>
+                <a
+                  href={details.upiIntent}
+                  className="btn btn-primary w-full inline-block"
+                >
+                  Pay with UPI
+                </a>
+                <p className="text-xs text-gray-500">UPI ID: {details.upiId}</p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                {Number(details.balanceDue) <= 0
+                  ? "This invoice has been paid. Thank you!"
+                  : "Online payment is not available for this invoice."}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
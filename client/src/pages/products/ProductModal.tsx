@@ -0,0 +1,378 @@
+import { Fragment, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { TrashIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { useForm } from "react-hook-form";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { customersAPI, fabricsAPI, hsnAPI, productsAPI } from "@/lib/api";
+import { formatCurrency } from "@/lib/utils";
+import type { Customer, ItemUnit, Product } from "@/types";
+
+const ITEM_UNITS: ItemUnit[] = ["PCS", "MTR", "KG", "SET"];
+
+interface ProductModalProps {
+  product: Product | null;
+  onClose: () => void;
+}
+
+interface FormData {
+  sku: string;
+  name: string;
+  description: string;
+  hsnId: string;
+  unit: ItemUnit;
+  basePrice: number;
+  fabricTypeId: string;
+  isActive: boolean;
+}
+
+export default function ProductModal({ product, onClose }: ProductModalProps) {
+  const queryClient = useQueryClient();
+  const isEditing = !!product;
+  const [priceCustomerId, setPriceCustomerId] = useState("");
+  const [priceValue, setPriceValue] = useState("");
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<FormData>({
+    defaultValues: product
+      ? {
+          sku: product.sku,
+          name: product.name,
+          description: product.description || "",
+          hsnId: product.hsnId || "",
+          unit: product.unit,
+          basePrice: Number(product.basePrice),
+          fabricTypeId: product.fabricTypeId || "",
+          isActive: product.isActive,
+        }
+      : { unit: "PCS", basePrice: 0, isActive: true },
+  });
+
+  const { data: hsnCodes = [] } = useQuery({
+    queryKey: ["hsn"],
+    queryFn: hsnAPI.getAll,
+    select: (res: any) => res.data || [],
+  });
+
+  const { data: fabrics = [] } = useQuery({
+    queryKey: ["fabrics"],
+    queryFn: fabricsAPI.getAll,
+    select: (res: any) => res || [],
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["customers", { limit: 1000 }],
+    queryFn: () => customersAPI.getAll({ limit: 1000 }),
+    select: (res: any) => res.data || [],
+    enabled: isEditing,
+  });
+
+  const { data: details } = useQuery<Product>({
+    queryKey: ["product", product?.id],
+    queryFn: () => productsAPI.getById(product!.id),
+    select: (res: any) => res.data,
+    enabled: isEditing,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: FormData) =>
+      isEditing
+        ? productsAPI.update(product!.id, data)
+        : productsAPI.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      toast.success(
+        `Product ${isEditing ? "updated" : "created"} successfully`,
+      );
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to save product");
+    },
+  });
+
+  const invalidatePrices = () => {
+    queryClient.invalidateQueries({ queryKey: ["product", product?.id] });
+    queryClient.invalidateQueries({ queryKey: ["products"] });
+  };
+
+  const setPriceMutation = useMutation({
+    mutationFn: () =>
+      productsAPI.setPrice(product!.id, priceCustomerId, Number(priceValue)),
+    onSuccess: () => {
+      invalidatePrices();
+      setPriceCustomerId("");
+      setPriceValue("");
+      toast.success("Customer price saved");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to save price");
+    },
+  });
+
+  const removePriceMutation = useMutation({
+    mutationFn: (customerId: string) =>
+      productsAPI.removePrice(product!.id, customerId),
+    onSuccess: () => {
+      invalidatePrices();
+      toast.success("Customer price removed");
+    },
+    onError: () => {
+      toast.error("Failed to remove price");
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    saveMutation.mutate(data);
+  };
+
+  const prices = details?.prices || [];
+
+  return (
+    <Transition.Root show as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-xl bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-2xl">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                  <Dialog.Title className="text-lg font-semibold text-gray-900">
+                    {isEditing ? "Edit Product" : "Add New Product"}
+                  </Dialog.Title>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-500"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+                  <form
+                    id="product-form"
+                    onSubmit={handleSubmit(onSubmit)}
+                    className="space-y-4"
+                  >
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="label">SKU *</label>
+                        <input
+                          {...register("sku", { required: "SKU is required" })}
+                          className={`input ${errors.sku ? "input-error" : ""}`}
+                          placeholder="e.g. SHT-FS-01"
+                        />
+                      </div>
+                      <div>
+                        <label className="label">Name *</label>
+                        <input
+                          {...register("name", {
+                            required: "Name is required",
+                          })}
+                          className={`input ${errors.name ? "input-error" : ""}`}
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="label">Description</label>
+                      <textarea
+                        {...register("description")}
+                        rows={2}
+                        className="input"
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label className="label">Default HSN</label>
+                        <select {...register("hsnId")} className="input">
+                          <option value="">None</option>
+                          {hsnCodes.map((hsn: any) => (
+                            <option key={hsn.id} value={hsn.id}>
+                              {hsn.code} ({Number(hsn.taxRate)}%)
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="label">Unit</label>
+                        <select {...register("unit")} className="input">
+                          {ITEM_UNITS.map((unit) => (
+                            <option key={unit} value={unit}>
+                              {unit}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="label">Base Price *</label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register("basePrice", {
+                            required: "Base price is required",
+                            min: 0,
+                            valueAsNumber: true,
+                          })}
+                          className={`input ${errors.basePrice ? "input-error" : ""}`}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4 items-end">
+                      <div>
+                        <label className="label">Fabric Type</label>
+                        <select {...register("fabricTypeId")} className="input">
+                          <option value="">None</option>
+                          {fabrics.map((fabric: any) => (
+                            <option key={fabric.id} value={fabric.id}>
+                              {fabric.code}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="flex items-center gap-2 pb-2">
+                        <input
+                          type="checkbox"
+                          {...register("isActive")}
+                          className="h-4 w-4 text-primary-600 rounded border-gray-300"
+                        />
+                        <label className="text-sm text-gray-700">
+                          Active Product
+                        </label>
+                      </div>
+                    </div>
+                  </form>
+
+                  {/* Customer price list */}
+                  {isEditing && (
+                    <div className="pt-4 border-t border-gray-200">
+                      <h4 className="text-sm font-semibold text-gray-900">
+                        Customer Prices
+                      </h4>
+                      <p className="text-xs text-gray-500 mb-3">
+                        Override the base price for specific customers
+                      </p>
+                      {prices.length > 0 && (
+                        <table className="table mb-3">
+                          <tbody>
+                            {prices.map((entry) => (
+                              <tr key={entry.id}>
+                                <td>
+                                  {entry.customer?.name}
+                                  <span className="text-xs text-gray-500 ml-2">
+                                    {entry.customer?.customerCode}
+                                  </span>
+                                </td>
+                                <td className="text-right font-medium">
+                                  {formatCurrency(Number(entry.price))}
+                                </td>
+                                <td className="text-right w-10">
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      removePriceMutation.mutate(
+                                        entry.customerId,
+                                      )
+                                    }
+                                    className="p-1 text-gray-500 hover:text-red-600"
+                                  >
+                                    <TrashIcon className="h-4 w-4" />
+                                  </button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      <div className="flex gap-2">
+                        <select
+                          value={priceCustomerId}
+                          onChange={(e) => setPriceCustomerId(e.target.value)}
+                          className="input flex-1"
+                        >
+                          <option value="">Select customer</option>
+                          {customers.map((customer) => (
+                            <option key={customer.id} value={customer.id}>
+                              {customer.name} ({customer.customerCode})
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={priceValue}
+                          onChange={(e) => setPriceValue(e.target.value)}
+                          className="input w-32"
+                          placeholder="Price"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setPriceMutation.mutate()}
+                          disabled={
+                            !priceCustomerId ||
+                            priceValue === "" ||
+                            setPriceMutation.isPending
+                          }
+                          className="btn btn-outline"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="btn btn-outline"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    form="product-form"
+                    disabled={saveMutation.isPending}
+                    className="btn btn-primary"
+                  >
+                    {saveMutation.isPending
+                      ? "Saving..."
+                      : isEditing
+                        ? "Update Product"
+                        : "Create Product"}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+}
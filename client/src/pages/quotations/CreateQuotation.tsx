@@ -0,0 +1,484 @@
+import { useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { useForm, useFieldArray } from "react-hook-form";
+import toast from "react-hot-toast";
+import { customersAPI, hsnAPI, productsAPI, quotationsAPI } from "@/lib/api";
+import { formatCurrency } from "@/lib/utils";
+
+interface QuotationItem {
+  productId?: string;
+  description: string;
+  hsnCode?: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate: number;
+}
+
+interface FormData {
+  customerId: string;
+  issueDate: string;
+  validUntil: string;
+  items: QuotationItem[];
+  discountRate: number;
+  roundOff: number;
+  notes: string;
+  terms: string;
+}
+
+const toDateInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .split("T")[0];
+
+export default function CreateQuotation() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isEdit = Boolean(id);
+
+  const { data: customers } = useQuery({
+    queryKey: ["customers-list"],
+    queryFn: () => customersAPI.getAll({ limit: 1000 }),
+  });
+
+  const { data: hsns } = useQuery({
+    queryKey: ["hsn"],
+    queryFn: hsnAPI.getAll,
+    select: (res: any) => res.data,
+  });
+
+  const { data: quotation } = useQuery({
+    queryKey: ["quotation", id],
+    queryFn: () => quotationsAPI.getById(id!),
+    enabled: isEdit,
+    select: (res: any) => res.data,
+  });
+
+  const { register, control, handleSubmit, watch, setValue, reset } =
+    useForm<FormData>({
+      defaultValues: {
+        customerId: "",
+        issueDate: toDateInput(new Date()),
+        validUntil: toDateInput(
+          new Date(Date.now() + 15 * 24 * 60 * 60 * 1000),
+        ),
+        items: [
+          {
+            description: "",
+            hsnCode: "",
+            quantity: 1,
+            unitPrice: 0,
+            taxRate: 5,
+          },
+        ],
+        discountRate: 0,
+        roundOff: 0,
+        notes: "",
+        terms: "",
+      },
+    });
+
+  useEffect(() => {
+    if (!quotation) return;
+    reset({
+      customerId: quotation.customerId,
+      issueDate: quotation.issueDate.split("T")[0],
+      validUntil: quotation.validUntil.split("T")[0],
+      items: (quotation.items || []).map((item: any) => ({
+        productId: item.productId || "",
+        description: item.description,
+        hsnCode: item.hsnCode || "",
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unitPrice),
+        taxRate: Number(item.taxRate),
+      })),
+      discountRate: Number(quotation.discountRate || 0),
+      roundOff: Number(quotation.roundOff || 0),
+      notes: quotation.notes || "",
+      terms: quotation.terms || "",
+    });
+  }, [quotation, reset]);
+
+  const { fields, append, remove } = useFieldArray({ control, name: "items" });
+
+  const watchItems = watch("items") || [];
+  const watchCustomerId = watch("customerId");
+
+  // Priced for the selected customer where they have a price list rate
+  const { data: products } = useQuery({
+    queryKey: ["products", { customerId: watchCustomerId, isActive: true }],
+    queryFn: () =>
+      productsAPI.getAll({
+        limit: 1000,
+        isActive: true,
+        customerId: watchCustomerId || undefined,
+      }),
+    select: (res) => res.data,
+  });
+
+  const applyProduct = (index: number, productId: string) => {
+    const product = products?.find((p) => p.id === productId);
+    if (!product) return;
+    setValue(`items.${index}.description`, product.name);
+    setValue(`items.${index}.hsnCode`, product.hsn?.code || "");
+    if (product.hsn) {
+      setValue(`items.${index}.taxRate`, Number(product.hsn.taxRate));
+    }
+    setValue(
+      `items.${index}.unitPrice`,
+      Number(product.price ?? product.basePrice),
+    );
+  };
+  const discountRate = Number(watch("discountRate") || 0);
+  const roundOff = Number(watch("roundOff") || 0);
+
+  const subtotal = watchItems.reduce(
+    (sum, item) => sum + (item.quantity || 0) * (item.unitPrice || 0),
+    0,
+  );
+  const taxAmount = watchItems.reduce(
+    (sum, item) =>
+      sum +
+      (item.quantity || 0) *
+        (item.unitPrice || 0) *
+        ((item.taxRate || 0) / 100),
+    0,
+  );
+  const discountAmount = subtotal * (discountRate / 100);
+  const totalBeforeRoundOff = subtotal + taxAmount - discountAmount;
+  const totalAmount = totalBeforeRoundOff + roundOff;
+
+  const saveMutation = useMutation({
+    mutationFn: (data: any) =>
+      isEdit ? quotationsAPI.update(id!, data) : quotationsAPI.create(data),
+    onSuccess: (response: any) => {
+      queryClient.invalidateQueries({ queryKey: ["quotations"] });
+      queryClient.invalidateQueries({ queryKey: ["quotation", id] });
+      toast.success(isEdit ? "Quotation updated" : "Quotation created");
+      navigate(`/quotations/${response.data.id}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to save quotation");
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    if (!data.customerId) {
+      toast.error("Select a customer");
+      return;
+    }
+    if (data.items.length === 0) {
+      toast.error("Add at least one item");
+      return;
+    }
+
+    saveMutation.mutate({
+      ...data,
+      discountRate: Number(data.discountRate || 0),
+      roundOff: Number(data.roundOff || 0),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link
+          to={isEdit ? `/quotations/${id}` : "/quotations"}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">
+          {isEdit
+            ? `Edit Quotation ${quotation?.quotationNumber || ""}`
+            : "New Quotation"}
+        </h1>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div className="card grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="label">Customer *</label>
+            <select
+              {...register("customerId", { required: true })}
+              className="input"
+            >
+              <option value="">Select customer</option>
+              {customers?.data?.map((customer: any) => (
+                <option key={customer.id} value={customer.id}>
+                  {customer.name} ({customer.customerCode})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Date *</label>
+            <input
+              type="date"
+              {...register("issueDate", { required: true })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Valid Until *</label>
+            <input
+              type="date"
+              {...register("validUntil", { required: true })}
+              className="input"
+            />
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Items</h2>
+            <button
+              type="button"
+              onClick={() =>
+                append({
+                  description: "",
+                  hsnCode: "",
+                  quantity: 1,
+                  unitPrice: 0,
+                  taxRate: 5,
+                })
+              }
+              className="btn btn-outline btn-sm gap-1"
+            >
+              <PlusIcon className="h-4 w-4" />
+              Add Item
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 text-sm font-medium text-gray-500">
+                    Description
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-48">
+                    HSN/SAC
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
+                    Qty
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-32">
+                    Unit Price
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
+                    Tax %
+                  </th>
+                  <th className="text-right py-2 text-sm font-medium text-gray-500 w-32">
+                    Amount
+                  </th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((field, index) => {
+                  const item = watchItems[index];
+                  const amount = (item?.quantity || 0) * (item?.unitPrice || 0);
+
+                  return (
+                    <tr key={field.id} className="border-b border-gray-100">
+                      <td className="py-2 pr-2">
+                        <select
+                          {...register(`items.${index}.productId` as const, {
+                            onChange: (e) =>
+                              applyProduct(index, e.target.value),
+                          })}
+                          className="input text-sm mb-1"
+                        >
+                          <option value="">Custom item</option>
+                          {products?.map((product) => (
+                            <option key={product.id} value={product.id}>
+                              {product.sku} - {product.name}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          {...register(`items.${index}.description` as const, {
+                            required: true,
+                          })}
+                          placeholder="Item description"
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          {...register(`items.${index}.hsnCode` as const, {
+                            onChange: (e) => {
+                              const selectedHsn = hsns?.find(
+                                (h: any) => h.code === e.target.value,
+                              );
+                              if (selectedHsn) {
+                                setValue(
+                                  `items.${index}.taxRate`,
+                                  Number(selectedHsn.taxRate),
+                                );
+                              }
+                            },
+                          })}
+                          className="input text-sm"
+                        >
+                          <option value="">Select HSN</option>
+                          {hsns?.map((hsn: any) => (
+                            <option key={hsn.code} value={hsn.code}>
+                              {hsn.code} - {hsn.description} ({hsn.taxRate}%)
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.quantity` as const, {
+                            valueAsNumber: true,
+                            min: 0.01,
+                          })}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.unitPrice` as const, {
+                            valueAsNumber: true,
+                            min: 0,
+                          })}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.taxRate` as const, {
+                            valueAsNumber: true,
+                            min: 0,
+                          })}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 text-right font-medium">
+                        {formatCurrency(amount)}
+                      </td>
+                      <td className="py-2 pl-2">
+                        <button
+                          type="button"
+                          onClick={() => remove(index)}
+                          className="p-1 text-red-500 hover:bg-red-50 rounded"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="card space-y-4">
+            <div>
+              <label className="label">Notes</label>
+              <textarea {...register("notes")} rows={3} className="input" />
+            </div>
+            <div>
+              <label className="label">Terms & Conditions</label>
+              <textarea {...register("terms")} rows={3} className="input" />
+            </div>
+          </div>
+          <div className="card space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Subtotal</span>
+              <span>{formatCurrency(subtotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">GST</span>
+              <span>{formatCurrency(taxAmount)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-500">Discount (%)</span>
+              <input
+                type="number"
+                step="0.01"
+                {...register("discountRate", { valueAsNumber: true, min: 0 })}
+                className="input text-sm w-28 text-right"
+              />
+            </div>
+            {discountAmount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Discount</span>
+                <span>-{formatCurrency(discountAmount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between items-center">
+              <button
+                type="button"
+                onClick={() =>
+                  setValue(
+                    "roundOff",
+                    Number(
+                      (
+                        Math.round(totalBeforeRoundOff) - totalBeforeRoundOff
+                      ).toFixed(2),
+                    ),
+                  )
+                }
+                className="text-primary-600 hover:text-primary-700"
+              >
+                Round Off
+              </button>
+              <input
+                type="number"
+                step="0.01"
+                {...register("roundOff", { valueAsNumber: true })}
+                className="input text-sm w-28 text-right"
+              />
+            </div>
+            <div className="flex justify-between border-t border-gray-200 pt-2 text-base font-semibold">
+              <span>Total</span>
+              <span>{formatCurrency(totalAmount)}</span>
+            </div>
+            <p className="text-xs text-gray-500">
+              CGST/SGST or IGST is applied from the customer's state when the
+              quotation is saved.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Link
+            to={isEdit ? `/quotations/${id}` : "/quotations"}
+            className="btn btn-outline"
+          >
+            Cancel
+          </Link>
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="btn btn-primary"
+          >
+            {saveMutation.isPending
+              ? "Saving..."
+              : isEdit
+                ? "Update Quotation"
+                : "Create Quotation"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
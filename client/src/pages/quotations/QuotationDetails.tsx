@@ -0,0 +1,449 @@
+import { useRef } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  ArrowRightCircleIcon,
+  PencilSquareIcon,
+  PrinterIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { useReactToPrint } from "react-to-print";
+import { quotationsAPI } from "@/lib/api";
+import { formatCurrency, formatDate, numberToWords } from "@/lib/utils";
+import logo from "@/assets/logo.png";
+import type { Quotation, QuotationStatus, TaxBreakdown } from "@/types";
+
+const statusColors: Record<string, string> = {
+  DRAFT: "badge-gray",
+  SENT: "badge-info",
+  ACCEPTED: "badge-success",
+  REJECTED: "badge-error",
+  EXPIRED: "badge-warning",
+};
+
+const amount = (value: number) => formatCurrency(value).replace("₹", "");
+
+export default function QuotationDetails() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const quotationRef = useRef<HTMLDivElement>(null);
+
+  const { data: quotation, isLoading } = useQuery<Quotation>({
+    queryKey: ["quotation", id],
+    queryFn: () => quotationsAPI.getById(id!),
+    select: (res: any) => res.data,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: (status: QuotationStatus) =>
+      quotationsAPI.updateStatus(id!, status),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["quotation", id] });
+      queryClient.invalidateQueries({ queryKey: ["quotations"] });
+      toast.success("Quotation updated");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error.response?.data?.message || "Failed to update quotation",
+      );
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => quotationsAPI.delete(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["quotations"] });
+      toast.success("Quotation deleted");
+      navigate("/quotations");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error.response?.data?.message || "Failed to delete quotation",
+      );
+    },
+  });
+
+  const handlePrint = useReactToPrint({
+    contentRef: quotationRef,
+    documentTitle: `Quotation_${quotation?.quotationNumber || "document"}`,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  if (!quotation) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500 mb-4">Quotation not found</p>
+        <Link to="/quotations" className="btn btn-primary">
+          Back to Quotations
+        </Link>
+      </div>
+    );
+  }
+
+  const company = quotation.company;
+  const taxBreakdown = quotation.taxBreakdown as TaxBreakdown;
+  const isInterState = taxBreakdown.isInterState;
+  const isConverted = Boolean(quotation.invoiceId);
+  const isOpen = quotation.status === "DRAFT" || quotation.status === "SENT";
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete quotation ${quotation.quotationNumber}?`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-6 print:space-y-0">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-4">
+          <Link
+            to="/quotations"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {quotation.quotationNumber}
+            </h1>
+            <span className={`badge ${statusColors[quotation.status]}`}>
+              {quotation.status}
+            </span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {!isConverted && quotation.status === "DRAFT" && (
+            <button
+              onClick={() => statusMutation.mutate("SENT")}
+              disabled={statusMutation.isPending}
+              className="btn btn-outline"
+            >
+              Mark Sent
+            </button>
+          )}
+          {!isConverted && isOpen && (
+            <>
+              <button
+                onClick={() => statusMutation.mutate("ACCEPTED")}
+                disabled={statusMutation.isPending}
+                className="btn btn-outline text-green-600 hover:bg-green-50"
+              >
+                Accepted
+              </button>
+              <button
+                onClick={() => statusMutation.mutate("REJECTED")}
+                disabled={statusMutation.isPending}
+                className="btn btn-outline text-red-600 hover:bg-red-50"
+              >
+                Rejected
+              </button>
+            </>
+          )}
+          {!isConverted && quotation.status !== "REJECTED" && (
+            <button
+              onClick={() => navigate(`/invoices/new?quotationId=${id}`)}
+              className="btn btn-primary inline-flex items-center gap-2"
+            >
+              <ArrowRightCircleIcon className="h-5 w-5" />
+              Convert to Invoice
+            </button>
+          )}
+          {!isConverted && (
+            <Link
+              to={`/quotations/${id}/edit`}
+              className="btn btn-outline inline-flex items-center gap-2"
+            >
+              <PencilSquareIcon className="h-5 w-5" />
+              Edit
+            </Link>
+          )}
+          <button
+            onClick={handlePrint}
+            className="btn btn-outline inline-flex items-center gap-2"
+          >
+            <PrinterIcon className="h-5 w-5" />
+            Print
+          </button>
+          {!isConverted && (
+            <button
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="btn btn-outline text-red-600 hover:bg-red-50"
+            >
+              <TrashIcon className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {quotation.invoice && (
+        <div className="card bg-green-50 border-green-200 text-sm text-green-800 print:hidden">
+          Converted to invoice{" "}
+          <Link
+            to={`/invoices/${quotation.invoice.id}`}
+            className="font-medium underline"
+          >
+            {quotation.invoice.invoiceNumber}
+          </Link>
+          .
+        </div>
+      )}
+
+      <div
+        ref={quotationRef}
+        className="bg-white text-black p-4 sm:p-6 md:p-8 max-w-[210mm] mx-auto print:max-w-none print:mx-0 print:p-[10mm] print:w-[210mm]"
+      >
+        <div className="text-center font-bold text-xl mb-2 uppercase border border-black border-b-0 p-1">
+          Quotation
+        </div>
+
+        <div className="border border-black flex flex-col sm:flex-row text-sm">
+          <div className="w-full sm:w-1/2 border-r border-black flex flex-col">
+            <div className="p-2 border-b border-black flex justify-between items-start">
+              <div>
+                <h2 className="font-bold text-base uppercase">
+                  {company?.companyName}
+                </h2>
+                <p className="text-xs">{company?.address}</p>
+                <p className="text-xs">
+                  {company?.city}, {company?.state} {company?.pincode}
+                </p>
+                <p className="text-xs">
+                  GSTIN/UIN: {company?.gstNumber || "Not configured"}
+                </p>
+                {company?.phone && (
+                  <p className="text-xs">Phone: {company.phone}</p>
+                )}
+              </div>
+              <img
+                src={logo}
+                className="h-20 w-auto object-contain"
+                alt={company?.companyName}
+              />
+            </div>
+            <div className="p-2">
+              <span className="text-[10px] text-gray-600 block leading-tight">
+                Quotation For
+              </span>
+              <h2 className="font-bold text-base">
+                {quotation.customer?.name}
+              </h2>
+              <p className="text-xs whitespace-pre-line">
+                {quotation.customer?.address}
+              </p>
+              <p className="text-xs">
+                {quotation.customer?.city}, {quotation.customer?.state} -{" "}
+                {quotation.customer?.pincode}
+              </p>
+              <p className="text-xs">
+                GSTIN/UIN: {quotation.customer?.gstNumber || "N/A"}
+              </p>
+              {taxBreakdown.placeOfSupply && (
+                <p className="text-xs">
+                  Place of Supply: {taxBreakdown.placeOfSupplyName}, Code:{" "}
+                  {taxBreakdown.placeOfSupply}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="w-full sm:w-1/2 flex flex-col text-xs">
+            <div className="flex border-b border-black">
+              <div className="w-1/2 p-1 border-r border-black">
+                <span className="block text-[10px] text-gray-600 leading-tight">
+                  Quotation No.
+                </span>
+                <span className="font-bold">{quotation.quotationNumber}</span>
+              </div>
+              <div className="w-1/2 p-1">
+                <span className="block text-[10px] text-gray-600 leading-tight">
+                  Dated
+                </span>
+                <span className="font-bold">
+                  {formatDate(quotation.issueDate)}
+                </span>
+              </div>
+            </div>
+            <div className="flex border-b border-black">
+              <div className="w-1/2 p-1 border-r border-black">
+                <span className="block text-[10px] text-gray-600 leading-tight">
+                  Valid Until
+                </span>
+                <span className="font-bold">
+                  {formatDate(quotation.validUntil)}
+                </span>
+              </div>
+              <div className="w-1/2 p-1">
+                <span className="block text-[10px] text-gray-600 leading-tight">
+                  Prepared By
+                </span>
+                <span>
+                  {quotation.createdBy
+                    ? `${quotation.createdBy.firstName} ${quotation.createdBy.lastName}`
+                    : "-"}
+                </span>
+              </div>
+            </div>
+            <div className="flex-grow p-1">
+              {quotation.notes && (
+                <>
+                  <span className="block text-[10px] text-gray-600 leading-tight">
+                    Notes
+                  </span>
+                  <span className="whitespace-pre-line">{quotation.notes}</span>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Items */}
+        <table className="w-full border border-black border-t-0 text-[11px]">
+          <thead>
+            <tr className="border-b border-black bg-gray-50 print:bg-white">
+              <th className="p-1 border-r border-black w-8">SI No.</th>
+              <th className="p-1 border-r border-black text-left">
+                Description of Goods
+              </th>
+              <th className="p-1 border-r border-black w-20">HSN</th>
+              <th className="p-1 border-r border-black w-12">GST</th>
+              <th className="p-1 border-r border-black w-16">Qty</th>
+              <th className="p-1 border-r border-black w-20">Rate</th>
+              <th className="p-1 w-24">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {quotation.items?.map((item, index) => (
+              <tr key={item.id} className="align-top">
+                <td className="p-1 border-r border-black text-center">
+                  {index + 1}
+                </td>
+                <td className="p-1 border-r border-black font-bold">
+                  {item.description}
+                </td>
+                <td className="p-1 border-r border-black text-center">
+                  {item.hsnCode || "-"}
+                </td>
+                <td className="p-1 border-r border-black text-center">
+                  {Number(item.taxRate)}%
+                </td>
+                <td className="p-1 border-r border-black text-center">
+                  {Number(item.quantity)}
+                </td>
+                <td className="p-1 border-r border-black text-right font-mono">
+                  {amount(item.unitPrice)}
+                </td>
+                <td className="p-1 text-right font-mono font-bold">
+                  {amount(item.amount)}
+                </td>
+              </tr>
+            ))}
+            {taxBreakdown.rows.map((row) =>
+              isInterState ? (
+                <tr key={`${row.hsnCode}-${row.taxRate}`}>
+                  <td className="border-r border-black" />
+                  <td
+                    colSpan={5}
+                    className="p-1 border-r border-black text-right font-bold"
+                  >
+                    IGST {row.igstRate}%
+                  </td>
+                  <td className="p-1 text-right font-mono">
+                    {amount(row.igstAmount)}
+                  </td>
+                </tr>
+              ) : (
+                <tr key={`${row.hsnCode}-${row.taxRate}`}>
+                  <td className="border-r border-black" />
+                  <td
+                    colSpan={5}
+                    className="p-1 border-r border-black text-right font-bold"
+                  >
+                    CGST {row.cgstRate}% / SGST {row.sgstRate}%
+                  </td>
+                  <td className="p-1 text-right font-mono">
+                    {amount(row.cgstAmount)} / {amount(row.sgstAmount)}
+                  </td>
+                </tr>
+              ),
+            )}
+            {Number(quotation.discountAmount) > 0 && (
+              <tr>
+                <td className="border-r border-black" />
+                <td
+                  colSpan={5}
+                  className="p-1 border-r border-black text-right italic"
+                >
+                  Less: Discount ({Number(quotation.discountRate)}%)
+                </td>
+                <td className="p-1 text-right font-mono">
+                  -{amount(quotation.discountAmount)}
+                </td>
+              </tr>
+            )}
+            {Number(quotation.roundOff) !== 0 && (
+              <tr>
+                <td className="border-r border-black" />
+                <td
+                  colSpan={5}
+                  className="p-1 border-r border-black text-right italic"
+                >
+                  Rounding
+                </td>
+                <td className="p-1 text-right font-mono">
+                  {amount(quotation.roundOff)}
+                </td>
+              </tr>
+            )}
+            <tr className="border-t border-black font-bold">
+              <td colSpan={6} className="p-1 border-r border-black text-right">
+                Total
+              </td>
+              <td className="p-1 text-right font-mono">
+                ₹ {amount(quotation.totalAmount)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div className="border border-black border-t-0 p-1 text-[10px]">
+          <span className="text-gray-600 mr-2">Amount (in words) :</span>
+          <span className="font-bold uppercase italic">
+            {numberToWords(Number(quotation.totalAmount))}
+          </span>
+        </div>
+
+        <div className="border border-black border-t-0 flex">
+          <div className="w-3/5 p-2 text-[9px] border-r border-black leading-tight">
+            <p className="font-bold underline mb-1">Terms & Conditions</p>
+            {quotation.terms ? (
+              <p className="whitespace-pre-line">{quotation.terms}</p>
+            ) : (
+              <p>
+                Prices are valid until {formatDate(quotation.validUntil)}. GST
+                as applicable at the time of invoicing.
+              </p>
+            )}
+          </div>
+          <div className="w-2/5 p-2 flex flex-col justify-between leading-tight">
+            <div className="text-right text-[10px] font-bold uppercase">
+              For {company?.companyName}
+            </div>
+            <div className="h-12"></div>
+            <div className="text-right text-[10px]">Authorised Signatory</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
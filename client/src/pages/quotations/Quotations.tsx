@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import {
+  PlusIcon,
+  MagnifyingGlassIcon,
+  DocumentTextIcon,
+  EyeIcon,
+} from "@heroicons/react/24/outline";
+import { quotationsAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { Quotation, QuotationWinRate } from "@/types";
+
+const statusColors: Record<string, string> = {
+  DRAFT: "badge-gray",
+  SENT: "badge-info",
+  ACCEPTED: "badge-success",
+  REJECTED: "badge-error",
+  EXPIRED: "badge-warning",
+};
+
+export default function Quotations() {
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState("");
+  const [page, setPage] = useState(1);
+  const limit = 10;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["quotations", { search, status: statusFilter, page, limit }],
+    queryFn: () =>
+      quotationsAPI.getAll({
+        search,
+        status: statusFilter || undefined,
+        page,
+        limit,
+      }),
+  });
+
+  const { data: winRates } = useQuery<QuotationWinRate[]>({
+    queryKey: ["quotations", "win-rate"],
+    queryFn: () => quotationsAPI.getWinRate(),
+    select: (res: any) => res.data || [],
+  });
+
+  const quotations: Quotation[] = data?.data || [];
+  const total = data?.pagination?.total || 0;
+  const totalPages = data?.pagination?.pages || Math.ceil(total / limit);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h1 className="text-2xl font-bold text-gray-900">Quotations</h1>
+        <Link
+          to="/quotations/new"
+          className="btn btn-primary inline-flex items-center gap-2"
+        >
+          <PlusIcon className="h-5 w-5" />
+          New Quotation
+        </Link>
+      </div>
+
+      <div className="card">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by quotation or customer..."
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              className="input pl-10"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+            className="input max-w-xs"
+          >
+            <option value="">All Status</option>
+            <option value="DRAFT">Draft</option>
+            <option value="SENT">Sent</option>
+            <option value="ACCEPTED">Accepted</option>
+            <option value="REJECTED">Rejected</option>
+            <option value="EXPIRED">Expired</option>
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+        </div>
+      ) : quotations.length === 0 ? (
+        <div className="card text-center py-12">
+          <DocumentTextIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No quotations found</p>
+          <Link to="/quotations/new" className="btn btn-primary mt-4">
+            Create your first quotation
+          </Link>
+        </div>
+      ) : (
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Quotation #</th>
+                  <th>Customer</th>
+                  <th>Date</th>
+                  <th>Valid Until</th>
+                  <th className="text-right">Amount</th>
+                  <th>Status</th>
+                  <th>Invoice</th>
+                  <th className="text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quotations.map((quotation) => (
+                  <tr key={quotation.id}>
+                    <td>
+                      <Link
+                        to={`/quotations/${quotation.id}`}
+                        className="text-primary-600 hover:text-primary-700 font-medium"
+                      >
+                        {quotation.quotationNumber}
+                      </Link>
+                    </td>
+                    <td>{quotation.customer?.name}</td>
+                    <td>{formatDate(quotation.issueDate)}</td>
+                    <td>{formatDate(quotation.validUntil)}</td>
+                    <td className="text-right font-medium">
+                      {formatCurrency(quotation.totalAmount)}
+                    </td>
+                    <td>
+                      <span
+                        className={`badge ${statusColors[quotation.status]}`}
+                      >
+                        {quotation.status}
+                      </span>
+                    </td>
+                    <td>
+                      {quotation.invoice ? (
+                        <Link
+                          to={`/invoices/${quotation.invoice.id}`}
+                          className="text-gray-700 hover:text-primary-600"
+                        >
+                          {quotation.invoice.invoiceNumber}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                    <td className="text-right">
+                      <Link
+                        to={`/quotations/${quotation.id}`}
+                        className="p-1 text-gray-500 hover:text-primary-600 inline-flex"
+                        title="View"
+                      >
+                        <EyeIcon className="h-5 w-5" />
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+              <p className="text-sm text-gray-500">
+                Showing {(page - 1) * limit + 1} to{" "}
+                {Math.min(page * limit, total)} of {total} quotations
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="btn btn-outline btn-sm"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                  className="btn btn-outline btn-sm"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {winRates && winRates.length > 0 && (
+        <div className="card overflow-hidden">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">
+            Win Rate by Customer
+          </h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Accepted quotations out of those accepted, rejected or expired.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Customer</th>
+                  <th className="text-right">Quoted</th>
+                  <th className="text-right">Accepted</th>
+                  <th className="text-right">Rejected</th>
+                  <th className="text-right">Expired</th>
+                  <th className="text-right">Open</th>
+                  <th className="text-right">Won Value</th>
+                  <th className="text-right">Win Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {winRates.map((row) => (
+                  <tr key={row.customer.id}>
+                    <td>
+                      <Link
+                        to={`/customers/${row.customer.id}`}
+                        className="text-gray-700 hover:text-primary-600"
+                      >
+                        {row.customer.name}
+                      </Link>
+                    </td>
+                    <td className="text-right">{row.total}</td>
+                    <td className="text-right">{row.ACCEPTED}</td>
+                    <td className="text-right">{row.REJECTED}</td>
+                    <td className="text-right">{row.EXPIRED}</td>
+                    <td className="text-right">{row.DRAFT + row.SENT}</td>
+                    <td className="text-right">
+                      {formatCurrency(row.wonValue)}
+                    </td>
+                    <td className="text-right font-medium">
+                      {row.winRate === null ? "-" : `${row.winRate}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,532 @@
+import { useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { useForm, useFieldArray } from "react-hook-form";
+import toast from "react-hot-toast";
+import { customersAPI, hsnAPI, recurringInvoicesAPI } from "@/lib/api";
+import { formatCurrency } from "@/lib/utils";
+import type { ItemUnit, LineDiscountType, RecurrenceFrequency } from "@/types";
+
+const ITEM_UNITS: ItemUnit[] = ["PCS", "MTR", "KG", "SET"];
+
+interface TemplateItem {
+  productId?: string;
+  description: string;
+  hsnCode?: string;
+  quantity: number;
+  unit: ItemUnit;
+  unitPrice: number;
+  discountType: LineDiscountType;
+  discountValue: number;
+  taxRate: number;
+}
+
+// Line value after its trade discount; tax is charged on this
+const lineAmount = (item?: Partial<TemplateItem>) => {
+  const gross = (item?.quantity || 0) * (item?.unitPrice || 0);
+  const value = item?.discountValue || 0;
+  const discount =
+    item?.discountType === "FLAT"
+      ? Math.min(value, gross)
+      : gross * (Math.min(value, 100) / 100);
+  return gross - discount;
+};
+
+interface FormData {
+  name: string;
+  customerId: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate: string;
+  invoiceStatus: "DRAFT" | "PENDING";
+  dueDays: number | string;
+  discountRate: number;
+  items: TemplateItem[];
+  notes: string;
+  terms: string;
+}
+
+const toDateInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .split("T")[0];
+
+export default function CreateRecurringInvoice() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isEdit = Boolean(id);
+
+  const { data: customers } = useQuery({
+    queryKey: ["customers-list"],
+    queryFn: () => customersAPI.getAll({ limit: 1000 }),
+  });
+
+  const { data: hsns } = useQuery({
+    queryKey: ["hsn"],
+    queryFn: hsnAPI.getAll,
+    select: (res: any) => res.data,
+  });
+
+  const { data: template } = useQuery({
+    queryKey: ["recurring-invoice", id],
+    queryFn: () => recurringInvoicesAPI.getById(id!),
+    enabled: isEdit,
+    select: (res: any) => res.data,
+  });
+
+  const { register, control, handleSubmit, watch, setValue, reset } =
+    useForm<FormData>({
+      defaultValues: {
+        name: "",
+        customerId: "",
+        frequency: "MONTHLY",
+        interval: 1,
+        startDate: toDateInput(new Date()),
+        endDate: "",
+        invoiceStatus: "DRAFT",
+        dueDays: "",
+        discountRate: 0,
+        items: [
+          {
+            description: "",
+            hsnCode: "",
+            quantity: 1,
+            unit: "PCS",
+            unitPrice: 0,
+            discountType: "PERCENTAGE",
+            discountValue: 0,
+            taxRate: 5,
+          },
+        ],
+        notes: "",
+        terms: "",
+      },
+    });
+
+  useEffect(() => {
+    if (!template) return;
+    reset({
+      name: template.name,
+      customerId: template.customerId,
+      frequency: template.frequency,
+      interval: template.interval,
+      startDate: template.startDate.split("T")[0],
+      endDate: template.endDate ? template.endDate.split("T")[0] : "",
+      invoiceStatus: template.invoiceStatus,
+      dueDays: template.dueDays,
+      discountRate: Number(template.discountRate || 0),
+      items: (template.items || []).map((item: any) => ({
+        productId: item.productId || undefined,
+        description: item.description,
+        hsnCode: item.hsnCode || "",
+        quantity: Number(item.quantity),
+        unit: item.unit || "PCS",
+        unitPrice: Number(item.unitPrice),
+        discountType: item.discountType || "PERCENTAGE",
+        discountValue: Number(item.discountValue || 0),
+        taxRate: Number(item.taxRate),
+      })),
+      notes: template.notes || "",
+      terms: template.terms || "",
+    });
+  }, [template, reset]);
+
+  const { fields, append, remove } = useFieldArray({ control, name: "items" });
+
+  const watchItems = watch("items") || [];
+  const frequency = watch("frequency");
+  const discountRate = Number(watch("discountRate") || 0);
+
+  const subtotal = watchItems.reduce((sum, item) => sum + lineAmount(item), 0);
+  const taxAmount = watchItems.reduce(
+    (sum, item) => sum + lineAmount(item) * ((item.taxRate || 0) / 100),
+    0,
+  );
+  const discountAmount = subtotal * (discountRate / 100);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: any) =>
+      isEdit
+        ? recurringInvoicesAPI.update(id!, data)
+        : recurringInvoicesAPI.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["recurring-invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["recurring-invoice", id] });
+      toast.success(
+        isEdit ? "Recurring invoice updated" : "Recurring invoice created",
+      );
+      navigate("/recurring-invoices");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error.response?.data?.message || "Failed to save recurring invoice",
+      );
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    if (!isEdit && !data.customerId) {
+      toast.error("Select a customer");
+      return;
+    }
+    if (data.items.length === 0) {
+      toast.error("Add at least one item");
+      return;
+    }
+
+    saveMutation.mutate({
+      ...data,
+      interval: Number(data.interval || 1),
+      endDate: data.endDate || null,
+      dueDays: data.dueDays === "" ? undefined : Number(data.dueDays),
+      discountRate: Number(data.discountRate || 0),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link
+          to="/recurring-invoices"
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">
+          {isEdit
+            ? `Edit ${template?.name || "Recurring Invoice"}`
+            : "New Recurring Invoice"}
+        </h1>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div className="card grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="label">Name *</label>
+            <input
+              {...register("name", { required: true })}
+              placeholder="e.g. Monthly stitching charges"
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Customer *</label>
+            <select
+              {...register("customerId", { required: true })}
+              disabled={isEdit}
+              className="input"
+            >
+              <option value="">Select customer</option>
+              {customers?.data?.map((customer: any) => (
+                <option key={customer.id} value={customer.id}>
+                  {customer.name} ({customer.customerCode})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Create Invoices As</label>
+            <select {...register("invoiceStatus")} className="input">
+              <option value="DRAFT">Draft (review before sending)</option>
+              <option value="PENDING">Pending (ready to send)</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="card grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="label">Repeat</label>
+            <select {...register("frequency")} className="input">
+              <option value="MONTHLY">Monthly</option>
+              <option value="WEEKLY">Weekly</option>
+            </select>
+          </div>
+          <div>
+            <label className="label">
+              Every ({frequency === "WEEKLY" ? "weeks" : "months"})
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={12}
+              {...register("interval", { valueAsNumber: true, min: 1 })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">First Invoice On *</label>
+            <input
+              type="date"
+              {...register("startDate", { required: true })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">End Date</label>
+            <input type="date" {...register("endDate")} className="input" />
+          </div>
+          <div>
+            <label className="label">Due After (days)</label>
+            <input
+              type="number"
+              min={0}
+              {...register("dueDays")}
+              placeholder="Customer terms"
+              className="input"
+            />
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Items</h2>
+            <button
+              type="button"
+              onClick={() =>
+                append({
+                  description: "",
+                  hsnCode: "",
+                  quantity: 1,
+                  unit: "PCS",
+                  unitPrice: 0,
+                  discountType: "PERCENTAGE",
+                  discountValue: 0,
+                  taxRate: 5,
+                })
+              }
+              className="btn btn-outline btn-sm gap-1"
+            >
+              <PlusIcon className="h-4 w-4" />
+              Add Item
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 text-sm font-medium text-gray-500">
+                    Description
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-48">
+                    HSN/SAC
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
+                    Qty
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
+                    Unit
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-32">
+                    Unit Price
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-36">
+                    Discount
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
+                    Tax %
+                  </th>
+                  <th className="text-right py-2 text-sm font-medium text-gray-500 w-32">
+                    Amount
+                  </th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((field, index) => {
+                  const item = watchItems[index];
+                  const amount = lineAmount(item);
+
+                  return (
+                    <tr key={field.id} className="border-b border-gray-100">
+                      <td className="py-2 pr-2">
+                        <input
+                          {...register(`items.${index}.description` as const, {
+                            required: true,
+                          })}
+                          placeholder="Item description"
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          {...register(`items.${index}.hsnCode` as const, {
+                            onChange: (e) => {
+                              const selectedHsn = hsns?.find(
+                                (h: any) => h.code === e.target.value,
+                              );
+                              if (selectedHsn) {
+                                setValue(
+                                  `items.${index}.taxRate`,
+                                  Number(selectedHsn.taxRate),
+                                );
+                              }
+                            },
+                          })}
+                          className="input text-sm"
+                        >
+                          <option value="">Select HSN</option>
+                          {hsns?.map((hsn: any) => (
+                            <option key={hsn.code} value={hsn.code}>
+                              {hsn.code} - {hsn.description} ({hsn.taxRate}%)
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.quantity` as const, {
+                            valueAsNumber: true,
+                            min: 0.01,
+                          })}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          {...register(`items.${index}.unit` as const)}
+                          className="input text-sm"
+                        >
+                          {ITEM_UNITS.map((unit) => (
+                            <option key={unit} value={unit}>
+                              {unit}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.unitPrice` as const, {
+                            valueAsNumber: true,
+                            min: 0,
+                          })}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <div className="flex gap-1">
+                          <input
+                            type="number"
+                            step="0.01"
+                            {...register(
+                              `items.${index}.discountValue` as const,
+                              { valueAsNumber: true, min: 0 },
+                            )}
+                            className="input text-sm"
+                            min="0"
+                          />
+                          <select
+                            {...register(
+                              `items.${index}.discountType` as const,
+                            )}
+                            className="input text-sm w-16 px-2"
+                          >
+                            <option value="PERCENTAGE">%</option>
+                            <option value="FLAT">₹</option>
+                          </select>
+                        </div>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.taxRate` as const, {
+                            valueAsNumber: true,
+                            min: 0,
+                          })}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 text-right font-medium">
+                        {formatCurrency(amount)}
+                      </td>
+                      <td className="py-2 pl-2">
+                        <button
+                          type="button"
+                          onClick={() => remove(index)}
+                          className="p-1 text-red-500 hover:bg-red-50 rounded"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="card space-y-4">
+            <div>
+              <label className="label">Notes</label>
+              <textarea {...register("notes")} rows={3} className="input" />
+            </div>
+            <div>
+              <label className="label">Terms & Conditions</label>
+              <textarea {...register("terms")} rows={3} className="input" />
+            </div>
+          </div>
+          <div className="card space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Subtotal</span>
+              <span>{formatCurrency(subtotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">GST</span>
+              <span>{formatCurrency(taxAmount)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-500">Discount (%)</span>
+              <input
+                type="number"
+                step="0.01"
+                {...register("discountRate", { valueAsNumber: true, min: 0 })}
+                className="input text-sm w-28 text-right"
+              />
+            </div>
+            <div className="flex justify-between border-t border-gray-200 pt-2 text-base font-semibold">
+              <span>Each Invoice</span>
+              <span>
+                {formatCurrency(subtotal + taxAmount - discountAmount)}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">
+              Each run creates an invoice through the normal invoice
+              calculation, so GST follows the customer's state at the time.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Link to="/recurring-invoices" className="btn btn-outline">
+            Cancel
+          </Link>
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="btn btn-primary"
+          >
+            {saveMutation.isPending
+              ? "Saving..."
+              : isEdit
+                ? "Update Schedule"
+                : "Create Schedule"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
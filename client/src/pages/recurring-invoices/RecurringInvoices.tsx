@@ -0,0 +1,313 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import {
+  PlusIcon,
+  ArrowPathIcon,
+  PauseIcon,
+  PlayIcon,
+  ForwardIcon,
+  PencilSquareIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { recurringInvoicesAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { RecurringInvoice } from "@/types";
+
+const statusColors: Record<string, string> = {
+  ACTIVE: "badge-success",
+  PAUSED: "badge-warning",
+  ENDED: "badge-gray",
+};
+
+const describeSchedule = (template: RecurringInvoice) => {
+  const unit = template.frequency === "WEEKLY" ? "week" : "month";
+  return template.interval > 1
+    ? `Every ${template.interval} ${unit}s`
+    : `Every ${unit}`;
+};
+
+const templateTotal = (template: RecurringInvoice) => {
+  const items = template.items || [];
+  const subtotal = items.reduce(
+    (sum, item) => sum + Number(item.quantity) * Number(item.unitPrice),
+    0,
+  );
+  const tax = items.reduce(
+    (sum, item) =>
+      sum +
+      Number(item.quantity) *
+        Number(item.unitPrice) *
+        (Number(item.taxRate) / 100),
+    0,
+  );
+  return subtotal * (1 - Number(template.discountRate) / 100) + tax;
+};
+
+export default function RecurringInvoices() {
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery<RecurringInvoice[]>({
+    queryKey: ["recurring-invoices"],
+    queryFn: () => recurringInvoicesAPI.getAll(),
+    select: (res: any) => res.data || [],
+  });
+
+  const onError = (error: any) => {
+    toast.error(error.response?.data?.message || "Something went wrong");
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: ({
+      id,
+      action,
+    }: {
+      id: string;
+      action: "pause" | "resume" | "skip" | "delete";
+    }) => recurringInvoicesAPI[action](id),
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["recurring-invoices"] });
+      toast.success(
+        {
+          pause: "Schedule paused",
+          resume: "Schedule resumed",
+          skip: "Next run skipped",
+          delete: "Schedule deleted",
+        }[action],
+      );
+    },
+    onError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => recurringInvoicesAPI.runDue(),
+    onSuccess: (response: any) => {
+      queryClient.invalidateQueries({ queryKey: ["recurring-invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      toast.success(response.message || "Due invoices generated");
+    },
+    onError,
+  });
+
+  // Upcoming runs across all schedules, soonest first
+  const upcoming = templates
+    .flatMap((template) =>
+      (template.upcomingRuns || []).map((runDate, index) => ({
+        template,
+        runDate,
+        isNext: index === 0,
+      })),
+    )
+    .sort(
+      (a, b) => new Date(a.runDate).getTime() - new Date(b.runDate).getTime(),
+    )
+    .slice(0, 10);
+
+  const handleDelete = (template: RecurringInvoice) => {
+    if (
+      window.confirm(
+        `Delete "${template.name}"? Invoices already generated are kept.`,
+      )
+    ) {
+      actionMutation.mutate({ id: template.id, action: "delete" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h1 className="text-2xl font-bold text-gray-900">Recurring Invoices</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            className="btn btn-outline inline-flex items-center gap-2"
+          >
+            <ArrowPathIcon className="h-5 w-5" />
+            {runMutation.isPending ? "Running..." : "Run Due Now"}
+          </button>
+          <Link
+            to="/recurring-invoices/new"
+            className="btn btn-primary inline-flex items-center gap-2"
+          >
+            <PlusIcon className="h-5 w-5" />
+            New Schedule
+          </Link>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="card text-center py-12">
+          <ArrowPathIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No recurring invoices set up</p>
+          <Link to="/recurring-invoices/new" className="btn btn-primary mt-4">
+            Create your first schedule
+          </Link>
+        </div>
+      ) : (
+        <>
+          <div className="card overflow-hidden">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Upcoming Runs
+            </h2>
+            {upcoming.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No runs scheduled. Paused and ended schedules do not run.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Date</th>
+                      <th>Schedule</th>
+                      <th>Customer</th>
+                      <th className="text-right">Amount</th>
+                      <th className="text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {upcoming.map(({ template, runDate, isNext }) => (
+                      <tr key={`${template.id}-${runDate}`}>
+                        <td>{formatDate(runDate)}</td>
+                        <td>{template.name}</td>
+                        <td>{template.customer?.name}</td>
+                        <td className="text-right">
+                          {formatCurrency(templateTotal(template))}
+                        </td>
+                        <td className="text-right">
+                          {isNext && (
+                            <button
+                              onClick={() =>
+                                actionMutation.mutate({
+                                  id: template.id,
+                                  action: "skip",
+                                })
+                              }
+                              disabled={actionMutation.isPending}
+                              className="btn btn-outline btn-sm inline-flex items-center gap-1"
+                              title="Skip this run"
+                            >
+                              <ForwardIcon className="h-4 w-4" />
+                              Skip
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="card overflow-hidden">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Schedules
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Customer</th>
+                    <th>Repeats</th>
+                    <th>Next Run</th>
+                    <th>Ends</th>
+                    <th>Creates</th>
+                    <th className="text-right">Generated</th>
+                    <th>Status</th>
+                    <th className="text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {templates.map((template) => (
+                    <tr key={template.id}>
+                      <td className="font-medium">{template.name}</td>
+                      <td>
+                        <Link
+                          to={`/customers/${template.customerId}`}
+                          className="text-gray-700 hover:text-primary-600"
+                        >
+                          {template.customer?.name}
+                        </Link>
+                      </td>
+                      <td>{describeSchedule(template)}</td>
+                      <td>
+                        {template.nextRunDate
+                          ? formatDate(template.nextRunDate)
+                          : "-"}
+                      </td>
+                      <td>
+                        {template.endDate ? formatDate(template.endDate) : "-"}
+                      </td>
+                      <td>{template.invoiceStatus}</td>
+                      <td className="text-right">
+                        {template._count?.invoices || 0}
+                      </td>
+                      <td>
+                        <span
+                          className={`badge ${statusColors[template.status]}`}
+                        >
+                          {template.status}
+                        </span>
+                      </td>
+                      <td className="text-right whitespace-nowrap">
+                        {template.status === "ACTIVE" && (
+                          <button
+                            onClick={() =>
+                              actionMutation.mutate({
+                                id: template.id,
+                                action: "pause",
+                              })
+                            }
+                            className="p-1 text-gray-500 hover:text-primary-600 inline-flex"
+                            title="Pause"
+                          >
+                            <PauseIcon className="h-5 w-5" />
+                          </button>
+                        )}
+                        {template.status === "PAUSED" && (
+                          <button
+                            onClick={() =>
+                              actionMutation.mutate({
+                                id: template.id,
+                                action: "resume",
+                              })
+                            }
+                            className="p-1 text-gray-500 hover:text-primary-600 inline-flex"
+                            title="Resume"
+                          >
+                            <PlayIcon className="h-5 w-5" />
+                          </button>
+                        )}
+                        <Link
+                          to={`/recurring-invoices/${template.id}/edit`}
+                          className="p-1 text-gray-500 hover:text-primary-600 inline-flex"
+                          title="Edit"
+                        >
+                          <PencilSquareIcon className="h-5 w-5" />
+                        </Link>
+                        <button
+                          onClick={() => handleDelete(template)}
+                          className="p-1 text-gray-500 hover:text-red-600 inline-flex"
+                          title="Delete"
+                        >
+                          <TrashIcon className="h-5 w-5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
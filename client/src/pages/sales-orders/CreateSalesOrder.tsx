@@ -0,0 +1,540 @@
+import { useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { useForm, useFieldArray } from "react-hook-form";
+import toast from "react-hot-toast";
+import { customersAPI, hsnAPI, salesOrdersAPI } from "@/lib/api";
+import { formatCurrency } from "@/lib/utils";
+
+interface OrderItem {
+  description: string;
+  hsnCode?: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate: number;
+}
+
+interface ScheduleLot {
+  dueDate: string;
+  quantity: number;
+  notes?: string;
+}
+
+interface FormData {
+  customerId: string;
+  orderDate: string;
+  buyersOrderNo: string;
+  buyersOrderDate: string;
+  items: OrderItem[];
+  schedule: ScheduleLot[];
+  notes: string;
+  terms: string;
+}
+
+const toDateInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .split("T")[0];
+
+export default function CreateSalesOrder() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isEdit = Boolean(id);
+
+  const { data: customers } = useQuery({
+    queryKey: ["customers-list"],
+    queryFn: () => customersAPI.getAll({ limit: 1000 }),
+  });
+
+  const { data: hsns } = useQuery({
+    queryKey: ["hsn"],
+    queryFn: hsnAPI.getAll,
+    select: (res: any) => res.data,
+  });
+
+  const { data: order } = useQuery({
+    queryKey: ["sales-order", id],
+    queryFn: () => salesOrdersAPI.getById(id!),
+    enabled: isEdit,
+    select: (res: any) => res.data,
+  });
+
+  // Lines are fixed once anything has been dispatched or invoiced
+  const itemsLocked = isEdit && order && order.status !== "OPEN";
+
+  const { register, control, handleSubmit, watch, setValue, reset } =
+    useForm<FormData>({
+      defaultValues: {
+        customerId: "",
+        orderDate: toDateInput(new Date()),
+        buyersOrderNo: "",
+        buyersOrderDate: "",
+        items: [
+          {
+            description: "",
+            hsnCode: "",
+            quantity: 1,
+            unitPrice: 0,
+            taxRate: 5,
+          },
+        ],
+        schedule: [],
+        notes: "",
+        terms: "",
+      },
+    });
+
+  useEffect(() => {
+    if (!order) return;
+    reset({
+      customerId: order.customerId,
+      orderDate: order.orderDate.split("T")[0],
+      buyersOrderNo: order.buyersOrderNo || "",
+      buyersOrderDate: order.buyersOrderDate
+        ? order.buyersOrderDate.split("T")[0]
+        : "",
+      items: (order.items || []).map((item: any) => ({
+        description: item.description,
+        hsnCode: item.hsnCode || "",
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unitPrice),
+        taxRate: Number(item.taxRate),
+      })),
+      schedule: (order.schedule || []).map((lot: any) => ({
+        dueDate: lot.dueDate.split("T")[0],
+        quantity: Number(lot.quantity),
+        notes: lot.notes || "",
+      })),
+      notes: order.notes || "",
+      terms: order.terms || "",
+    });
+  }, [order, reset]);
+
+  const { fields, append, remove } = useFieldArray({ control, name: "items" });
+  const {
+    fields: scheduleFields,
+    append: appendLot,
+    remove: removeLot,
+  } = useFieldArray({ control, name: "schedule" });
+
+  const watchItems = watch("items") || [];
+  const watchSchedule = watch("schedule") || [];
+
+  const subtotal = watchItems.reduce(
+    (sum, item) => sum + (item.quantity || 0) * (item.unitPrice || 0),
+    0,
+  );
+  const taxAmount = watchItems.reduce(
+    (sum, item) =>
+      sum +
+      (item.quantity || 0) *
+        (item.unitPrice || 0) *
+        ((item.taxRate || 0) / 100),
+    0,
+  );
+  const orderedQty = watchItems.reduce(
+    (sum, item) => sum + (item.quantity || 0),
+    0,
+  );
+  const scheduledQty = watchSchedule.reduce(
+    (sum, lot) => sum + (lot.quantity || 0),
+    0,
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: (data: any) =>
+      isEdit ? salesOrdersAPI.update(id!, data) : salesOrdersAPI.create(data),
+    onSuccess: (response: any) => {
+      queryClient.invalidateQueries({ queryKey: ["sales-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["sales-order", id] });
+      toast.success(isEdit ? "Sales order updated" : "Sales order created");
+      navigate(`/sales-orders/${response.data.id}`);
+    },
+    onError: (error: any) => {
+      toast.error(
+        error.response?.data?.message || "Failed to save sales order",
+      );
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    if (!isEdit && !data.customerId) {
+      toast.error("Select a customer");
+      return;
+    }
+    if (!itemsLocked && data.items.length === 0) {
+      toast.error("Add at least one item");
+      return;
+    }
+
+    const { items, ...rest } = data;
+    saveMutation.mutate({
+      ...rest,
+      buyersOrderDate: data.buyersOrderDate || null,
+      ...(itemsLocked ? {} : { items }),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link
+          to={isEdit ? `/sales-orders/${id}` : "/sales-orders"}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">
+          {isEdit
+            ? `Edit Sales Order ${order?.orderNumber || ""}`
+            : "New Sales Order"}
+        </h1>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div className="card grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="label">Customer *</label>
+            <select
+              {...register("customerId", { required: true })}
+              disabled={isEdit}
+              className="input"
+            >
+              <option value="">Select customer</option>
+              {customers?.data?.map((customer: any) => (
+                <option key={customer.id} value={customer.id}>
+                  {customer.name} ({customer.customerCode})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Order Date *</label>
+            <input
+              type="date"
+              {...register("orderDate", { required: true })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Buyer's Order No.</label>
+            <input
+              {...register("buyersOrderNo")}
+              placeholder="Customer PO number"
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Buyer's Order Date</label>
+            <input
+              type="date"
+              {...register("buyersOrderDate")}
+              className="input"
+            />
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Items</h2>
+            {!itemsLocked && (
+              <button
+                type="button"
+                onClick={() =>
+                  append({
+                    description: "",
+                    hsnCode: "",
+                    quantity: 1,
+                    unitPrice: 0,
+                    taxRate: 5,
+                  })
+                }
+                className="btn btn-outline btn-sm gap-1"
+              >
+                <PlusIcon className="h-4 w-4" />
+                Add Item
+              </button>
+            )}
+          </div>
+          {itemsLocked && (
+            <p className="text-sm text-gray-500 mb-4">
+              Items cannot be changed after dispatch or invoicing.
+            </p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 text-sm font-medium text-gray-500">
+                    Description
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-48">
+                    HSN/SAC
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
+                    Qty
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-32">
+                    Unit Price
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-24">
+                    Tax %
+                  </th>
+                  <th className="text-right py-2 text-sm font-medium text-gray-500 w-32">
+                    Amount
+                  </th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((field, index) => {
+                  const item = watchItems[index];
+                  const amount = (item?.quantity || 0) * (item?.unitPrice || 0);
+
+                  return (
+                    <tr key={field.id} className="border-b border-gray-100">
+                      <td className="py-2 pr-2">
+                        <input
+                          {...register(`items.${index}.description` as const, {
+                            required: true,
+                          })}
+                          disabled={itemsLocked}
+                          placeholder="Item description"
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          {...register(`items.${index}.hsnCode` as const, {
+                            onChange: (e) => {
+                              const selectedHsn = hsns?.find(
+                                (h: any) => h.code === e.target.value,
+                              );
+                              if (selectedHsn) {
+                                setValue(
+                                  `items.${index}.taxRate`,
+                                  Number(selectedHsn.taxRate),
+                                );
+                              }
+                            },
+                          })}
+                          disabled={itemsLocked}
+                          className="input text-sm"
+                        >
+                          <option value="">Select HSN</option>
+                          {hsns?.map((hsn: any) => (
+                            <option key={hsn.code} value={hsn.code}>
+                              {hsn.code} - {hsn.description} ({hsn.taxRate}%)
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.quantity` as const, {
+                            valueAsNumber: true,
+                            min: 0.01,
+                          })}
+                          disabled={itemsLocked}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.unitPrice` as const, {
+                            valueAsNumber: true,
+                            min: 0,
+                          })}
+                          disabled={itemsLocked}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.taxRate` as const, {
+                            valueAsNumber: true,
+                            min: 0,
+                          })}
+                          disabled={itemsLocked}
+                          className="input text-sm"
+                        />
+                      </td>
+                      <td className="py-2 text-right font-medium">
+                        {formatCurrency(amount)}
+                      </td>
+                      <td className="py-2 pl-2">
+                        {!itemsLocked && (
+                          <button
+                            type="button"
+                            onClick={() => remove(index)}
+                            className="p-1 text-red-500 hover:bg-red-50 rounded"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">
+                Delivery Schedule
+              </h2>
+              <p className="text-sm text-gray-500">
+                {scheduledQty} of {orderedQty} pcs scheduled
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                appendLot({
+                  dueDate: "",
+                  quantity: Math.max(0, orderedQty - scheduledQty),
+                  notes: "",
+                })
+              }
+              className="btn btn-outline btn-sm gap-1"
+            >
+              <PlusIcon className="h-4 w-4" />
+              Add Lot
+            </button>
+          </div>
+
+          {scheduleFields.length === 0 ? (
+            <p className="text-sm text-gray-500">No delivery lots planned</p>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-48">
+                    Due Date
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500 w-32">
+                    Qty
+                  </th>
+                  <th className="text-left py-2 text-sm font-medium text-gray-500">
+                    Notes
+                  </th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {scheduleFields.map((field, index) => (
+                  <tr key={field.id} className="border-b border-gray-100">
+                    <td className="py-2 pr-2">
+                      <input
+                        type="date"
+                        {...register(`schedule.${index}.dueDate` as const, {
+                          required: true,
+                        })}
+                        className="input text-sm"
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        step="0.01"
+                        {...register(`schedule.${index}.quantity` as const, {
+                          valueAsNumber: true,
+                          min: 0.01,
+                        })}
+                        className="input text-sm"
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        {...register(`schedule.${index}.notes` as const)}
+                        placeholder="e.g. First lot - sizes S, M"
+                        className="input text-sm"
+                      />
+                    </td>
+                    <td className="py-2 pl-2">
+                      <button
+                        type="button"
+                        onClick={() => removeLot(index)}
+                        className="p-1 text-red-500 hover:bg-red-50 rounded"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="card space-y-4">
+            <div>
+              <label className="label">Notes</label>
+              <textarea {...register("notes")} rows={3} className="input" />
+            </div>
+            <div>
+              <label className="label">Terms & Conditions</label>
+              <textarea {...register("terms")} rows={3} className="input" />
+            </div>
+          </div>
+          <div className="card space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Subtotal</span>
+              <span>{formatCurrency(subtotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">GST</span>
+              <span>{formatCurrency(taxAmount)}</span>
+            </div>
+            <div className="flex justify-between border-t border-gray-200 pt-2 text-base font-semibold">
+              <span>Order Value</span>
+              <span>{formatCurrency(subtotal + taxAmount)}</span>
+            </div>
+            <p className="text-xs text-gray-500">
+              CGST/SGST or IGST is worked out on each invoice raised against the
+              order.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Link
+            to={isEdit ? `/sales-orders/${id}` : "/sales-orders"}
+            className="btn btn-outline"
+          >
+            Cancel
+          </Link>
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="btn btn-primary"
+          >
+            {saveMutation.isPending
+              ? "Saving..."
+              : isEdit
+                ? "Update Order"
+                : "Create Order"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,445 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  DocumentPlusIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  TruckIcon,
+  XCircleIcon,
+} from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { salesOrdersAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { SalesOrder } from "@/types";
+
+const statusColors: Record<string, string> = {
+  OPEN: "badge-info",
+  PARTIALLY_FULFILLED: "badge-warning",
+  COMPLETED: "badge-success",
+  CANCELLED: "badge-gray",
+};
+
+const invoiceStatusColors: Record<string, string> = {
+  DRAFT: "badge-gray",
+  PENDING: "badge-warning",
+  SENT: "badge-info",
+  PAID: "badge-success",
+  PARTIALLY_PAID: "badge-info",
+  OVERDUE: "badge-error",
+  CANCELLED: "badge-gray",
+};
+
+export default function SalesOrderDetails() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [dispatchQty, setDispatchQty] = useState<Record<string, number>>({});
+  const [showDispatch, setShowDispatch] = useState(false);
+
+  const { data: order, isLoading } = useQuery<SalesOrder>({
+    queryKey: ["sales-order", id],
+    queryFn: () => salesOrdersAPI.getById(id!),
+    select: (res: any) => res.data,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["sales-order", id] });
+    queryClient.invalidateQueries({ queryKey: ["sales-orders"] });
+  };
+
+  const dispatchMutation = useMutation({
+    mutationFn: (items: any[]) => salesOrdersAPI.dispatch(id!, items),
+    onSuccess: () => {
+      invalidate();
+      setShowDispatch(false);
+      setDispatchQty({});
+      toast.success("Dispatch recorded");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to record dispatch");
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => salesOrdersAPI.cancel(id!),
+    onSuccess: () => {
+      invalidate();
+      toast.success("Sales order cancelled");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to cancel order");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => salesOrdersAPI.delete(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sales-orders"] });
+      toast.success("Sales order deleted");
+      navigate("/sales-orders");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || "Failed to delete order");
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500 mb-4">Sales order not found</p>
+        <Link to="/sales-orders" className="btn btn-primary">
+          Back to Sales Orders
+        </Link>
+      </div>
+    );
+  }
+
+  const items = order.items || [];
+  const schedule = order.schedule || [];
+  const isOpen =
+    order.status === "OPEN" || order.status === "PARTIALLY_FULFILLED";
+  const canInvoice = isOpen && items.some((item) => item.pendingInvoiceQty > 0);
+  const canDispatch =
+    isOpen && items.some((item) => item.pendingDispatchQty > 0);
+
+  // A lot is behind when its cumulative quantity is past due but not yet
+  // dispatched in full
+  const totalDispatched = items.reduce(
+    (sum, item) => sum + Number(item.dispatchedQty),
+    0,
+  );
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  let cumulative = 0;
+  const scheduleRows = schedule.map((lot) => {
+    cumulative += Number(lot.quantity);
+    return {
+      ...lot,
+      cumulative,
+      behind:
+        isOpen && new Date(lot.dueDate) < today && totalDispatched < cumulative,
+    };
+  });
+
+  const handleDispatch = () => {
+    const lines = items
+      .map((item) => ({ id: item.id, quantity: dispatchQty[item.id] || 0 }))
+      .filter((line) => line.quantity > 0);
+    if (lines.length === 0) {
+      toast.error("Enter the quantity dispatched");
+      return;
+    }
+    dispatchMutation.mutate(lines);
+  };
+
+  const handleCancel = () => {
+    if (
+      window.confirm(
+        `Cancel the remaining quantities on ${order.orderNumber}? Invoices already raised are not affected.`,
+      )
+    ) {
+      cancelMutation.mutate();
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete sales order ${order.orderNumber}?`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link
+            to="/sales-orders"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {order.orderNumber}
+            </h1>
+            <span className={`badge ${statusColors[order.status]}`}>
+              {order.status.replace("_", " ")}
+            </span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {canInvoice && (
+            <Link
+              to={`/invoices/new?salesOrderId=${order.id}`}
+              className="btn btn-primary inline-flex items-center gap-2"
+            >
+              <DocumentPlusIcon className="h-5 w-5" />
+              Create Invoice
+            </Link>
+          )}
+          {canDispatch && !showDispatch && (
+            <button
+              onClick={() => setShowDispatch(true)}
+              className="btn btn-outline inline-flex items-center gap-2"
+            >
+              <TruckIcon className="h-5 w-5" />
+              Record Dispatch
+            </button>
+          )}
+          {isOpen && (
+            <Link
+              to={`/sales-orders/${order.id}/edit`}
+              className="btn btn-outline inline-flex items-center gap-2"
+            >
+              <PencilSquareIcon className="h-5 w-5" />
+              Edit
+            </Link>
+          )}
+          {isOpen && (
+            <button
+              onClick={handleCancel}
+              disabled={cancelMutation.isPending}
+              className="btn btn-outline inline-flex items-center gap-2"
+            >
+              <XCircleIcon className="h-5 w-5" />
+              Cancel Order
+            </button>
+          )}
+          {(order.invoices || []).length === 0 && totalDispatched === 0 && (
+            <button
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="btn btn-outline text-red-600 inline-flex items-center gap-2"
+            >
+              <TrashIcon className="h-5 w-5" />
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="card grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">Customer</p>
+          <Link
+            to={`/customers/${order.customerId}`}
+            className="font-medium text-primary-600 hover:text-primary-700"
+          >
+            {order.customer?.name}
+          </Link>
+        </div>
+        <div>
+          <p className="text-gray-500">Order Date</p>
+          <p className="font-medium">{formatDate(order.orderDate)}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Buyer's Order</p>
+          <p className="font-medium">
+            {order.buyersOrderNo || "-"}
+            {order.buyersOrderDate &&
+              ` dated ${formatDate(order.buyersOrderDate)}`}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Order Value</p>
+          <p className="font-medium">{formatCurrency(order.totalAmount)}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Pending to Invoice</p>
+          <p className="font-medium text-orange-600">
+            {formatCurrency(order.pendingAmount || 0)}
+          </p>
+        </div>
+      </div>
+
+      <div className="card overflow-hidden">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Items</h2>
+        <div className="overflow-x-auto">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Description</th>
+                <th>HSN/SAC</th>
+                <th className="text-right">Rate</th>
+                <th className="text-right">Ordered</th>
+                <th className="text-right">Dispatched</th>
+                <th className="text-right">Invoiced</th>
+                <th className="text-right">To Dispatch</th>
+                <th className="text-right">To Invoice</th>
+                {showDispatch && <th className="w-32">Dispatch Now</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => (
+                <tr key={item.id}>
+                  <td>{item.description}</td>
+                  <td>{item.hsnCode || "-"}</td>
+                  <td className="text-right">
+                    {formatCurrency(item.unitPrice)}
+                  </td>
+                  <td className="text-right">{Number(item.quantity)}</td>
+                  <td className="text-right">{Number(item.dispatchedQty)}</td>
+                  <td className="text-right">{item.invoicedQty}</td>
+                  <td className="text-right font-medium">
+                    {item.pendingDispatchQty}
+                  </td>
+                  <td className="text-right font-medium">
+                    {item.pendingInvoiceQty}
+                  </td>
+                  {showDispatch && (
+                    <td>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min={0}
+                        max={item.pendingDispatchQty}
+                        disabled={item.pendingDispatchQty === 0}
+                        value={dispatchQty[item.id] ?? ""}
+                        onChange={(e) =>
+                          setDispatchQty((current) => ({
+                            ...current,
+                            [item.id]: Number(e.target.value),
+                          }))
+                        }
+                        className="input text-sm"
+                      />
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {showDispatch && (
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              onClick={() => {
+                setShowDispatch(false);
+                setDispatchQty({});
+              }}
+              className="btn btn-outline"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleDispatch}
+              disabled={dispatchMutation.isPending}
+              className="btn btn-primary"
+            >
+              {dispatchMutation.isPending ? "Saving..." : "Save Dispatch"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="card overflow-hidden">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            Delivery Schedule
+          </h2>
+          {scheduleRows.length === 0 ? (
+            <p className="text-sm text-gray-500">No delivery lots planned</p>
+          ) : (
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Due Date</th>
+                  <th className="text-right">Qty</th>
+                  <th className="text-right">Cumulative</th>
+                  <th>Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scheduleRows.map((lot) => (
+                  <tr key={lot.id}>
+                    <td>
+                      {formatDate(lot.dueDate)}
+                      {lot.behind && (
+                        <span className="badge badge-error ml-2">Behind</span>
+                      )}
+                    </td>
+                    <td className="text-right">{Number(lot.quantity)}</td>
+                    <td className="text-right">{lot.cumulative}</td>
+                    <td>{lot.notes || "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="card overflow-hidden">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Invoices</h2>
+          {(order.invoices || []).length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No invoices raised against this order
+            </p>
+          ) : (
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Invoice #</th>
+                  <th>Date</th>
+                  <th className="text-right">Amount</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {order.invoices!.map((invoice) => (
+                  <tr key={invoice.id}>
+                    <td>
+                      <Link
+                        to={`/invoices/${invoice.id}`}
+                        className="text-primary-600 hover:text-primary-700 font-medium"
+                      >
+                        {invoice.invoiceNumber}
+                      </Link>
+                    </td>
+                    <td>{formatDate(invoice.issueDate)}</td>
+                    <td className="text-right">
+                      {formatCurrency(invoice.totalAmount)}
+                    </td>
+                    <td>
+                      <span
+                        className={`badge ${invoiceStatusColors[invoice.status]}`}
+                      >
+                        {invoice.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {(order.notes || order.terms) && (
+        <div className="card grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          {order.notes && (
+            <div>
+              <p className="text-gray-500 mb-1">Notes</p>
+              <p className="whitespace-pre-line">{order.notes}</p>
+            </div>
+          )}
+          {order.terms && (
+            <div>
+              <p className="text-gray-500 mb-1">Terms & Conditions</p>
+              <p className="whitespace-pre-line">{order.terms}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
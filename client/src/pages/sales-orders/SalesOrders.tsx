@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import {
+  PlusIcon,
+  MagnifyingGlassIcon,
+  ClipboardDocumentListIcon,
+  EyeIcon,
+} from "@heroicons/react/24/outline";
+import { salesOrdersAPI } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { SalesOrder } from "@/types";
+
+const statusColors: Record<string, string> = {
+  OPEN: "badge-info",
+  PARTIALLY_FULFILLED: "badge-warning",
+  COMPLETED: "badge-success",
+  CANCELLED: "badge-gray",
+};
+
+// First delivery lot not yet covered by what has been dispatched
+const nextDueLot = (order: SalesOrder) => {
+  const dispatched = (order.items || []).reduce(
+    (sum, item) => sum + Number(item.dispatchedQty),
+    0,
+  );
+  let cumulative = 0;
+  return (order.schedule || []).find((lot) => {
+    cumulative += Number(lot.quantity);
+    return dispatched < cumulative;
+  });
+};
+
+export default function SalesOrders() {
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState("");
+  const [page, setPage] = useState(1);
+  const limit = 10;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["sales-orders", { search, status: statusFilter, page, limit }],
+    queryFn: () =>
+      salesOrdersAPI.getAll({
+        search,
+        status: statusFilter || undefined,
+        page,
+        limit,
+      }),
+  });
+
+  const orders: SalesOrder[] = data?.data || [];
+  const total = data?.pagination?.total || 0;
+  const totalPages = data?.pagination?.pages || Math.ceil(total / limit);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h1 className="text-2xl font-bold text-gray-900">Sales Orders</h1>
+        <Link
+          to="/sales-orders/new"
+          className="btn btn-primary inline-flex items-center gap-2"
+        >
+          <PlusIcon className="h-5 w-5" />
+          New Sales Order
+        </Link>
+      </div>
+
+      <div className="card">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by order, buyer's order no. or customer..."
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              className="input pl-10"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+            className="input max-w-xs"
+          >
+            <option value="">All Status</option>
+            <option value="OPEN">Open</option>
+            <option value="PARTIALLY_FULFILLED">Partially Fulfilled</option>
+            <option value="COMPLETED">Completed</option>
+            <option value="CANCELLED">Cancelled</option>
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="card text-center py-12">
+          <ClipboardDocumentListIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No sales orders found</p>
+          <Link to="/sales-orders/new" className="btn btn-primary mt-4">
+            Create your first sales order
+          </Link>
+        </div>
+      ) : (
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Order #</th>
+                  <th>Customer</th>
+                  <th>Buyer's Order</th>
+                  <th>Date</th>
+                  <th>Next Lot Due</th>
+                  <th className="text-right">Order Value</th>
+                  <th className="text-right">Pending</th>
+                  <th>Status</th>
+                  <th className="text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {orders.map((order) => {
+                  const nextLot =
+                    order.status === "OPEN" ||
+                    order.status === "PARTIALLY_FULFILLED"
+                      ? nextDueLot(order)
+                      : undefined;
+
+                  return (
+                    <tr key={order.id}>
+                      <td>
+                        <Link
+                          to={`/sales-orders/${order.id}`}
+                          className="text-primary-600 hover:text-primary-700 font-medium"
+                        >
+                          {order.orderNumber}
+                        </Link>
+                      </td>
+                      <td>{order.customer?.name}</td>
+                      <td>{order.buyersOrderNo || "-"}</td>
+                      <td>{formatDate(order.orderDate)}</td>
+                      <td>
+                        {nextLot ? (
+                          <span
+                            className={
+                              new Date(nextLot.dueDate) < new Date()
+                                ? "text-red-600"
+                                : undefined
+                            }
+                          >
+                            {formatDate(nextLot.dueDate)} (
+                            {Number(nextLot.quantity)} pcs)
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
+                      <td className="text-right">
+                        {formatCurrency(order.totalAmount)}
+                      </td>
+                      <td className="text-right font-medium">
+                        {formatCurrency(order.pendingAmount || 0)}
+                      </td>
+                      <td>
+                        <span className={`badge ${statusColors[order.status]}`}>
+                          {order.status.replace("_", " ")}
+                        </span>
+                      </td>
+                      <td className="text-right">
+                        <Link
+                          to={`/sales-orders/${order.id}`}
+                          className="p-1 text-gray-500 hover:text-primary-600 inline-flex"
+                          title="View"
+                        >
+                          <EyeIcon className="h-5 w-5" />
+                        </Link>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+              <p className="text-sm text-gray-500">
+                Showing {(page - 1) * limit + 1} to{" "}
+                {Math.min(page * limit, total)} of {total} orders
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="btn btn-outline btn-sm"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                  className="btn btn-outline btn-sm"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -166,14 +166,52 @@ export interface Customer {
   paymentTerms?: number;
   notes?: string;
   isActive: boolean;
+  outstandingBalance?: number;
+  creditBalance?: number;
+  openingBalance?: number;
+  openingBalanceDate?: string;
   invoices?: Invoice[];
+  invoiceNotes?: InvoiceNote[];
   measurements?: Measurement[];
+  salesOrders?: SalesOrder[];
   _count?: {
     invoices: number;
     measurements: number;
   };
 }
 
+export type LedgerEntryType =
+  | "INVOICE"
+  | "DEBIT_NOTE"
+  | "CREDIT_NOTE"
+  | "PAYMENT"
+  | "RECEIPT"
+  | "REFUND"
+  | "REVERSAL"
+  | "BOUNCED_CHEQUE";
+
+export interface LedgerEntry {
+  date: string;
+  type: LedgerEntryType;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  documentId: string;
+}
+
+export interface CustomerLedger {
+  customer: Customer;
+  from: string | null;
+  to: string | null;
+  openingBalance: number;
+  entries: LedgerEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
 export interface Supplier {
   id: string;
   supplierCode: string;
@@ -207,14 +245,32 @@ export interface Invoice {
   subtotal: number;
   taxRate: number;
   taxAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
   discountRate: number;
   discountAmount: number;
   totalAmount: number;
   paidAmount: number;
+  creditedAmount: number;
+  debitedAmount: number;
   status: InvoiceStatus;
+  placeOfSupply?: string;
+  isInterState: boolean;
   notes?: string;
   terms?: string;
   gstEnabled: boolean;
+  // Export details; amounts are always stored in INR
+  currency: string;
+  exchangeRate: number;
+  // Foreign currency invoices, from the prices as entered
+  foreignRoundOff?: number | null;
+  foreignTotalAmount?: number | null;
+  exportType?: ExportType | null;
+  lutNumber?: string;
+  portCode?: string;
+  shippingBillNumber?: string;
+  shippingBillDate?: string;
   // Transport & Delivery Details
   deliveryNote?: string;
   deliveryNoteDate?: string;
@@ -231,8 +287,33 @@ export interface Invoice {
 
   items: InvoiceItem[];
   payments?: Payment[];
+  creditDebitNotes?: InvoiceNote[];
+  quotation?: Pick<Quotation, "id" | "quotationNumber">;
+  salesOrderId?: string;
+  salesOrder?: Pick<SalesOrder, "id" | "orderNumber">;
+  taxBreakdown?: TaxBreakdown;
+  company?: CompanyProfile;
+  customerCredit?: number;
+  reminders?: PaymentReminder[];
+  irn?: string;
+  ackNo?: string;
+  ackDate?: string;
+  signedQrCode?: string;
+  transporterId?: string;
+  transportDistance?: number;
+  ewbNumber?: string;
+  ewbDate?: string;
+  ewbValidUntil?: string;
+  cancelledAt?: string;
+  cancellationReason?: string;
+  cancelledBy?: { firstName: string; lastName: string };
+  upiIntent?: string | null;
+  emails?: InvoiceEmail[];
 }
 
+// With IGST paid (refund claimed) or zero-rated under a letter of undertaking
+export type ExportType = "WITH_IGST" | "UNDER_LUT";
+
 export type InvoiceStatus =
   | "DRAFT"
   | "PENDING"
@@ -242,14 +323,339 @@ export type InvoiceStatus =
   | "OVERDUE"
   | "CANCELLED";
 
+export type ItemUnit = "PCS" | "MTR" | "KG" | "SET";
+
+export type LineDiscountType = "PERCENTAGE" | "FLAT";
+
 export interface InvoiceItem {
   id: string;
   invoiceId: string;
+  productId?: string | null;
+  description: string;
+  quantity: number;
+  unit: ItemUnit;
+  unitPrice: number;
+  discountType?: LineDiscountType | null;
+  discountValue: number;
+  discountAmount: number;
+  // Taxable value, after the line discount
+  amount: number;
+  hsnCode?: string;
+  taxRate: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  // Foreign currency invoices: the price and flat discount as entered
+  foreignUnitPrice?: number | null;
+  foreignDiscountValue?: number | null;
+  foreignAmount?: number | null;
+}
+
+// Product / style master used to fill invoice and quotation lines
+export interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  description?: string;
+  hsnId?: string | null;
+  hsn?: { id: string; code: string; description?: string; taxRate: number };
+  unit: ItemUnit;
+  basePrice: number;
+  fabricTypeId?: string | null;
+  fabricType?: { id: string; code: string; imageUrl: string };
+  isActive: boolean;
+  prices?: CustomerPrice[];
+  // Present when listed for a customer: their price list rate, and the
+  // price that applies to them
+  customerPrice?: number | null;
+  price?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerPrice {
+  id: string;
+  customerId: string;
+  productId: string;
+  price: number;
+  customer?: Pick<Customer, "id" | "name" | "customerCode">;
+}
+
+export interface ProductSalesRow {
+  productId: string | null;
+  sku: string | null;
+  name: string;
+  unit: ItemUnit | null;
+  quantity: number;
+  amount: number;
+}
+
+export type NoteType = "CREDIT" | "DEBIT";
+
+export interface InvoiceNote {
+  id: string;
+  noteNumber: string;
+  noteType: NoteType;
+  invoiceId: string;
+  invoice?: Pick<Invoice, "id" | "invoiceNumber" | "issueDate" | "totalAmount">;
+  customerId: string;
+  customer?: Customer;
+  createdBy?: User;
+  issueDate: string;
+  reason: string;
+  subtotal: number;
+  taxAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  roundOff: number;
+  totalAmount: number;
+  placeOfSupply?: string;
+  isInterState: boolean;
+  returnToStock: boolean;
+  notes?: string;
+  items?: InvoiceNoteItem[];
+  taxBreakdown?: TaxBreakdown;
+  company?: CompanyProfile;
+  createdAt: string;
+}
+
+export interface InvoiceNoteItem {
+  id: string;
+  noteId: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  hsnCode?: string;
+  taxRate: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  materialId?: string;
+  material?: { id: string; name: string };
+}
+
+export type QuotationStatus =
+  | "DRAFT"
+  | "SENT"
+  | "ACCEPTED"
+  | "REJECTED"
+  | "EXPIRED";
+
+export interface Quotation {
+  id: string;
+  quotationNumber: string;
+  customerId: string;
+  customer?: Customer;
+  createdBy?: User;
+  issueDate: string;
+  validUntil: string;
+  subtotal: number;
+  taxAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  discountRate: number;
+  discountAmount: number;
+  roundOff: number;
+  totalAmount: number;
+  status: QuotationStatus;
+  notes?: string;
+  terms?: string;
+  placeOfSupply?: string;
+  isInterState: boolean;
+  invoiceId?: string;
+  invoice?: Pick<Invoice, "id" | "invoiceNumber" | "status">;
+  items?: QuotationItem[];
+  taxBreakdown?: TaxBreakdown;
+  company?: CompanyProfile;
+  createdAt: string;
+}
+
+export interface QuotationItem {
+  id: string;
+  quotationId: string;
+  productId?: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  hsnCode?: string;
+  taxRate: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export interface QuotationWinRate {
+  customer: Pick<Customer, "id" | "name" | "customerCode">;
+  total: number;
+  DRAFT: number;
+  SENT: number;
+  ACCEPTED: number;
+  REJECTED: number;
+  EXPIRED: number;
+  converted: number;
+  quotedValue: number;
+  wonValue: number;
+  winRate: number | null;
+}
+
+export type SalesOrderStatus =
+  | "OPEN"
+  | "PARTIALLY_FULFILLED"
+  | "COMPLETED"
+  | "CANCELLED";
+
+export interface SalesOrder {
+  id: string;
+  orderNumber: string;
+  customerId: string;
+  customer?: Customer;
+  createdBy?: User;
+  orderDate: string;
+  buyersOrderNo?: string;
+  buyersOrderDate?: string;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  status: SalesOrderStatus;
+  notes?: string;
+  terms?: string;
+  items?: SalesOrderItem[];
+  schedule?: SalesOrderSchedule[];
+  invoices?: Pick<
+    Invoice,
+    "id" | "invoiceNumber" | "issueDate" | "totalAmount" | "status"
+  >[];
+  pendingAmount?: number;
+  createdAt: string;
+}
+
+export interface SalesOrderItem {
+  id: string;
+  salesOrderId: string;
   description: string;
+  hsnCode?: string;
   quantity: number;
   unitPrice: number;
+  taxRate: number;
   amount: number;
+  dispatchedQty: number;
+  invoicedQty: number;
+  pendingDispatchQty: number;
+  pendingInvoiceQty: number;
+}
+
+export interface SalesOrderSchedule {
+  id: string;
+  dueDate: string;
+  quantity: number;
+  notes?: string;
+}
+
+export type RecurrenceFrequency = "WEEKLY" | "MONTHLY";
+
+export type RecurringInvoiceStatus = "ACTIVE" | "PAUSED" | "ENDED";
+
+export interface RecurringInvoice {
+  id: string;
+  name: string;
+  customerId: string;
+  customer?: Customer;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string;
+  nextRunDate?: string;
+  lastRunDate?: string;
+  status: RecurringInvoiceStatus;
+  invoiceStatus: InvoiceStatus;
+  dueDays: number;
+  discountRate: number;
+  notes?: string;
+  terms?: string;
+  items?: RecurringInvoiceItem[];
+  upcomingRuns?: string[];
+  _count?: {
+    invoices: number;
+  };
+}
+
+export interface RecurringInvoiceItem {
+  id: string;
+  productId?: string | null;
+  description: string;
   hsnCode?: string;
+  quantity: number;
+  unit: ItemUnit;
+  unitPrice: number;
+  discountType?: LineDiscountType | null;
+  discountValue: number;
+  taxRate: number;
+}
+
+export interface TaxBreakdownRow {
+  hsnCode: string;
+  taxRate: number;
+  // Quantity per unit quantity code, e.g. { MTR: 120, PCS: 4 }
+  quantities?: Record<string, number>;
+  taxableValue: number;
+  cgstRate: number;
+  sgstRate: number;
+  igstRate: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+}
+
+export interface TaxBreakdown {
+  isInterState: boolean;
+  placeOfSupply: string | null;
+  placeOfSupplyName: string | null;
+  rows: TaxBreakdownRow[];
+  totals: {
+    taxableValue: number;
+    cgstAmount: number;
+    sgstAmount: number;
+    igstAmount: number;
+    totalTax: number;
+  };
+}
+
+// Company details from settings, used on printed documents
+export interface CompanyProfile {
+  companyName: string;
+  address: string;
+  city: string;
+  state: string;
+  pincode: string;
+  phone: string;
+  email: string;
+  gstNumber: string;
+  panNumber: string;
+  bankAccountName: string;
+  bankAccountNumber: string;
+  bankIfsc: string;
+  bankName: string;
+  upiId: string;
+  stateCode: string | null;
+}
+
+// What the public payment link shows the customer
+export interface PaymentLinkDetails {
+  invoiceNumber: string;
+  issueDate: string;
+  dueDate: string;
+  status: InvoiceStatus;
+  customerName: string;
+  companyName: string;
+  totalAmount: number;
+  balanceDue: number;
+  upiId: string | null;
+  upiIntent: string | null;
 }
 
 export interface Payment {
@@ -260,6 +666,351 @@ export interface Payment {
   reference?: string;
   paidAt: string;
   notes?: string;
+  type: PaymentType;
+  reason?: string;
+  reversalOfId?: string;
+  receiptId?: string;
+  receipt?: { id: string; receiptNumber: string };
+  chequeId?: string;
+  cheque?: Cheque;
+  createdAt: string;
+}
+
+export type PaymentType = "RECEIPT" | "REFUND" | "REVERSAL";
+
+export interface PaymentReminder {
+  id: string;
+  invoiceId: string;
+  daysFromDue: number;
+  recipient?: string;
+  status: "QUEUED" | "SENT" | "FAILED" | "SKIPPED";
+  error?: string;
+  // Failed sends stay queued until the retries run out
+  attempts: number;
+  nextAttemptAt?: string;
+  sentAt?: string;
+  createdAt: string;
+}
+
+export interface InvoiceEmail {
+  id: string;
+  invoiceId: string;
+  recipient: string;
+  subject: string;
+  status: "SENT" | "FAILED";
+  error?: string;
+  messageId?: string;
+  createdAt: string;
+  sentBy?: { firstName: string; lastName: string };
+}
+
+export interface InvoiceEmailDraft {
+  to: string;
+  subject: string;
+  body: string;
+  // SMTP host and sender have been set up
+  configured: boolean;
+}
+
+export interface EmailSettings {
+  smtpHost: string;
+  smtpPort: number;
+  smtpSecure: boolean;
+  smtpUser: string;
+  fromName: string;
+  fromAddress: string;
+  invoiceSubject: string;
+  invoiceBody: string;
+  reminderSubject: string;
+  reminderBody: string;
+}
+
+export interface CustomerReceipt {
+  id: string;
+  receiptNumber: string;
+  customerId: string;
+  customer?: Customer;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  receivedAt: string;
+  notes?: string;
+  allocatedAmount: number;
+  unallocatedAmount: number;
+  payments?: (Payment & { invoice?: Invoice })[];
+  chequeId?: string;
+  cheque?: Cheque;
+  createdAt: string;
+}
+
+export type ChequeStatus = "RECEIVED" | "DEPOSITED" | "CLEARED" | "BOUNCED";
+
+export interface Cheque {
+  id: string;
+  chequeNumber: string;
+  bankName: string;
+  chequeDate: string;
+  amount: number;
+  status: ChequeStatus;
+  customerId: string;
+  customer?: { id: string; name: string };
+  depositedAt?: string;
+  clearedAt?: string;
+  bouncedAt?: string;
+  bounceReason?: string;
+  receipt?: { id: string; receiptNumber: string };
+  payments?: Array<{
+    id: string;
+    type: PaymentType;
+    amount: number;
+    invoice: { id: string; invoiceNumber: string };
+  }>;
+  createdBy?: { firstName: string; lastName: string };
+  createdAt: string;
+}
+
+export interface ChequeTotal {
+  status: ChequeStatus;
+  count: number;
+  amount: number;
+}
+
+export interface OpenInvoice {
+  id: string;
+  invoiceNumber: string;
+  issueDate: string;
+  dueDate: string;
+  status: InvoiceStatus;
+  totalAmount: number;
+  balanceDue: number;
+}
+
+export type AgeingBucket =
+  | "notDue"
+  | "days0to30"
+  | "days31to60"
+  | "days61to90"
+  | "days90plus";
+
+export type AgeingTotals = Record<AgeingBucket, number> & { total: number };
+
+export interface AgeingInvoice extends OpenInvoice {
+  daysOverdue: number;
+  bucket: AgeingBucket;
+}
+
+export interface AgeingCustomer extends AgeingTotals {
+  customerId: string;
+  customerCode: string;
+  name: string;
+  city?: string;
+  invoices: AgeingInvoice[];
+}
+
+export interface AgeingReport {
+  asOf: string;
+  buckets: Array<{ key: AgeingBucket; label: string }>;
+  customers: AgeingCustomer[];
+  totals: AgeingTotals;
+}
+
+export type TallyVoucherType = "SALES" | "RECEIPT" | "PAYMENT" | "PURCHASE";
+
+export interface TallySettings {
+  salesLedger: string;
+  outputCgstLedger: string;
+  outputSgstLedger: string;
+  outputIgstLedger: string;
+  purchaseLedger: string;
+  inputCgstLedger: string;
+  inputSgstLedger: string;
+  inputIgstLedger: string;
+  discountLedger: string;
+  freightLedger: string;
+  roundOffLedger: string;
+  cashLedger: string;
+  bankLedger: string;
+  // Customer or supplier code to Tally ledger name
+  partyLedgers: Record<string, string>;
+}
+
+export interface TallyVoucherPreview {
+  type: TallyVoucherType;
+  documentId: string;
+  number: string;
+  date: string;
+  partyLedger: string;
+  narration: string;
+  amount: number;
+  exportedAt: string | null;
+}
+
+// Exported voucher whose invoice was cancelled; the next export deletes it
+export interface TallyVoucherDeletion {
+  type: TallyVoucherType;
+  documentId: string;
+  number: string;
+  date: string;
+  amount: number;
+  exportedAt: string;
+}
+
+export interface TallyExport {
+  id: string;
+  fromDate: string;
+  toDate: string;
+  voucherCount: number;
+  createdAt: string;
+  createdBy: { firstName: string; lastName: string };
+  // Vouchers first sent in this export
+  _count: { vouchers: number };
+}
+
+export type BankDateOrder = "DMY" | "MDY" | "YMD";
+
+export interface BankColumnMapping {
+  date: string;
+  description: string;
+  reference: string;
+  // A credit column, or an amount column with a Dr/Cr column
+  credit: string;
+  amount: string;
+  creditDebit: string;
+  dateOrder: BankDateOrder;
+}
+
+export interface BankStatementSettings {
+  bank: string;
+  mapping: BankColumnMapping;
+  dateWindowDays: number;
+}
+
+export interface BankPreset {
+  label: string;
+  mapping: BankColumnMapping;
+}
+
+export interface BankStatement {
+  id: string;
+  fileName: string;
+  bank: string;
+  fromDate?: string;
+  toDate?: string;
+  createdAt: string;
+  uploadedBy: { firstName: string; lastName: string };
+  lineCount: number;
+  totalAmount: number;
+  matchedCount: number;
+  unmatchedCount: number;
+  ignoredCount: number;
+}
+
+export interface BankStatementImport {
+  statement: BankStatement;
+  imported: number;
+  // Credits already imported from an earlier statement
+  duplicates: number;
+  debits: number;
+  autoMatched: number;
+}
+
+export type BankLineStatus = "UNMATCHED" | "MATCHED" | "IGNORED";
+
+export type BankMatchType = "PAYMENT" | "RECEIPT" | "INVOICE" | "CUSTOMER";
+
+export interface BankMatchSuggestion {
+  type: Exclude<BankMatchType, "CUSTOMER">;
+  id: string;
+  customerName: string;
+  invoiceNumber?: string;
+  receiptNumber?: string;
+  amount: number;
+  date: string;
+  reference?: string;
+  score: number;
+  reasons: string[];
+  strong: boolean;
+}
+
+export interface BankStatementLine {
+  id: string;
+  statementId: string;
+  lineNumber: number;
+  txnDate: string;
+  description: string;
+  reference?: string;
+  amount: number;
+  status: BankLineStatus;
+  createdPayment: boolean;
+  autoMatched: boolean;
+  matchedAt?: string;
+  statement: { fileName: string; bank: string };
+  payment?: {
+    id: string;
+    amount: number;
+    paidAt: string;
+    reference?: string;
+    invoice: { id: string; invoiceNumber: string; customer: { name: string } };
+  };
+  receipt?: {
+    id: string;
+    receiptNumber: string;
+    amount: number;
+    receivedAt: string;
+    reference?: string;
+    customer: { id: string; name: string };
+  };
+  matchedBy?: { firstName: string; lastName: string };
+  suggestions: BankMatchSuggestion[];
+}
+
+export type InvoiceRevisionAction =
+  | "BASELINE"
+  | "CREATED"
+  | "UPDATED"
+  | "EINVOICE"
+  | "EWAY_BILL"
+  | "SENT"
+  | "CANCELLED"
+  | "REOPENED"
+  | "PAYMENT"
+  | "NOTE"
+  | "OVERDUE";
+
+export interface InvoiceRevision {
+  id: string;
+  invoiceId: string;
+  version: number;
+  action: InvoiceRevisionAction;
+  createdAt: string;
+  // null when the system made the change
+  createdBy: { firstName: string; lastName: string } | null;
+  status: InvoiceStatus;
+  totalAmount: number;
+  itemCount: number;
+}
+
+export type RevisionValue = string | number | boolean | null;
+
+export interface RevisionFieldChange {
+  field: string;
+  label: string;
+  before: RevisionValue;
+  after: RevisionValue;
+}
+
+export interface InvoiceRevisionDiff {
+  from: { version: number; createdAt: string };
+  to: { version: number; createdAt: string };
+  fields: RevisionFieldChange[];
+  lines: {
+    added: Array<Record<string, RevisionValue>>;
+    removed: Array<Record<string, RevisionValue>>;
+    changed: Array<{
+      description: RevisionValue;
+      changes: RevisionFieldChange[];
+    }>;
+  };
 }
 
 export type PaymentMethod =
@@ -391,4 +1142,5 @@ export interface DashboardData {
   materialStatus: Array<{ status: string; _count: { status: number } }>;
   recentInvoices: Invoice[];
   monthlyRevenue: number;
+  chequesDue: Cheque[];
 }
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "cgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "igstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "isInterState" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "placeOfSupply" TEXT,
+ADD COLUMN     "sgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "cgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "igstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "sgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Backfill: invoices created before this migration were billed as intra-state
+UPDATE "InvoiceItem" SET "cgstAmount" = ROUND("amount" * "taxRate" / 200, 2),
+"sgstAmount" = ROUND("amount" * "taxRate" / 100, 2) - ROUND("amount" * "taxRate" / 200, 2);
+
+UPDATE "Invoice" SET "cgstAmount" = t."cgst", "sgstAmount" = t."sgst"
+FROM (
+    SELECT "invoiceId", SUM("cgstAmount") AS "cgst", SUM("sgstAmount") AS "sgst"
+    FROM "InvoiceItem" GROUP BY "invoiceId"
+) t
+WHERE t."invoiceId" = "Invoice"."id";
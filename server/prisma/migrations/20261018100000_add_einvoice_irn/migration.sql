@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "ackDate" TIMESTAMP(3),
+ADD COLUMN     "ackNo" TEXT,
+ADD COLUMN     "irn" TEXT,
+ADD COLUMN     "signedQrCode" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_irn_key" ON "Invoice"("irn");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "ewbDate" TIMESTAMP(3),
+ADD COLUMN     "ewbNumber" TEXT,
+ADD COLUMN     "ewbValidUntil" TIMESTAMP(3),
+ADD COLUMN     "transportDistance" INTEGER,
+ADD COLUMN     "transporterId" TEXT;
@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "NoteType" AS ENUM ('CREDIT', 'DEBIT');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "creditedAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "debitedAmount" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "InvoiceNote" (
+    "id" TEXT NOT NULL,
+    "noteNumber" TEXT NOT NULL,
+    "noteType" "NoteType" NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "issueDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reason" TEXT NOT NULL,
+    "subtotal" DECIMAL(12,2) NOT NULL,
+    "taxAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "cgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "sgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "igstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "roundOff" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "totalAmount" DECIMAL(12,2) NOT NULL,
+    "placeOfSupply" TEXT,
+    "isInterState" BOOLEAN NOT NULL DEFAULT false,
+    "returnToStock" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceNoteItem" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(10,2) NOT NULL,
+    "unitPrice" DECIMAL(10,2) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "hsnCode" TEXT,
+    "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "cgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "sgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "igstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "materialId" TEXT,
+
+    CONSTRAINT "InvoiceNoteItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceNote_noteNumber_key" ON "InvoiceNote"("noteNumber");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceNote" ADD CONSTRAINT "InvoiceNote_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceNote" ADD CONSTRAINT "InvoiceNote_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceNote" ADD CONSTRAINT "InvoiceNote_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceNoteItem" ADD CONSTRAINT "InvoiceNoteItem_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "InvoiceNote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceNoteItem" ADD CONSTRAINT "InvoiceNoteItem_materialId_fkey" FOREIGN KEY ("materialId") REFERENCES "Material"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "DocumentSequence" (
+    "series" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentSequence_pkey" PRIMARY KEY ("series","period")
+);
+
+-- Continue master codes from the highest number already in use
+INSERT INTO "DocumentSequence" ("series", "period", "lastValue", "updatedAt")
+SELECT 'material', 'ALL', COALESCE(MAX(CAST(NULLIF(regexp_replace("materialCode", '\D', '', 'g'), '') AS INTEGER)), 0), NOW()
+FROM "Material" WHERE "materialCode" LIKE 'MAT%';
+
+INSERT INTO "DocumentSequence" ("series", "period", "lastValue", "updatedAt")
+SELECT 'employee', 'ALL', COALESCE(MAX(CAST(NULLIF(regexp_replace("employeeId", '\D', '', 'g'), '') AS INTEGER)), 0), NOW()
+FROM "Employee" WHERE "employeeId" LIKE 'EMP%';
+
+INSERT INTO "DocumentSequence" ("series", "period", "lastValue", "updatedAt")
+SELECT 'measurement', 'ALL', COALESCE(MAX(CAST(NULLIF(regexp_replace("measurementCode", '\D', '', 'g'), '') AS INTEGER)), 0), NOW()
+FROM "Measurement" WHERE "measurementCode" LIKE 'MSR%';
+
+INSERT INTO "DocumentSequence" ("series", "period", "lastValue", "updatedAt")
+SELECT 'customer', 'ALL', COALESCE(MAX(CAST(NULLIF(regexp_replace("customerCode", '\D', '', 'g'), '') AS INTEGER)), 0), NOW()
+FROM "Customer" WHERE "customerCode" LIKE 'CUST%';
+
+INSERT INTO "DocumentSequence" ("series", "period", "lastValue", "updatedAt")
+SELECT 'supplier', 'ALL', COALESCE(MAX(CAST(NULLIF(regexp_replace("supplierCode", '\D', '', 'g'), '') AS INTEGER)), 0), NOW()
+FROM "Supplier" WHERE "supplierCode" LIKE 'SUP%';
+
+INSERT INTO "DocumentSequence" ("series", "period", "lastValue", "updatedAt")
+SELECT 'machine', 'ALL', COALESCE(MAX(CAST(NULLIF(regexp_replace("machineCode", '\D', '', 'g'), '') AS INTEGER)), 0), NOW()
+FROM "Machine" WHERE "machineCode" LIKE 'MCH%';
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "QuotationStatus" AS ENUM ('DRAFT', 'SENT', 'ACCEPTED', 'REJECTED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "Quotation" (
+    "id" TEXT NOT NULL,
+    "quotationNumber" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "issueDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validUntil" TIMESTAMP(3) NOT NULL,
+    "subtotal" DECIMAL(12,2) NOT NULL,
+    "taxAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "cgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "sgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "igstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "discountRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "discountAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "roundOff" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "totalAmount" DECIMAL(12,2) NOT NULL,
+    "status" "QuotationStatus" NOT NULL DEFAULT 'DRAFT',
+    "notes" TEXT,
+    "terms" TEXT,
+    "placeOfSupply" TEXT,
+    "isInterState" BOOLEAN NOT NULL DEFAULT false,
+    "invoiceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Quotation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuotationItem" (
+    "id" TEXT NOT NULL,
+    "quotationId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(10,2) NOT NULL,
+    "unitPrice" DECIMAL(10,2) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "hsnCode" TEXT,
+    "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 5.00,
+    "cgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "sgstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "igstAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+    CONSTRAINT "QuotationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Quotation_quotationNumber_key" ON "Quotation"("quotationNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Quotation_invoiceId_key" ON "Quotation"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "Quotation" ADD CONSTRAINT "Quotation_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quotation" ADD CONSTRAINT "Quotation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quotation" ADD CONSTRAINT "Quotation_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuotationItem" ADD CONSTRAINT "QuotationItem_quotationId_fkey" FOREIGN KEY ("quotationId") REFERENCES "Quotation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
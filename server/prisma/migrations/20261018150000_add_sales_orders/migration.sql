@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "SalesOrderStatus" AS ENUM ('OPEN', 'PARTIALLY_FULFILLED', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "salesOrderId" TEXT;
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "salesOrderItemId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SalesOrder" (
+    "id" TEXT NOT NULL,
+    "orderNumber" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "orderDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "buyersOrderNo" TEXT,
+    "buyersOrderDate" TIMESTAMP(3),
+    "subtotal" DECIMAL(12,2) NOT NULL,
+    "taxAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "totalAmount" DECIMAL(12,2) NOT NULL,
+    "status" "SalesOrderStatus" NOT NULL DEFAULT 'OPEN',
+    "notes" TEXT,
+    "terms" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SalesOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SalesOrderItem" (
+    "id" TEXT NOT NULL,
+    "salesOrderId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "hsnCode" TEXT,
+    "quantity" DECIMAL(10,2) NOT NULL,
+    "unitPrice" DECIMAL(10,2) NOT NULL,
+    "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 5.00,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "dispatchedQty" DECIMAL(10,2) NOT NULL DEFAULT 0,
+
+    CONSTRAINT "SalesOrderItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SalesOrderSchedule" (
+    "id" TEXT NOT NULL,
+    "salesOrderId" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "quantity" DECIMAL(10,2) NOT NULL,
+    "notes" TEXT,
+
+    CONSTRAINT "SalesOrderSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalesOrder_orderNumber_key" ON "SalesOrder"("orderNumber");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_salesOrderId_fkey" FOREIGN KEY ("salesOrderId") REFERENCES "SalesOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceItem" ADD CONSTRAINT "InvoiceItem_salesOrderItemId_fkey" FOREIGN KEY ("salesOrderItemId") REFERENCES "SalesOrderItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesOrder" ADD CONSTRAINT "SalesOrder_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesOrder" ADD CONSTRAINT "SalesOrder_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesOrderItem" ADD CONSTRAINT "SalesOrderItem_salesOrderId_fkey" FOREIGN KEY ("salesOrderId") REFERENCES "SalesOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesOrderSchedule" ADD CONSTRAINT "SalesOrderSchedule_salesOrderId_fkey" FOREIGN KEY ("salesOrderId") REFERENCES "SalesOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
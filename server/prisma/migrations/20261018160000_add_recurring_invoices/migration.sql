@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('WEEKLY', 'MONTHLY');
+
+-- CreateEnum
+CREATE TYPE "RecurringInvoiceStatus" AS ENUM ('ACTIVE', 'PAUSED', 'ENDED');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "recurringInvoiceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecurringInvoice" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "nextRunDate" TIMESTAMP(3),
+    "lastRunDate" TIMESTAMP(3),
+    "status" "RecurringInvoiceStatus" NOT NULL DEFAULT 'ACTIVE',
+    "invoiceStatus" "InvoiceStatus" NOT NULL DEFAULT 'DRAFT',
+    "dueDays" INTEGER NOT NULL DEFAULT 30,
+    "discountRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "terms" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringInvoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringInvoiceItem" (
+    "id" TEXT NOT NULL,
+    "recurringInvoiceId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "hsnCode" TEXT,
+    "quantity" DECIMAL(10,2) NOT NULL,
+    "unitPrice" DECIMAL(10,2) NOT NULL,
+    "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 5.00,
+
+    CONSTRAINT "RecurringInvoiceItem_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_recurringInvoiceId_fkey" FOREIGN KEY ("recurringInvoiceId") REFERENCES "RecurringInvoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoice" ADD CONSTRAINT "RecurringInvoice_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoice" ADD CONSTRAINT "RecurringInvoice_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoiceItem" ADD CONSTRAINT "RecurringInvoiceItem_recurringInvoiceId_fkey" FOREIGN KEY ("recurringInvoiceId") REFERENCES "RecurringInvoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "PaymentType" AS ENUM ('RECEIPT', 'REFUND', 'REVERSAL');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "reason" TEXT,
+ADD COLUMN     "reversalOfId" TEXT,
+ADD COLUMN     "type" "PaymentType" NOT NULL DEFAULT 'RECEIPT';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_reversalOfId_key" ON "Payment"("reversalOfId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
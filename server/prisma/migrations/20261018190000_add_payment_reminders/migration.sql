@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "ReminderStatus" AS ENUM ('QUEUED', 'SENT', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "PaymentReminder" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "daysFromDue" INTEGER NOT NULL,
+    "recipient" TEXT,
+    "status" "ReminderStatus" NOT NULL DEFAULT 'QUEUED',
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentReminder_invoiceId_daysFromDue_key" ON "PaymentReminder"("invoiceId", "daysFromDue");
+
+-- AddForeignKey
+ALTER TABLE "PaymentReminder" ADD CONSTRAINT "PaymentReminder_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN     "openingBalance" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "openingBalanceDate" TIMESTAMP(3);
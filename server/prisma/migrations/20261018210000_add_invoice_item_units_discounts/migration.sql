@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "ItemUnit" AS ENUM ('PCS', 'MTR', 'KG', 'SET');
+
+-- CreateEnum
+CREATE TYPE "DiscountType" AS ENUM ('PERCENTAGE', 'FLAT');
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "discountAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "unit" "ItemUnit" NOT NULL DEFAULT 'PCS';
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "TallyVoucherType" AS ENUM ('SALES', 'RECEIPT', 'PAYMENT', 'PURCHASE');
+
+-- CreateTable
+CREATE TABLE "TallyExport" (
+    "id" TEXT NOT NULL,
+    "fromDate" TIMESTAMP(3) NOT NULL,
+    "toDate" TIMESTAMP(3) NOT NULL,
+    "voucherCount" INTEGER NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TallyExport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TallyExportVoucher" (
+    "id" TEXT NOT NULL,
+    "exportId" TEXT NOT NULL,
+    "voucherType" "TallyVoucherType" NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "voucherNumber" TEXT NOT NULL,
+    "voucherDate" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TallyExportVoucher_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TallyExportVoucher_voucherType_documentId_key" ON "TallyExportVoucher"("voucherType", "documentId");
+
+-- AddForeignKey
+ALTER TABLE "TallyExport" ADD CONSTRAINT "TallyExport_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TallyExportVoucher" ADD CONSTRAINT "TallyExportVoucher_exportId_fkey" FOREIGN KEY ("exportId") REFERENCES "TallyExport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "InvoiceRevisionAction" AS ENUM ('BASELINE', 'CREATED', 'UPDATED', 'EINVOICE', 'EWAY_BILL');
+
+-- CreateTable
+CREATE TABLE "InvoiceRevision" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "action" "InvoiceRevisionAction" NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceRevision_invoiceId_version_key" ON "InvoiceRevision"("invoiceId", "version");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceRevision" ADD CONSTRAINT "InvoiceRevision_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceRevision" ADD CONSTRAINT "InvoiceRevision_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "paymentLinkToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_paymentLinkToken_key" ON "Invoice"("paymentLinkToken");
@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "BankLineStatus" AS ENUM ('UNMATCHED', 'MATCHED', 'IGNORED');
+
+-- CreateTable
+CREATE TABLE "BankStatement" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "bank" TEXT NOT NULL,
+    "fromDate" TIMESTAMP(3),
+    "toDate" TIMESTAMP(3),
+    "uploadedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BankStatement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BankStatementLine" (
+    "id" TEXT NOT NULL,
+    "statementId" TEXT NOT NULL,
+    "lineNumber" INTEGER NOT NULL,
+    "txnDate" TIMESTAMP(3) NOT NULL,
+    "description" TEXT NOT NULL,
+    "reference" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "status" "BankLineStatus" NOT NULL DEFAULT 'UNMATCHED',
+    "paymentId" TEXT,
+    "receiptId" TEXT,
+    "createdPayment" BOOLEAN NOT NULL DEFAULT false,
+    "autoMatched" BOOLEAN NOT NULL DEFAULT false,
+    "matchedById" TEXT,
+    "matchedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BankStatementLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankStatementLine_fingerprint_key" ON "BankStatementLine"("fingerprint");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankStatementLine_paymentId_key" ON "BankStatementLine"("paymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankStatementLine_receiptId_key" ON "BankStatementLine"("receiptId");
+
+-- CreateIndex
+CREATE INDEX "BankStatementLine_status_idx" ON "BankStatementLine"("status");
+
+-- AddForeignKey
+ALTER TABLE "BankStatement" ADD CONSTRAINT "BankStatement_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "BankStatement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "CustomerReceipt"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_matchedById_fkey" FOREIGN KEY ("matchedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
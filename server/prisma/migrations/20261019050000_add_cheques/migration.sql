@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "ChequeStatus" AS ENUM ('RECEIVED', 'DEPOSITED', 'CLEARED', 'BOUNCED');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "chequeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "CustomerReceipt" ADD COLUMN "chequeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Cheque" (
+    "id" TEXT NOT NULL,
+    "chequeNumber" TEXT NOT NULL,
+    "bankName" TEXT NOT NULL,
+    "chequeDate" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "status" "ChequeStatus" NOT NULL DEFAULT 'RECEIVED',
+    "customerId" TEXT NOT NULL,
+    "depositedAt" TIMESTAMP(3),
+    "clearedAt" TIMESTAMP(3),
+    "bouncedAt" TIMESTAMP(3),
+    "bounceReason" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Cheque_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerReceipt_chequeId_key" ON "CustomerReceipt"("chequeId");
+
+-- CreateIndex
+CREATE INDEX "Cheque_status_chequeDate_idx" ON "Cheque"("status", "chequeDate");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_chequeId_fkey" FOREIGN KEY ("chequeId") REFERENCES "Cheque"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerReceipt" ADD CONSTRAINT "CustomerReceipt_chequeId_fkey" FOREIGN KEY ("chequeId") REFERENCES "Cheque"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Cheque" ADD CONSTRAINT "Cheque_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Cheque" ADD CONSTRAINT "Cheque_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "ExportType" AS ENUM ('WITH_IGST', 'UNDER_LUT');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'INR',
+ADD COLUMN "exchangeRate" DECIMAL(12,4) NOT NULL DEFAULT 1,
+ADD COLUMN "exportType" "ExportType",
+ADD COLUMN "lutNumber" TEXT,
+ADD COLUMN "portCode" TEXT,
+ADD COLUMN "shippingBillNumber" TEXT,
+ADD COLUMN "shippingBillDate" TIMESTAMP(3);
@@ -0,0 +1,20 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "InvoiceRevisionAction" ADD VALUE 'PAYMENT';
+ALTER TYPE "InvoiceRevisionAction" ADD VALUE 'NOTE';
+ALTER TYPE "InvoiceRevisionAction" ADD VALUE 'OVERDUE';
+
+-- DropForeignKey
+ALTER TABLE "InvoiceRevision" DROP CONSTRAINT "InvoiceRevision_createdById_fkey";
+
+-- AlterTable
+ALTER TABLE "InvoiceRevision" ALTER COLUMN "createdById" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceRevision" ADD CONSTRAINT "InvoiceRevision_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "foreignRoundOff" DECIMAL(12,2),
+ADD COLUMN "foreignTotalAmount" DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN "foreignUnitPrice" DECIMAL(12,4),
+ADD COLUMN "foreignDiscountValue" DECIMAL(12,4),
+ADD COLUMN "foreignAmount" DECIMAL(12,2);
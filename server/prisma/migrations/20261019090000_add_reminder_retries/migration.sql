@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "PaymentReminder" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "nextAttemptAt" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TallyExportVoucher" ADD COLUMN "deletedAt" TIMESTAMP(3);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "RecurringInvoiceItem" ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "productId" TEXT,
+ADD COLUMN     "unit" "ItemUnit" NOT NULL DEFAULT 'PCS';
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoiceItem" ADD CONSTRAINT "RecurringInvoiceItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -2,6 +2,8 @@ import express from "express";
 import cors from "cors";
 import dotenv from "dotenv";
 import prisma from "./lib/prisma.js";
+import { scheduleRecurringInvoices } from "./lib/recurringInvoices.js";
+import { scheduleInvoiceReminders } from "./lib/invoiceReminders.js";
 
 // Import routes
 import authRoutes from "./routes/auth.js";
@@ -13,6 +15,11 @@ import materialRoutes from "./routes/materials.js";
 import customerRoutes from "./routes/customers.js";
 import supplierRoutes from "./routes/suppliers.js";
 import invoiceRoutes from "./routes/invoices.js";
+import invoiceNoteRoutes from "./routes/invoiceNotes.js";
+import quotationRoutes from "./routes/quotations.js";
+import salesOrderRoutes from "./routes/salesOrders.js";
+import recurringInvoiceRoutes from "./routes/recurringInvoices.js";
+import customerReceiptRoutes from "./routes/customerReceipts.js";
 import purchaseOrderRoutes from "./routes/purchaseOrders.js";
 import measurementRoutes from "./routes/measurements.js";
 import analyticsRoutes from "./routes/analytics.js";
@@ -20,6 +27,13 @@ import notificationRoutes from "./routes/notifications.js";
 import settingsRoutes from "./routes/settings.js";
 import hsnRoutes from "./routes/hsn.js";
 import fabricRoutes from "./routes/fabrics.js";
+import productRoutes from "./routes/products.js";
+import tallyRoutes from "./routes/tally.js";
+import bankReconciliationRoutes from "./routes/bankReconciliation.js";
+import chequeRoutes from "./routes/cheques.js";
+import paymentLinkRoutes from "./routes/paymentLinks.js";
+import irpStubRoutes from "./routes/irpStub.js";
+import cronRoutes from "./routes/cron.js";
 
 dotenv.config();
 
@@ -64,6 +78,11 @@ apiRouter.use("/materials", materialRoutes);
 apiRouter.use("/customers", customerRoutes);
 apiRouter.use("/suppliers", supplierRoutes);
 apiRouter.use("/invoices", invoiceRoutes);
+apiRouter.use("/invoice-notes", invoiceNoteRoutes);
+apiRouter.use("/quotations", quotationRoutes);
+apiRouter.use("/sales-orders", salesOrderRoutes);
+apiRouter.use("/recurring-invoices", recurringInvoiceRoutes);
+apiRouter.use("/customer-receipts", customerReceiptRoutes);
 apiRouter.use("/purchase-orders", purchaseOrderRoutes);
 apiRouter.use("/measurements", measurementRoutes);
 apiRouter.use("/analytics", analyticsRoutes);
@@ -71,6 +90,17 @@ apiRouter.use("/notifications", notificationRoutes);
 apiRouter.use("/settings", settingsRoutes);
 apiRouter.use("/hsn", hsnRoutes);
 apiRouter.use("/fabrics", fabricRoutes);
+apiRouter.use("/products", productRoutes);
+apiRouter.use("/tally", tallyRoutes);
+apiRouter.use("/bank-reconciliation", bankReconciliationRoutes);
+apiRouter.use("/cheques", chequeRoutes);
+apiRouter.use("/pay", paymentLinkRoutes);
+apiRouter.use("/cron", cronRoutes);
+
+// Local IRP stub for trying e-invoicing without NIC credentials
+if (process.env.NODE_ENV !== "production") {
+  apiRouter.use("/irp-stub", irpStubRoutes);
+}
 
 // Mount router at /api AND / (fallback for Vercel oddities)
 app.use("/api", apiRouter);
@@ -110,11 +140,15 @@ app.use((req, res) => {
   });
 });
 
-// Start server only when not running on Vercel
+// Start server only when not running on Vercel. A long-running server
+// runs the scheduled jobs itself every hour; on Vercel nothing stays up
+// between requests, so the crons in vercel.json call /api/cron instead.
 if (process.env.NODE_ENV !== "production" || !process.env.VERCEL) {
   app.listen(Number(PORT), "0.0.0.0", () => {
     console.log(`🚀 Server running on http://0.0.0.0:${PORT}`);
     console.log(`📊 Environment: ${process.env.NODE_ENV || "development"}`);
+    scheduleRecurringInvoices();
+    scheduleInvoiceReminders();
   });
 }
 
@@ -0,0 +1,509 @@
+// Matching bank statement credits to recorded payments, customer receipts
+// and open invoices
+import {
+  BankLineStatus,
+  BankStatementLine,
+  ChequeStatus,
+  PaymentMethod,
+  PaymentType,
+  Prisma,
+} from "@prisma/client";
+import prisma from "./prisma.js";
+import { round2 } from "./gst.js";
+import {
+  collectableBalance,
+  invoiceBalance,
+  syncInvoicePayments,
+} from "./invoiceBalance.js";
+import {
+  allocateReceipt,
+  autoAllocate,
+  openInvoices,
+  OPEN_INVOICE_STATUSES,
+} from "./customerReceipts.js";
+import { nextDocumentNumber } from "./sequence.js";
+import { matchUpiReference, upiReference } from "./upi.js";
+import { clearCheque } from "./cheques.js";
+
+export type MatchType = "PAYMENT" | "RECEIPT" | "INVOICE" | "CUSTOMER";
+
+export interface MatchSuggestion {
+  type: Exclude<MatchType, "CUSTOMER">;
+  id: string;
+  customerName: string;
+  invoiceNumber?: string;
+  receiptNumber?: string;
+  amount: number;
+  date: Date;
+  reference: string | null;
+  score: number;
+  reasons: string[];
+  // Sure enough to match without asking
+  strong: boolean;
+}
+
+// Match that cannot be made, e.g. the payment is already reconciled
+export class ReconciliationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReconciliationError";
+  }
+}
+
+export const isMatchType = (type: unknown): type is MatchType =>
+  ["PAYMENT", "RECEIPT", "INVOICE", "CUSTOMER"].includes(type as string);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// UTRs and cheque numbers are compared as bare upper-case text
+const bareReference = (value: string | null | undefined) =>
+  (value || "").replace(/[^A-Za-z0-9]/g, "").toUpperCase();
+
+// Payment reference (UTR, cheque number) found in the bank line
+const referenceMatches = (
+  line: Pick<BankStatementLine, "description" | "reference">,
+  reference: string | null,
+) => {
+  const wanted = bareReference(reference);
+  if (wanted.length < 6) return false;
+  return (
+    bareReference(line.reference) === wanted ||
+    bareReference(`${line.reference || ""} ${line.description}`).includes(
+      wanted,
+    )
+  );
+};
+
+// How the money reached the bank, from the narration
+export const bankLineMethod = (description: string) =>
+  /\bUPI\b/i.test(description)
+    ? PaymentMethod.UPI
+    : /\b(CHQ|CHEQUE|CLG|CLEARING)\b/i.test(description)
+      ? PaymentMethod.CHEQUE
+      : PaymentMethod.BANK_TRANSFER;
+
+type CandidatePool = Awaited<ReturnType<typeof loadCandidates>>;
+
+// Unreconciled non-cash payments and receipts around the dates given, and
+// all open invoices. Payments allocated from a receipt are left out; the
+// receipt is what reached the bank. Post-dated cheques reach it around
+// the date on the cheque.
+const loadCandidates = async (from: Date, to: Date, windowDays: number) => {
+  const range = {
+    gte: new Date(from.getTime() - windowDays * DAY),
+    lte: new Date(to.getTime() + (windowDays + 1) * DAY),
+  };
+
+  const [payments, receipts, invoices] = await Promise.all([
+    prisma.payment.findMany({
+      where: {
+        type: PaymentType.RECEIPT,
+        method: { not: PaymentMethod.CASH },
+        receiptId: null,
+        reversedBy: null,
+        bankLine: null,
+        OR: [{ paidAt: range }, { cheque: { chequeDate: range } }],
+      },
+      include: {
+        invoice: {
+          select: {
+            invoiceNumber: true,
+            customer: { select: { name: true } },
+          },
+        },
+        cheque: { select: { chequeDate: true } },
+      },
+    }),
+    prisma.customerReceipt.findMany({
+      where: {
+        method: { not: PaymentMethod.CASH },
+        bankLine: null,
+        OR: [{ receivedAt: range }, { cheque: { chequeDate: range } }],
+        NOT: { cheque: { status: ChequeStatus.BOUNCED } },
+      },
+      include: {
+        customer: { select: { name: true } },
+        cheque: { select: { chequeDate: true } },
+      },
+    }),
+    prisma.invoice.findMany({
+      where: { status: { in: OPEN_INVOICE_STATUSES } },
+      include: { customer: { select: { name: true } } },
+    }),
+  ]);
+
+  return { payments, receipts, invoices };
+};
+
+// When the money should reach the bank: the cheque date for a cheque,
+// which is later than the receipt for a post-dated one
+const bankDate = (recordedOn: Date, cheque: { chequeDate: Date } | null) =>
+  cheque?.chequeDate ?? recordedOn;
+
+const dateScore = (line: BankStatementLine, date: Date) => {
+  const days = Math.round(
+    Math.abs(line.txnDate.getTime() - date.getTime()) / DAY,
+  );
+  return {
+    score: Math.max(0, 20 - days * 4),
+    reason: days === 0 ? "Same date" : `${days} day(s) apart`,
+  };
+};
+
+// Candidates for one credit, best first. Payments and receipts must be for
+// the same amount within the date window; invoices must owe exactly the
+// amount or be named in the narration.
+const suggestFrom = (
+  pool: CandidatePool,
+  line: BankStatementLine,
+  windowDays: number,
+) => {
+  const amount = Number(line.amount);
+  const sameAmount = (value: any) => Math.abs(Number(value) - amount) < 0.01;
+  const inWindow = (date: Date) =>
+    Math.abs(line.txnDate.getTime() - date.getTime()) <= (windowDays + 1) * DAY;
+  const suggestions: MatchSuggestion[] = [];
+
+  pool.payments
+    .filter(
+      (payment) =>
+        sameAmount(payment.amount) &&
+        inWindow(bankDate(payment.paidAt, payment.cheque)),
+    )
+    .forEach((payment) => {
+      const date = dateScore(line, bankDate(payment.paidAt, payment.cheque));
+      const byReference = referenceMatches(line, payment.reference);
+      suggestions.push({
+        type: "PAYMENT",
+        id: payment.id,
+        customerName: payment.invoice.customer.name,
+        invoiceNumber: payment.invoice.invoiceNumber,
+        amount: Number(payment.amount),
+        date: payment.paidAt,
+        reference: payment.reference,
+        score: 30 + date.score + (byReference ? 50 : 0),
+        reasons: [
+          "Amount matches",
+          date.reason,
+          ...(byReference ? ["Reference matches"] : []),
+        ],
+        strong: byReference,
+      });
+    });
+
+  pool.receipts
+    .filter(
+      (receipt) =>
+        sameAmount(receipt.amount) &&
+        inWindow(bankDate(receipt.receivedAt, receipt.cheque)),
+    )
+    .forEach((receipt) => {
+      const date = dateScore(
+        line,
+        bankDate(receipt.receivedAt, receipt.cheque),
+      );
+      const byReference = referenceMatches(line, receipt.reference);
+      suggestions.push({
+        type: "RECEIPT",
+        id: receipt.id,
+        customerName: receipt.customer.name,
+        receiptNumber: receipt.receiptNumber,
+        amount: Number(receipt.amount),
+        date: receipt.receivedAt,
+        reference: receipt.reference,
+        score: 30 + date.score + (byReference ? 50 : 0),
+        reasons: [
+          "Amount matches",
+          date.reason,
+          ...(byReference ? ["Reference matches"] : []),
+        ],
+        strong: byReference,
+      });
+    });
+
+  const narration = `${line.reference || ""} ${line.description}`;
+  const named = matchUpiReference(narration, pool.invoices);
+  pool.invoices
+    .filter(
+      (invoice) => invoice.issueDate.getTime() <= line.txnDate.getTime() + DAY,
+    )
+    .forEach((invoice) => {
+      const balance = invoiceBalance(invoice);
+      const exact = Math.abs(balance - amount) < 0.01;
+      const byNumber =
+        named?.id === invoice.id &&
+        upiReference(invoice.invoiceNumber).length >= 4 &&
+        amount <= balance + 0.01;
+      if (!exact && !byNumber) return;
+
+      suggestions.push({
+        type: "INVOICE",
+        id: invoice.id,
+        customerName: invoice.customer.name,
+        invoiceNumber: invoice.invoiceNumber,
+        amount: balance,
+        date: invoice.issueDate,
+        reference: null,
+        score: (exact ? 30 : 0) + (byNumber ? 50 : 0),
+        reasons: [
+          ...(exact ? ["Balance due matches"] : []),
+          ...(byNumber ? ["Invoice number in narration"] : []),
+        ],
+        strong: byNumber,
+      });
+    });
+
+  suggestions.sort((a, b) => b.score - a.score);
+
+  // A payment or receipt that is the only one for this amount in the
+  // window is as good as a reference match
+  const recorded = suggestions.filter(
+    (suggestion) => suggestion.type !== "INVOICE",
+  );
+  if (recorded.length === 1) recorded[0].strong = true;
+
+  return suggestions;
+};
+
+// Suggestions for the reconciliation queue
+export const suggestMatches = async (
+  lines: BankStatementLine[],
+  windowDays: number,
+) => {
+  const result = new Map<string, MatchSuggestion[]>();
+  if (lines.length === 0) return result;
+
+  const dates = lines.map((line) => line.txnDate.getTime());
+  const pool = await loadCandidates(
+    new Date(Math.min(...dates)),
+    new Date(Math.max(...dates)),
+    windowDays,
+  );
+  lines.forEach((line) =>
+    result.set(line.id, suggestFrom(pool, line, windowDays).slice(0, 5)),
+  );
+  return result;
+};
+
+// The credit on the statement is the cheque clearing
+const clearMatchedCheque = async (
+  tx: Prisma.TransactionClient,
+  paidWith: {
+    chequeId: string | null;
+    cheque: { status: ChequeStatus } | null;
+  },
+  clearedAt: Date,
+  userId: string,
+) => {
+  if (!paidWith.chequeId || !paidWith.cheque) return;
+  if (paidWith.cheque.status === ChequeStatus.BOUNCED) {
+    throw new ReconciliationError("The cheque for this payment has bounced");
+  }
+  if (paidWith.cheque.status !== ChequeStatus.CLEARED) {
+    await clearCheque(tx, paidWith.chequeId, clearedAt, userId);
+  }
+};
+
+// Link a credit to a payment or receipt already recorded, or record one:
+// a payment against an open invoice, or a customer receipt allocated to
+// the customer's oldest invoices with the rest kept as credit.
+// Throws ReconciliationError when the target does not fit.
+export const confirmMatch = async (
+  tx: Prisma.TransactionClient,
+  lineId: string,
+  match: { type: MatchType; id: string },
+  userId: string,
+  autoMatched = false,
+) => {
+  const line = await tx.bankStatementLine.findUniqueOrThrow({
+    where: { id: lineId },
+    include: { statement: { select: { fileName: true } } },
+  });
+  if (line.status === BankLineStatus.MATCHED) {
+    throw new ReconciliationError("This bank line is already matched");
+  }
+
+  const amount = Number(line.amount);
+  const matched = {
+    status: BankLineStatus.MATCHED,
+    autoMatched,
+    matchedById: userId,
+    matchedAt: new Date(),
+  };
+  const notes = `Bank statement ${line.statement.fileName}, line ${line.lineNumber}`;
+
+  if (match.type === "PAYMENT") {
+    const payment = await tx.payment.findFirst({
+      where: {
+        id: match.id,
+        type: PaymentType.RECEIPT,
+        reversedBy: null,
+      },
+      include: {
+        bankLine: { select: { id: true } },
+        cheque: { select: { status: true } },
+      },
+    });
+    if (!payment) throw new ReconciliationError("Payment not found");
+    if (payment.bankLine) {
+      throw new ReconciliationError(
+        "That payment is already matched to another bank line",
+      );
+    }
+    if (Math.abs(Number(payment.amount) - amount) >= 0.01) {
+      throw new ReconciliationError(
+        "The payment amount differs from the bank credit",
+      );
+    }
+    await clearMatchedCheque(tx, payment, line.txnDate, userId);
+    return tx.bankStatementLine.update({
+      where: { id: line.id },
+      data: { ...matched, paymentId: payment.id },
+    });
+  }
+
+  if (match.type === "RECEIPT") {
+    const receipt = await tx.customerReceipt.findUnique({
+      where: { id: match.id },
+      include: {
+        bankLine: { select: { id: true } },
+        cheque: { select: { status: true } },
+      },
+    });
+    if (!receipt) throw new ReconciliationError("Receipt not found");
+    if (receipt.bankLine) {
+      throw new ReconciliationError(
+        "That receipt is already matched to another bank line",
+      );
+    }
+    if (Math.abs(Number(receipt.amount) - amount) >= 0.01) {
+      throw new ReconciliationError(
+        "The receipt amount differs from the bank credit",
+      );
+    }
+    await clearMatchedCheque(tx, receipt, line.txnDate, userId);
+    return tx.bankStatementLine.update({
+      where: { id: line.id },
+      data: { ...matched, receiptId: receipt.id },
+    });
+  }
+
+  const method = bankLineMethod(line.description);
+
+  if (match.type === "INVOICE") {
+    const invoice = await tx.invoice.findUnique({ where: { id: match.id } });
+    if (
+      !invoice ||
+      !OPEN_INVOICE_STATUSES.some((status) => status === invoice.status)
+    ) {
+      throw new ReconciliationError("Only open invoices can be matched");
+    }
+    const balance = await collectableBalance(invoice, tx);
+    if (amount > balance + 0.01) {
+      throw new ReconciliationError(
+        `The credit is more than the balance of ${invoice.invoiceNumber} (${balance}). Record it as a customer receipt instead.`,
+      );
+    }
+
+    const payment = await tx.payment.create({
+      data: {
+        invoiceId: invoice.id,
+        amount: round2(amount),
+        method,
+        reference: line.reference,
+        paidAt: line.txnDate,
+        notes,
+      },
+    });
+    await syncInvoicePayments(invoice.id, userId, tx);
+
+    return tx.bankStatementLine.update({
+      where: { id: line.id },
+      data: { ...matched, paymentId: payment.id, createdPayment: true },
+    });
+  }
+
+  const customer = await tx.customer.findUnique({ where: { id: match.id } });
+  if (!customer) throw new ReconciliationError("Customer not found");
+
+  const receiptNumber = await nextDocumentNumber("receipt", {
+    client: tx,
+    date: line.txnDate,
+    taken: async (code) =>
+      Boolean(
+        await tx.customerReceipt.findUnique({
+          where: { receiptNumber: code },
+        }),
+      ),
+  });
+  const receipt = await tx.customerReceipt.create({
+    data: {
+      receiptNumber,
+      customerId: customer.id,
+      createdById: userId,
+      amount: round2(amount),
+      method,
+      reference: line.reference,
+      receivedAt: line.txnDate,
+      notes,
+    },
+  });
+  await allocateReceipt(
+    tx,
+    receipt.id,
+    autoAllocate(amount, await openInvoices(customer.id, tx)),
+    userId,
+  );
+
+  return tx.bankStatementLine.update({
+    where: { id: line.id },
+    data: { ...matched, receiptId: receipt.id, createdPayment: true },
+  });
+};
+
+// Match every unmatched line with one strong candidate. Candidates taken
+// by an earlier line in the run are not offered again.
+export const autoMatchLines = async (
+  lines: BankStatementLine[],
+  windowDays: number,
+  userId: string,
+) => {
+  if (lines.length === 0) return 0;
+
+  const dates = lines.map((line) => line.txnDate.getTime());
+  const pool = await loadCandidates(
+    new Date(Math.min(...dates)),
+    new Date(Math.max(...dates)),
+    windowDays,
+  );
+  const taken = new Set<string>();
+  let matched = 0;
+
+  for (const line of lines) {
+    if (line.status !== BankLineStatus.UNMATCHED) continue;
+
+    const candidates = suggestFrom(pool, line, windowDays).filter(
+      (suggestion) => !taken.has(suggestion.id),
+    );
+    const strong = candidates.filter((suggestion) => suggestion.strong);
+    if (strong.length !== 1) continue;
+
+    try {
+      await prisma.$transaction((tx) =>
+        confirmMatch(tx, line.id, strong[0], userId, true),
+      );
+      taken.add(strong[0].id);
+      matched++;
+      // The invoice owes less now; later lines go to the queue
+      if (strong[0].type === "INVOICE") {
+        pool.invoices = pool.invoices.filter(
+          (invoice) => invoice.id !== strong[0].id,
+        );
+      }
+    } catch (error) {
+      if (!(error instanceof ReconciliationError)) throw error;
+    }
+  }
+
+  return matched;
+};
@@ -0,0 +1,377 @@
+// Reading bank statement downloads (CSV, XLS, XLSX) into credit lines
+import { createHash } from "crypto";
+import XLSX from "xlsx";
+import prisma from "./prisma.js";
+import { round2 } from "./gst.js";
+
+export type DateOrder = "DMY" | "MDY" | "YMD";
+
+export interface BankColumnMapping {
+  // Column headings as printed on the statement; compared ignoring case,
+  // spaces and punctuation
+  date: string;
+  description: string;
+  reference: string;
+  // Either a credit (deposit) column, or one amount column with a Dr/Cr
+  // column next to it
+  credit: string;
+  amount: string;
+  creditDebit: string;
+  // Order of day, month and year in numeric text dates
+  dateOrder: DateOrder;
+}
+
+const EMPTY_MAPPING: BankColumnMapping = {
+  date: "",
+  description: "",
+  reference: "",
+  credit: "",
+  amount: "",
+  creditDebit: "",
+  dateOrder: "DMY",
+};
+
+// Headings of the statement downloads from net banking
+export const BANK_PRESETS: Record<
+  string,
+  { label: string; mapping: BankColumnMapping }
+> = {
+  HDFC: {
+    label: "HDFC Bank",
+    mapping: {
+      ...EMPTY_MAPPING,
+      date: "Date",
+      description: "Narration",
+      reference: "Chq./Ref.No.",
+      credit: "Deposit Amt.",
+    },
+  },
+  ICICI: {
+    label: "ICICI Bank",
+    mapping: {
+      ...EMPTY_MAPPING,
+      date: "Transaction Date",
+      description: "Transaction Remarks",
+      reference: "Cheque Number",
+      credit: "Deposit Amount",
+    },
+  },
+  SBI: {
+    label: "State Bank of India",
+    mapping: {
+      ...EMPTY_MAPPING,
+      date: "Txn Date",
+      description: "Description",
+      reference: "Ref No./Cheque No.",
+      credit: "Credit",
+    },
+  },
+  AXIS: {
+    label: "Axis Bank",
+    mapping: {
+      ...EMPTY_MAPPING,
+      date: "Tran Date",
+      description: "Particulars",
+      reference: "Chq No",
+      credit: "Cr",
+    },
+  },
+  KOTAK: {
+    label: "Kotak Mahindra Bank",
+    mapping: {
+      ...EMPTY_MAPPING,
+      date: "Transaction Date",
+      description: "Description",
+      reference: "Chq / Ref No.",
+      amount: "Amount",
+      creditDebit: "Dr / Cr",
+    },
+  },
+  CUSTOM: { label: "Other bank", mapping: EMPTY_MAPPING },
+};
+
+export interface BankStatementSettings {
+  bank: string;
+  mapping: BankColumnMapping;
+  // Days either side of the bank date a recorded payment may fall on
+  dateWindowDays: number;
+}
+
+export const DEFAULT_BANK_STATEMENT_SETTINGS: BankStatementSettings = {
+  bank: "HDFC",
+  mapping: BANK_PRESETS.HDFC.mapping,
+  dateWindowDays: 3,
+};
+
+export const isDateOrder = (order: unknown): order is DateOrder =>
+  order === "DMY" || order === "MDY" || order === "YMD";
+
+// Only the known mapping keys, as strings
+export const cleanMapping = (input: any): BankColumnMapping => {
+  const mapping = { ...EMPTY_MAPPING };
+  (Object.keys(EMPTY_MAPPING) as Array<keyof BankColumnMapping>).forEach(
+    (key) => {
+      if (key !== "dateOrder" && typeof input?.[key] === "string") {
+        mapping[key] = input[key].trim();
+      }
+    },
+  );
+  if (isDateOrder(input?.dateOrder)) mapping.dateOrder = input.dateOrder;
+  return mapping;
+};
+
+// Mapping last used to import a statement, so next month starts from it
+export const getBankStatementSettings =
+  async (): Promise<BankStatementSettings> => {
+    const setting = await prisma.setting.findUnique({
+      where: { key: "bankStatement" },
+    });
+    const saved = (setting?.value as Record<string, any>) || {};
+
+    return {
+      bank:
+        typeof saved.bank === "string" && saved.bank in BANK_PRESETS
+          ? saved.bank
+          : DEFAULT_BANK_STATEMENT_SETTINGS.bank,
+      mapping: saved.mapping
+        ? cleanMapping(saved.mapping)
+        : DEFAULT_BANK_STATEMENT_SETTINGS.mapping,
+      dateWindowDays:
+        Number(saved.dateWindowDays) >= 0 && saved.dateWindowDays !== null
+          ? Number(saved.dateWindowDays)
+          : DEFAULT_BANK_STATEMENT_SETTINGS.dateWindowDays,
+    };
+  };
+
+// Statement that cannot be read with the mapping given
+export class StatementFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementFormatError";
+  }
+}
+
+export interface StatementLine {
+  // Row number in the file, for finding the line in the original
+  lineNumber: number;
+  txnDate: Date;
+  description: string;
+  reference: string | null;
+  amount: number;
+}
+
+const normaliseHeading = (value: unknown) =>
+  String(value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const utcDate = (year: number, month: number, day: number) => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  return date.getUTCFullYear() === fullYear &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+    ? date
+    : null;
+};
+
+// Bank date as midnight UTC, the way dates from the forms are stored.
+// Accepts spreadsheet dates and text such as 05/04/26, 05-Apr-2026 or
+// 2026-04-05; null for anything else (opening balance rows, footers).
+export const parseStatementDate = (
+  value: unknown,
+  order: DateOrder,
+): Date | null => {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    // Spreadsheet dates can come back a few seconds before local midnight
+    const shifted = new Date(value.getTime() + 60 * 60 * 1000);
+    return utcDate(
+      shifted.getFullYear(),
+      shifted.getMonth() + 1,
+      shifted.getDate(),
+    );
+  }
+  if (typeof value === "number") {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? utcDate(parsed.y, parsed.m, parsed.d) : null;
+  }
+
+  const text = String(value ?? "")
+    .trim()
+    .replace(/[\sT]+\d{1,2}:\d{2}(:\d{2})?(\.\d+)?(\s*[ap]m)?$/i, "");
+  const parts = text.split(/[\s/.,-]+/).filter(Boolean);
+  if (parts.length !== 3) return null;
+
+  const monthIndex = parts.findIndex((part) => /^[a-z]+$/i.test(part));
+  if (monthIndex >= 0) {
+    const month = MONTHS.indexOf(parts[monthIndex].slice(0, 3).toLowerCase());
+    const [first, second] = parts.filter((_, index) => index !== monthIndex);
+    if (month < 0 || !/^\d+$/.test(first) || !/^\d+$/.test(second)) {
+      return null;
+    }
+    return first.length === 4
+      ? utcDate(Number(first), month + 1, Number(second))
+      : utcDate(Number(second), month + 1, Number(first));
+  }
+
+  if (!parts.every((part) => /^\d+$/.test(part))) return null;
+  const [a, b, c] = parts.map(Number);
+  if (order === "YMD" || parts[0].length === 4) return utcDate(a, b, c);
+  return order === "MDY" ? utcDate(c, a, b) : utcDate(c, b, a);
+};
+
+// 1,23,456.00 or "1,23,456.00 Cr"; blank and dashes are zero
+export const parseStatementAmount = (value: unknown) => {
+  if (typeof value === "number") return round2(value);
+  const text = String(value ?? "")
+    .replace(/[,\s₹]|INR|Rs\.?|cr|dr/gi, "")
+    .trim();
+  const amount = Number(text);
+  return text && !isNaN(amount) ? round2(amount) : 0;
+};
+
+const findColumn = (headings: string[], heading: string) => {
+  const wanted = normaliseHeading(heading);
+  if (!wanted) return -1;
+  const exact = headings.indexOf(wanted);
+  return exact >= 0
+    ? exact
+    : headings.findIndex((candidate) => candidate.startsWith(wanted));
+};
+
+// Credit lines from the first sheet. Debits are counted and left out.
+// Throws StatementFormatError when the headings cannot be found.
+export const readStatement = (file: Buffer, mapping: BankColumnMapping) => {
+  if (!mapping.date || !(mapping.credit || mapping.amount)) {
+    throw new StatementFormatError(
+      "Map at least the date column and the credit or amount column",
+    );
+  }
+
+  let rows: unknown[][];
+  try {
+    // `raw` keeps CSV cells as text so dates are read with the mapping's
+    // day/month order rather than guessed
+    const workbook = XLSX.read(file, {
+      type: "buffer",
+      cellDates: true,
+      raw: true,
+    });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    rows = sheet
+      ? XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+          header: 1,
+          raw: true,
+          defval: "",
+        })
+      : [];
+  } catch {
+    throw new StatementFormatError("Could not read the statement file");
+  }
+
+  // Statements start with account details above the column headings
+  let columns: Record<
+    keyof Omit<BankColumnMapping, "dateOrder">,
+    number
+  > | null = null;
+  let headerRow = -1;
+  for (let index = 0; index < Math.min(rows.length, 50); index++) {
+    const headings = rows[index].map(normaliseHeading);
+    const found = {
+      date: findColumn(headings, mapping.date),
+      description: findColumn(headings, mapping.description),
+      reference: findColumn(headings, mapping.reference),
+      credit: findColumn(headings, mapping.credit),
+      amount: findColumn(headings, mapping.amount),
+      creditDebit: findColumn(headings, mapping.creditDebit),
+    };
+    if (found.date >= 0 && (found.credit >= 0 || found.amount >= 0)) {
+      columns = found;
+      headerRow = index;
+      break;
+    }
+  }
+  if (!columns) {
+    throw new StatementFormatError(
+      `Could not find the "${mapping.date}" and "${mapping.credit || mapping.amount}" columns. Check the column mapping for this bank.`,
+    );
+  }
+
+  const lines: StatementLine[] = [];
+  let debits = 0;
+  const cell = (row: unknown[], column: number) =>
+    column >= 0 ? row[column] : "";
+
+  rows.slice(headerRow + 1).forEach((row, offset) => {
+    const txnDate = parseStatementDate(
+      cell(row, columns!.date),
+      mapping.dateOrder,
+    );
+    if (!txnDate) return;
+
+    let amount: number;
+    if (columns!.credit >= 0) {
+      amount = parseStatementAmount(cell(row, columns!.credit));
+    } else {
+      // Dr/Cr column, or else a sign or Dr suffix on the amount itself
+      const raw = cell(row, columns!.amount);
+      const isCredit =
+        columns!.creditDebit >= 0
+          ? /^c/i.test(String(cell(row, columns!.creditDebit)).trim())
+          : !/dr/i.test(String(raw));
+      amount = isCredit ? parseStatementAmount(raw) : 0;
+    }
+
+    if (amount <= 0) {
+      debits++;
+      return;
+    }
+
+    const reference = String(cell(row, columns!.reference) ?? "").trim();
+    lines.push({
+      lineNumber: headerRow + offset + 2,
+      txnDate,
+      description: String(cell(row, columns!.description) ?? "")
+        .replace(/\s+/g, " ")
+        .trim(),
+      // Banks pad empty cheque numbers with zeros
+      reference: reference && !/^0+$/.test(reference) ? reference : null,
+      amount,
+    });
+  });
+
+  return { lines, debits };
+};
+
+// Same date, amount and text gives the same fingerprint; repeats within
+// one file are told apart by how many came before
+export const fingerprintLines = (lines: StatementLine[]) => {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    const key = [
+      line.txnDate.toISOString().split("T")[0],
+      line.amount.toFixed(2),
+      normaliseHeading(line.reference),
+      normaliseHeading(line.description),
+    ].join("|");
+    const occurrence = seen.get(key) || 0;
+    seen.set(key, occurrence + 1);
+    return createHash("sha256").update(`${key}|${occurrence}`).digest("hex");
+  });
+};
@@ -0,0 +1,209 @@
+// Customer cheques: the register, deposit, clearing and bounces
+import {
+  Cheque,
+  ChequeStatus,
+  NotificationType,
+  PaymentMethod,
+  PaymentType,
+  Prisma,
+} from "@prisma/client";
+import prisma from "./prisma.js";
+import { formatAmount, formatDate } from "./format.js";
+import { syncInvoicePayments } from "./invoiceBalance.js";
+import { financeUserIds } from "./invoiceReminders.js";
+
+export const CHEQUE_TRANSITIONS: Record<ChequeStatus, ChequeStatus[]> = {
+  [ChequeStatus.RECEIVED]: [
+    ChequeStatus.DEPOSITED,
+    ChequeStatus.CLEARED,
+    ChequeStatus.BOUNCED,
+  ],
+  [ChequeStatus.DEPOSITED]: [ChequeStatus.CLEARED, ChequeStatus.BOUNCED],
+  [ChequeStatus.CLEARED]: [],
+  [ChequeStatus.BOUNCED]: [],
+};
+
+// Status change the cheque cannot make, e.g. depositing a bounced cheque
+export class ChequeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChequeError";
+  }
+}
+
+const assertChequeTransition = (cheque: Cheque, to: ChequeStatus) => {
+  if (!CHEQUE_TRANSITIONS[cheque.status].includes(to)) {
+    throw new ChequeError(
+      `A ${cheque.status.toLowerCase()} cheque cannot be marked ${to.toLowerCase()}`,
+    );
+  }
+};
+
+export interface ChequeDetails {
+  chequeNumber: string;
+  bankName: string;
+  // Defaults to the payment date
+  chequeDate?: Date;
+}
+
+// Register the cheque a payment or receipt is being recorded with
+export const createCheque = (
+  tx: Prisma.TransactionClient,
+  details: ChequeDetails & {
+    amount: number;
+    customerId: string;
+    createdById: string;
+    receivedAt: Date;
+  },
+) =>
+  tx.cheque.create({
+    data: {
+      chequeNumber: details.chequeNumber.trim(),
+      bankName: details.bankName.trim(),
+      chequeDate: details.chequeDate || details.receivedAt,
+      amount: details.amount,
+      customerId: details.customerId,
+      createdById: details.createdById,
+    },
+  });
+
+// Invoices with a payment made by the cheque
+const chequeInvoiceIds = async (
+  tx: Prisma.TransactionClient,
+  chequeId: string,
+) => {
+  const payments = await tx.payment.findMany({
+    where: { chequeId },
+    select: { invoiceId: true },
+    distinct: ["invoiceId"],
+  });
+  return payments.map((payment) => payment.invoiceId);
+};
+
+// Post-dated cheques cannot go to the bank before the date on them
+export const depositCheque = async (chequeId: string, depositedAt: Date) => {
+  const cheque = await prisma.cheque.findUniqueOrThrow({
+    where: { id: chequeId },
+  });
+  assertChequeTransition(cheque, ChequeStatus.DEPOSITED);
+
+  const endOfDay = new Date(depositedAt);
+  endOfDay.setHours(23, 59, 59, 999);
+  if (cheque.chequeDate > endOfDay) {
+    throw new ChequeError(
+      `Cheque ${cheque.chequeNumber} is dated ${formatDate(cheque.chequeDate)} and cannot be deposited before then`,
+    );
+  }
+
+  return prisma.cheque.update({
+    where: { id: cheque.id },
+    data: { status: ChequeStatus.DEPOSITED, depositedAt },
+  });
+};
+
+// The money is in the bank; the invoices paid with it count it now
+export const clearCheque = async (
+  tx: Prisma.TransactionClient,
+  chequeId: string,
+  clearedAt: Date,
+  userId: string,
+) => {
+  const cheque = await tx.cheque.findUniqueOrThrow({
+    where: { id: chequeId },
+  });
+  assertChequeTransition(cheque, ChequeStatus.CLEARED);
+
+  const updated = await tx.cheque.update({
+    where: { id: cheque.id },
+    data: {
+      status: ChequeStatus.CLEARED,
+      clearedAt,
+      depositedAt: cheque.depositedAt || clearedAt,
+    },
+  });
+  for (const invoiceId of await chequeInvoiceIds(tx, cheque.id)) {
+    await syncInvoicePayments(invoiceId, userId, tx);
+  }
+  return updated;
+};
+
+// Reverse every payment made with the cheque so the invoices are open
+// again and a receipt paid with it leaves no credit behind
+export const bounceCheque = async (
+  tx: Prisma.TransactionClient,
+  chequeId: string,
+  reason: string,
+  userId: string,
+) => {
+  const cheque = await tx.cheque.findUniqueOrThrow({
+    where: { id: chequeId },
+  });
+  assertChequeTransition(cheque, ChequeStatus.BOUNCED);
+
+  const payments = await tx.payment.findMany({
+    where: { chequeId, type: PaymentType.RECEIPT, reversedBy: null },
+  });
+  for (const payment of payments) {
+    await tx.payment.create({
+      data: {
+        invoiceId: payment.invoiceId,
+        type: PaymentType.REVERSAL,
+        reversalOfId: payment.id,
+        receiptId: payment.receiptId,
+        chequeId: payment.chequeId,
+        amount: payment.amount,
+        method: payment.method,
+        reference: payment.reference,
+        reason: `Cheque ${cheque.chequeNumber} bounced: ${reason}`,
+      },
+    });
+  }
+
+  const updated = await tx.cheque.update({
+    where: { id: cheque.id },
+    data: {
+      status: ChequeStatus.BOUNCED,
+      bouncedAt: new Date(),
+      bounceReason: reason,
+    },
+    include: { customer: { select: { name: true } } },
+  });
+  for (const invoiceId of await chequeInvoiceIds(tx, cheque.id)) {
+    await syncInvoicePayments(invoiceId, userId, tx);
+  }
+  return { cheque: updated, reversed: payments.length };
+};
+
+// Tell accounts so the customer can be followed up
+export const notifyChequeBounced = async (
+  cheque: Cheque & { customer: { name: string } },
+) => {
+  const userIds = await financeUserIds();
+  await prisma.notification.createMany({
+    data: userIds.map((userId) => ({
+      userId,
+      title: "Cheque bounced",
+      message: `Cheque ${cheque.chequeNumber} (${cheque.bankName}) from ${cheque.customer.name} for Rs. ${formatAmount(cheque.amount)} bounced: ${cheque.bounceReason}. The payments made with it have been reversed.`,
+      type: NotificationType.ERROR,
+      link: "/invoices/cheques",
+    })),
+  });
+};
+
+// Cheques in hand dated on or before `until`, oldest first
+export const chequesDueForDeposit = (until: Date) =>
+  prisma.cheque.findMany({
+    where: { status: ChequeStatus.RECEIVED, chequeDate: { lte: until } },
+    include: { customer: { select: { id: true, name: true } } },
+    orderBy: { chequeDate: "asc" },
+  });
+
+// Cheque fields sent with a payment or receipt; null unless paid by cheque
+export const chequeDetailsFrom = (input: any): ChequeDetails | null =>
+  input.method === PaymentMethod.CHEQUE
+    ? {
+        chequeNumber: String(input.chequeNumber || ""),
+        bankName: String(input.bankName || ""),
+        chequeDate: input.chequeDate ? new Date(input.chequeDate) : undefined,
+      }
+    : null;
@@ -0,0 +1,64 @@
+import prisma from "./prisma.js";
+import { resolveStateCode } from "./gst.js";
+
+export interface CompanyProfile {
+  companyName: string;
+  address: string;
+  city: string;
+  state: string;
+  pincode: string;
+  phone: string;
+  email: string;
+  gstNumber: string;
+  panNumber: string;
+  bankAccountName: string;
+  bankAccountNumber: string;
+  bankIfsc: string;
+  bankName: string;
+  // VPA printed as a UPI QR on invoices
+  upiId: string;
+  stateCode: string | null;
+}
+
+// Printed in place of registration and bank details nobody has entered
+export const NOT_CONFIGURED = "Not configured";
+
+// Used until the Company tab in settings has been saved. GSTIN, PAN and
+// bank details are left blank rather than guessed.
+const DEFAULT_COMPANY = {
+  companyName: "Shraddha Garments",
+  address: "Bhatwadi, Near Ghoti Bypass",
+  city: "Sinnar, Nashik",
+  state: "Maharashtra",
+  pincode: "422103",
+  phone: "",
+  email: "",
+  gstNumber: "",
+  panNumber: "",
+  bankAccountName: "",
+  bankAccountNumber: "",
+  bankIfsc: "",
+  bankName: "",
+  upiId: "",
+};
+
+// Company details as saved from the Company tab in settings
+export const getCompanyProfile = async (): Promise<CompanyProfile> => {
+  const setting = await prisma.setting.findUnique({
+    where: { key: "company" },
+  });
+  const saved = (setting?.value as Record<string, any>) || {};
+
+  const profile = { ...DEFAULT_COMPANY };
+  (Object.keys(profile) as Array<keyof typeof profile>).forEach((key) => {
+    // A field saved blank stays blank
+    if (saved[key] !== undefined && saved[key] !== null) {
+      profile[key] = String(saved[key]).trim();
+    }
+  });
+
+  return {
+    ...profile,
+    stateCode: resolveStateCode(profile.gstNumber, profile.state),
+  };
+};
@@ -0,0 +1,301 @@
+// Customer statement of account: a running ledger over a date range
+import {
+  ChequeStatus,
+  InvoiceStatus,
+  NoteType,
+  PaymentType,
+} from "@prisma/client";
+import prisma from "./prisma.js";
+import { round2 } from "./gst.js";
+import { formatAmount, formatDateDMY, toCsv } from "./format.js";
+
+export type LedgerEntryType =
+  | "INVOICE"
+  | "DEBIT_NOTE"
+  | "CREDIT_NOTE"
+  | "PAYMENT"
+  | "RECEIPT"
+  | "REFUND"
+  | "REVERSAL"
+  | "BOUNCED_CHEQUE";
+
+export interface LedgerEntry {
+  date: Date;
+  type: LedgerEntryType;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  // Invoice, note or receipt the entry links to
+  documentId: string;
+}
+
+// Same-day entries list what the customer owes before what they paid
+const TYPE_ORDER: LedgerEntryType[] = [
+  "INVOICE",
+  "DEBIT_NOTE",
+  "REFUND",
+  "REVERSAL",
+  "BOUNCED_CHEQUE",
+  "CREDIT_NOTE",
+  "PAYMENT",
+  "RECEIPT",
+];
+
+// Every posting for a customer from `since` on, oldest first, without
+// balances. Debits raise what the customer owes; credits reduce it.
+const ledgerPostings = async (customerId: string, since?: Date | null) => {
+  const dateFilter = since ? { gte: since } : undefined;
+
+  const [invoices, notes, payments, receipts, bounced] = await Promise.all([
+    prisma.invoice.findMany({
+      where: {
+        customerId,
+        status: { notIn: [InvoiceStatus.DRAFT, InvoiceStatus.CANCELLED] },
+        issueDate: dateFilter,
+      },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        issueDate: true,
+        totalAmount: true,
+      },
+    }),
+    prisma.invoiceNote.findMany({
+      where: { customerId, issueDate: dateFilter },
+      select: {
+        id: true,
+        noteNumber: true,
+        noteType: true,
+        issueDate: true,
+        totalAmount: true,
+        reason: true,
+        invoiceId: true,
+        invoice: { select: { invoiceNumber: true } },
+      },
+    }),
+    // Payments allocated from an on-account receipt are posted once, as
+    // the receipt itself
+    prisma.payment.findMany({
+      where: {
+        receiptId: null,
+        invoice: { customerId, status: { not: InvoiceStatus.DRAFT } },
+        paidAt: dateFilter,
+      },
+      select: {
+        id: true,
+        type: true,
+        amount: true,
+        method: true,
+        reference: true,
+        reason: true,
+        paidAt: true,
+        invoiceId: true,
+        invoice: { select: { invoiceNumber: true } },
+      },
+    }),
+    prisma.customerReceipt.findMany({
+      where: { customerId, receivedAt: dateFilter },
+      select: {
+        id: true,
+        receiptNumber: true,
+        amount: true,
+        method: true,
+        reference: true,
+        receivedAt: true,
+      },
+    }),
+    // A receipt paid by cheque stays posted; a bounce takes it back out
+    prisma.cheque.findMany({
+      where: {
+        customerId,
+        status: ChequeStatus.BOUNCED,
+        bouncedAt: dateFilter,
+        receipt: { isNot: null },
+      },
+      select: {
+        chequeNumber: true,
+        bankName: true,
+        amount: true,
+        bouncedAt: true,
+        bounceReason: true,
+        receipt: { select: { id: true, receiptNumber: true } },
+      },
+    }),
+  ]);
+
+  const postings: Omit<LedgerEntry, "balance">[] = [
+    ...invoices.map((invoice) => ({
+      date: invoice.issueDate,
+      type: "INVOICE" as const,
+      reference: invoice.invoiceNumber,
+      description: "Sales invoice",
+      debit: Number(invoice.totalAmount),
+      credit: 0,
+      documentId: invoice.id,
+    })),
+    ...notes.map((note) => {
+      const isCredit = note.noteType === NoteType.CREDIT;
+      return {
+        date: note.issueDate,
+        type: isCredit ? ("CREDIT_NOTE" as const) : ("DEBIT_NOTE" as const),
+        reference: note.noteNumber,
+        description: `${isCredit ? "Credit" : "Debit"} note against ${note.invoice.invoiceNumber}: ${note.reason}`,
+        debit: isCredit ? 0 : Number(note.totalAmount),
+        credit: isCredit ? Number(note.totalAmount) : 0,
+        documentId: note.id,
+      };
+    }),
+    ...payments.map((payment) => {
+      const isReceipt = payment.type === PaymentType.RECEIPT;
+      const label =
+        payment.type === PaymentType.REFUND
+          ? "Refund"
+          : payment.type === PaymentType.REVERSAL
+            ? "Payment reversed"
+            : "Payment";
+      return {
+        date: payment.paidAt,
+        type: isReceipt
+          ? ("PAYMENT" as const)
+          : (payment.type as "REFUND" | "REVERSAL"),
+        reference: payment.reference || payment.method.replace(/_/g, " "),
+        description: [
+          `${label} for ${payment.invoice.invoiceNumber}`,
+          payment.reason,
+        ]
+          .filter(Boolean)
+          .join(": "),
+        debit: isReceipt ? 0 : Number(payment.amount),
+        credit: isReceipt ? Number(payment.amount) : 0,
+        documentId: payment.invoiceId,
+      };
+    }),
+    ...receipts.map((receipt) => ({
+      date: receipt.receivedAt,
+      type: "RECEIPT" as const,
+      reference: receipt.receiptNumber,
+      description: [
+        "Receipt",
+        receipt.method.replace(/_/g, " "),
+        receipt.reference,
+      ]
+        .filter(Boolean)
+        .join(" - "),
+      debit: 0,
+      credit: Number(receipt.amount),
+      documentId: receipt.id,
+    })),
+    ...bounced.map((cheque) => ({
+      date: cheque.bouncedAt!,
+      type: "BOUNCED_CHEQUE" as const,
+      reference: cheque.receipt!.receiptNumber,
+      description: [
+        `Cheque ${cheque.chequeNumber} (${cheque.bankName}) bounced`,
+        cheque.bounceReason,
+      ]
+        .filter(Boolean)
+        .join(": "),
+      debit: Number(cheque.amount),
+      credit: 0,
+      documentId: cheque.receipt!.id,
+    })),
+  ];
+
+  return postings.sort(
+    (a, b) =>
+      a.date.getTime() - b.date.getTime() ||
+      TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type),
+  );
+};
+
+// Statement for `from`..`to` (inclusive dates). The opening balance is the
+// go-live balance plus everything posted before `from`.
+export const buildCustomerLedger = async (
+  customerId: string,
+  range: { from?: Date; to?: Date } = {},
+) => {
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+  });
+  if (!customer) return null;
+
+  const postings = await ledgerPostings(
+    customer.id,
+    customer.openingBalanceDate,
+  );
+
+  let balance = Number(customer.openingBalance);
+  let openingBalance = balance;
+  const entries: LedgerEntry[] = [];
+  let totalDebit = 0;
+  let totalCredit = 0;
+
+  for (const posting of postings) {
+    if (range.to && posting.date > range.to) break;
+    balance = round2(balance + posting.debit - posting.credit);
+
+    if (range.from && posting.date < range.from) {
+      openingBalance = balance;
+      continue;
+    }
+
+    entries.push({ ...posting, balance });
+    totalDebit += posting.debit;
+    totalCredit += posting.credit;
+  }
+
+  return {
+    customer,
+    from: range.from || customer.openingBalanceDate || null,
+    to: range.to || null,
+    openingBalance,
+    entries,
+    totalDebit: round2(totalDebit),
+    totalCredit: round2(totalCredit),
+    closingBalance: balance,
+  };
+};
+
+export type CustomerLedger = NonNullable<
+  Awaited<ReturnType<typeof buildCustomerLedger>>
+>;
+
+// Dr/Cr suffix in the way Indian statements show balances
+export const drCr = (amount: number) =>
+  `${formatAmount(Math.abs(amount))} ${amount < 0 ? "Cr" : "Dr"}`;
+
+export const ledgerToCsv = (ledger: CustomerLedger) =>
+  toCsv(
+    ["Date", "Type", "Reference", "Particulars", "Debit", "Credit", "Balance"],
+    [
+      [
+        ledger.from ? formatDateDMY(ledger.from) : "",
+        "OPENING",
+        "",
+        "Opening balance",
+        "",
+        "",
+        ledger.openingBalance.toFixed(2),
+      ],
+      ...ledger.entries.map((entry) => [
+        formatDateDMY(entry.date),
+        entry.type,
+        entry.reference,
+        entry.description,
+        entry.debit ? entry.debit.toFixed(2) : "",
+        entry.credit ? entry.credit.toFixed(2) : "",
+        entry.balance.toFixed(2),
+      ]),
+      [
+        ledger.to ? formatDateDMY(ledger.to) : "",
+        "CLOSING",
+        "",
+        "Closing balance",
+        ledger.totalDebit.toFixed(2),
+        ledger.totalCredit.toFixed(2),
+        ledger.closingBalance.toFixed(2),
+      ],
+    ],
+  );
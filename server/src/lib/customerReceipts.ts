@@ -0,0 +1,246 @@
+// On-account customer receipts: allocation to invoices and customer credit
+import {
+  ChequeStatus,
+  InvoiceStatus,
+  PaymentType,
+  Prisma,
+} from "@prisma/client";
+import prisma from "./prisma.js";
+import { round2 } from "./gst.js";
+import {
+  collectableBalance,
+  invoiceBalance,
+  signedPaymentAmount,
+  syncInvoicePayments,
+  UNCLEARED_CHEQUE,
+} from "./invoiceBalance.js";
+
+// Issued invoices that still have something to pay
+export const OPEN_INVOICE_STATUSES = [
+  InvoiceStatus.PENDING,
+  InvoiceStatus.SENT,
+  InvoiceStatus.PARTIALLY_PAID,
+  InvoiceStatus.OVERDUE,
+];
+
+export interface Allocation {
+  invoiceId: string;
+  amount: number;
+}
+
+// Allocation that cannot be applied, e.g. more than the invoice owes
+export class AllocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AllocationError";
+  }
+}
+
+type ReceiptWithPayments = {
+  amount: any;
+  payments: Array<{ amount: any; type: PaymentType }>;
+  cheque?: { status: ChequeStatus } | null;
+};
+
+// Reversed allocations net off, so their amount is back in credit
+export const allocatedAmount = (receipt: ReceiptWithPayments) =>
+  round2(
+    receipt.payments.reduce(
+      (sum, payment) => sum + signedPaymentAmount(payment),
+      0,
+    ),
+  );
+
+// A receipt paid with a bounced cheque has nothing left to allocate
+export const summariseReceipt = <T extends ReceiptWithPayments>(receipt: T) => {
+  const allocated = allocatedAmount(receipt);
+  return {
+    ...receipt,
+    allocatedAmount: allocated,
+    unallocatedAmount:
+      receipt.cheque?.status === ChequeStatus.BOUNCED
+        ? 0
+        : round2(Number(receipt.amount) - allocated),
+  };
+};
+
+const paymentSelect = { select: { amount: true, type: true } } as const;
+const chequeSelect = { select: { status: true } } as const;
+
+// Customer credit: receipts not yet allocated to invoices
+export const customerCredit = async (
+  customerId: string,
+  client: Prisma.TransactionClient = prisma,
+) => {
+  const receipts = await client.customerReceipt.findMany({
+    where: { customerId },
+    include: { payments: paymentSelect, cheque: chequeSelect },
+  });
+  return round2(
+    receipts.reduce(
+      (sum, receipt) => sum + summariseReceipt(receipt).unallocatedAmount,
+      0,
+    ),
+  );
+};
+
+// Open invoices for a customer, the longest overdue first, with what
+// cheques waiting to clear already cover
+export const openInvoices = async (
+  customerId: string,
+  client: Prisma.TransactionClient = prisma,
+) => {
+  const invoices = await client.invoice.findMany({
+    where: { customerId, status: { in: OPEN_INVOICE_STATUSES } },
+    include: {
+      payments: {
+        where: { cheque: UNCLEARED_CHEQUE },
+        select: { amount: true, type: true },
+      },
+    },
+    orderBy: [{ dueDate: "asc" }, { issueDate: "asc" }],
+  });
+  return invoices.map(({ payments, ...invoice }) => ({
+    ...invoice,
+    unclearedCheques: round2(
+      payments.reduce((sum, payment) => sum + signedPaymentAmount(payment), 0),
+    ),
+  }));
+};
+
+// Spread an amount over invoices in the order given until it runs out
+export const autoAllocate = (
+  amount: number,
+  invoices: Array<
+    Parameters<typeof invoiceBalance>[0] & {
+      id: string;
+      unclearedCheques?: number;
+    }
+  >,
+) => {
+  const allocations: Allocation[] = [];
+  let remaining = round2(amount);
+
+  for (const invoice of invoices) {
+    if (remaining <= 0) break;
+    const due = round2(
+      invoiceBalance(invoice) - (invoice.unclearedCheques || 0),
+    );
+    if (due <= 0) continue;
+
+    const applied = Math.min(due, remaining);
+    allocations.push({ invoiceId: invoice.id, amount: applied });
+    remaining = round2(remaining - applied);
+  }
+
+  return allocations;
+};
+
+// Record one payment per allocation and rebuild each invoice's balance.
+// Throws AllocationError when an invoice is not the customer's, is not
+// open, would be overpaid, or the receipt does not have enough left.
+export const allocateReceipt = async (
+  tx: Prisma.TransactionClient,
+  receiptId: string,
+  allocations: Allocation[],
+  userId: string,
+  paidAt?: Date,
+) => {
+  const receipt = await tx.customerReceipt.findUniqueOrThrow({
+    where: { id: receiptId },
+    include: { payments: paymentSelect, cheque: chequeSelect },
+  });
+  if (receipt.cheque?.status === ChequeStatus.BOUNCED) {
+    throw new AllocationError("The cheque for this receipt has bounced");
+  }
+
+  const requested = allocations.filter((line) => Number(line.amount) > 0);
+  const total = round2(
+    requested.reduce((sum, line) => sum + Number(line.amount), 0),
+  );
+  const available = summariseReceipt(receipt).unallocatedAmount;
+  if (total > available + 0.01) {
+    throw new AllocationError(
+      `Allocation exceeds the unallocated amount. Available: ${available}`,
+    );
+  }
+
+  const payments = [];
+  for (const line of requested) {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: line.invoiceId },
+    });
+    if (
+      !invoice ||
+      invoice.customerId !== receipt.customerId ||
+      !OPEN_INVOICE_STATUSES.some((status) => status === invoice.status)
+    ) {
+      throw new AllocationError(
+        "Receipts can only be allocated to the customer's open invoices",
+      );
+    }
+
+    const due = await collectableBalance(invoice, tx);
+    if (Number(line.amount) > due + 0.01) {
+      throw new AllocationError(
+        `Allocation exceeds the balance of ${invoice.invoiceNumber}. Remaining: ${due}`,
+      );
+    }
+
+    payments.push(
+      await tx.payment.create({
+        data: {
+          invoiceId: invoice.id,
+          receiptId: receipt.id,
+          amount: round2(Number(line.amount)),
+          method: receipt.method,
+          chequeId: receipt.chequeId,
+          reference: receipt.reference || receipt.receiptNumber,
+          paidAt: paidAt || receipt.receivedAt,
+          notes: `Allocated from ${receipt.receiptNumber}`,
+        },
+      }),
+    );
+    await syncInvoicePayments(invoice.id, userId, tx);
+  }
+
+  return payments;
+};
+
+// Apply a customer's credit to one invoice, oldest receipts first
+export const applyCreditToInvoice = async (
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  userId: string,
+) => {
+  const invoice = await tx.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+  });
+  const receipts = await tx.customerReceipt.findMany({
+    where: { customerId: invoice.customerId },
+    include: { payments: paymentSelect, cheque: chequeSelect },
+    orderBy: { receivedAt: "asc" },
+  });
+
+  let due = await collectableBalance(invoice, tx);
+  const payments = [];
+  for (const receipt of receipts) {
+    if (due <= 0) break;
+    const available = summariseReceipt(receipt).unallocatedAmount;
+    if (available <= 0) continue;
+
+    const amount = Math.min(available, due);
+    payments.push(
+      ...(await allocateReceipt(
+        tx,
+        receipt.id,
+        [{ invoiceId, amount }],
+        userId,
+        new Date(),
+      )),
+    );
+    due = round2(due - amount);
+  }
+
+  return payments;
+};
@@ -0,0 +1,307 @@
+// E-invoice (IRN) payload in the NIC schema v1.1 and IRP client
+import { CompanyProfile } from "./company.js";
+import {
+  EXPORT_PLACE_OF_SUPPLY,
+  isRegisteredGstin,
+  resolveStateCode,
+  round2,
+  unitQuantityCode,
+} from "./gst.js";
+import { formatDateDMY } from "./format.js";
+import { foreignTotal, isForeignCurrency } from "./exportInvoices.js";
+
+export const PINCODE_PATTERN = /^[1-9]\d{5}$/;
+export const HSN_PATTERN = /^\d{4}(\d{2})?(\d{2})?$/;
+const DOC_NO_PATTERN = /^[a-zA-Z1-9][a-zA-Z0-9/-]{0,15}$/;
+export const VEHICLE_PATTERN = /^[A-Z]{2}[0-9A-Z]{1,3}[A-Z]{0,3}\d{4}$/;
+
+// Give up on the IRP well before a serverless function is cut off
+const IRP_TIMEOUT_MS = 20 * 1000;
+
+export interface IrnDetails {
+  irn: string;
+  ackNo: string;
+  ackDate: Date;
+  signedQrCode: string;
+}
+
+// Error returned by the IRP, e.g. duplicate IRN or schema failure
+export class IrpError extends Error {
+  constructor(
+    message: string,
+    public details: Array<{ ErrorCode: string; ErrorMessage: string }> = [],
+  ) {
+    super(message);
+    this.name = "IrpError";
+  }
+}
+
+// NIC address lines are 3-100 characters
+const addressLine = (value?: string | null) =>
+  value ? value.replace(/\s+/g, " ").trim().slice(0, 100) : undefined;
+
+export const normaliseVehicleNo = (value?: string | null) =>
+  value ? value.replace(/[\s-]/g, "").toUpperCase() : "";
+
+// Check the invoice has everything the IRP insists on before generating
+export const validateEInvoice = (
+  invoice: any,
+  company: CompanyProfile,
+): string[] => {
+  const errors: string[] = [];
+  const customer = invoice.customer || {};
+
+  if (invoice.status === "DRAFT" || invoice.status === "CANCELLED") {
+    errors.push("Draft and cancelled invoices cannot be e-invoiced");
+  }
+  if (invoice.irn) {
+    errors.push("IRN has already been generated for this invoice");
+  }
+  if (!DOC_NO_PATTERN.test(invoice.invoiceNumber)) {
+    errors.push(
+      "Invoice number must be 1-16 characters of letters, digits, / or -",
+    );
+  }
+
+  if (!isRegisteredGstin(company.gstNumber)) {
+    errors.push("Company GSTIN is missing or invalid in settings");
+  }
+  if (!company.address || company.address.trim().length < 3) {
+    errors.push("Company address is required");
+  }
+  if (!company.city || company.city.trim().length < 3) {
+    errors.push("Company city is required");
+  }
+  if (!PINCODE_PATTERN.test(company.pincode || "")) {
+    errors.push("Company pincode must be 6 digits");
+  }
+
+  // Overseas buyers have no GSTIN or Indian pincode
+  if (!invoice.exportType && !isRegisteredGstin(customer.gstNumber)) {
+    errors.push("Customer GSTIN is missing or invalid");
+  }
+  if (!customer.address || customer.address.trim().length < 3) {
+    errors.push("Customer address is required");
+  }
+  if (!customer.city || customer.city.trim().length < 3) {
+    errors.push("Customer city is required");
+  }
+  if (!invoice.exportType && !PINCODE_PATTERN.test(customer.pincode || "")) {
+    errors.push("Customer pincode must be 6 digits");
+  }
+
+  if (!invoice.items?.length) {
+    errors.push("Invoice has no items");
+  }
+  invoice.items?.forEach((item: any, index: number) => {
+    if (!HSN_PATTERN.test(item.hsnCode || "")) {
+      errors.push(`Item ${index + 1}: HSN code must be 4, 6 or 8 digits`);
+    }
+    if (Number(item.quantity) <= 0) {
+      errors.push(`Item ${index + 1}: quantity must be more than zero`);
+    }
+  });
+
+  if (
+    invoice.motorVehicleNo &&
+    !VEHICLE_PATTERN.test(normaliseVehicleNo(invoice.motorVehicleNo))
+  ) {
+    errors.push("Motor vehicle number is not in a valid format");
+  }
+
+  return errors;
+};
+
+// Build the NIC e-invoice schema JSON for an invoice
+export const buildEInvoicePayload = (invoice: any, company: CompanyProfile) => {
+  const customer = invoice.customer || {};
+  const isExport = Boolean(invoice.exportType);
+  const buyerStateCode = isExport
+    ? EXPORT_PLACE_OF_SUPPLY
+    : resolveStateCode(customer.gstNumber, customer.state) ||
+      invoice.placeOfSupply;
+  const placeOfSupply = invoice.placeOfSupply || buyerStateCode;
+
+  const itemList = invoice.items.map((item: any, index: number) => {
+    const quantity = Number(item.quantity);
+    const unitPrice = Number(item.unitPrice);
+    const assAmt = round2(Number(item.amount));
+    const igstAmt = round2(Number(item.igstAmount));
+    const cgstAmt = round2(Number(item.cgstAmount));
+    const sgstAmt = round2(Number(item.sgstAmount));
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: item.description,
+      IsServc: "N",
+      HsnCd: item.hsnCode,
+      Qty: quantity,
+      Unit: unitQuantityCode(item.unit),
+      UnitPrice: unitPrice,
+      TotAmt: round2(quantity * unitPrice),
+      Discount: round2(quantity * unitPrice - assAmt),
+      AssAmt: assAmt,
+      GstRt: Number(item.taxRate),
+      IgstAmt: igstAmt,
+      CgstAmt: cgstAmt,
+      SgstAmt: sgstAmt,
+      CesRt: 0,
+      CesAmt: 0,
+      CesNonAdvlAmt: 0,
+      StateCesRt: 0,
+      StateCesAmt: 0,
+      StateCesNonAdvlAmt: 0,
+      OthChrg: 0,
+      TotItemVal: round2(assAmt + igstAmt + cgstAmt + sgstAmt),
+    };
+  });
+
+  const payload: Record<string, any> = {
+    Version: "1.1",
+    TranDtls: {
+      TaxSch: "GST",
+      SupTyp: !isExport
+        ? "B2B"
+        : invoice.exportType === "UNDER_LUT"
+          ? "EXPWOP"
+          : "EXPWP",
+      RegRev: "N",
+      IgstOnIntra: "N",
+    },
+    DocDtls: {
+      Typ: "INV",
+      No: invoice.invoiceNumber,
+      Dt: formatDateDMY(invoice.issueDate),
+    },
+    SellerDtls: {
+      Gstin: company.gstNumber,
+      LglNm: company.companyName,
+      TrdNm: company.companyName,
+      Addr1: addressLine(company.address),
+      Loc: company.city,
+      Pin: Number(company.pincode),
+      Stcd: company.stateCode,
+      Ph: company.phone || undefined,
+      Em: company.email || undefined,
+    },
+    BuyerDtls: {
+      // Unregistered person, as the schema expects for exports
+      Gstin: isExport ? "URP" : customer.gstNumber.trim().toUpperCase(),
+      LglNm: customer.name,
+      TrdNm: customer.name,
+      Pos: placeOfSupply,
+      Addr1: addressLine(customer.address),
+      Loc: customer.city,
+      Pin: isExport ? 999999 : Number(customer.pincode),
+      Stcd: buyerStateCode,
+      Ph: customer.phone || undefined,
+      Em: customer.email || undefined,
+    },
+    ItemList: itemList,
+    ValDtls: {
+      AssVal: round2(Number(invoice.subtotal)),
+      CgstVal: round2(Number(invoice.cgstAmount)),
+      SgstVal: round2(Number(invoice.sgstAmount)),
+      IgstVal: round2(Number(invoice.igstAmount)),
+      CesVal: 0,
+      StCesVal: 0,
+      Discount: round2(Number(invoice.discountAmount)),
+      OthChrg: 0,
+      RndOffAmt: round2(Number(invoice.roundOff)),
+      TotInvVal: round2(Number(invoice.totalAmount)),
+      // Invoice value in the export currency, as billed to the buyer
+      TotInvValFc: isForeignCurrency(invoice)
+        ? foreignTotal(invoice)
+        : undefined,
+    },
+  };
+
+  if (isExport) {
+    payload.ExpDtls = {
+      ShipBNo: invoice.shippingBillNumber || undefined,
+      ShipBDt: invoice.shippingBillDate
+        ? formatDateDMY(invoice.shippingBillDate)
+        : undefined,
+      Port: invoice.portCode || undefined,
+      // IGST paid on export is claimed back as a refund
+      RefClm: invoice.exportType === "WITH_IGST" ? "Y" : "N",
+      ForCur: isForeignCurrency(invoice) ? invoice.currency : undefined,
+    };
+  }
+
+  // Goods shipped to a different place than the billing address
+  if (invoice.destination && !isExport) {
+    payload.ShipDtls = {
+      Gstin: payload.BuyerDtls.Gstin,
+      LglNm: customer.name,
+      Addr1: addressLine(customer.address),
+      Loc: invoice.destination.trim().slice(0, 50),
+      Pin: Number(customer.pincode),
+      Stcd: buyerStateCode,
+    };
+  }
+
+  // Part B of the e-way bill, generated along with the IRN
+  if (
+    invoice.motorVehicleNo ||
+    invoice.dispatchedThrough ||
+    invoice.transporterId
+  ) {
+    payload.EwbDtls = {
+      TransId: invoice.transporterId || undefined,
+      TransName: invoice.dispatchedThrough || undefined,
+      TransMode: "1",
+      Distance: invoice.transportDistance || 0,
+      TransDocNo: invoice.billOfLading || undefined,
+      VehNo: normaliseVehicleNo(invoice.motorVehicleNo) || undefined,
+      VehType: "R",
+    };
+  }
+
+  return payload;
+};
+
+// Submit a payload to the IRP configured in IRP_URL (local stub by default)
+export const requestIrn = async (
+  payload: Record<string, any>,
+): Promise<IrnDetails> => {
+  const baseUrl =
+    process.env.IRP_URL ||
+    `http://localhost:${process.env.PORT || 5000}/api/irp-stub`;
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/invoice`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(process.env.IRP_AUTH_TOKEN
+          ? { Authorization: `Bearer ${process.env.IRP_AUTH_TOKEN}` }
+          : {}),
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(IRP_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new IrpError(
+      error instanceof Error && error.name === "TimeoutError"
+        ? `The IRP did not respond within ${IRP_TIMEOUT_MS / 1000} seconds. Try again later.`
+        : "Could not reach the IRP. Try again later.",
+    );
+  }
+  const result: any = await response.json().catch(() => null);
+
+  if (!response.ok || !result || result.Status !== 1) {
+    const details = result?.ErrorDetails || [];
+    throw new IrpError(
+      details[0]?.ErrorMessage || `IRP request failed (${response.status})`,
+      details,
+    );
+  }
+
+  return {
+    irn: result.Data.Irn,
+    ackNo: String(result.Data.AckNo),
+    ackDate: new Date(result.Data.AckDt.replace(" ", "T") + "+05:30"),
+    signedQrCode: result.Data.SignedQRCode,
+  };
+};
@@ -0,0 +1,197 @@
+// E-way bill bulk-upload JSON (NIC EWB offline tool format) and validity
+import { CompanyProfile } from "./company.js";
+import {
+  buildTaxBreakdown,
+  isRegisteredGstin,
+  resolveStateCode,
+  round2,
+} from "./gst.js";
+import { formatDateDMY } from "./format.js";
+import {
+  HSN_PATTERN,
+  normaliseVehicleNo,
+  PINCODE_PATTERN,
+  VEHICLE_PATTERN,
+} from "./einvoice.js";
+
+// Consignment value above which an e-way bill is required
+export const EWAY_BILL_THRESHOLD = 50000;
+
+// Hours before expiry at which a bill shows up as expiring
+export const EWAY_BILL_WARNING_HOURS = 24;
+
+const IST_OFFSET_MS = 330 * 60000;
+
+// Normal cargo gets one day per 200 km (or part of it). A day ends at
+// midnight IST, so a bill made today for 150 km is valid until tomorrow night.
+export const ewayBillValidUntil = (generatedAt: Date, distanceKm: number) => {
+  const days = Math.max(1, Math.ceil(distanceKm / 200));
+  const ist = new Date(generatedAt.getTime() + IST_OFFSET_MS);
+  const endOfDay = Date.UTC(
+    ist.getUTCFullYear(),
+    ist.getUTCMonth(),
+    ist.getUTCDate() + days + 1,
+  );
+  return new Date(endOfDay - IST_OFFSET_MS - 1000);
+};
+
+export const validateEwayBill = (
+  invoice: any,
+  company: CompanyProfile,
+): string[] => {
+  const errors: string[] = [];
+  const customer = invoice.customer || {};
+
+  if (invoice.status === "DRAFT" || invoice.status === "CANCELLED") {
+    errors.push("Draft and cancelled invoices cannot have an e-way bill");
+  }
+  if (Number(invoice.totalAmount) <= EWAY_BILL_THRESHOLD) {
+    errors.push(
+      `E-way bill is only needed for consignments above Rs. ${EWAY_BILL_THRESHOLD}`,
+    );
+  }
+  if (!isRegisteredGstin(company.gstNumber)) {
+    errors.push("Company GSTIN is missing or invalid in settings");
+  }
+  if (!PINCODE_PATTERN.test(company.pincode || "")) {
+    errors.push("Company pincode must be 6 digits");
+  }
+  if (!PINCODE_PATTERN.test(customer.pincode || "")) {
+    errors.push("Customer pincode must be 6 digits");
+  }
+  if (!resolveStateCode(customer.gstNumber, customer.state)) {
+    errors.push("Customer state is required");
+  }
+
+  invoice.items?.forEach((item: any, index: number) => {
+    if (!HSN_PATTERN.test(item.hsnCode || "")) {
+      errors.push(`Item ${index + 1}: HSN code must be 4, 6 or 8 digits`);
+    }
+  });
+
+  if (!invoice.motorVehicleNo && !invoice.transporterId) {
+    errors.push("Either the vehicle number or the transporter ID is required");
+  }
+  if (
+    invoice.motorVehicleNo &&
+    !VEHICLE_PATTERN.test(normaliseVehicleNo(invoice.motorVehicleNo))
+  ) {
+    errors.push("Motor vehicle number is not in a valid format");
+  }
+  if (invoice.transporterId && !isRegisteredGstin(invoice.transporterId)) {
+    errors.push("Transporter ID must be a 15 character GSTIN/TRANSIN");
+  }
+  if (
+    invoice.transportDistance === null ||
+    invoice.transportDistance === undefined ||
+    invoice.transportDistance < 0 ||
+    invoice.transportDistance > 4000
+  ) {
+    errors.push("Approximate distance (0-4000 km) is required");
+  }
+
+  return errors;
+};
+
+// One bill in the bulk-upload file, with items grouped HSN-wise
+const buildBill = (invoice: any, company: CompanyProfile) => {
+  const customer = invoice.customer || {};
+  const toStateCode = Number(
+    resolveStateCode(customer.gstNumber, customer.state),
+  );
+  const fromStateCode = Number(company.stateCode);
+  const breakdown = buildTaxBreakdown(invoice);
+
+  const descriptions: Record<string, string> = {};
+  invoice.items.forEach((item: any) => {
+    const key = `${item.hsnCode || "Other"}|${Number(item.taxRate || 0)}`;
+    descriptions[key] = descriptions[key] || item.description;
+  });
+
+  const itemList = breakdown.rows.map((row, index) => {
+    const key = `${row.hsnCode}|${row.taxRate}`;
+    // One unit per line; an HSN billed in mixed units goes as "OTH"
+    const units = Object.keys(row.quantities);
+    return {
+      itemNo: index + 1,
+      productName: descriptions[key],
+      productDesc: descriptions[key],
+      hsnCode: Number(row.hsnCode),
+      quantity: round2(
+        Object.values(row.quantities).reduce((sum, qty) => sum + qty, 0),
+      ),
+      qtyUnit: units.length === 1 ? units[0] : "OTH",
+      taxableAmount: row.taxableValue,
+      sgstRate: row.sgstRate,
+      cgstRate: row.cgstRate,
+      igstRate: row.igstRate,
+      cessRate: 0,
+      cessNonAdvol: 0,
+    };
+  });
+
+  // Largest taxable value decides the main HSN
+  const mainRow = [...breakdown.rows].sort(
+    (a, b) => b.taxableValue - a.taxableValue,
+  )[0];
+  const vehicleNo = normaliseVehicleNo(invoice.motorVehicleNo);
+
+  return {
+    userGstin: company.gstNumber,
+    supplyType: "O",
+    subSupplyType: 1,
+    subSupplyDesc: "",
+    docType: "INV",
+    docNo: invoice.invoiceNumber,
+    docDate: formatDateDMY(invoice.issueDate),
+    transType: 1,
+    fromGstin: company.gstNumber,
+    fromTrdName: company.companyName,
+    fromAddr1: company.address,
+    fromAddr2: "",
+    fromPlace: company.city,
+    fromPincode: Number(company.pincode),
+    fromStateCode,
+    actualFromStateCode: fromStateCode,
+    toGstin: isRegisteredGstin(customer.gstNumber)
+      ? customer.gstNumber.trim().toUpperCase()
+      : "URP",
+    toTrdName: customer.name,
+    toAddr1: customer.address || "",
+    toAddr2: "",
+    toPlace: invoice.destination || customer.city || "",
+    toPincode: Number(customer.pincode),
+    toStateCode: Number(invoice.placeOfSupply) || toStateCode,
+    actualToStateCode: toStateCode,
+    totalValue: round2(Number(invoice.subtotal)),
+    cgstValue: round2(Number(invoice.cgstAmount)),
+    sgstValue: round2(Number(invoice.sgstAmount)),
+    igstValue: round2(Number(invoice.igstAmount)),
+    cessValue: 0,
+    TotNonAdvolVal: 0,
+    OthValue: round2(Number(invoice.roundOff) - Number(invoice.discountAmount)),
+    totInvValue: round2(Number(invoice.totalAmount)),
+    transMode: vehicleNo ? 1 : "",
+    transDistance: invoice.transportDistance,
+    transporterName: invoice.dispatchedThrough || "",
+    transporterId: invoice.transporterId || "",
+    transDocNo: invoice.billOfLading || invoice.dispatchDocNo || "",
+    transDocDate:
+      invoice.billOfLading || invoice.dispatchDocNo
+        ? formatDateDMY(invoice.deliveryNoteDate || invoice.issueDate)
+        : "",
+    vehicleNo,
+    vehicleType: vehicleNo ? "R" : "",
+    mainHsnCode: Number(mainRow?.hsnCode),
+    itemList,
+  };
+};
+
+// Bulk-upload JSON for one or more invoices
+export const buildEwayBillJson = (
+  invoices: any[],
+  company: CompanyProfile,
+) => ({
+  version: "1.0.0621",
+  billLists: invoices.map((invoice) => buildBill(invoice, company)),
+});
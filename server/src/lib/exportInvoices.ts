@@ -0,0 +1,215 @@
+// Export invoices: zero-rated supply, foreign currency and shipping details
+import { Customer, DiscountType, ExportType, Prisma } from "@prisma/client";
+import {
+  calculateInvoiceItems,
+  EXPORT_PLACE_OF_SUPPLY,
+  isInterStateSupply,
+  resolveStateCode,
+  round2,
+} from "./gst.js";
+
+// Currency every amount is stored, taxed and reported in
+export const BASE_CURRENCY = "INR";
+
+export const isExportType = (type: unknown): type is ExportType =>
+  Object.values(ExportType).includes(type as ExportType);
+
+// Body keys that carry the currency and export details
+export const EXPORT_FIELD_KEYS = [
+  "currency",
+  "exchangeRate",
+  "exportType",
+  "lutNumber",
+  "portCode",
+  "shippingBillNumber",
+  "shippingBillDate",
+] as const;
+
+const text = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+// Invoice columns for the currency and export details in a request body.
+// Rupee invoices always have a rate of 1; the LUT number and shipping
+// details only apply to exports.
+export const exportFields = (input: any) => {
+  const currency = text(input.currency)?.toUpperCase() || BASE_CURRENCY;
+  const exportType = isExportType(input.exportType) ? input.exportType : null;
+
+  return {
+    currency,
+    exchangeRate:
+      currency === BASE_CURRENCY ? 1 : Number(input.exchangeRate || 1),
+    exportType,
+    lutNumber:
+      exportType === ExportType.UNDER_LUT ? text(input.lutNumber) : null,
+    portCode: exportType ? text(input.portCode)?.toUpperCase() || null : null,
+    shippingBillNumber: exportType ? text(input.shippingBillNumber) : null,
+    shippingBillDate:
+      exportType && input.shippingBillDate
+        ? new Date(input.shippingBillDate)
+        : null,
+  } satisfies Partial<Prisma.InvoiceUncheckedCreateInput>;
+};
+
+// Place of supply and how GST is charged. Exports are inter-state
+// supplies to place 96; under LUT they carry no tax at all.
+export const invoiceSupply = (
+  companyStateCode: string | null,
+  customer: Pick<Customer, "gstNumber" | "state">,
+  exportType?: ExportType | null,
+) => {
+  if (exportType) {
+    return {
+      placeOfSupply: EXPORT_PLACE_OF_SUPPLY,
+      isInterState: true,
+      zeroRated: exportType === ExportType.UNDER_LUT,
+    };
+  }
+
+  const placeOfSupply =
+    resolveStateCode(customer.gstNumber, customer.state) || companyStateCode;
+  return {
+    placeOfSupply,
+    isInterState: isInterStateSupply(companyStateCode, placeOfSupply),
+    zeroRated: false,
+  };
+};
+
+export const isForeignCurrency = (invoice: { currency?: string | null }) =>
+  Boolean(invoice.currency && invoice.currency !== BASE_CURRENCY);
+
+// Rupee amount in the invoice currency
+export const foreignAmount = (
+  amount: Prisma.Decimal | number | string,
+  invoice: { exchangeRate: Prisma.Decimal | number | string },
+) => round2(Number(amount) / (Number(invoice.exchangeRate) || 1));
+
+const hasForeignPrice = (item: any) =>
+  item.foreignUnitPrice !== undefined &&
+  item.foreignUnitPrice !== null &&
+  item.foreignUnitPrice !== "";
+
+// Whether the lines carry prices entered in a foreign invoice currency
+export const isForeignPriced = (
+  items: any[],
+  invoice: { currency?: string | null },
+) =>
+  isForeignCurrency(invoice) &&
+  items.length > 0 &&
+  items.every(hasForeignPrice);
+
+// Rupee prices and round off for lines priced in a foreign currency,
+// converted at the invoice's rate so the two cannot disagree. Other
+// invoices keep the rupee amounts given.
+export const rupeePricing = (
+  items: any[],
+  invoice: {
+    currency: string;
+    exchangeRate: number;
+    roundOff: number;
+    foreignRoundOff: number;
+  },
+) => {
+  if (!isForeignPriced(items, invoice)) {
+    return { items, roundOff: invoice.roundOff };
+  }
+
+  const toRupees = (value: any) =>
+    round2(Number(value || 0) * invoice.exchangeRate);
+  return {
+    items: items.map((item) => ({
+      ...item,
+      unitPrice: toRupees(item.foreignUnitPrice),
+      discountValue:
+        item.discountType === DiscountType.FLAT
+          ? toRupees(item.foreignDiscountValue)
+          : item.discountValue,
+    })),
+    roundOff: toRupees(invoice.foreignRoundOff),
+  };
+};
+
+// Line and invoice columns in the invoice currency, from the prices as
+// entered and taxed the same way as the rupee ones. Empty for rupee
+// invoices and for lines sent without a foreign price.
+export const foreignPricing = (
+  items: any[],
+  invoice: {
+    currency: string;
+    isInterState: boolean;
+    zeroRated: boolean;
+    discountRate: number;
+    roundOff: number;
+  },
+) => {
+  if (!isForeignPriced(items, invoice)) {
+    return {
+      totals: { foreignRoundOff: null, foreignTotalAmount: null },
+      lines: items.map(() => ({
+        foreignUnitPrice: null,
+        foreignDiscountValue: null,
+        foreignAmount: null,
+      })),
+    };
+  }
+
+  const entered = items.map((item) => ({
+    ...item,
+    unitPrice: Number(item.foreignUnitPrice),
+    discountValue:
+      item.discountType === DiscountType.FLAT
+        ? Number(item.foreignDiscountValue || 0)
+        : item.discountValue,
+  }));
+  const { processedItems, subtotal, taxAmount } = calculateInvoiceItems(
+    entered,
+    invoice.isInterState,
+    invoice.zeroRated,
+  );
+  const discountAmount = subtotal * (invoice.discountRate / 100);
+
+  return {
+    totals: {
+      foreignRoundOff: invoice.roundOff,
+      foreignTotalAmount: round2(
+        subtotal + taxAmount - discountAmount + invoice.roundOff,
+      ),
+    },
+    lines: processedItems.map((line, index) => ({
+      foreignUnitPrice: line.unitPrice,
+      foreignDiscountValue:
+        entered[index].discountType === DiscountType.FLAT
+          ? entered[index].discountValue
+          : null,
+      foreignAmount: line.amount,
+    })),
+  };
+};
+
+// Invoice total in its currency: as worked out from the entered prices,
+// or converted from rupees for invoices saved without them
+export const foreignTotal = (invoice: {
+  totalAmount: Prisma.Decimal | number | string;
+  exchangeRate: Prisma.Decimal | number | string;
+  foreignTotalAmount?: Prisma.Decimal | number | string | null;
+}) =>
+  invoice.foreignTotalAmount !== null &&
+  invoice.foreignTotalAmount !== undefined
+    ? Number(invoice.foreignTotalAmount)
+    : foreignAmount(invoice.totalAmount, invoice);
+
+// Endorsement the invoice must carry for a zero-rated export
+export const exportDeclaration = (invoice: {
+  exportType: ExportType | null;
+  lutNumber?: string | null;
+}) => {
+  if (invoice.exportType === ExportType.UNDER_LUT) {
+    return `Supply meant for export under LUT${
+      invoice.lutNumber ? ` No. ${invoice.lutNumber}` : ""
+    } without payment of IGST`;
+  }
+  if (invoice.exportType === ExportType.WITH_IGST) {
+    return "Supply meant for export on payment of IGST";
+  }
+  return null;
+};
@@ -0,0 +1,119 @@
+// Formatting helpers shared by server-rendered documents
+
+const ONES = [
+  "",
+  "One",
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Eleven",
+  "Twelve",
+  "Thirteen",
+  "Fourteen",
+  "Fifteen",
+  "Sixteen",
+  "Seventeen",
+  "Eighteen",
+  "Nineteen",
+];
+const TENS = [
+  "",
+  "",
+  "Twenty",
+  "Thirty",
+  "Forty",
+  "Fifty",
+  "Sixty",
+  "Seventy",
+  "Eighty",
+  "Ninety",
+];
+
+const convert = (n: number): string => {
+  if (n === 0) return "";
+  if (n < 20) return ONES[n];
+  if (n < 100)
+    return TENS[Math.floor(n / 10)] + (n % 10 !== 0 ? " " + ONES[n % 10] : "");
+  if (n < 1000)
+    return (
+      ONES[Math.floor(n / 100)] +
+      " Hundred" +
+      (n % 100 !== 0 ? " and " + convert(n % 100) : "")
+    );
+  if (n < 100000)
+    return (
+      convert(Math.floor(n / 1000)) +
+      " Thousand" +
+      (n % 1000 !== 0 ? " " + convert(n % 1000) : "")
+    );
+  if (n < 10000000)
+    return (
+      convert(Math.floor(n / 100000)) +
+      " Lakh" +
+      (n % 100000 !== 0 ? " " + convert(n % 100000) : "")
+    );
+  return (
+    convert(Math.floor(n / 10000000)) +
+    " Crore" +
+    (n % 10000000 !== 0 ? " " + convert(n % 10000000) : "")
+  );
+};
+
+// Same wording as numberToWords in the client utils
+export const numberToWords = (num: number): string => {
+  if (num === 0) return "Zero Rupees Only";
+
+  const integerPart = Math.floor(num);
+  const decimalPart = Math.round((num - integerPart) * 100);
+
+  let res = convert(integerPart).trim() + " Rupees";
+  if (decimalPart > 0) {
+    res += " and " + convert(decimalPart).trim() + " Paise";
+  }
+
+  return res + " Only";
+};
+
+// Indian digit grouping without the currency symbol, e.g. 1,23,456.00
+export const formatAmount = (amount: number | string | null | undefined) =>
+  new Intl.NumberFormat("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(Number(amount || 0));
+
+export const formatDate = (date: Date | string | null | undefined) => {
+  if (!date) return "-";
+  return new Intl.DateTimeFormat("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    timeZone: "Asia/Kolkata",
+  }).format(new Date(date));
+};
+
+// Numeric dd/mm/yyyy in IST, as used by the GST and e-invoice portals
+export const formatDateDMY = (date: Date | string, separator = "/") => {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    timeZone: "Asia/Kolkata",
+  }).formatToParts(new Date(date));
+  const part = (type: string) => parts.find((p) => p.type === type)!.value;
+  return [part("day"), part("month"), part("year")].join(separator);
+};
+
+// CSV with quoting for cells that contain commas, quotes or newlines
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: Array<Array<string | number>>) =>
+  [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
@@ -0,0 +1,301 @@
+// GST helpers - place of supply and CGST/SGST/IGST split
+import { DiscountType, ItemUnit } from "@prisma/client";
+
+// GST state codes as printed in the first two digits of a GSTIN
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "96": "Other Countries",
+  "97": "Other Territory",
+};
+
+// Place of supply reported for exports
+export const EXPORT_PLACE_OF_SUPPLY = "96";
+
+export interface TaxSplit {
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export interface TaxBreakdownRow extends TaxSplit {
+  hsnCode: string;
+  taxRate: number;
+  // Quantity per unit of measure, e.g. { MTR: 120, PCS: 4 }
+  quantities: Record<string, number>;
+  taxableValue: number;
+  cgstRate: number;
+  sgstRate: number;
+  igstRate: number;
+  totalTax: number;
+}
+
+export interface TaxBreakdown {
+  isInterState: boolean;
+  placeOfSupply: string | null;
+  placeOfSupplyName: string | null;
+  rows: TaxBreakdownRow[];
+  totals: TaxSplit & { taxableValue: number; totalTax: number };
+}
+
+const GSTIN_PATTERN = /^\d{2}[A-Z0-9]{10}[1-9A-Z]Z[A-Z0-9]$/;
+
+// Well-formed 15 character GSTIN (registered recipient)
+export const isRegisteredGstin = (gstNumber?: string | null) =>
+  Boolean(gstNumber && GSTIN_PATTERN.test(gstNumber.trim().toUpperCase()));
+
+export const round2 = (value: number) =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+const normalise = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[^a-z]/g, "");
+
+// Resolve a two digit state code from a GSTIN, falling back to the state name
+export const resolveStateCode = (
+  gstNumber?: string | null,
+  state?: string | null,
+): string | null => {
+  const gstin = gstNumber?.trim();
+  if (gstin && /^\d{2}/.test(gstin) && GST_STATE_CODES[gstin.slice(0, 2)]) {
+    return gstin.slice(0, 2);
+  }
+
+  if (state) {
+    const trimmed = state.trim();
+    if (/^\d{1,2}$/.test(trimmed)) {
+      const code = trimmed.padStart(2, "0");
+      if (GST_STATE_CODES[code]) return code;
+    }
+    const wanted = normalise(trimmed);
+    const match = Object.entries(GST_STATE_CODES).find(
+      ([, name]) => normalise(name) === wanted,
+    );
+    if (match) return match[0];
+  }
+
+  return null;
+};
+
+// Supply is inter-state only when both states are known and differ
+export const isInterStateSupply = (
+  companyStateCode: string | null,
+  placeOfSupply: string | null,
+) =>
+  Boolean(
+    companyStateCode && placeOfSupply && companyStateCode !== placeOfSupply,
+  );
+
+export const splitTax = (
+  taxableValue: number,
+  taxRate: number,
+  isInterState: boolean,
+): TaxSplit => {
+  const totalTax = round2((taxableValue * taxRate) / 100);
+  if (isInterState) {
+    return { cgstAmount: 0, sgstAmount: 0, igstAmount: totalTax };
+  }
+  const cgstAmount = round2(totalTax / 2);
+  return {
+    cgstAmount,
+    sgstAmount: round2(totalTax - cgstAmount),
+    igstAmount: 0,
+  };
+};
+
+// Unit quantity codes (UQC) the GST portal, e-invoice and e-way bill expect
+const UQC: Record<ItemUnit, string> = {
+  PCS: "PCS",
+  MTR: "MTR",
+  KG: "KGS",
+  SET: "SET",
+};
+
+export const unitQuantityCode = (unit?: string | null) =>
+  UQC[unit as ItemUnit] || "NOS";
+
+export const isItemUnit = (unit: unknown): unit is ItemUnit =>
+  Object.values(ItemUnit).includes(unit as ItemUnit);
+
+export const isDiscountType = (type: unknown): type is DiscountType =>
+  Object.values(DiscountType).includes(type as DiscountType);
+
+// Trade discount on one line: a percentage of quantity x rate, or a flat
+// amount capped at the line value
+export const lineDiscount = (item: {
+  quantity: any;
+  unitPrice: any;
+  discountType?: string | null;
+  discountValue?: any;
+}) => {
+  const gross = round2(Number(item.quantity) * Number(item.unitPrice));
+  const value = Number(item.discountValue || 0);
+  if (!isDiscountType(item.discountType) || value <= 0) return 0;
+
+  return item.discountType === DiscountType.PERCENTAGE
+    ? round2((gross * Math.min(value, 100)) / 100)
+    : round2(Math.min(value, gross));
+};
+
+// Calculate item rows and invoice totals for create/update. Line discounts
+// come off before tax, so `amount` is the taxable value of the line.
+// Zero-rated lines keep their rate but carry no tax (exports under LUT).
+export const calculateInvoiceItems = (
+  items: any[],
+  isInterState: boolean,
+  zeroRated = false,
+) => {
+  let subtotal = 0;
+  let taxAmount = 0;
+  let cgstAmount = 0;
+  let sgstAmount = 0;
+  let igstAmount = 0;
+
+  const processedItems = items.map((item: any) => {
+    const amount = round2(
+      Number(item.quantity) * Number(item.unitPrice) - lineDiscount(item),
+    );
+    const taxRate = Number(item.taxRate || 0);
+    const split = splitTax(amount, zeroRated ? 0 : taxRate, isInterState);
+    subtotal += amount;
+    cgstAmount += split.cgstAmount;
+    sgstAmount += split.sgstAmount;
+    igstAmount += split.igstAmount;
+    taxAmount += split.cgstAmount + split.sgstAmount + split.igstAmount;
+    return {
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      amount,
+      hsnCode: item.hsnCode,
+      taxRate,
+      ...split,
+    };
+  });
+
+  return {
+    processedItems,
+    subtotal: round2(subtotal),
+    taxAmount: round2(taxAmount),
+    cgstAmount: round2(cgstAmount),
+    sgstAmount: round2(sgstAmount),
+    igstAmount: round2(igstAmount),
+  };
+};
+
+// Group stored invoice items by HSN and rate for the printed tax summary
+export const buildTaxBreakdown = (invoice: {
+  isInterState: boolean;
+  placeOfSupply: string | null;
+  exportType?: string | null;
+  items: Array<{
+    hsnCode: string | null;
+    taxRate: any;
+    quantity?: any;
+    unit?: string | null;
+    amount: any;
+    cgstAmount: any;
+    sgstAmount: any;
+    igstAmount: any;
+  }>;
+}): TaxBreakdown => {
+  const rows: TaxBreakdownRow[] = [];
+  // Exports under LUT are printed at the nil rate actually charged
+  const zeroRated = invoice.exportType === "UNDER_LUT";
+
+  invoice.items.forEach((item) => {
+    const hsnCode = item.hsnCode || "Other";
+    const taxRate = zeroRated ? 0 : Number(item.taxRate || 0);
+    let row = rows.find((r) => r.hsnCode === hsnCode && r.taxRate === taxRate);
+    if (!row) {
+      row = {
+        hsnCode,
+        taxRate,
+        quantities: {},
+        taxableValue: 0,
+        cgstRate: invoice.isInterState ? 0 : taxRate / 2,
+        sgstRate: invoice.isInterState ? 0 : taxRate / 2,
+        igstRate: invoice.isInterState ? taxRate : 0,
+        cgstAmount: 0,
+        sgstAmount: 0,
+        igstAmount: 0,
+        totalTax: 0,
+      };
+      rows.push(row);
+    }
+    if (item.quantity !== undefined) {
+      const uqc = unitQuantityCode(item.unit);
+      row.quantities[uqc] = round2(
+        (row.quantities[uqc] || 0) + Number(item.quantity),
+      );
+    }
+    row.taxableValue = round2(row.taxableValue + Number(item.amount));
+    row.cgstAmount = round2(row.cgstAmount + Number(item.cgstAmount));
+    row.sgstAmount = round2(row.sgstAmount + Number(item.sgstAmount));
+    row.igstAmount = round2(row.igstAmount + Number(item.igstAmount));
+    row.totalTax = round2(row.cgstAmount + row.sgstAmount + row.igstAmount);
+  });
+
+  const totals = rows.reduce(
+    (acc, r) => ({
+      taxableValue: round2(acc.taxableValue + r.taxableValue),
+      cgstAmount: round2(acc.cgstAmount + r.cgstAmount),
+      sgstAmount: round2(acc.sgstAmount + r.sgstAmount),
+      igstAmount: round2(acc.igstAmount + r.igstAmount),
+      totalTax: round2(acc.totalTax + r.totalTax),
+    }),
+    {
+      taxableValue: 0,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount: 0,
+      totalTax: 0,
+    },
+  );
+
+  return {
+    isInterState: invoice.isInterState,
+    placeOfSupply: invoice.placeOfSupply,
+    placeOfSupplyName: invoice.placeOfSupply
+      ? GST_STATE_CODES[invoice.placeOfSupply] || null
+      : null,
+    rows,
+    totals,
+  };
+};
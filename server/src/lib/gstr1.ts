@@ -0,0 +1,686 @@
+// GSTR-1 return builder - portal offline tool JSON and CSV templates
+import {
+  GST_STATE_CODES,
+  isRegisteredGstin,
+  round2,
+  unitQuantityCode,
+} from "./gst.js";
+import { formatDateDMY, toCsv } from "./format.js";
+
+// Unregistered inter-state invoices above this value are reported as B2CL
+export const B2CL_THRESHOLD = 100000;
+
+export const GSTR1_CSV_SECTIONS = [
+  "b2b",
+  "b2cl",
+  "b2cs",
+  "cdnr",
+  "cdnur",
+  "exp",
+  "hsn_b2b",
+  "hsn_b2c",
+] as const;
+
+export type Gstr1CsvSection = (typeof GSTR1_CSV_SECTIONS)[number];
+
+interface ItemDetail {
+  txval: number;
+  rt: number;
+  iamt: number;
+  camt?: number;
+  samt?: number;
+  csamt: number;
+}
+
+interface PortalInvoice {
+  inum: string;
+  idt: string;
+  val: number;
+  pos: string;
+  rchrg?: "N";
+  inv_typ?: "R";
+  itms: Array<{ num: number; itm_det: ItemDetail }>;
+}
+
+interface PortalNote {
+  ntty: "C" | "D";
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  pos: string;
+  rchrg?: "N";
+  inv_typ?: "R";
+  typ?: "B2CL" | "EXPWP" | "EXPWOP";
+  itms: Array<{ num: number; itm_det: ItemDetail }>;
+}
+
+interface PortalExportInvoice {
+  inum: string;
+  idt: string;
+  val: number;
+  sbpcode?: string;
+  sbnum?: string;
+  sbdt?: string;
+  itms: Array<{
+    txval: number;
+    rt: number;
+    iamt: number;
+    csamt: number;
+  }>;
+}
+
+type PortalExportType = "WPAY" | "WOPAY";
+
+interface HsnRow {
+  num: number;
+  hsn_sc: string;
+  desc: string;
+  uqc: string;
+  qty: number;
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+interface B2csRow {
+  sply_ty: "INTRA" | "INTER";
+  pos: string;
+  typ: "OE";
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr1Return {
+  gstin: string;
+  fp: string;
+  version: string;
+  hash: string;
+  b2b?: Array<{ ctin: string; inv: PortalInvoice[] }>;
+  b2cl?: Array<{ pos: string; inv: Omit<PortalInvoice, "pos">[] }>;
+  b2cs?: B2csRow[];
+  cdnr?: Array<{ ctin: string; nt: PortalNote[] }>;
+  cdnur?: PortalNote[];
+  exp?: Array<{ exp_typ: PortalExportType; inv: PortalExportInvoice[] }>;
+  hsn?: { hsn_b2b?: HsnRow[]; hsn_b2c?: HsnRow[] };
+}
+
+// Minimal shape of a document (invoice or note) fed into the return
+export interface Gstr1Document {
+  number: string;
+  date: Date;
+  totalAmount: any;
+  placeOfSupply: string | null;
+  isInterState: boolean;
+  customer: { name: string; gstNumber: string | null };
+  items: Array<{
+    hsnCode: string | null;
+    description?: string;
+    quantity: any;
+    unit?: string | null;
+    taxRate: any;
+    amount: any;
+    cgstAmount: any;
+    sgstAmount: any;
+    igstAmount: any;
+  }>;
+  noteType?: "C" | "D";
+  // For notes: value of the invoice the note was raised against
+  invoiceValue?: any;
+  // Exports: with or without payment of IGST, and the shipping bill
+  exportType?: "WITH_IGST" | "UNDER_LUT" | null;
+  portCode?: string | null;
+  shippingBillNumber?: string | null;
+  shippingBillDate?: Date | null;
+}
+
+export interface Gstr1Summary {
+  section: string;
+  count: number;
+  taxableValue: number;
+  igstAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+}
+
+export interface Gstr1Result {
+  portal: Gstr1Return;
+  summary: Gstr1Summary[];
+}
+
+// Portal dates are dd-mm-yyyy in IST
+const portalDate = (date: Date) => formatDateDMY(date, "-");
+
+// One itm_det row per tax rate on the document
+const itemsByRate = (doc: Gstr1Document, interState: boolean) => {
+  const rates: Record<string, ItemDetail> = {};
+  doc.items.forEach((item) => {
+    const rt = Number(item.taxRate || 0);
+    const row = (rates[rt] = rates[rt] || {
+      txval: 0,
+      rt,
+      iamt: 0,
+      ...(interState ? {} : { camt: 0, samt: 0 }),
+      csamt: 0,
+    });
+    row.txval = round2(row.txval + Number(item.amount));
+    row.iamt = round2(row.iamt + Number(item.igstAmount));
+    if (!interState) {
+      row.camt = round2(row.camt! + Number(item.cgstAmount));
+      row.samt = round2(row.samt! + Number(item.sgstAmount));
+    }
+  });
+  return Object.values(rates)
+    .sort((a, b) => a.rt - b.rt)
+    .map((itm_det, index) => ({ num: index + 1, itm_det }));
+};
+
+const portalExportType = (doc: Gstr1Document): PortalExportType =>
+  doc.exportType === "UNDER_LUT" ? "WOPAY" : "WPAY";
+
+const emptySummary = (section: string): Gstr1Summary => ({
+  section,
+  count: 0,
+  taxableValue: 0,
+  igstAmount: 0,
+  cgstAmount: 0,
+  sgstAmount: 0,
+});
+
+const addToSummary = (summary: Gstr1Summary, doc: Gstr1Document) => {
+  const sign = doc.noteType === "C" ? -1 : 1;
+  summary.count++;
+  doc.items.forEach((item) => {
+    summary.taxableValue = round2(
+      summary.taxableValue + sign * Number(item.amount),
+    );
+    summary.igstAmount = round2(
+      summary.igstAmount + sign * Number(item.igstAmount),
+    );
+    summary.cgstAmount = round2(
+      summary.cgstAmount + sign * Number(item.cgstAmount),
+    );
+    summary.sgstAmount = round2(
+      summary.sgstAmount + sign * Number(item.sgstAmount),
+    );
+  });
+};
+
+// Build the return for one filing period. `period` is MMYYYY as on the portal.
+export const buildGstr1 = (options: {
+  gstin: string;
+  period: string;
+  companyStateCode: string | null;
+  invoices: Gstr1Document[];
+  notes?: Gstr1Document[];
+  hsnDescriptions?: Record<string, string>;
+}): Gstr1Result => {
+  const { gstin, period, companyStateCode, invoices, notes = [] } = options;
+  const hsnDescriptions = options.hsnDescriptions || {};
+
+  const b2b: Record<string, PortalInvoice[]> = {};
+  const b2cl: Record<string, Omit<PortalInvoice, "pos">[]> = {};
+  const b2cs: Record<string, B2csRow> = {};
+  const cdnr: Record<string, PortalNote[]> = {};
+  const cdnur: PortalNote[] = [];
+  const exp: Record<PortalExportType, PortalExportInvoice[]> = {
+    WPAY: [],
+    WOPAY: [],
+  };
+  const hsn: Record<"b2b" | "b2c", Record<string, HsnRow>> = {
+    b2b: {},
+    b2c: {},
+  };
+  const summary: Record<string, Gstr1Summary> = {};
+  const summaryFor = (section: string) =>
+    (summary[section] = summary[section] || emptySummary(section));
+
+  const addHsn = (doc: Gstr1Document, registered: boolean) => {
+    const sign = doc.noteType === "C" ? -1 : 1;
+    const table = registered ? hsn.b2b : hsn.b2c;
+    doc.items.forEach((item) => {
+      const code = item.hsnCode || "";
+      const rt = doc.exportType === "UNDER_LUT" ? 0 : Number(item.taxRate || 0);
+      const uqc = unitQuantityCode(item.unit);
+      // The portal reports each HSN once per unit and rate
+      const key = `${code}|${uqc}|${rt}`;
+      const row = (table[key] = table[key] || {
+        num: 0,
+        hsn_sc: code,
+        desc: hsnDescriptions[code] || item.description || "",
+        uqc,
+        qty: 0,
+        rt,
+        txval: 0,
+        iamt: 0,
+        camt: 0,
+        samt: 0,
+        csamt: 0,
+      });
+      row.qty = round2(row.qty + sign * Number(item.quantity));
+      row.txval = round2(row.txval + sign * Number(item.amount));
+      row.iamt = round2(row.iamt + sign * Number(item.igstAmount));
+      row.camt = round2(row.camt + sign * Number(item.cgstAmount));
+      row.samt = round2(row.samt + sign * Number(item.sgstAmount));
+    });
+  };
+
+  // B2CS is reported net, so credit notes against small B2C invoices
+  // are subtracted from the rate-wise rows
+  const addB2cs = (doc: Gstr1Document, pos: string) => {
+    const sign = doc.noteType === "C" ? -1 : 1;
+    const sply_ty = doc.isInterState ? "INTER" : "INTRA";
+    itemsByRate(doc, doc.isInterState).forEach(({ itm_det }) => {
+      const key = `${sply_ty}|${pos}|${itm_det.rt}`;
+      const row = (b2cs[key] = b2cs[key] || {
+        sply_ty,
+        pos,
+        typ: "OE",
+        rt: itm_det.rt,
+        txval: 0,
+        iamt: 0,
+        camt: 0,
+        samt: 0,
+        csamt: 0,
+      });
+      row.txval = round2(row.txval + sign * itm_det.txval);
+      row.iamt = round2(row.iamt + sign * itm_det.iamt);
+      row.camt = round2(row.camt + sign * (itm_det.camt || 0));
+      row.samt = round2(row.samt + sign * (itm_det.samt || 0));
+    });
+  };
+
+  invoices.forEach((inv) => {
+    const ctin = inv.customer.gstNumber?.trim().toUpperCase() || "";
+    const registered = isRegisteredGstin(ctin);
+    const pos = inv.placeOfSupply || companyStateCode || "";
+    const val = round2(Number(inv.totalAmount));
+
+    if (inv.exportType) {
+      // Exports under LUT are reported at the nil rate charged
+      exp[portalExportType(inv)].push({
+        inum: inv.number,
+        idt: portalDate(inv.date),
+        val,
+        sbpcode: inv.portCode || undefined,
+        sbnum: inv.shippingBillNumber || undefined,
+        sbdt: inv.shippingBillDate
+          ? portalDate(inv.shippingBillDate)
+          : undefined,
+        itms: itemsByRate(inv, true).map(({ itm_det }) => ({
+          txval: itm_det.txval,
+          rt: inv.exportType === "UNDER_LUT" ? 0 : itm_det.rt,
+          iamt: itm_det.iamt,
+          csamt: itm_det.csamt,
+        })),
+      });
+      addToSummary(summaryFor("EXP"), inv);
+      // Exports go in the HSN summary for unregistered buyers
+      addHsn(inv, false);
+      return;
+    }
+
+    if (registered) {
+      (b2b[ctin] = b2b[ctin] || []).push({
+        inum: inv.number,
+        idt: portalDate(inv.date),
+        val,
+        pos,
+        rchrg: "N",
+        inv_typ: "R",
+        itms: itemsByRate(inv, inv.isInterState),
+      });
+      addToSummary(summaryFor("B2B"), inv);
+    } else if (inv.isInterState && val > B2CL_THRESHOLD) {
+      (b2cl[pos] = b2cl[pos] || []).push({
+        inum: inv.number,
+        idt: portalDate(inv.date),
+        val,
+        itms: itemsByRate(inv, true),
+      });
+      addToSummary(summaryFor("B2CL"), inv);
+    } else {
+      addB2cs(inv, pos);
+      addToSummary(summaryFor("B2CS"), inv);
+    }
+
+    addHsn(inv, registered);
+  });
+
+  notes.forEach((note) => {
+    const ctin = note.customer.gstNumber?.trim().toUpperCase() || "";
+    const registered = isRegisteredGstin(ctin);
+    const pos = note.placeOfSupply || companyStateCode || "";
+    const entry: PortalNote = {
+      ntty: note.noteType || "C",
+      nt_num: note.number,
+      nt_dt: portalDate(note.date),
+      val: round2(Number(note.totalAmount)),
+      pos,
+      itms: itemsByRate(note, note.isInterState),
+    };
+
+    if (note.exportType) {
+      cdnur.push({
+        ...entry,
+        typ: note.exportType === "UNDER_LUT" ? "EXPWOP" : "EXPWP",
+      });
+      addToSummary(summaryFor("CDNUR"), note);
+      addHsn(note, false);
+      return;
+    }
+
+    if (registered) {
+      (cdnr[ctin] = cdnr[ctin] || []).push({
+        ...entry,
+        rchrg: "N",
+        inv_typ: "R",
+      });
+      addToSummary(summaryFor("CDNR"), note);
+    } else if (
+      note.isInterState &&
+      Number(note.invoiceValue ?? note.totalAmount) > B2CL_THRESHOLD
+    ) {
+      // Only notes against large inter-state B2C invoices go to CDNUR
+      cdnur.push({ ...entry, typ: "B2CL" });
+      addToSummary(summaryFor("CDNUR"), note);
+    } else {
+      addB2cs(note, pos);
+      addToSummary(summaryFor("B2CS"), note);
+    }
+
+    addHsn(note, registered);
+  });
+
+  const numbered = (rows: Record<string, HsnRow>) =>
+    Object.values(rows)
+      .sort((a, b) => a.hsn_sc.localeCompare(b.hsn_sc) || a.rt - b.rt)
+      .map((row, index) => ({ ...row, num: index + 1 }));
+
+  const portal: Gstr1Return = {
+    gstin,
+    fp: period,
+    version: "GST3.2.1",
+    hash: "hash",
+  };
+  if (Object.keys(b2b).length) {
+    portal.b2b = Object.entries(b2b).map(([ctin, inv]) => ({ ctin, inv }));
+  }
+  if (Object.keys(b2cl).length) {
+    portal.b2cl = Object.entries(b2cl).map(([pos, inv]) => ({ pos, inv }));
+  }
+  if (Object.keys(b2cs).length) portal.b2cs = Object.values(b2cs);
+  if (Object.keys(cdnr).length) {
+    portal.cdnr = Object.entries(cdnr).map(([ctin, nt]) => ({ ctin, nt }));
+  }
+  if (cdnur.length) portal.cdnur = cdnur;
+  const exportTypes = (["WPAY", "WOPAY"] as const).filter(
+    (type) => exp[type].length,
+  );
+  if (exportTypes.length) {
+    portal.exp = exportTypes.map((exp_typ) => ({
+      exp_typ,
+      inv: exp[exp_typ],
+    }));
+  }
+  if (Object.keys(hsn.b2b).length || Object.keys(hsn.b2c).length) {
+    portal.hsn = {};
+    if (Object.keys(hsn.b2b).length) portal.hsn.hsn_b2b = numbered(hsn.b2b);
+    if (Object.keys(hsn.b2c).length) portal.hsn.hsn_b2c = numbered(hsn.b2c);
+  }
+
+  return {
+    portal,
+    summary: ["B2B", "B2CL", "B2CS", "CDNR", "CDNUR", "EXP"].map(
+      (section) => summary[section] || emptySummary(section),
+    ),
+  };
+};
+
+// Offline tool CSV dates look like 05-Oct-2026
+const csvDate = (portal: string) => {
+  const [day, month, year] = portal.split("-");
+  const name = new Date(Date.UTC(2000, Number(month) - 1, 1)).toLocaleString(
+    "en-US",
+    { month: "short", timeZone: "UTC" },
+  );
+  return `${day}-${name}-${year}`;
+};
+
+const posLabel = (pos: string) => `${pos}-${GST_STATE_CODES[pos] || ""}`;
+
+// CSV in the layout of the offline tool template for one section
+export const gstr1ToCsv = (
+  result: Gstr1Return,
+  section: Gstr1CsvSection,
+  customerNames: Record<string, string> = {},
+) => {
+  switch (section) {
+    case "b2b":
+      return toCsv(
+        [
+          "GSTIN/UIN of Recipient",
+          "Receiver Name",
+          "Invoice Number",
+          "Invoice date",
+          "Invoice Value",
+          "Place Of Supply",
+          "Reverse Charge",
+          "Applicable % of Tax Rate",
+          "Invoice Type",
+          "E-Commerce GSTIN",
+          "Rate",
+          "Taxable Value",
+          "Cess Amount",
+        ],
+        (result.b2b || []).flatMap(({ ctin, inv }) =>
+          inv.flatMap((i) =>
+            i.itms.map(({ itm_det }) => [
+              ctin,
+              customerNames[ctin] || "",
+              i.inum,
+              csvDate(i.idt),
+              i.val,
+              posLabel(i.pos),
+              "N",
+              "",
+              "Regular B2B",
+              "",
+              itm_det.rt,
+              itm_det.txval,
+              itm_det.csamt,
+            ]),
+          ),
+        ),
+      );
+    case "b2cl":
+      return toCsv(
+        [
+          "Invoice Number",
+          "Invoice date",
+          "Invoice Value",
+          "Place Of Supply",
+          "Applicable % of Tax Rate",
+          "Rate",
+          "Taxable Value",
+          "Cess Amount",
+          "E-Commerce GSTIN",
+        ],
+        (result.b2cl || []).flatMap(({ pos, inv }) =>
+          inv.flatMap((i) =>
+            i.itms.map(({ itm_det }) => [
+              i.inum,
+              csvDate(i.idt),
+              i.val,
+              posLabel(pos),
+              "",
+              itm_det.rt,
+              itm_det.txval,
+              itm_det.csamt,
+              "",
+            ]),
+          ),
+        ),
+      );
+    case "b2cs":
+      return toCsv(
+        [
+          "Type",
+          "Place Of Supply",
+          "Applicable % of Tax Rate",
+          "Rate",
+          "Taxable Value",
+          "Cess Amount",
+          "E-Commerce GSTIN",
+        ],
+        (result.b2cs || []).map((row) => [
+          row.typ,
+          posLabel(row.pos),
+          "",
+          row.rt,
+          row.txval,
+          row.csamt,
+          "",
+        ]),
+      );
+    case "cdnr":
+      return toCsv(
+        [
+          "GSTIN/UIN of Recipient",
+          "Receiver Name",
+          "Note Number",
+          "Note Date",
+          "Note Type",
+          "Place Of Supply",
+          "Reverse Charge",
+          "Note Supply Type",
+          "Note Value",
+          "Applicable % of Tax Rate",
+          "Rate",
+          "Taxable Value",
+          "Cess Amount",
+        ],
+        (result.cdnr || []).flatMap(({ ctin, nt }) =>
+          nt.flatMap((n) =>
+            n.itms.map(({ itm_det }) => [
+              ctin,
+              customerNames[ctin] || "",
+              n.nt_num,
+              csvDate(n.nt_dt),
+              n.ntty,
+              posLabel(n.pos),
+              "N",
+              "Regular B2B",
+              n.val,
+              "",
+              itm_det.rt,
+              itm_det.txval,
+              itm_det.csamt,
+            ]),
+          ),
+        ),
+      );
+    case "cdnur":
+      return toCsv(
+        [
+          "UR Type",
+          "Note Number",
+          "Note Date",
+          "Note Type",
+          "Place Of Supply",
+          "Note Value",
+          "Applicable % of Tax Rate",
+          "Rate",
+          "Taxable Value",
+          "Cess Amount",
+        ],
+        (result.cdnur || []).flatMap((n) =>
+          n.itms.map(({ itm_det }) => [
+            n.typ || "B2CL",
+            n.nt_num,
+            csvDate(n.nt_dt),
+            n.ntty,
+            posLabel(n.pos),
+            n.val,
+            "",
+            itm_det.rt,
+            itm_det.txval,
+            itm_det.csamt,
+          ]),
+        ),
+      );
+    case "exp":
+      return toCsv(
+        [
+          "Export Type",
+          "Invoice Number",
+          "Invoice date",
+          "Invoice Value",
+          "Port Code",
+          "Shipping Bill Number",
+          "Shipping Bill Date",
+          "Applicable % of Tax Rate",
+          "Rate",
+          "Taxable Value",
+          "Cess Amount",
+        ],
+        (result.exp || []).flatMap(({ exp_typ, inv }) =>
+          inv.flatMap((i) =>
+            i.itms.map((itm) => [
+              exp_typ,
+              i.inum,
+              csvDate(i.idt),
+              i.val,
+              i.sbpcode || "",
+              i.sbnum || "",
+              i.sbdt ? csvDate(i.sbdt) : "",
+              "",
+              itm.rt,
+              itm.txval,
+              itm.csamt,
+            ]),
+          ),
+        ),
+      );
+    case "hsn_b2b":
+    case "hsn_b2c": {
+      const rows =
+        (section === "hsn_b2b" ? result.hsn?.hsn_b2b : result.hsn?.hsn_b2c) ||
+        [];
+      return toCsv(
+        [
+          "HSN",
+          "Description",
+          "UQC",
+          "Total Quantity",
+          "Total Value",
+          "Rate",
+          "Taxable Value",
+          "Integrated Tax Amount",
+          "Central Tax Amount",
+          "State/UT Tax Amount",
+          "Cess Amount",
+        ],
+        rows.map((row) => [
+          row.hsn_sc,
+          row.desc,
+          row.uqc,
+          row.qty,
+          round2(row.txval + row.iamt + row.camt + row.samt + row.csamt),
+          row.rt,
+          row.txval,
+          row.iamt,
+          row.camt,
+          row.samt,
+          row.csamt,
+        ]),
+      );
+    }
+  }
+};
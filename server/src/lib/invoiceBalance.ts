@@ -0,0 +1,205 @@
+// What is still owed on an invoice once credit/debit notes are netted off
+import {
+  ChequeStatus,
+  InvoiceRevisionAction,
+  InvoiceStatus,
+  NoteType,
+  PaymentType,
+  Prisma,
+} from "@prisma/client";
+import prisma from "./prisma.js";
+import { round2 } from "./gst.js";
+import { assertTransition } from "./invoiceStatus.js";
+import {
+  ensureBaselineRevision,
+  recordInvoiceRevision,
+} from "./invoiceRevisions.js";
+
+interface BalanceFields {
+  totalAmount: any;
+  paidAmount: any;
+  creditedAmount?: any;
+  debitedAmount?: any;
+}
+
+// Invoice value after credit and debit notes
+export const netInvoiceAmount = (invoice: BalanceFields) =>
+  round2(
+    Number(invoice.totalAmount) +
+      Number(invoice.debitedAmount || 0) -
+      Number(invoice.creditedAmount || 0),
+  );
+
+// Negative when credit notes leave the customer paid in excess
+export const invoiceBalance = (invoice: BalanceFields) =>
+  round2(netInvoiceAmount(invoice) - Number(invoice.paidAmount || 0));
+
+// Status once payments or notes change the balance. Callers writing it
+// go through settleTo so the change is one INVOICE_TRANSITIONS allows.
+export const settledStatus = (
+  invoice: BalanceFields & { status: InvoiceStatus; dueDate?: Date | null },
+) => {
+  if (invoice.status === InvoiceStatus.CANCELLED) return invoice.status;
+
+  const paidAmount = Number(invoice.paidAmount || 0);
+  if (paidAmount >= netInvoiceAmount(invoice) - 0.01) {
+    return InvoiceStatus.PAID;
+  }
+  if (paidAmount > 0) return InvoiceStatus.PARTIALLY_PAID;
+  // A reversal, refund or debit note can reopen a settled invoice
+  if (
+    invoice.status === InvoiceStatus.PAID ||
+    invoice.status === InvoiceStatus.PARTIALLY_PAID
+  ) {
+    return invoice.dueDate && invoice.dueDate < new Date()
+      ? InvoiceStatus.OVERDUE
+      : InvoiceStatus.PENDING;
+  }
+  return invoice.status;
+};
+
+// Settled status for the new amounts. Throws InvoiceStatusError when the
+// invoice cannot make that move, e.g. a draft being paid.
+const settleTo = (
+  current: { status: InvoiceStatus },
+  updated: Parameters<typeof settledStatus>[0],
+) => {
+  const status = settledStatus(updated);
+  assertTransition(current.status, status);
+  return status;
+};
+
+// Write the new amounts, with a revision when the status moves. Amounts
+// alone are not in revisions: payments and notes keep their own history.
+const writeSettlement = async (
+  client: Prisma.TransactionClient,
+  invoice: { id: string; status: InvoiceStatus },
+  data: Prisma.InvoiceUpdateInput & { status: InvoiceStatus },
+  userId: string | null,
+  action: InvoiceRevisionAction,
+) => {
+  const moved = data.status !== invoice.status;
+  if (moved) await ensureBaselineRevision(client, invoice.id);
+  const updated = await client.invoice.update({
+    where: { id: invoice.id },
+    data,
+  });
+  if (moved) await recordInvoiceRevision(client, invoice.id, userId, action);
+  return updated;
+};
+
+// Receipts count towards paidAmount; refunds and reversals count against it
+export const signedPaymentAmount = (payment: {
+  amount: any;
+  type: PaymentType;
+}) =>
+  payment.type === PaymentType.RECEIPT
+    ? Number(payment.amount)
+    : -Number(payment.amount);
+
+// Cheque payments count once the cheque has cleared; a bounced cheque
+// never does, and neither does its reversal
+export const isChequePending = (payment: {
+  cheque?: { status: ChequeStatus } | null;
+}) => Boolean(payment.cheque && payment.cheque.status !== ChequeStatus.CLEARED);
+
+const balancePaymentSelect = {
+  select: { amount: true, type: true, cheque: { select: { status: true } } },
+} as const;
+
+// Rebuild paidAmount and status from the payment rows. userId is whoever
+// recorded the payment or moved the cheque.
+export const syncInvoicePayments = async (
+  invoiceId: string,
+  userId: string | null,
+  client: Prisma.TransactionClient = prisma,
+) => {
+  const invoice = await client.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    include: { payments: balancePaymentSelect },
+  });
+
+  const { payments, ...rest } = invoice;
+  const paidAmount = round2(
+    payments
+      .filter((payment) => !isChequePending(payment))
+      .reduce((sum, payment) => sum + signedPaymentAmount(payment), 0),
+  );
+
+  return writeSettlement(
+    client,
+    invoice,
+    { paidAmount, status: settleTo(invoice, { ...rest, paidAmount }) },
+    userId,
+    InvoiceRevisionAction.PAYMENT,
+  );
+};
+
+// Rebuild creditedAmount, debitedAmount and status from the note rows
+export const syncInvoiceNotes = async (
+  invoiceId: string,
+  userId: string | null,
+  client: Prisma.TransactionClient = prisma,
+) => {
+  const invoice = await client.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+  });
+  const totals = await client.invoiceNote.groupBy({
+    by: ["noteType"],
+    where: { invoiceId },
+    _sum: { totalAmount: true },
+  });
+  const noteTotal = (noteType: NoteType) =>
+    round2(
+      Number(
+        totals.find((total) => total.noteType === noteType)?._sum.totalAmount ||
+          0,
+      ),
+    );
+
+  const creditedAmount = noteTotal(NoteType.CREDIT);
+  const debitedAmount = noteTotal(NoteType.DEBIT);
+  return writeSettlement(
+    client,
+    invoice,
+    {
+      creditedAmount,
+      debitedAmount,
+      status: settleTo(invoice, {
+        ...invoice,
+        creditedAmount,
+        debitedAmount,
+      }),
+    },
+    userId,
+    InvoiceRevisionAction.NOTE,
+  );
+};
+
+export const UNCLEARED_CHEQUE: Prisma.ChequeWhereInput = {
+  status: { in: [ChequeStatus.RECEIVED, ChequeStatus.DEPOSITED] },
+};
+
+// Cheques received against the invoice that have not cleared yet. They
+// are not in paidAmount but still hold that much of the balance.
+export const unclearedChequeAmount = async (
+  invoiceId: string,
+  client: Prisma.TransactionClient = prisma,
+) => {
+  const payments = await client.payment.findMany({
+    where: { invoiceId, cheque: UNCLEARED_CHEQUE },
+    select: { amount: true, type: true },
+  });
+  return round2(
+    payments.reduce((sum, payment) => sum + signedPaymentAmount(payment), 0),
+  );
+};
+
+// What can still be collected: the balance less cheques waiting to clear
+export const collectableBalance = async (
+  invoice: BalanceFields & { id: string },
+  client: Prisma.TransactionClient = prisma,
+) =>
+  round2(
+    invoiceBalance(invoice) - (await unclearedChequeAmount(invoice.id, client)),
+  );
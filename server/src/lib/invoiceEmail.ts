@@ -0,0 +1,121 @@
+// Emailing invoices to customers with the PDF attached, and the send log
+import { Customer, EmailStatus, Invoice } from "@prisma/client";
+import prisma from "./prisma.js";
+import { CompanyProfile, getCompanyProfile } from "./company.js";
+import { formatAmount, formatDate } from "./format.js";
+import { buildTaxBreakdown } from "./gst.js";
+import { invoiceBalance } from "./invoiceBalance.js";
+import { renderInvoicePdf } from "./invoicePdf.js";
+import {
+  getEmailSettings,
+  isEmailConfigured,
+  renderTemplate,
+  sendEmail,
+  TemplateValues,
+} from "./mailer.js";
+
+export const invoiceTemplateValues = (
+  invoice: Invoice & { customer: Customer },
+  company: CompanyProfile,
+): TemplateValues => ({
+  invoiceNumber: invoice.invoiceNumber,
+  invoiceDate: formatDate(invoice.issueDate),
+  dueDate: formatDate(invoice.dueDate),
+  customerName: invoice.customer.name,
+  companyName: company.companyName,
+  totalAmount: formatAmount(invoice.totalAmount),
+  balanceDue: formatAmount(invoiceBalance(invoice)),
+});
+
+// Subject, body and recipient the send form starts from
+export const invoiceEmailDraft = async (invoiceId: string) => {
+  const [invoice, company, settings] = await Promise.all([
+    prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { customer: true },
+    }),
+    getCompanyProfile(),
+    getEmailSettings(),
+  ]);
+  if (!invoice) return null;
+
+  const values = invoiceTemplateValues(invoice, company);
+  return {
+    to: invoice.customer.email || "",
+    subject: renderTemplate(settings.invoiceSubject, values),
+    body: renderTemplate(settings.invoiceBody, values),
+    configured: isEmailConfigured(settings),
+  };
+};
+
+export class EmailNotConfiguredError extends Error {
+  constructor() {
+    super("Email is not set up. Add the SMTP server in Settings > Email.");
+    this.name = "EmailNotConfiguredError";
+  }
+}
+
+// Email the invoice PDF and log the attempt. Subject and body default to
+// the templates. Delivery failures are logged rather than thrown; the
+// returned log row says how it went.
+export const emailInvoice = async (
+  invoiceId: string,
+  input: { to: string; subject?: string; body?: string; sentById: string },
+) => {
+  const settings = await getEmailSettings();
+  if (!isEmailConfigured(settings)) throw new EmailNotConfiguredError();
+
+  const [invoice, company] = await Promise.all([
+    prisma.invoice.findUniqueOrThrow({
+      where: { id: invoiceId },
+      include: { customer: true, items: true },
+    }),
+    getCompanyProfile(),
+  ]);
+
+  const values = invoiceTemplateValues(invoice, company);
+  const subject =
+    input.subject || renderTemplate(settings.invoiceSubject, values);
+  const text = input.body || renderTemplate(settings.invoiceBody, values);
+
+  let status: EmailStatus = EmailStatus.SENT;
+  let messageId: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const pdf = await renderInvoicePdf(
+      invoice,
+      buildTaxBreakdown(invoice),
+      company,
+    );
+    messageId = await sendEmail(settings, {
+      to: input.to,
+      subject,
+      text,
+      attachments: [
+        {
+          filename: `Invoice_${invoice.invoiceNumber.replace(/[^\w-]/g, "_")}.pdf`,
+          content: pdf,
+          contentType: "application/pdf",
+        },
+      ],
+    });
+  } catch (sendError) {
+    console.error("Invoice email error:", sendError);
+    status = EmailStatus.FAILED;
+    error =
+      sendError instanceof Error ? sendError.message : "Could not send email";
+  }
+
+  return prisma.invoiceEmail.create({
+    data: {
+      invoiceId: invoice.id,
+      recipient: input.to,
+      subject,
+      status,
+      error,
+      messageId,
+      sentById: input.sentById,
+    },
+  });
+};
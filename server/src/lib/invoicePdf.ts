@@ -0,0 +1,718 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { CompanyProfile, NOT_CONFIGURED } from "./company.js";
+import { GST_STATE_CODES, TaxBreakdown } from "./gst.js";
+import { formatAmount, formatDate, numberToWords } from "./format.js";
+import { invoiceBalance } from "./invoiceBalance.js";
+import { buildUpiIntent } from "./upi.js";
+import {
+  exportDeclaration,
+  foreignTotal,
+  isForeignCurrency,
+} from "./exportInvoices.js";
+
+// A4 in points with a 10mm margin, matching the print layout in InvoiceDetails
+export const PAGE_MARGIN = 28;
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+export const CONTENT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2;
+export const FONT = "Helvetica";
+export const FONT_BOLD = "Helvetica-Bold";
+
+export type Doc = PDFKit.PDFDocument;
+
+export interface Column {
+  label: string;
+  width: number;
+  align?: "left" | "center" | "right";
+}
+
+const label = (doc: Doc, text: string, x: number, y: number, w: number) =>
+  doc
+    .font(FONT)
+    .fontSize(6.5)
+    .fillColor("#555555")
+    .text(text, x + 3, y + 2, { width: w - 6, lineBreak: false })
+    .fillColor("black");
+
+const value = (
+  doc: Doc,
+  text: string,
+  x: number,
+  y: number,
+  w: number,
+  bold = false,
+) =>
+  doc
+    .font(bold ? FONT_BOLD : FONT)
+    .fontSize(8)
+    .text(text || "-", x + 3, y + 10, { width: w - 6, height: 12 });
+
+// Labelled box used for the invoice / transport detail grid
+const field = (
+  doc: Doc,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  caption: string,
+  text: string,
+  bold = false,
+) => {
+  doc.rect(x, y, w, h).stroke();
+  label(doc, caption, x, y, w);
+  value(doc, text, x, y, w, bold);
+};
+
+// Start a new page when the next block does not fit
+export const ensureSpace = (doc: Doc, y: number, height: number) => {
+  if (y + height <= PAGE_HEIGHT - PAGE_MARGIN) return y;
+  doc.addPage();
+  return PAGE_MARGIN;
+};
+
+export const drawRow = (
+  doc: Doc,
+  columns: Column[],
+  cells: string[],
+  y: number,
+  options: { bold?: boolean; fontSize?: number; minHeight?: number } = {},
+) => {
+  const fontSize = options.fontSize || 7.5;
+  doc.font(options.bold ? FONT_BOLD : FONT).fontSize(fontSize);
+
+  const height = Math.max(
+    options.minHeight || 14,
+    ...cells.map(
+      (cell, i) =>
+        doc.heightOfString(cell, { width: columns[i].width - 6 }) + 6,
+    ),
+  );
+
+  let x = PAGE_MARGIN;
+  columns.forEach((col, i) => {
+    doc.rect(x, y, col.width, height).stroke();
+    doc.text(cells[i], x + 3, y + 3, {
+      width: col.width - 6,
+      align: col.align || "left",
+    });
+    x += col.width;
+  });
+
+  return y + height;
+};
+
+const drawCompanyBlock = (
+  doc: Doc,
+  company: CompanyProfile,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+) => {
+  doc.rect(x, y, w, h).stroke();
+  const stateName = company.stateCode
+    ? GST_STATE_CODES[company.stateCode]
+    : company.state;
+  const lines = [
+    company.address,
+    [company.city, company.state, company.pincode].filter(Boolean).join(", "),
+    `GSTIN/UIN: ${company.gstNumber || NOT_CONFIGURED}`,
+    `PAN No.: ${company.panNumber || NOT_CONFIGURED}`,
+    `State: ${stateName || "-"}, Code: ${company.stateCode || "-"}`,
+  ];
+  if (company.phone) lines.push(`Phone: ${company.phone}`);
+  if (company.email) lines.push(`E-Mail: ${company.email}`);
+
+  doc
+    .font(FONT_BOLD)
+    .fontSize(10)
+    .text(company.companyName.toUpperCase(), x + 4, y + 4, { width: w - 8 });
+  doc.font(FONT).fontSize(7.5);
+  lines.forEach((line) => doc.text(line, { width: w - 8 }));
+
+  doc.moveDown(0.4).font(FONT_BOLD).fontSize(7).text("Bank Details:");
+  doc.font(FONT).fontSize(7);
+  if (!company.bankAccountNumber) {
+    doc.text(NOT_CONFIGURED);
+    return;
+  }
+  doc
+    .text(`A/c Name: ${company.bankAccountName || company.companyName}`)
+    .text(`A/c No.: ${company.bankAccountNumber}`)
+    .text(`IFSC: ${company.bankIfsc} (${company.bankName})`);
+};
+
+const drawBuyerBlock = (
+  doc: Doc,
+  invoice: any,
+  breakdown: TaxBreakdown,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+) => {
+  const customer = invoice.customer || {};
+  doc.rect(x, y, w, h).stroke();
+  label(doc, "Buyer (Bill to)", x, y, w);
+  doc
+    .font(FONT_BOLD)
+    .fontSize(9.5)
+    .text(customer.name || "-", x + 4, y + 12, { width: w - 8 });
+  doc.font(FONT).fontSize(7.5);
+  if (customer.address) doc.text(customer.address, { width: w - 8 });
+  doc.text(
+    [customer.city, customer.state, customer.pincode]
+      .filter(Boolean)
+      .join(", "),
+    { width: w - 8 },
+  );
+  doc.text(`GSTIN/UIN: ${customer.gstNumber || "N/A"}`, { width: w - 8 });
+  if (breakdown.placeOfSupply) {
+    doc.text(
+      `Place of Supply: ${breakdown.placeOfSupplyName}, Code: ${breakdown.placeOfSupply}`,
+      { width: w - 8 },
+    );
+  }
+};
+
+const drawDetailsGrid = (
+  doc: Doc,
+  invoice: any,
+  x: number,
+  y: number,
+  w: number,
+) => {
+  const half = w / 2;
+  const rowHeight = 24;
+  const pairs: Array<[string, string, string, string]> = [
+    [
+      "Invoice No.",
+      invoice.invoiceNumber,
+      "Invoice Date",
+      formatDate(invoice.issueDate),
+    ],
+    [
+      "Delivery Note",
+      invoice.deliveryNote,
+      "Mode/Terms of Payment",
+      invoice.terms,
+    ],
+    [
+      "Reference No. & Date.",
+      invoice.otherReference,
+      "Other References",
+      invoice.otherReferences,
+    ],
+    [
+      "Buyer's Order No.",
+      invoice.buyersOrderNo,
+      "Dated",
+      invoice.buyersOrderDate ? formatDate(invoice.buyersOrderDate) : "-",
+    ],
+    [
+      "Dispatch Doc No.",
+      invoice.dispatchDocNo,
+      "Delivery Note Date",
+      invoice.deliveryNoteDate ? formatDate(invoice.deliveryNoteDate) : "-",
+    ],
+    [
+      "Dispatched through",
+      invoice.dispatchedThrough,
+      "Destination",
+      invoice.destination,
+    ],
+    [
+      "Bill of Lading/LR-RR No.",
+      invoice.billOfLading,
+      "Motor Vehicle No.",
+      invoice.motorVehicleNo,
+    ],
+  ];
+  if (invoice.exportType || isForeignCurrency(invoice)) {
+    pairs.push(
+      [
+        "Currency",
+        `${invoice.currency} @ Rs. ${Number(invoice.exchangeRate)}`,
+        "Port Code",
+        invoice.portCode,
+      ],
+      [
+        "Shipping Bill No.",
+        invoice.shippingBillNumber,
+        "Shipping Bill Date",
+        invoice.shippingBillDate ? formatDate(invoice.shippingBillDate) : "-",
+      ],
+    );
+  }
+
+  pairs.forEach(([l1, v1, l2, v2], i) => {
+    const rowY = y + i * rowHeight;
+    field(doc, x, rowY, half, rowHeight, l1, v1, i === 0);
+    field(doc, x + half, rowY, half, rowHeight, l2, v2, i === 0);
+  });
+
+  const lastY = y + pairs.length * rowHeight;
+  field(
+    doc,
+    x,
+    lastY,
+    w,
+    rowHeight * 1.5,
+    "Terms of Delivery",
+    invoice.termsOfDelivery,
+  );
+  return lastY + rowHeight * 1.5;
+};
+
+// Percentage discounts print as the rate, flat ones as the amount
+const lineDiscountLabel = (item: any) => {
+  if (!Number(item.discountAmount)) return "";
+  return item.discountType === "PERCENTAGE"
+    ? `${Number(item.discountValue)}%`
+    : formatAmount(item.discountAmount);
+};
+
+const formatQuantities = (quantities: Record<string, number>) =>
+  Object.entries(quantities)
+    .map(([unit, qty]) => `${Number(qty.toFixed(2))} ${unit}`)
+    .join(", ");
+
+const drawItems = (
+  doc: Doc,
+  invoice: any,
+  breakdown: TaxBreakdown,
+  startY: number,
+) => {
+  const columns: Column[] = [
+    { label: "SI No.", width: 24, align: "center" },
+    { label: "Description of Goods", width: 0 },
+    { label: "HSN", width: 52, align: "center" },
+    { label: "GST", width: 32, align: "center" },
+    { label: "Qty", width: 50, align: "right" },
+    { label: "Rate", width: 60, align: "right" },
+    { label: "per", width: 28, align: "center" },
+    { label: "Disc.", width: 44, align: "right" },
+    { label: "Amount", width: 72, align: "right" },
+  ];
+  const amountColumn = columns.length - 1;
+  columns[1].width =
+    CONTENT_WIDTH - columns.reduce((sum, c) => sum + c.width, 0);
+
+  let y = drawRow(
+    doc,
+    columns,
+    columns.map((c) => c.label),
+    startY,
+    { bold: true },
+  );
+
+  invoice.items.forEach((item: any, index: number) => {
+    y = ensureSpace(doc, y, 20);
+    y = drawRow(
+      doc,
+      columns,
+      [
+        String(index + 1),
+        item.description,
+        item.hsnCode || "-",
+        `${Number(item.taxRate)}%`,
+        `${Number(item.quantity)} ${item.unit}`,
+        formatAmount(item.unitPrice),
+        item.unit,
+        lineDiscountLabel(item),
+        formatAmount(item.amount),
+      ],
+      y,
+      { minHeight: 18 },
+    );
+  });
+
+  // Tax lines under the goods, same order as the printed invoice
+  const summary: Array<[string, string]> = [];
+  breakdown.rows.forEach((row) => {
+    if (breakdown.isInterState) {
+      summary.push([`IGST ${row.igstRate}%`, formatAmount(row.igstAmount)]);
+    } else {
+      summary.push([`CGST ${row.cgstRate}%`, formatAmount(row.cgstAmount)]);
+      summary.push([`SGST ${row.sgstRate}%`, formatAmount(row.sgstAmount)]);
+    }
+  });
+  summary.push([
+    "Basic Amount",
+    formatAmount(Number(invoice.subtotal) - Number(invoice.discountAmount)),
+  ]);
+  if (Number(invoice.roundOff) !== 0) {
+    summary.push([
+      "Rounding",
+      `${Number(invoice.roundOff) > 0 ? "+" : ""}${formatAmount(invoice.roundOff)}`,
+    ]);
+  }
+  summary.push(["Total Tax", formatAmount(invoice.taxAmount)]);
+  if (isForeignCurrency(invoice)) {
+    summary.push([
+      `Total in ${invoice.currency} @ Rs. ${Number(invoice.exchangeRate)}`,
+      `${invoice.currency} ${formatAmount(foreignTotal(invoice))}`,
+    ]);
+  }
+
+  const labelWidth = columns
+    .slice(0, amountColumn)
+    .reduce((sum, c) => sum + c.width, 0);
+  summary.forEach(([text, amount]) => {
+    y = ensureSpace(doc, y, 12);
+    doc.rect(PAGE_MARGIN, y, labelWidth, 12).stroke();
+    doc
+      .rect(PAGE_MARGIN + labelWidth, y, columns[amountColumn].width, 12)
+      .stroke();
+    doc
+      .font(FONT_BOLD)
+      .fontSize(7.5)
+      .text(text, PAGE_MARGIN + 3, y + 2.5, {
+        width: labelWidth - 6,
+        align: "right",
+      })
+      .text(amount, PAGE_MARGIN + labelWidth + 3, y + 2.5, {
+        width: columns[amountColumn].width - 6,
+        align: "right",
+      });
+    y += 12;
+  });
+
+  const totalQty: Record<string, number> = {};
+  invoice.items.forEach((item: any) => {
+    totalQty[item.unit] = (totalQty[item.unit] || 0) + Number(item.quantity);
+  });
+  y = ensureSpace(doc, y, 18);
+  return drawRow(
+    doc,
+    columns,
+    [
+      "",
+      "Document Total",
+      "",
+      "",
+      formatQuantities(totalQty),
+      "",
+      "",
+      "",
+      `Rs. ${formatAmount(invoice.totalAmount)}`,
+    ],
+    y,
+    { bold: true, minHeight: 18 },
+  );
+};
+
+const drawWordsLine = (doc: Doc, caption: string, text: string, y: number) => {
+  y = ensureSpace(doc, y, 16);
+  doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 16).stroke();
+  doc
+    .font(FONT)
+    .fontSize(7)
+    .fillColor("#555555")
+    .text(caption, PAGE_MARGIN + 3, y + 4.5, { continued: true })
+    .fillColor("black")
+    .font(FONT_BOLD)
+    .text(` ${text.toUpperCase()}`, { lineBreak: false });
+  return y + 16;
+};
+
+const drawTaxSummary = (doc: Doc, breakdown: TaxBreakdown, y: number) => {
+  const columns: Column[] = breakdown.isInterState
+    ? [
+        { label: "HSN", width: 70, align: "center" },
+        { label: "Qty", width: 80, align: "right" },
+        { label: "Taxable Value", width: 109, align: "right" },
+        { label: "IGST Rate", width: 60, align: "center" },
+        { label: "IGST Amount", width: 100, align: "right" },
+        { label: "Total Tax Amount", width: 0, align: "right" },
+      ]
+    : [
+        { label: "HSN", width: 60, align: "center" },
+        { label: "Qty", width: 70, align: "right" },
+        { label: "Taxable Value", width: 80, align: "right" },
+        { label: "CGST Rate", width: 45, align: "center" },
+        { label: "CGST Amount", width: 70, align: "right" },
+        { label: "SGST Rate", width: 45, align: "center" },
+        { label: "SGST Amount", width: 70, align: "right" },
+        { label: "Total Tax Amount", width: 0, align: "right" },
+      ];
+  columns[columns.length - 1].width =
+    CONTENT_WIDTH - columns.reduce((sum, c) => sum + c.width, 0);
+
+  y = ensureSpace(doc, y, 30);
+  y = drawRow(
+    doc,
+    columns,
+    columns.map((c) => c.label),
+    y,
+    { bold: true, fontSize: 7 },
+  );
+
+  const rowCells = (row: TaxBreakdown["rows"][number]) =>
+    breakdown.isInterState
+      ? [
+          row.hsnCode,
+          formatQuantities(row.quantities),
+          formatAmount(row.taxableValue),
+          `${row.igstRate}%`,
+          formatAmount(row.igstAmount),
+          formatAmount(row.totalTax),
+        ]
+      : [
+          row.hsnCode,
+          formatQuantities(row.quantities),
+          formatAmount(row.taxableValue),
+          `${row.cgstRate}%`,
+          formatAmount(row.cgstAmount),
+          `${row.sgstRate}%`,
+          formatAmount(row.sgstAmount),
+          formatAmount(row.totalTax),
+        ];
+
+  breakdown.rows.forEach((row) => {
+    y = ensureSpace(doc, y, 14);
+    y = drawRow(doc, columns, rowCells(row), y, { fontSize: 7 });
+  });
+
+  const { totals } = breakdown;
+  y = ensureSpace(doc, y, 14);
+  return drawRow(
+    doc,
+    columns,
+    breakdown.isInterState
+      ? [
+          "Total",
+          "",
+          formatAmount(totals.taxableValue),
+          "",
+          formatAmount(totals.igstAmount),
+          formatAmount(totals.totalTax),
+        ]
+      : [
+          "Total",
+          "",
+          formatAmount(totals.taxableValue),
+          "",
+          formatAmount(totals.cgstAmount),
+          "",
+          formatAmount(totals.sgstAmount),
+          formatAmount(totals.totalTax),
+        ],
+    y,
+    { bold: true, fontSize: 7 },
+  );
+};
+
+const drawDeclaration = (doc: Doc, company: CompanyProfile, y: number) => {
+  const height = 96;
+  const leftWidth = CONTENT_WIDTH * 0.6;
+  y = ensureSpace(doc, y, height);
+
+  doc.rect(PAGE_MARGIN, y, leftWidth, height).stroke();
+  doc
+    .rect(PAGE_MARGIN + leftWidth, y, CONTENT_WIDTH - leftWidth, height)
+    .stroke();
+
+  doc
+    .font(FONT_BOLD)
+    .fontSize(7)
+    .text("Terms & Condition Declaration :", PAGE_MARGIN + 4, y + 4, {
+      width: leftWidth - 8,
+    });
+  doc
+    .font(FONT)
+    .fontSize(6.5)
+    .text(
+      "We declare that this invoice shows the actual price of the goods described and that all particulars are true and correct.",
+      { width: leftWidth - 8 },
+    );
+  [
+    "1) This bill should be paid as per payment terms, otherwise interest @ 18% per annum will be charged.",
+    "2) Any discrepancy in the bill should be brought to our notice within 15 days.",
+    "3) Our risk responsibility ceases once the goods leave our premises.",
+    "4) Goods once sold will not be taken back.",
+    "5) Any dispute regarding the claim is subject to Nasik Jurisdiction.",
+  ].forEach((line) => doc.text(line, { width: leftWidth - 8 }));
+
+  const rightX = PAGE_MARGIN + leftWidth + 4;
+  const rightWidth = CONTENT_WIDTH - leftWidth - 8;
+  doc
+    .font(FONT_BOLD)
+    .fontSize(7.5)
+    .text(`For ${company.companyName.toUpperCase()}`, rightX, y + 4, {
+      width: rightWidth,
+      align: "right",
+    });
+  doc
+    .font(FONT)
+    .fontSize(7.5)
+    .text("Authorised Signatory", rightX, y + height - 14, {
+      width: rightWidth,
+      align: "right",
+    });
+
+  return y + height;
+};
+
+// IRN, acknowledgement and the IRP's signed QR for e-invoiced documents
+const drawEInvoiceBlock = (
+  doc: Doc,
+  invoice: any,
+  qrImage: Buffer,
+  y: number,
+) => {
+  const height = 84;
+  doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, height).stroke();
+  doc
+    .font(FONT_BOLD)
+    .fontSize(7.5)
+    .text("e-Invoice", PAGE_MARGIN + 4, y + 6)
+    .font(FONT)
+    .text(`IRN: ${invoice.irn}`, { width: CONTENT_WIDTH - height - 8 })
+    .text(`Ack No.: ${invoice.ackNo}`)
+    .text(`Ack Date: ${invoice.ackDate ? formatDate(invoice.ackDate) : "-"}`);
+  doc.image(qrImage, PAGE_MARGIN + CONTENT_WIDTH - height + 4, y + 4, {
+    width: height - 8,
+    height: height - 8,
+  });
+  return y + height;
+};
+
+// UPI QR for the balance due, next to the VPA for payers who type it in
+const drawUpiBlock = (
+  doc: Doc,
+  company: CompanyProfile,
+  invoice: any,
+  qrImage: Buffer,
+  y: number,
+) => {
+  const height = 84;
+  y = ensureSpace(doc, y, height);
+  doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, height).stroke();
+  doc.image(qrImage, PAGE_MARGIN + 4, y + 4, {
+    width: height - 8,
+    height: height - 8,
+  });
+  doc
+    .font(FONT_BOLD)
+    .fontSize(8)
+    .text("Scan to pay with any UPI app", PAGE_MARGIN + height + 4, y + 10)
+    .font(FONT)
+    .fontSize(7.5)
+    .text(`UPI ID: ${company.upiId}`)
+    .text(`Amount: Rs. ${formatAmount(invoiceBalance(invoice))}`)
+    .text(`Note: Invoice ${invoice.invoiceNumber}`);
+  return y + height;
+};
+
+// Render the tax invoice as an A4 PDF. Output only depends on the invoice and
+// company data so the same invoice always produces the same bytes.
+export const renderInvoicePdf = async (
+  invoice: any,
+  breakdown: TaxBreakdown,
+  company: CompanyProfile,
+): Promise<Buffer> => {
+  const irnQr = invoice.signedQrCode
+    ? await QRCode.toBuffer(invoice.signedQrCode, {
+        errorCorrectionLevel: "L",
+        margin: 0,
+        width: 240,
+      })
+    : null;
+  const upiIntent = buildUpiIntent(company, invoice);
+  const upiQr = upiIntent
+    ? await QRCode.toBuffer(upiIntent, { margin: 0, width: 240 })
+    : null;
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `Invoice ${invoice.invoiceNumber}`,
+        Author: company.companyName,
+        Subject: "Tax Invoice",
+        Creator: company.companyName,
+        Producer: company.companyName,
+        CreationDate: new Date(invoice.updatedAt),
+        ModDate: new Date(invoice.updatedAt),
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.lineWidth(0.5);
+
+    let y = PAGE_MARGIN;
+    doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 20).stroke();
+    doc
+      .font(FONT_BOLD)
+      .fontSize(12)
+      .text(
+        invoice.exportType ? "EXPORT INVOICE" : "TAX INVOICE",
+        PAGE_MARGIN,
+        y + 5,
+        { width: CONTENT_WIDTH, align: "center" },
+      );
+    y += 20;
+
+    const declaration = exportDeclaration(invoice);
+    if (declaration) {
+      doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 14).stroke();
+      doc
+        .font(FONT_BOLD)
+        .fontSize(8)
+        .text(declaration.toUpperCase(), PAGE_MARGIN, y + 3.5, {
+          width: CONTENT_WIDTH,
+          align: "center",
+        });
+      y += 14;
+    }
+
+    if (irnQr) y = drawEInvoiceBlock(doc, invoice, irnQr, y);
+
+    const half = CONTENT_WIDTH / 2;
+    const gridBottom = drawDetailsGrid(
+      doc,
+      invoice,
+      PAGE_MARGIN + half,
+      y,
+      half,
+    );
+    const companyHeight = 130;
+    drawCompanyBlock(doc, company, PAGE_MARGIN, y, half, companyHeight);
+    drawBuyerBlock(
+      doc,
+      invoice,
+      breakdown,
+      PAGE_MARGIN,
+      y + companyHeight,
+      half,
+      gridBottom - y - companyHeight,
+    );
+    y = gridBottom;
+
+    y = drawItems(doc, invoice, breakdown, y);
+    y = drawWordsLine(
+      doc,
+      "Amount Chargeable (in words) :",
+      numberToWords(Number(invoice.totalAmount)),
+      y,
+    );
+    y = drawTaxSummary(doc, breakdown, y);
+    y = drawWordsLine(
+      doc,
+      "Tax Amount (in words) :",
+      numberToWords(Number(invoice.taxAmount)),
+      y,
+    );
+    if (upiQr) y = drawUpiBlock(doc, company, invoice, upiQr, y);
+    drawDeclaration(doc, company, y);
+
+    doc.end();
+  });
+};
@@ -0,0 +1,316 @@
+// Overdue detection and customer payment reminders
+import {
+  InvoiceRevisionAction,
+  InvoiceStatus,
+  NotificationType,
+  Prisma,
+  ReminderStatus,
+  UserRole,
+} from "@prisma/client";
+import prisma from "./prisma.js";
+import { collectableBalance, invoiceBalance } from "./invoiceBalance.js";
+import { OPEN_INVOICE_STATUSES } from "./customerReceipts.js";
+import { formatAmount } from "./format.js";
+import { getCompanyProfile } from "./company.js";
+import {
+  getEmailSettings,
+  isEmailConfigured,
+  renderTemplate,
+  sendEmail,
+} from "./mailer.js";
+import { invoiceTemplateValues } from "./invoiceEmail.js";
+import {
+  ensureBaselineRevision,
+  recordInvoiceRevision,
+} from "./invoiceRevisions.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+// A failed send is retried after 1, 2, 4 and 8 hours before giving up
+const MAX_SEND_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 60 * 1000;
+
+export interface ReminderSettings {
+  paymentReminders: boolean;
+  // Days before the due date, e.g. [7, 3]
+  reminderDaysBefore: number[];
+  reminderOnDueDate: boolean;
+  // Repeat every n days once overdue; 0 turns repeats off
+  reminderRepeatDays: number;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  paymentReminders: true,
+  reminderDaysBefore: [3],
+  reminderOnDueDate: true,
+  reminderRepeatDays: 7,
+};
+
+// Reminder preferences as saved from the Notifications tab in settings
+export const getReminderSettings = async (): Promise<ReminderSettings> => {
+  const setting = await prisma.setting.findUnique({
+    where: { key: "notifications" },
+  });
+  const saved = (setting?.value as Record<string, any>) || {};
+
+  return {
+    paymentReminders:
+      saved.paymentReminders ?? DEFAULT_REMINDER_SETTINGS.paymentReminders,
+    reminderDaysBefore: Array.isArray(saved.reminderDaysBefore)
+      ? saved.reminderDaysBefore
+          .map(Number)
+          .filter((days: number) => Number.isInteger(days) && days > 0)
+      : DEFAULT_REMINDER_SETTINGS.reminderDaysBefore,
+    reminderOnDueDate:
+      saved.reminderOnDueDate ?? DEFAULT_REMINDER_SETTINGS.reminderOnDueDate,
+    reminderRepeatDays: Math.max(
+      0,
+      Math.floor(
+        Number(
+          saved.reminderRepeatDays ??
+            DEFAULT_REMINDER_SETTINGS.reminderRepeatDays,
+        ) || 0,
+      ),
+    ),
+  };
+};
+
+// Due dates are calendar days held at UTC midnight; today is taken in IST
+const today = (now: Date) => {
+  const ist = new Date(now.getTime() + 330 * 60000);
+  return new Date(
+    Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth(), ist.getUTCDate()),
+  );
+};
+
+// Negative before the due date, 0 on it, positive once overdue
+export const daysFromDue = (dueDate: Date, now: Date) =>
+  Math.round(
+    (today(now).getTime() -
+      Date.UTC(
+        dueDate.getUTCFullYear(),
+        dueDate.getUTCMonth(),
+        dueDate.getUTCDate(),
+      )) /
+      DAY_MS,
+  );
+
+// Whether the schedule has a reminder on this day relative to the due date
+export const isReminderDay = (days: number, settings: ReminderSettings) => {
+  if (days < 0) return settings.reminderDaysBefore.includes(-days);
+  if (days === 0) return settings.reminderOnDueDate;
+  return (
+    settings.reminderRepeatDays > 0 && days % settings.reminderRepeatDays === 0
+  );
+};
+
+// Accountants follow up on payments; admins stand in when there are none
+export const financeUserIds = async () => {
+  for (const role of [UserRole.ACCOUNTANT, UserRole.ADMIN]) {
+    const users = await prisma.user.findMany({
+      where: { role, isActive: true },
+      select: { id: true },
+    });
+    if (users.length > 0) return users.map((user) => user.id);
+  }
+  return [];
+};
+
+// Move issued invoices past their due date with a balance to OVERDUE and
+// tell accounts. Returns how many invoices changed.
+export const markOverdueInvoices = async (now = new Date()) => {
+  const candidates = await prisma.invoice.findMany({
+    where: {
+      status: {
+        in: OPEN_INVOICE_STATUSES.filter(
+          (status) => status !== InvoiceStatus.OVERDUE,
+        ),
+      },
+      dueDate: { lt: today(now) },
+    },
+    include: { customer: { select: { name: true } } },
+  });
+  const overdue = candidates.filter((invoice) => invoiceBalance(invoice) > 0);
+  if (overdue.length === 0) return 0;
+
+  const userIds = await financeUserIds();
+  let marked = 0;
+
+  for (const invoice of overdue) {
+    // Skip invoices a payment or edit has moved on since they were read.
+    // The revision is a system one: no user made the change.
+    const count = await prisma.$transaction(async (tx) => {
+      await ensureBaselineRevision(tx, invoice.id);
+      const { count } = await tx.invoice.updateMany({
+        where: { id: invoice.id, status: invoice.status },
+        data: { status: InvoiceStatus.OVERDUE },
+      });
+      if (count > 0) {
+        await recordInvoiceRevision(
+          tx,
+          invoice.id,
+          null,
+          InvoiceRevisionAction.OVERDUE,
+        );
+      }
+      return count;
+    });
+    if (count === 0) continue;
+    marked++;
+
+    await prisma.notification.createMany({
+      data: userIds.map((userId) => ({
+        userId,
+        title: "Invoice overdue",
+        message: `${invoice.invoiceNumber} for ${invoice.customer.name} is overdue with Rs. ${formatAmount(invoiceBalance(invoice))} outstanding.`,
+        type: NotificationType.WARNING,
+        link: `/invoices/${invoice.id}`,
+      })),
+    });
+  }
+
+  return marked;
+};
+
+type ReminderInvoice = Prisma.InvoiceGetPayload<{
+  include: { customer: true };
+}>;
+
+// Reminders with a recipient are queued for the delivery pass; those
+// without an email address are skipped.
+const queueReminder = async (invoice: ReminderInvoice, days: number) => {
+  const recipient = invoice.customer.email || null;
+
+  return prisma.paymentReminder.create({
+    data: {
+      invoiceId: invoice.id,
+      daysFromDue: days,
+      recipient,
+      status: recipient ? ReminderStatus.QUEUED : ReminderStatus.SKIPPED,
+      error: recipient ? null : "Customer has no email address",
+    },
+  });
+};
+
+// Raise the reminders that fall due today. Each invoice gets at most one
+// reminder per point in the schedule, so reruns within a day are harmless.
+export const sendPaymentReminders = async (now = new Date()) => {
+  const settings = await getReminderSettings();
+  if (!settings.paymentReminders) return 0;
+
+  const invoices = await prisma.invoice.findMany({
+    where: { status: { in: OPEN_INVOICE_STATUSES } },
+    include: { customer: true, reminders: { select: { daysFromDue: true } } },
+  });
+
+  let sent = 0;
+  for (const { reminders, ...invoice } of invoices) {
+    const days = daysFromDue(invoice.dueDate, now);
+    if (!isReminderDay(days, settings)) continue;
+    if (reminders.some((reminder) => reminder.daysFromDue === days)) continue;
+    if (invoiceBalance(invoice) <= 0) continue;
+    // Don't chase a customer whose cheque for the balance is with us
+    if ((await collectableBalance(invoice)) <= 0) continue;
+
+    try {
+      await queueReminder(invoice, days);
+      sent++;
+    } catch (error) {
+      // A concurrent run already recorded this reminder
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return sent;
+};
+
+// Email queued reminders. They wait in the queue until SMTP is set up;
+// ones whose invoice has been settled or cancelled meanwhile are skipped.
+// A failed send is tried again on a later run and only marked FAILED once
+// MAX_SEND_ATTEMPTS are used up.
+export const deliverQueuedReminders = async (now = new Date()) => {
+  const settings = await getEmailSettings();
+  if (!isEmailConfigured(settings)) return 0;
+
+  const [queued, company] = await Promise.all([
+    prisma.paymentReminder.findMany({
+      where: {
+        status: ReminderStatus.QUEUED,
+        recipient: { not: null },
+        OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+      },
+      include: { invoice: { include: { customer: true } } },
+      orderBy: { createdAt: "asc" },
+    }),
+    getCompanyProfile(),
+  ]);
+
+  let delivered = 0;
+  for (const { invoice, ...reminder } of queued) {
+    if (
+      !OPEN_INVOICE_STATUSES.some((status) => status === invoice.status) ||
+      invoiceBalance(invoice) <= 0
+    ) {
+      await prisma.paymentReminder.update({
+        where: { id: reminder.id },
+        data: {
+          status: ReminderStatus.SKIPPED,
+          error: "Invoice no longer has a balance",
+        },
+      });
+      continue;
+    }
+
+    const values = invoiceTemplateValues(invoice, company);
+    try {
+      await sendEmail(settings, {
+        to: reminder.recipient!,
+        subject: renderTemplate(settings.reminderSubject, values),
+        text: renderTemplate(settings.reminderBody, values),
+      });
+      await prisma.paymentReminder.update({
+        where: { id: reminder.id },
+        data: { status: ReminderStatus.SENT, sentAt: new Date(), error: null },
+      });
+      delivered++;
+    } catch (error) {
+      const attempts = reminder.attempts + 1;
+      const retry = attempts < MAX_SEND_ATTEMPTS;
+      await prisma.paymentReminder.update({
+        where: { id: reminder.id },
+        data: {
+          status: retry ? ReminderStatus.QUEUED : ReminderStatus.FAILED,
+          attempts,
+          nextAttemptAt: retry
+            ? new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1))
+            : null,
+          error: error instanceof Error ? error.message : "Could not send",
+        },
+      });
+    }
+  }
+
+  return delivered;
+};
+
+export const runInvoiceReminders = async (now = new Date()) => ({
+  overdue: await markOverdueInvoices(now),
+  reminders: await sendPaymentReminders(now),
+  delivered: await deliverQueuedReminders(now),
+});
+
+// Hourly run for a long-running server
+export const scheduleInvoiceReminders = () => {
+  const run = () =>
+    runInvoiceReminders().catch((error) =>
+      console.error("Invoice reminder run error:", error),
+    );
+  run();
+  return setInterval(run, RUN_INTERVAL_MS);
+};
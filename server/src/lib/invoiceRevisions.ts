@@ -0,0 +1,237 @@
+// Invoice revision history: a snapshot of the document on every change and
+// a field and line diff between any two versions
+import { isDeepStrictEqual } from "node:util";
+import { InvoiceRevisionAction, Prisma } from "@prisma/client";
+import prisma from "./prisma.js";
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+type Value = string | number | boolean | null;
+
+// Document fields kept in a revision. Paid, credited and debited amounts
+// are left out: payments and notes keep their own history.
+export const REVISION_FIELDS = [
+  { key: "issueDate", label: "Invoice date" },
+  { key: "dueDate", label: "Due date" },
+  { key: "status", label: "Status" },
+  { key: "cancelledAt", label: "Cancelled on" },
+  { key: "cancellationReason", label: "Cancellation reason" },
+  { key: "placeOfSupply", label: "Place of supply" },
+  { key: "isInterState", label: "Inter-state" },
+  { key: "currency", label: "Currency" },
+  { key: "exchangeRate", label: "Exchange rate" },
+  { key: "exportType", label: "Export type" },
+  { key: "lutNumber", label: "LUT no." },
+  { key: "portCode", label: "Port code" },
+  { key: "shippingBillNumber", label: "Shipping bill no." },
+  { key: "shippingBillDate", label: "Shipping bill date" },
+  { key: "subtotal", label: "Subtotal" },
+  { key: "discountRate", label: "Discount %" },
+  { key: "discountAmount", label: "Discount" },
+  { key: "cgstAmount", label: "CGST" },
+  { key: "sgstAmount", label: "SGST" },
+  { key: "igstAmount", label: "IGST" },
+  { key: "taxAmount", label: "Total tax" },
+  { key: "roundOff", label: "Round off" },
+  { key: "totalAmount", label: "Total" },
+  { key: "foreignTotalAmount", label: "Total in invoice currency" },
+  { key: "notes", label: "Notes" },
+  { key: "terms", label: "Terms" },
+  { key: "deliveryNote", label: "Delivery note" },
+  { key: "deliveryNoteDate", label: "Delivery note date" },
+  { key: "otherReference", label: "Reference no." },
+  { key: "otherReferences", label: "Other references" },
+  { key: "buyersOrderNo", label: "Buyer's order no." },
+  { key: "buyersOrderDate", label: "Buyer's order date" },
+  { key: "dispatchDocNo", label: "Dispatch doc no." },
+  { key: "dispatchedThrough", label: "Dispatched through" },
+  { key: "destination", label: "Destination" },
+  { key: "billOfLading", label: "Bill of lading" },
+  { key: "motorVehicleNo", label: "Vehicle no." },
+  { key: "termsOfDelivery", label: "Terms of delivery" },
+  { key: "transporterId", label: "Transporter ID" },
+  { key: "transportDistance", label: "Distance (km)" },
+  { key: "ewbNumber", label: "E-way bill no." },
+  { key: "ewbDate", label: "E-way bill date" },
+  { key: "ewbValidUntil", label: "E-way bill valid until" },
+  { key: "irn", label: "IRN" },
+  { key: "ackNo", label: "Ack no." },
+  { key: "ackDate", label: "Ack date" },
+] as const;
+
+export const REVISION_ITEM_FIELDS = [
+  { key: "description", label: "Description" },
+  { key: "productId", label: "Product" },
+  { key: "hsnCode", label: "HSN" },
+  { key: "quantity", label: "Qty" },
+  { key: "unit", label: "Unit" },
+  { key: "unitPrice", label: "Rate" },
+  { key: "foreignUnitPrice", label: "Rate in invoice currency" },
+  { key: "discountType", label: "Discount type" },
+  { key: "discountValue", label: "Discount" },
+  { key: "discountAmount", label: "Discount amount" },
+  { key: "amount", label: "Taxable value" },
+  { key: "taxRate", label: "GST %" },
+  { key: "cgstAmount", label: "CGST" },
+  { key: "sgstAmount", label: "SGST" },
+  { key: "igstAmount", label: "IGST" },
+] as const;
+
+export interface InvoiceSnapshot {
+  invoiceNumber: string;
+  customer: { id: string; name: string; gstNumber: Value };
+  fields: Record<string, Value>;
+  items: Array<Record<string, Value>>;
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: Value;
+  after: Value;
+}
+
+// Decimals as numbers and dates as ISO strings, so snapshots compare
+// equal after a round trip through JSON
+const plain = (value: unknown): Value => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Prisma.Decimal.isDecimal(value)) return Number(value);
+  return value as Value;
+};
+
+const pick = (
+  source: Record<string, any>,
+  fields: ReadonlyArray<{ key: string }>,
+) => Object.fromEntries(fields.map(({ key }) => [key, plain(source[key])]));
+
+export const snapshotInvoice = async (
+  client: Client,
+  invoiceId: string,
+): Promise<InvoiceSnapshot | null> => {
+  const invoice = await client.invoice.findUnique({
+    where: { id: invoiceId },
+    include: { customer: true, items: true },
+  });
+  if (!invoice) return null;
+
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    customer: {
+      id: invoice.customer.id,
+      name: invoice.customer.name,
+      gstNumber: invoice.customer.gstNumber,
+    },
+    fields: pick(invoice, REVISION_FIELDS),
+    items: invoice.items.map((item) => pick(item, REVISION_ITEM_FIELDS)),
+  };
+};
+
+// Record the invoice as it now stands. Nothing is written when it matches
+// the latest revision, e.g. a save without changes. A null user marks a
+// change the system made.
+export const recordInvoiceRevision = async (
+  client: Client,
+  invoiceId: string,
+  userId: string | null,
+  action: InvoiceRevisionAction,
+) => {
+  const snapshot = await snapshotInvoice(client, invoiceId);
+  if (!snapshot) return null;
+
+  const latest = await client.invoiceRevision.findFirst({
+    where: { invoiceId },
+    orderBy: { version: "desc" },
+  });
+  if (latest && isDeepStrictEqual(latest.snapshot, snapshot)) return latest;
+
+  return client.invoiceRevision.create({
+    data: {
+      invoiceId,
+      version: (latest?.version || 0) + 1,
+      action,
+      snapshot: snapshot as unknown as Prisma.InputJsonValue,
+      createdById: userId,
+    },
+  });
+};
+
+// Invoices raised before revision history began have their current state
+// recorded before the first change, credited to whoever raised them
+export const ensureBaselineRevision = async (
+  client: Client,
+  invoiceId: string,
+) => {
+  const count = await client.invoiceRevision.count({ where: { invoiceId } });
+  if (count > 0) return;
+
+  const invoice = await client.invoice.findUnique({
+    where: { id: invoiceId },
+    select: { createdById: true },
+  });
+  if (!invoice) return;
+
+  await recordInvoiceRevision(
+    client,
+    invoiceId,
+    invoice.createdById,
+    InvoiceRevisionAction.BASELINE,
+  );
+};
+
+const changes = (
+  before: Record<string, Value>,
+  after: Record<string, Value>,
+  fields: ReadonlyArray<{ key: string; label: string }>,
+): FieldChange[] =>
+  fields
+    .filter(({ key }) => !isDeepStrictEqual(before[key], after[key]))
+    .map(({ key, label }) => ({
+      field: key,
+      label,
+      before: before[key] ?? null,
+      after: after[key] ?? null,
+    }));
+
+const lineKey = (item: Record<string, Value>) =>
+  String(item.description || "")
+    .trim()
+    .toLowerCase();
+
+// Lines are recreated on every edit, so they are matched by description;
+// repeated descriptions pair up in order
+export const diffSnapshots = (from: InvoiceSnapshot, to: InvoiceSnapshot) => {
+  const fields = changes(from.fields, to.fields, REVISION_FIELDS);
+  if (from.customer.id !== to.customer.id) {
+    fields.unshift({
+      field: "customer",
+      label: "Customer",
+      before: from.customer.name,
+      after: to.customer.name,
+    });
+  }
+
+  const unmatched = [...from.items];
+  const added: Array<Record<string, Value>> = [];
+  const changed: Array<{ description: Value; changes: FieldChange[] }> = [];
+
+  to.items.forEach((item) => {
+    const index = unmatched.findIndex(
+      (candidate) => lineKey(candidate) === lineKey(item),
+    );
+    if (index === -1) {
+      added.push(item);
+      return;
+    }
+    const [previous] = unmatched.splice(index, 1);
+    const lineChanges = changes(previous, item, REVISION_ITEM_FIELDS);
+    if (lineChanges.length > 0) {
+      changed.push({ description: item.description, changes: lineChanges });
+    }
+  });
+
+  return {
+    fields,
+    lines: { added, removed: unmatched, changed },
+  };
+};
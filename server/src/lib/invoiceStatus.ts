@@ -0,0 +1,75 @@
+// Allowed invoice status changes. PAID, PARTIALLY_PAID and OVERDUE follow
+// from payments and due dates (see invoiceBalance.ts and the reminder
+// run); the rest are set by the send, cancel and reopen actions or by
+// moving a draft in and out of PENDING on edit.
+import { InvoiceStatus } from "@prisma/client";
+
+const { DRAFT, PENDING, SENT, PAID, PARTIALLY_PAID, OVERDUE, CANCELLED } =
+  InvoiceStatus;
+
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  [DRAFT]: [PENDING, SENT, CANCELLED],
+  [PENDING]: [DRAFT, SENT, PARTIALLY_PAID, PAID, OVERDUE, CANCELLED],
+  [SENT]: [PARTIALLY_PAID, PAID, OVERDUE, CANCELLED],
+  [PARTIALLY_PAID]: [PAID, PENDING, OVERDUE],
+  [PAID]: [PARTIALLY_PAID, PENDING, OVERDUE],
+  [OVERDUE]: [PARTIALLY_PAID, PAID, CANCELLED],
+  [CANCELLED]: [DRAFT],
+};
+
+// Statuses the invoice form may set on create and edit
+export const EDITABLE_STATUSES: InvoiceStatus[] = [DRAFT, PENDING];
+
+export class InvoiceStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvoiceStatusError";
+  }
+}
+
+const label = (status: InvoiceStatus) => status.replace(/_/g, " ");
+
+export const canTransition = (from: InvoiceStatus, to: InvoiceStatus) =>
+  from === to || INVOICE_TRANSITIONS[from].includes(to);
+
+export const assertTransition = (from: InvoiceStatus, to: InvoiceStatus) => {
+  if (!canTransition(from, to)) {
+    throw new InvoiceStatusError(
+      `A ${label(from)} invoice cannot be moved to ${label(to)}`,
+    );
+  }
+};
+
+// Cancelling reverses the sale, so money taken against the invoice has to
+// be reversed or refunded first. Cheques still waiting to clear count as
+// money taken. Credit and debit notes adjust the sale, and their stock
+// returns, so they go first too.
+export const assertCancellable = (
+  invoice: {
+    status: InvoiceStatus;
+    paidAmount: any;
+    creditedAmount?: any;
+    debitedAmount?: any;
+  },
+  unclearedCheques = 0,
+) => {
+  assertTransition(invoice.status, CANCELLED);
+  if (Math.abs(Number(invoice.paidAmount)) > 0.005) {
+    throw new InvoiceStatusError(
+      "Reverse or refund the payments on this invoice before cancelling it",
+    );
+  }
+  if (Math.abs(unclearedCheques) > 0.005) {
+    throw new InvoiceStatusError(
+      "A cheque paid against this invoice has not cleared yet. Reverse that payment before cancelling the invoice",
+    );
+  }
+  if (
+    Math.abs(Number(invoice.creditedAmount || 0)) > 0.005 ||
+    Math.abs(Number(invoice.debitedAmount || 0)) > 0.005
+  ) {
+    throw new InvoiceStatusError(
+      "Delete the credit and debit notes on this invoice before cancelling it",
+    );
+  }
+};
@@ -0,0 +1,179 @@
+// Invoice creation shared by POST /invoices and recurring invoice runs
+import {
+  Customer,
+  InvoiceRevisionAction,
+  InvoiceStatus,
+  ItemUnit,
+  Prisma,
+} from "@prisma/client";
+import prisma from "./prisma.js";
+import { getCompanyProfile } from "./company.js";
+import {
+  calculateInvoiceItems,
+  isDiscountType,
+  isItemUnit,
+  lineDiscount,
+} from "./gst.js";
+import {
+  BASE_CURRENCY,
+  foreignPricing,
+  invoiceSupply,
+  rupeePricing,
+} from "./exportInvoices.js";
+import { nextDocumentNumber } from "./sequence.js";
+import { recordInvoiceRevision } from "./invoiceRevisions.js";
+
+// Invoice line columns beyond the tax calculation: unit of measure, the
+// line discount, the link back to the sales order line and the prices in
+// a foreign invoice currency
+export const invoiceLines = <T>(
+  processedItems: T[],
+  items: any[],
+  salesOrderId?: string | null,
+  foreignLines: object[] = [],
+) =>
+  processedItems.map((item, index) => {
+    const source = items[index];
+    const discountType = isDiscountType(source.discountType)
+      ? source.discountType
+      : null;
+    return {
+      ...item,
+      productId: source.productId || null,
+      unit: isItemUnit(source.unit) ? source.unit : ItemUnit.PCS,
+      discountType,
+      discountValue: discountType ? Number(source.discountValue || 0) : 0,
+      discountAmount: lineDiscount(source),
+      salesOrderItemId: salesOrderId ? source.salesOrderItemId || null : null,
+      ...foreignLines[index],
+    };
+  });
+
+export interface NewInvoice {
+  customer: Customer;
+  createdById: string;
+  issueDate: Date;
+  dueDate: Date;
+  items: any[];
+  discountRate?: number;
+  roundOff?: number;
+  // Round off in the invoice currency, for foreign currency invoices
+  foreignRoundOff?: number;
+  status?: InvoiceStatus;
+  // Header columns stored as given: notes, references, transport details
+  fields?: Partial<Prisma.InvoiceUncheckedCreateInput>;
+}
+
+const invoiceInclude = { customer: true, items: true } as const;
+
+export type CreatedInvoice = Prisma.InvoiceGetPayload<{
+  include: typeof invoiceInclude;
+}>;
+
+// Place of supply, GST split, totals and the invoice number. Number and
+// invoice are written together so the series has no gaps; `afterCreate`
+// runs in the same transaction for links back to the source document.
+export const createInvoice = async (
+  input: NewInvoice,
+  afterCreate?: (
+    tx: Prisma.TransactionClient,
+    invoice: CreatedInvoice,
+  ) => Promise<void>,
+) => {
+  const { customer, fields = {} } = input;
+  const currency = fields.currency || BASE_CURRENCY;
+  const priced = rupeePricing(input.items, {
+    currency,
+    exchangeRate: Number(fields.exchangeRate || 1),
+    roundOff: Number(input.roundOff || 0),
+    foreignRoundOff: Number(input.foreignRoundOff || 0),
+  });
+  const { items } = priced;
+
+  // Place of supply decides CGST+SGST (intra-state) vs IGST (inter-state)
+  const company = await getCompanyProfile();
+  const { placeOfSupply, isInterState, zeroRated } = invoiceSupply(
+    company.stateCode,
+    customer,
+    fields.exportType,
+  );
+
+  const {
+    processedItems,
+    subtotal,
+    taxAmount,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+  } = calculateInvoiceItems(items, isInterState, zeroRated);
+
+  const discountRate = Number(input.discountRate || 0);
+  const discountAmount = subtotal * (discountRate / 100);
+  const { roundOff } = priced;
+  const totalAmount = subtotal + taxAmount - discountAmount + roundOff;
+  const foreign = foreignPricing(items, {
+    currency,
+    isInterState,
+    zeroRated,
+    discountRate,
+    roundOff: Number(input.foreignRoundOff || 0),
+  });
+
+  return prisma.$transaction(async (tx) => {
+    const invoiceNumber = await nextDocumentNumber("invoice", {
+      client: tx,
+      date: input.issueDate,
+      taken: async (code) =>
+        Boolean(
+          await tx.invoice.findUnique({ where: { invoiceNumber: code } }),
+        ),
+    });
+
+    const created = await tx.invoice.create({
+      data: {
+        ...fields,
+        invoiceNumber,
+        customerId: customer.id,
+        createdById: input.createdById,
+        issueDate: input.issueDate,
+        dueDate: input.dueDate,
+        subtotal,
+        taxRate: 0, // No longer used globally, but kept for schema compatibility
+        taxAmount,
+        cgstAmount,
+        sgstAmount,
+        igstAmount,
+        placeOfSupply,
+        isInterState,
+        discountRate,
+        discountAmount,
+        roundOff,
+        totalAmount,
+        ...foreign.totals,
+        status: input.status || InvoiceStatus.DRAFT,
+        items: {
+          create: invoiceLines(
+            processedItems,
+            items,
+            fields.salesOrderId,
+            foreign.lines,
+          ),
+        },
+      },
+      include: invoiceInclude,
+    });
+
+    if (afterCreate) {
+      await afterCreate(tx, created);
+    }
+
+    await recordInvoiceRevision(
+      tx,
+      created.id,
+      input.createdById,
+      InvoiceRevisionAction.CREATED,
+    );
+
+    return created;
+  });
+};
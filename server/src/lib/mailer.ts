@@ -0,0 +1,129 @@
+// Outgoing email: SMTP transport, sender and the customer email templates.
+// For local testing point SMTP at a catcher such as Mailpit or MailHog
+// (localhost:1025, no TLS, no login).
+import nodemailer from "nodemailer";
+import prisma from "./prisma.js";
+
+export interface EmailSettings {
+  smtpHost: string;
+  smtpPort: number;
+  // Implicit TLS (usually port 465); STARTTLS is used when offered otherwise
+  smtpSecure: boolean;
+  smtpUser: string;
+  fromName: string;
+  fromAddress: string;
+  // Templates; {{placeholders}} are filled from the invoice
+  invoiceSubject: string;
+  invoiceBody: string;
+  reminderSubject: string;
+  reminderBody: string;
+}
+
+export const DEFAULT_EMAIL_SETTINGS: EmailSettings = {
+  smtpHost: process.env.SMTP_HOST || "",
+  smtpPort: Number(process.env.SMTP_PORT) || 587,
+  smtpSecure: process.env.SMTP_SECURE === "true",
+  smtpUser: process.env.SMTP_USER || "",
+  fromName: "",
+  fromAddress: process.env.MAIL_FROM || "",
+  invoiceSubject: "Invoice {{invoiceNumber}} from {{companyName}}",
+  invoiceBody: [
+    "Dear {{customerName}},",
+    "",
+    "Please find attached invoice {{invoiceNumber}} dated {{invoiceDate}} for Rs. {{totalAmount}}, due on {{dueDate}}.",
+    "",
+    "Regards,",
+    "{{companyName}}",
+  ].join("\n"),
+  reminderSubject: "Payment reminder: invoice {{invoiceNumber}}",
+  reminderBody: [
+    "Dear {{customerName}},",
+    "",
+    "This is a reminder that Rs. {{balanceDue}} is outstanding on invoice {{invoiceNumber}}, due on {{dueDate}}.",
+    "",
+    "Please ignore this message if you have already paid.",
+    "",
+    "Regards,",
+    "{{companyName}}",
+  ].join("\n"),
+};
+
+export const TEMPLATE_PLACEHOLDERS = [
+  "invoiceNumber",
+  "invoiceDate",
+  "dueDate",
+  "customerName",
+  "companyName",
+  "totalAmount",
+  "balanceDue",
+] as const;
+
+export type TemplateValues = Record<
+  (typeof TEMPLATE_PLACEHOLDERS)[number],
+  string
+>;
+
+// SMTP and template settings as saved from the Email tab in settings. The
+// SMTP password is only read from the environment (SMTP_PASS) so it never
+// sits in the settings table.
+export const getEmailSettings = async (): Promise<EmailSettings> => {
+  const setting = await prisma.setting.findUnique({
+    where: { key: "email" },
+  });
+  const saved = (setting?.value as Record<string, any>) || {};
+
+  return {
+    ...DEFAULT_EMAIL_SETTINGS,
+    ...Object.fromEntries(
+      Object.entries(saved).filter(
+        ([key, value]) =>
+          key in DEFAULT_EMAIL_SETTINGS && value !== "" && value !== null,
+      ),
+    ),
+    smtpPort: Number(saved.smtpPort) || DEFAULT_EMAIL_SETTINGS.smtpPort,
+    smtpSecure: saved.smtpSecure ?? DEFAULT_EMAIL_SETTINGS.smtpSecure,
+  };
+};
+
+export const isEmailConfigured = (settings: EmailSettings) =>
+  Boolean(settings.smtpHost && settings.fromAddress);
+
+export const renderTemplate = (template: string, values: TemplateValues) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key as keyof TemplateValues] : match,
+  );
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: Array<{
+    filename: string;
+    content: Buffer;
+    contentType?: string;
+  }>;
+}
+
+// Send one message. Resolves with the server's message id; SMTP errors are
+// thrown for the caller to record.
+export const sendEmail = async (
+  settings: EmailSettings,
+  email: OutgoingEmail,
+) => {
+  const transport = nodemailer.createTransport({
+    host: settings.smtpHost,
+    port: settings.smtpPort,
+    secure: settings.smtpSecure,
+    auth: settings.smtpUser
+      ? { user: settings.smtpUser, pass: process.env.SMTP_PASS || "" }
+      : undefined,
+  });
+
+  const info = await transport.sendMail({
+    from: settings.fromName
+      ? { name: settings.fromName, address: settings.fromAddress }
+      : settings.fromAddress,
+    ...email,
+  });
+  return info.messageId as string;
+};
@@ -0,0 +1,196 @@
+// Receivables ageing: what each customer owes, bucketed by days past due
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma.js";
+import { round2 } from "./gst.js";
+import { invoiceBalance } from "./invoiceBalance.js";
+import { OPEN_INVOICE_STATUSES } from "./customerReceipts.js";
+import { daysFromDue } from "./invoiceReminders.js";
+import { formatDateDMY, toCsv } from "./format.js";
+
+export const AGEING_BUCKETS = [
+  { key: "notDue", label: "Not Due" },
+  { key: "days0to30", label: "0-30 Days" },
+  { key: "days31to60", label: "31-60 Days" },
+  { key: "days61to90", label: "61-90 Days" },
+  { key: "days90plus", label: "90+ Days" },
+] as const;
+
+export type AgeingBucket = (typeof AGEING_BUCKETS)[number]["key"];
+
+export const isAgeingBucket = (value: unknown): value is AgeingBucket =>
+  AGEING_BUCKETS.some((bucket) => bucket.key === value);
+
+export const ageingBucket = (daysOverdue: number): AgeingBucket => {
+  if (daysOverdue < 0) return "notDue";
+  if (daysOverdue <= 30) return "days0to30";
+  if (daysOverdue <= 60) return "days31to60";
+  if (daysOverdue <= 90) return "days61to90";
+  return "days90plus";
+};
+
+type BucketTotals = Record<AgeingBucket, number> & { total: number };
+
+const emptyTotals = (): BucketTotals => ({
+  notDue: 0,
+  days0to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  days90plus: 0,
+  total: 0,
+});
+
+export interface AgeingInvoice {
+  id: string;
+  invoiceNumber: string;
+  issueDate: Date;
+  dueDate: Date;
+  status: string;
+  totalAmount: number;
+  balanceDue: number;
+  daysOverdue: number;
+  bucket: AgeingBucket;
+}
+
+export interface AgeingFilters {
+  customerId?: string;
+  city?: string;
+  asOf?: Date;
+}
+
+// Open invoices with a balance, grouped per customer, largest debtor first
+export const buildAgeingReport = async ({
+  customerId,
+  city,
+  asOf = new Date(),
+}: AgeingFilters = {}) => {
+  const customerWhere: Prisma.CustomerWhereInput = {};
+  if (city) customerWhere.city = { equals: city, mode: "insensitive" };
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      status: { in: OPEN_INVOICE_STATUSES },
+      customerId,
+      customer: customerWhere,
+    },
+    include: {
+      customer: {
+        select: { id: true, customerCode: true, name: true, city: true },
+      },
+    },
+    orderBy: { dueDate: "asc" },
+  });
+
+  const byCustomer = new Map<
+    string,
+    {
+      customer: (typeof invoices)[number]["customer"];
+      totals: BucketTotals;
+      invoices: AgeingInvoice[];
+    }
+  >();
+  const totals = emptyTotals();
+
+  for (const invoice of invoices) {
+    const balanceDue = invoiceBalance(invoice);
+    if (balanceDue <= 0) continue;
+
+    const daysOverdue = daysFromDue(invoice.dueDate, asOf);
+    const bucket = ageingBucket(daysOverdue);
+
+    let row = byCustomer.get(invoice.customerId);
+    if (!row) {
+      row = { customer: invoice.customer, totals: emptyTotals(), invoices: [] };
+      byCustomer.set(invoice.customerId, row);
+    }
+
+    row.invoices.push({
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      issueDate: invoice.issueDate,
+      dueDate: invoice.dueDate,
+      status: invoice.status,
+      totalAmount: Number(invoice.totalAmount),
+      balanceDue,
+      daysOverdue,
+      bucket,
+    });
+    row.totals[bucket] = round2(row.totals[bucket] + balanceDue);
+    row.totals.total = round2(row.totals.total + balanceDue);
+    totals[bucket] = round2(totals[bucket] + balanceDue);
+    totals.total = round2(totals.total + balanceDue);
+  }
+
+  const customers = [...byCustomer.values()]
+    .map(({ customer, totals, invoices }) => ({
+      customerId: customer.id,
+      customerCode: customer.customerCode,
+      name: customer.name,
+      city: customer.city,
+      ...totals,
+      invoices,
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  return { asOf, buckets: AGEING_BUCKETS, customers, totals };
+};
+
+export type AgeingReport = Awaited<ReturnType<typeof buildAgeingReport>>;
+
+// One row per customer with a grand total, or one row per invoice when
+// drilling into the detail
+export const ageingToCsv = (report: AgeingReport, detail = false) => {
+  if (detail) {
+    return toCsv(
+      [
+        "Customer Code",
+        "Customer",
+        "City",
+        "Invoice",
+        "Invoice Date",
+        "Due Date",
+        "Days Overdue",
+        "Bucket",
+        "Invoice Value",
+        "Balance Due",
+      ],
+      report.customers.flatMap((customer) =>
+        customer.invoices.map((invoice) => [
+          customer.customerCode,
+          customer.name,
+          customer.city || "",
+          invoice.invoiceNumber,
+          formatDateDMY(invoice.issueDate),
+          formatDateDMY(invoice.dueDate),
+          Math.max(invoice.daysOverdue, 0),
+          AGEING_BUCKETS.find((bucket) => bucket.key === invoice.bucket)!.label,
+          invoice.totalAmount.toFixed(2),
+          invoice.balanceDue.toFixed(2),
+        ]),
+      ),
+    );
+  }
+
+  const amounts = (totals: BucketTotals) => [
+    ...AGEING_BUCKETS.map((bucket) => totals[bucket.key].toFixed(2)),
+    totals.total.toFixed(2),
+  ];
+
+  return toCsv(
+    [
+      "Customer Code",
+      "Customer",
+      "City",
+      ...AGEING_BUCKETS.map((bucket) => bucket.label),
+      "Total",
+    ],
+    [
+      ...report.customers.map((customer) => [
+        customer.customerCode,
+        customer.name,
+        customer.city || "",
+        ...amounts(customer),
+      ]),
+      ["", "Total", "", ...amounts(report.totals)],
+    ],
+  );
+};
@@ -0,0 +1,174 @@
+// Recurring invoice schedule and generation
+import {
+  NotificationType,
+  Prisma,
+  RecurrenceFrequency,
+  RecurringInvoiceStatus,
+} from "@prisma/client";
+import prisma from "./prisma.js";
+import { createInvoice } from "./invoices.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+// Runs missed while the server was down are caught up, up to this many
+const MAX_CATCH_UP = 12;
+
+type Schedule = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: Date;
+  endDate: Date | null;
+};
+
+// Run dates are calendar days held at UTC midnight
+export const toRunDate = (value: string | Date) => {
+  const date = new Date(value);
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+};
+
+// The nth run counted from the start date. Monthly runs keep the start
+// day, falling back to the month end (31 Jan -> 28 Feb -> 31 Mar).
+const occurrence = (schedule: Schedule, n: number) => {
+  const start = schedule.startDate;
+  const step = Math.max(1, schedule.interval) * n;
+
+  if (schedule.frequency === RecurrenceFrequency.WEEKLY) {
+    return new Date(start.getTime() + step * 7 * DAY_MS);
+  }
+
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + step;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay)));
+};
+
+// First run on or after `date`, or null once past the end date
+export const runOnOrAfter = (schedule: Schedule, date: Date) => {
+  for (let n = 0; ; n++) {
+    const runDate = occurrence(schedule, n);
+    if (schedule.endDate && runDate > schedule.endDate) return null;
+    if (runDate >= date) return runDate;
+  }
+};
+
+export const runAfter = (schedule: Schedule, date: Date) =>
+  runOnOrAfter(schedule, new Date(date.getTime() + 1));
+
+// The next few runs, for the management screen
+export const upcomingRuns = (
+  schedule: Schedule & { nextRunDate: Date | null },
+  count = 3,
+) => {
+  const runs: Date[] = [];
+  let runDate = schedule.nextRunDate;
+  while (runDate && runs.length < count) {
+    runs.push(runDate);
+    runDate = runAfter(schedule, runDate);
+  }
+  return runs;
+};
+
+type TemplateWithItems = Prisma.RecurringInvoiceGetPayload<{
+  include: { customer: true; items: true };
+}>;
+
+// Raise one invoice for `runDate` and move the template on to its next run.
+// The template update only matches while nextRunDate is still `runDate`, so
+// two overlapping runs cannot bill the same date twice.
+const generateInvoice = async (template: TemplateWithItems, runDate: Date) => {
+  const nextRunDate = runAfter(template, runDate);
+
+  return createInvoice(
+    {
+      customer: template.customer,
+      createdById: template.createdById,
+      issueDate: runDate,
+      dueDate: new Date(runDate.getTime() + template.dueDays * DAY_MS),
+      items: template.items.map((item) => ({
+        productId: item.productId,
+        description: item.description,
+        hsnCode: item.hsnCode,
+        quantity: Number(item.quantity),
+        unit: item.unit,
+        unitPrice: Number(item.unitPrice),
+        discountType: item.discountType,
+        discountValue: Number(item.discountValue),
+        taxRate: Number(item.taxRate),
+      })),
+      discountRate: Number(template.discountRate),
+      status: template.invoiceStatus,
+      fields: {
+        notes: template.notes,
+        terms: template.terms,
+        recurringInvoiceId: template.id,
+      },
+    },
+    async (tx, invoice) => {
+      const { count } = await tx.recurringInvoice.updateMany({
+        where: {
+          id: template.id,
+          status: RecurringInvoiceStatus.ACTIVE,
+          nextRunDate: runDate,
+        },
+        data: {
+          lastRunDate: runDate,
+          nextRunDate,
+          status: nextRunDate ? undefined : RecurringInvoiceStatus.ENDED,
+        },
+      });
+      if (count === 0) {
+        throw new Error(`Recurring invoice ${template.id} already run`);
+      }
+
+      await tx.notification.create({
+        data: {
+          userId: template.createdById,
+          title: "Recurring invoice generated",
+          message: `${invoice.invoiceNumber} for ${template.customer.name} was created from "${template.name}".`,
+          type: NotificationType.INFO,
+          link: `/invoices/${invoice.id}`,
+        },
+      });
+    },
+  );
+};
+
+// Generate every invoice that has fallen due. Returns how many were raised.
+export const runRecurringInvoices = async (now = new Date()) => {
+  const templates = await prisma.recurringInvoice.findMany({
+    where: {
+      status: RecurringInvoiceStatus.ACTIVE,
+      nextRunDate: { lte: now },
+    },
+    include: { customer: true, items: true },
+  });
+
+  let generated = 0;
+  for (const template of templates) {
+    let runDate = template.nextRunDate;
+    for (let i = 0; runDate && runDate <= now && i < MAX_CATCH_UP; i++) {
+      try {
+        await generateInvoice(template, runDate);
+        generated++;
+      } catch (error) {
+        console.error("Recurring invoice run error:", error);
+        break;
+      }
+      runDate = runAfter(template, runDate);
+    }
+  }
+
+  return generated;
+};
+
+// Hourly run for a long-running server
+export const scheduleRecurringInvoices = () => {
+  const run = () =>
+    runRecurringInvoices().catch((error) =>
+      console.error("Recurring invoice run error:", error),
+    );
+  run();
+  return setInterval(run, RUN_INTERVAL_MS);
+};
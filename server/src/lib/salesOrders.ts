@@ -0,0 +1,132 @@
+// Sales order line progress: ordered vs dispatched vs invoiced
+import { InvoiceStatus, Prisma, SalesOrderStatus } from "@prisma/client";
+import prisma from "./prisma.js";
+import { round2 } from "./gst.js";
+
+// Invoice lines that count towards an order line; cancelled invoices do not
+export const orderItemInclude =
+  Prisma.validator<Prisma.SalesOrderItemInclude>()({
+    invoiceItems: {
+      where: { invoice: { status: { not: InvoiceStatus.CANCELLED } } },
+      select: { quantity: true, invoiceId: true },
+    },
+  });
+
+type OrderItemWithInvoices = Prisma.SalesOrderItemGetPayload<{
+  include: typeof orderItemInclude;
+}>;
+
+export const summariseOrderItem = (item: OrderItemWithInvoices) => {
+  const { invoiceItems, ...rest } = item;
+  const ordered = Number(item.quantity);
+  const dispatched = Number(item.dispatchedQty);
+  const invoiced = round2(
+    invoiceItems.reduce((sum, line) => sum + Number(line.quantity), 0),
+  );
+
+  return {
+    ...rest,
+    invoicedQty: invoiced,
+    pendingDispatchQty: Math.max(0, round2(ordered - dispatched)),
+    pendingInvoiceQty: Math.max(0, round2(ordered - invoiced)),
+  };
+};
+
+// Order with per-line progress and the value still to be invoiced
+export const summariseOrder = <T extends { items: OrderItemWithInvoices[] }>(
+  order: T,
+) => {
+  const items = order.items.map(summariseOrderItem);
+  const pendingAmount = round2(
+    items.reduce(
+      (sum, item) =>
+        sum +
+        item.pendingInvoiceQty *
+          Number(item.unitPrice) *
+          (1 + Number(item.taxRate) / 100),
+      0,
+    ),
+  );
+
+  return { ...order, items, pendingAmount };
+};
+
+export const fulfilmentStatus = (
+  items: ReturnType<typeof summariseOrderItem>[],
+) => {
+  if (
+    items.every(
+      (item) => item.pendingDispatchQty === 0 && item.pendingInvoiceQty === 0,
+    )
+  ) {
+    return SalesOrderStatus.COMPLETED;
+  }
+  if (
+    items.some((item) => Number(item.dispatchedQty) > 0 || item.invoicedQty > 0)
+  ) {
+    return SalesOrderStatus.PARTIALLY_FULFILLED;
+  }
+  return SalesOrderStatus.OPEN;
+};
+
+// Re-derive the order status after a dispatch or an invoice change
+export const refreshOrderStatus = async (
+  salesOrderId: string,
+  client: Prisma.TransactionClient = prisma,
+) => {
+  const order = await client.salesOrder.findUnique({
+    where: { id: salesOrderId },
+    include: { items: { include: orderItemInclude } },
+  });
+  if (!order || order.status === SalesOrderStatus.CANCELLED) return;
+
+  const status = fulfilmentStatus(order.items.map(summariseOrderItem));
+  if (status !== order.status) {
+    await client.salesOrder.update({
+      where: { id: salesOrderId },
+      data: { status },
+    });
+  }
+};
+
+// Check invoice lines against what is still to be invoiced on the order.
+// Returns an error message, or null when the quantities fit.
+export const checkOrderQuantities = async (
+  salesOrderId: string,
+  items: Array<{ salesOrderItemId?: string | null; quantity: any }>,
+  excludeInvoiceId?: string,
+) => {
+  const orderItems = await prisma.salesOrderItem.findMany({
+    where: { salesOrderId },
+    include: {
+      invoiceItems: {
+        where: {
+          invoice: {
+            status: { not: InvoiceStatus.CANCELLED },
+            id: excludeInvoiceId ? { not: excludeInvoiceId } : undefined,
+          },
+        },
+        select: { quantity: true, invoiceId: true },
+      },
+    },
+  });
+
+  const requested: Record<string, number> = {};
+  for (const item of items) {
+    if (!item.salesOrderItemId) continue;
+    requested[item.salesOrderItemId] =
+      (requested[item.salesOrderItemId] || 0) + Number(item.quantity);
+  }
+
+  for (const [orderItemId, quantity] of Object.entries(requested)) {
+    const orderItem = orderItems.find((i) => i.id === orderItemId);
+    if (!orderItem) return "Invoice line does not belong to the sales order";
+
+    const { pendingInvoiceQty } = summariseOrderItem(orderItem);
+    if (quantity > pendingInvoiceQty + 0.001) {
+      return `${orderItem.description}: only ${pendingInvoiceQty} left to invoice`;
+    }
+  }
+
+  return null;
+};
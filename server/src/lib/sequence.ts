@@ -0,0 +1,172 @@
+// Document numbering backed by the DocumentSequence counter table
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma.js";
+
+export type SequenceSeries =
+  | "invoice"
+  | "purchaseOrder"
+  | "creditNote"
+  | "debitNote"
+  | "quotation"
+  | "salesOrder"
+  | "receipt"
+  | "material"
+  | "employee"
+  | "measurement"
+  | "customer"
+  | "supplier"
+  | "machine";
+
+// Tokens: {PREFIX}, {FY} (25-26), {YYYY}, {YY}, {MM} and {SEQ} or {SEQ:n}
+// for a sequence zero-padded to n digits. The counter resets whenever the
+// financial year (or month/year, if the pattern uses those) changes.
+export const DEFAULT_PATTERNS: Record<SequenceSeries, string> = {
+  invoice: "{PREFIX}{FY}/{SEQ:4}",
+  purchaseOrder: "{PREFIX}{FY}/{SEQ:4}",
+  creditNote: "CN/{FY}/{SEQ:4}",
+  debitNote: "DN/{FY}/{SEQ:4}",
+  quotation: "QTN/{FY}/{SEQ:4}",
+  salesOrder: "SO/{FY}/{SEQ:4}",
+  receipt: "RCT/{FY}/{SEQ:4}",
+  material: "MAT{SEQ:4}",
+  employee: "EMP{SEQ:4}",
+  measurement: "MSR{SEQ:5}",
+  customer: "CUST{SEQ:4}",
+  supplier: "SUP{SEQ:4}",
+  machine: "MCH{SEQ:4}",
+};
+
+export const DEFAULT_PREFIXES: Partial<Record<SequenceSeries, string>> = {
+  invoice: "INV/",
+  purchaseOrder: "PO/",
+};
+
+// Series whose prefix and pattern come from the "invoice" setting
+const CONFIGURABLE: Partial<
+  Record<SequenceSeries, { prefix: string; pattern: string }>
+> = {
+  invoice: { prefix: "invoicePrefix", pattern: "invoiceNumberFormat" },
+  purchaseOrder: { prefix: "poPrefix", pattern: "poNumberFormat" },
+};
+
+const SEQ_TOKEN = /\{SEQ(?::(\d+))?\}/;
+
+const IST_OFFSET_MS = 330 * 60000;
+
+// Calendar parts of a date in IST, so numbering follows the Indian day
+export const istParts = (date: Date) => {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  return {
+    year: ist.getUTCFullYear(),
+    month: ist.getUTCMonth() + 1,
+    day: ist.getUTCDate(),
+  };
+};
+
+// Midnight IST at the start of a month (1-12, running on into the next
+// year past 12), for filtering by GST period
+export const istMonthStart = (year: number, month: number) =>
+  new Date(Date.UTC(year, month - 1, 1) - IST_OFFSET_MS);
+
+// Midnight IST at the start of the Indian day the date falls on, moved
+// on by `days`
+export const istDayStart = (date: Date, days = 0) => {
+  const { year, month, day } = istParts(date);
+  return new Date(Date.UTC(year, month - 1, day + days) - IST_OFFSET_MS);
+};
+
+// Indian financial year (April-March) label, e.g. 25-26
+export const financialYearLabel = (date: Date) => {
+  const { year, month } = istParts(date);
+  const start = month >= 4 ? year : year - 1;
+  return `${String(start).slice(2)}-${String(start + 1).slice(2)}`;
+};
+
+// Counter bucket: the smallest period the pattern shows
+const periodKey = (pattern: string, date: Date) => {
+  const { year, month } = istParts(date);
+  if (pattern.includes("{MM}")) {
+    return `${year}-${String(month).padStart(2, "0")}`;
+  }
+  if (pattern.includes("{FY}")) return `FY${financialYearLabel(date)}`;
+  if (pattern.includes("{YYYY}") || pattern.includes("{YY}")) {
+    return String(year);
+  }
+  return "ALL";
+};
+
+export const formatDocumentNumber = (
+  pattern: string,
+  options: { prefix?: string; date: Date; value: number },
+) => {
+  const { year, month } = istParts(options.date);
+  return pattern
+    .replace("{PREFIX}", options.prefix || "")
+    .replace("{FY}", financialYearLabel(options.date))
+    .replace("{YYYY}", String(year))
+    .replace("{YY}", String(year).slice(2))
+    .replace("{MM}", String(month).padStart(2, "0"))
+    .replace(SEQ_TOKEN, (_, width) =>
+      String(options.value).padStart(Number(width || 4), "0"),
+    );
+};
+
+// Patterns need a sequence token, otherwise every number would be the same
+export const isValidPattern = (pattern: string) => SEQ_TOKEN.test(pattern);
+
+const seriesFormat = async (series: SequenceSeries) => {
+  const keys = CONFIGURABLE[series];
+  if (!keys) return { pattern: DEFAULT_PATTERNS[series], prefix: "" };
+
+  const setting = await prisma.setting.findUnique({
+    where: { key: "invoice" },
+  });
+  const saved = (setting?.value as Record<string, any>) || {};
+  const pattern = String(saved[keys.pattern] || "").trim();
+
+  return {
+    pattern: isValidPattern(pattern) ? pattern : DEFAULT_PATTERNS[series],
+    prefix: String(saved[keys.prefix] ?? DEFAULT_PREFIXES[series] ?? "").trim(),
+  };
+};
+
+// Atomically take the next value. The upsert locks the series row, so
+// concurrent requests queue up instead of reading the same last number.
+const incrementCounter = async (
+  client: Prisma.TransactionClient,
+  series: string,
+  period: string,
+) => {
+  const rows = await client.$queryRaw<Array<{ lastValue: number }>>`
+    INSERT INTO "DocumentSequence" ("series", "period", "lastValue", "updatedAt")
+    VALUES (${series}, ${period}, 1, NOW())
+    ON CONFLICT ("series", "period")
+    DO UPDATE SET "lastValue" = "DocumentSequence"."lastValue" + 1,
+                  "updatedAt" = NOW()
+    RETURNING "lastValue"`;
+  return Number(rows[0].lastValue);
+};
+
+// Next document number for a series. Pass the transaction client when the
+// document is created in one, so a failed insert does not burn a number.
+// `taken` lets callers skip numbers that already exist, e.g. rows created
+// before the counter or by the seed script.
+export const nextDocumentNumber = async (
+  series: SequenceSeries,
+  options: {
+    client?: Prisma.TransactionClient;
+    date?: Date;
+    taken?: (code: string) => Promise<boolean>;
+  } = {},
+) => {
+  const client = options.client || prisma;
+  const date = options.date || new Date();
+  const { pattern, prefix } = await seriesFormat(series);
+  const period = periodKey(pattern, date);
+
+  for (;;) {
+    const value = await incrementCounter(client, series, period);
+    const code = formatDocumentNumber(pattern, { prefix, date, value });
+    if (!options.taken || !(await options.taken(code))) return code;
+  }
+};
@@ -0,0 +1,196 @@
+import PDFDocument from "pdfkit";
+import { CompanyProfile } from "./company.js";
+import { formatAmount, formatDate } from "./format.js";
+import { CustomerLedger, drCr } from "./customerLedger.js";
+import {
+  Column,
+  CONTENT_WIDTH,
+  drawRow,
+  ensureSpace,
+  FONT,
+  FONT_BOLD,
+  PAGE_MARGIN,
+} from "./invoicePdf.js";
+
+const COLUMNS: Column[] = [
+  { label: "Date", width: 62 },
+  { label: "Reference", width: 85 },
+  { label: "Particulars", width: CONTENT_WIDTH - 62 - 85 - 70 * 3 },
+  { label: "Debit", width: 70, align: "right" },
+  { label: "Credit", width: 70, align: "right" },
+  { label: "Balance", width: 70, align: "right" },
+];
+
+const periodLabel = (ledger: CustomerLedger) =>
+  [
+    ledger.from ? formatDate(ledger.from) : "Beginning",
+    ledger.to ? formatDate(ledger.to) : formatDate(new Date()),
+  ].join(" to ");
+
+// Statement of account on A4, in the same table style as the invoice PDF
+export const renderStatementPdf = (
+  ledger: CustomerLedger,
+  company: CompanyProfile,
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const { customer } = ledger;
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `Statement of Account - ${customer.name}`,
+        Author: company.companyName,
+        Subject: "Statement of Account",
+        Creator: company.companyName,
+        Producer: company.companyName,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.lineWidth(0.5);
+
+    // Company and statement heading
+    doc
+      .font(FONT_BOLD)
+      .fontSize(12)
+      .text(company.companyName.toUpperCase(), PAGE_MARGIN, PAGE_MARGIN, {
+        width: CONTENT_WIDTH,
+        align: "center",
+      });
+    doc
+      .font(FONT)
+      .fontSize(8)
+      .text(
+        [
+          company.address,
+          [company.city, company.state, company.pincode]
+            .filter(Boolean)
+            .join(", "),
+          company.gstNumber ? `GSTIN: ${company.gstNumber}` : "",
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        { width: CONTENT_WIDTH, align: "center" },
+      );
+    doc
+      .moveDown(0.6)
+      .font(FONT_BOLD)
+      .fontSize(11)
+      .text("STATEMENT OF ACCOUNT", { width: CONTENT_WIDTH, align: "center" });
+
+    // Customer and period
+    let y = doc.y + 8;
+    const half = CONTENT_WIDTH / 2;
+    doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 52).stroke();
+    doc
+      .font(FONT_BOLD)
+      .fontSize(9)
+      .text(customer.name, PAGE_MARGIN + 4, y + 4, { width: half - 8 });
+    doc
+      .font(FONT)
+      .fontSize(7.5)
+      .text(
+        [
+          customer.address,
+          [customer.city, customer.state, customer.pincode]
+            .filter(Boolean)
+            .join(", "),
+          customer.gstNumber ? `GSTIN: ${customer.gstNumber}` : "",
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        { width: half - 8, height: 36 },
+      );
+    doc
+      .font(FONT)
+      .fontSize(8)
+      .text(
+        [
+          `Customer Code: ${customer.customerCode}`,
+          `Period: ${periodLabel(ledger)}`,
+          `Closing Balance: Rs. ${drCr(ledger.closingBalance)}`,
+        ].join("\n"),
+        PAGE_MARGIN + half + 4,
+        y + 4,
+        { width: half - 8, align: "right" },
+      );
+    y += 60;
+
+    const header = () =>
+      drawRow(
+        doc,
+        COLUMNS,
+        COLUMNS.map((col) => col.label),
+        y,
+        { bold: true },
+      );
+    y = header();
+
+    y = drawRow(
+      doc,
+      COLUMNS,
+      [
+        ledger.from ? formatDate(ledger.from) : "",
+        "",
+        "Opening Balance",
+        "",
+        "",
+        drCr(ledger.openingBalance),
+      ],
+      y,
+      { bold: true },
+    );
+
+    for (const entry of ledger.entries) {
+      const nextY = ensureSpace(doc, y, 28);
+      if (nextY !== y) {
+        y = nextY;
+        y = header();
+      }
+      y = drawRow(
+        doc,
+        COLUMNS,
+        [
+          formatDate(entry.date),
+          entry.reference,
+          entry.description,
+          entry.debit ? formatAmount(entry.debit) : "",
+          entry.credit ? formatAmount(entry.credit) : "",
+          drCr(entry.balance),
+        ],
+        y,
+      );
+    }
+
+    y = ensureSpace(doc, y, 28);
+    y = drawRow(
+      doc,
+      COLUMNS,
+      [
+        "",
+        "",
+        "Closing Balance",
+        formatAmount(ledger.totalDebit),
+        formatAmount(ledger.totalCredit),
+        drCr(ledger.closingBalance),
+      ],
+      y,
+      { bold: true },
+    );
+
+    doc
+      .font(FONT)
+      .fontSize(7)
+      .text(
+        "Dr: amount due from you. Cr: amount held to your credit. Please report any discrepancy within 15 days.",
+        PAGE_MARGIN,
+        y + 8,
+        { width: CONTENT_WIDTH },
+      );
+
+    doc.end();
+  });
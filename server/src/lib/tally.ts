@@ -0,0 +1,575 @@
+// Tally Prime / ERP 9 voucher export for the accountant's books
+import {
+  ChequeStatus,
+  InvoiceStatus,
+  PaymentMethod,
+  PaymentType,
+  POStatus,
+  TallyExportVoucher,
+  TallyVoucherType,
+} from "@prisma/client";
+import prisma from "./prisma.js";
+import { isInterStateSupply, resolveStateCode, round2 } from "./gst.js";
+import { getCompanyProfile } from "./company.js";
+import { formatDateDMY } from "./format.js";
+
+export interface TallySettings {
+  // `{rate}` is replaced with the GST rate, e.g. "Sales @ {rate}%" gives
+  // "Sales @ 12%"; tax ledgers get the CGST/SGST half rate
+  salesLedger: string;
+  outputCgstLedger: string;
+  outputSgstLedger: string;
+  outputIgstLedger: string;
+  purchaseLedger: string;
+  inputCgstLedger: string;
+  inputSgstLedger: string;
+  inputIgstLedger: string;
+  discountLedger: string;
+  freightLedger: string;
+  roundOffLedger: string;
+  cashLedger: string;
+  bankLedger: string;
+  // Customer or supplier code to Tally ledger name; parties without an
+  // entry are posted to a ledger named after them
+  partyLedgers: Record<string, string>;
+}
+
+export const DEFAULT_TALLY_SETTINGS: TallySettings = {
+  salesLedger: "Sales @ {rate}%",
+  outputCgstLedger: "Output CGST @ {rate}%",
+  outputSgstLedger: "Output SGST @ {rate}%",
+  outputIgstLedger: "Output IGST @ {rate}%",
+  purchaseLedger: "Purchase @ {rate}%",
+  inputCgstLedger: "Input CGST @ {rate}%",
+  inputSgstLedger: "Input SGST @ {rate}%",
+  inputIgstLedger: "Input IGST @ {rate}%",
+  discountLedger: "Discount Allowed",
+  freightLedger: "Freight Inward",
+  roundOffLedger: "Round Off",
+  cashLedger: "Cash",
+  bankLedger: "Bank",
+  partyLedgers: {},
+};
+
+// Ledger mapping as saved from the Tally export page
+export const getTallySettings = async (): Promise<TallySettings> => {
+  const setting = await prisma.setting.findUnique({ where: { key: "tally" } });
+  const saved = (setting?.value as Record<string, any>) || {};
+
+  const settings = { ...DEFAULT_TALLY_SETTINGS };
+  (Object.keys(settings) as Array<keyof TallySettings>).forEach((key) => {
+    if (key !== "partyLedgers" && typeof saved[key] === "string") {
+      const name = saved[key].trim();
+      if (name) settings[key] = name;
+    }
+  });
+
+  const partyLedgers: Record<string, string> = {};
+  Object.entries(saved.partyLedgers || {}).forEach(([code, ledger]) => {
+    if (typeof ledger === "string" && ledger.trim()) {
+      partyLedgers[code.trim()] = ledger.trim();
+    }
+  });
+
+  return { ...settings, partyLedgers };
+};
+
+export const isTallyVoucherType = (type: unknown): type is TallyVoucherType =>
+  Object.values(TallyVoucherType).includes(type as TallyVoucherType);
+
+// Positive amounts are debits, negative amounts credits
+interface TallyLedgerEntry {
+  ledger: string;
+  amount: number;
+  // Bill-wise reference for party ledgers
+  bill?: { type: "New Ref" | "Agst Ref" | "On Account"; name: string };
+}
+
+export interface TallyVoucher {
+  type: TallyVoucherType;
+  documentId: string;
+  number: string;
+  date: Date;
+  partyLedger: string;
+  narration: string;
+  amount: number;
+  entries: TallyLedgerEntry[];
+}
+
+const VOUCHER_TYPE_NAMES: Record<TallyVoucherType, string> = {
+  SALES: "Sales",
+  RECEIPT: "Receipt",
+  PAYMENT: "Payment",
+  PURCHASE: "Purchase",
+};
+
+// "Sales @ {rate}%" with 2.5 gives "Sales @ 2.5%"
+const rateLedger = (pattern: string, rate: number) =>
+  pattern.replace(/\{rate\}/g, String(round2(rate)));
+
+const partyLedger = (
+  settings: TallySettings,
+  party: { code: string; name: string },
+) => settings.partyLedgers[party.code] || party.name;
+
+const moneyLedger = (settings: TallySettings, method: PaymentMethod) =>
+  method === PaymentMethod.CASH ? settings.cashLedger : settings.bankLedger;
+
+// Add to a ledger's running total, keeping entries in first-seen order
+const addEntry = (
+  entries: TallyLedgerEntry[],
+  ledger: string,
+  amount: number,
+) => {
+  if (round2(amount) === 0) return;
+  const existing = entries.find((entry) => entry.ledger === ledger);
+  if (existing) existing.amount = round2(existing.amount + amount);
+  else entries.push({ ledger, amount: round2(amount) });
+};
+
+// Whatever keeps the voucher from balancing goes to round-off, so the party
+// is always posted with the document total
+const balanceWithRoundOff = (
+  entries: TallyLedgerEntry[],
+  settings: TallySettings,
+) => {
+  const difference = round2(
+    entries.reduce((sum, entry) => sum + entry.amount, 0),
+  );
+  addEntry(entries, settings.roundOffLedger, -difference);
+  return entries.filter((entry) => round2(entry.amount) !== 0);
+};
+
+interface VoucherRange {
+  from: Date;
+  to: Date;
+}
+
+const salesVouchers = async (
+  range: VoucherRange,
+  settings: TallySettings,
+): Promise<TallyVoucher[]> => {
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      status: { notIn: [InvoiceStatus.DRAFT, InvoiceStatus.CANCELLED] },
+      issueDate: { gte: range.from, lte: range.to },
+    },
+    include: { customer: true, items: true },
+    orderBy: { issueDate: "asc" },
+  });
+
+  return invoices.map((invoice) => {
+    const party = partyLedger(settings, {
+      code: invoice.customer.customerCode,
+      name: invoice.customer.name,
+    });
+    const total = Number(invoice.totalAmount);
+    const entries: TallyLedgerEntry[] = [
+      {
+        ledger: party,
+        amount: total,
+        bill: { type: "New Ref", name: invoice.invoiceNumber },
+      },
+    ];
+
+    invoice.items.forEach((item) => {
+      const rate = Number(item.taxRate);
+      addEntry(
+        entries,
+        rateLedger(settings.salesLedger, rate),
+        -Number(item.amount),
+      );
+      addEntry(
+        entries,
+        rateLedger(settings.outputCgstLedger, rate / 2),
+        -Number(item.cgstAmount),
+      );
+      addEntry(
+        entries,
+        rateLedger(settings.outputSgstLedger, rate / 2),
+        -Number(item.sgstAmount),
+      );
+      addEntry(
+        entries,
+        rateLedger(settings.outputIgstLedger, rate),
+        -Number(item.igstAmount),
+      );
+    });
+    addEntry(entries, settings.discountLedger, Number(invoice.discountAmount));
+
+    return {
+      type: TallyVoucherType.SALES,
+      documentId: invoice.id,
+      number: invoice.invoiceNumber,
+      date: invoice.issueDate,
+      partyLedger: party,
+      narration: [
+        `Sales invoice ${invoice.invoiceNumber}`,
+        invoice.buyersOrderNo && `Order ${invoice.buyersOrderNo}`,
+      ]
+        .filter(Boolean)
+        .join(", "),
+      amount: total,
+      entries: balanceWithRoundOff(entries, settings),
+    };
+  });
+};
+
+// Money received against invoices and on account, and refunds or bounced
+// payments going back out. Allocations of an on-account receipt to invoices
+// are not exported again; the receipt already carries the money, and a
+// bounced receipt cheque is reversed with a voucher of its own.
+const moneyVouchers = async (
+  range: VoucherRange,
+  settings: TallySettings,
+): Promise<TallyVoucher[]> => {
+  const [payments, receipts, bounced] = await Promise.all([
+    prisma.payment.findMany({
+      where: {
+        receiptId: null,
+        invoice: { status: { not: InvoiceStatus.DRAFT } },
+        paidAt: { gte: range.from, lte: range.to },
+      },
+      include: { invoice: { include: { customer: true } } },
+      orderBy: { paidAt: "asc" },
+    }),
+    prisma.customerReceipt.findMany({
+      where: { receivedAt: { gte: range.from, lte: range.to } },
+      include: { customer: true },
+      orderBy: { receivedAt: "asc" },
+    }),
+    prisma.cheque.findMany({
+      where: {
+        status: ChequeStatus.BOUNCED,
+        bouncedAt: { gte: range.from, lte: range.to },
+        receipt: { isNot: null },
+      },
+      include: { customer: true, receipt: true },
+      orderBy: { bouncedAt: "asc" },
+    }),
+  ]);
+
+  const fromPayments = payments.map((payment) => {
+    const { invoice } = payment;
+    const party = partyLedger(settings, {
+      code: invoice.customer.customerCode,
+      name: invoice.customer.name,
+    });
+    const amount = Number(payment.amount);
+    const isReceipt = payment.type === PaymentType.RECEIPT;
+    const bill = { type: "Agst Ref" as const, name: invoice.invoiceNumber };
+    const label =
+      payment.type === PaymentType.REFUND
+        ? "Refund"
+        : payment.type === PaymentType.REVERSAL
+          ? "Payment reversed"
+          : "Payment";
+
+    return {
+      type: isReceipt ? TallyVoucherType.RECEIPT : TallyVoucherType.PAYMENT,
+      documentId: payment.id,
+      number: payment.reference || `${invoice.invoiceNumber}-${label}`,
+      date: payment.paidAt,
+      partyLedger: party,
+      narration: [
+        `${label} for ${invoice.invoiceNumber}`,
+        payment.method.replace(/_/g, " "),
+        payment.reason,
+      ]
+        .filter(Boolean)
+        .join(", "),
+      amount,
+      entries: isReceipt
+        ? [
+            { ledger: moneyLedger(settings, payment.method), amount },
+            { ledger: party, amount: -amount, bill },
+          ]
+        : [
+            { ledger: party, amount, bill },
+            { ledger: moneyLedger(settings, payment.method), amount: -amount },
+          ],
+    };
+  });
+
+  const fromReceipts = receipts.map((receipt) => {
+    const party = partyLedger(settings, {
+      code: receipt.customer.customerCode,
+      name: receipt.customer.name,
+    });
+    const amount = Number(receipt.amount);
+
+    return {
+      type: TallyVoucherType.RECEIPT,
+      documentId: receipt.id,
+      number: receipt.receiptNumber,
+      date: receipt.receivedAt,
+      partyLedger: party,
+      narration: [
+        `Receipt ${receipt.receiptNumber}`,
+        receipt.method.replace(/_/g, " "),
+        receipt.reference,
+      ]
+        .filter(Boolean)
+        .join(", "),
+      amount,
+      entries: [
+        { ledger: moneyLedger(settings, receipt.method), amount },
+        {
+          ledger: party,
+          amount: -amount,
+          bill: { type: "On Account" as const, name: receipt.receiptNumber },
+        },
+      ],
+    };
+  });
+
+  const fromBounces = bounced.map((cheque) => {
+    const receipt = cheque.receipt!;
+    const party = partyLedger(settings, {
+      code: cheque.customer.customerCode,
+      name: cheque.customer.name,
+    });
+    const amount = Number(cheque.amount);
+
+    return {
+      type: TallyVoucherType.PAYMENT,
+      documentId: cheque.id,
+      number: `${receipt.receiptNumber}-Bounced`,
+      date: cheque.bouncedAt!,
+      partyLedger: party,
+      narration: [
+        `Cheque ${cheque.chequeNumber} (${cheque.bankName}) bounced`,
+        `receipt ${receipt.receiptNumber}`,
+        cheque.bounceReason,
+      ]
+        .filter(Boolean)
+        .join(", "),
+      amount,
+      entries: [
+        {
+          ledger: party,
+          amount,
+          bill: { type: "On Account" as const, name: receipt.receiptNumber },
+        },
+        { ledger: moneyLedger(settings, receipt.method), amount: -amount },
+      ],
+    };
+  });
+
+  return [...fromPayments, ...fromReceipts, ...fromBounces];
+};
+
+// Purchase orders booked when the goods have been fully received
+const purchaseVouchers = async (
+  range: VoucherRange,
+  settings: TallySettings,
+): Promise<TallyVoucher[]> => {
+  const [orders, company] = await Promise.all([
+    prisma.purchaseOrder.findMany({
+      where: {
+        status: POStatus.RECEIVED,
+        receivedDate: { gte: range.from, lte: range.to },
+      },
+      include: { supplier: true },
+      orderBy: { receivedDate: "asc" },
+    }),
+    getCompanyProfile(),
+  ]);
+
+  return orders.map((order) => {
+    const party = partyLedger(settings, {
+      code: order.supplier.supplierCode,
+      name: order.supplier.name,
+    });
+    const rate = Number(order.taxRate);
+    const taxAmount = Number(order.taxAmount);
+    const total = Number(order.totalAmount);
+    const isInterState = isInterStateSupply(
+      company.stateCode,
+      resolveStateCode(order.supplier.gstNumber, order.supplier.state),
+    );
+    const cgstAmount = isInterState ? 0 : round2(taxAmount / 2);
+
+    const entries: TallyLedgerEntry[] = [
+      {
+        ledger: party,
+        amount: -total,
+        bill: { type: "New Ref", name: order.poNumber },
+      },
+    ];
+    addEntry(
+      entries,
+      rateLedger(settings.purchaseLedger, rate),
+      Number(order.subtotal),
+    );
+    if (isInterState) {
+      addEntry(entries, rateLedger(settings.inputIgstLedger, rate), taxAmount);
+    } else {
+      addEntry(
+        entries,
+        rateLedger(settings.inputCgstLedger, rate / 2),
+        cgstAmount,
+      );
+      addEntry(
+        entries,
+        rateLedger(settings.inputSgstLedger, rate / 2),
+        round2(taxAmount - cgstAmount),
+      );
+    }
+    addEntry(entries, settings.freightLedger, Number(order.shippingCost));
+
+    return {
+      type: TallyVoucherType.PURCHASE,
+      documentId: order.id,
+      number: order.poNumber,
+      date: order.receivedDate!,
+      partyLedger: party,
+      narration: `Purchase order ${order.poNumber}`,
+      amount: total,
+      entries: balanceWithRoundOff(entries, settings),
+    };
+  });
+};
+
+// Vouchers of the requested types dated within the range, oldest first
+export const collectTallyVouchers = async (
+  range: VoucherRange,
+  types: TallyVoucherType[],
+) => {
+  const settings = await getTallySettings();
+  const wantMoney =
+    types.includes(TallyVoucherType.RECEIPT) ||
+    types.includes(TallyVoucherType.PAYMENT);
+
+  const groups = await Promise.all([
+    types.includes(TallyVoucherType.SALES)
+      ? salesVouchers(range, settings)
+      : [],
+    wantMoney ? moneyVouchers(range, settings) : [],
+    types.includes(TallyVoucherType.PURCHASE)
+      ? purchaseVouchers(range, settings)
+      : [],
+  ]);
+
+  return groups
+    .flat()
+    .filter((voucher) => types.includes(voucher.type))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// Sales vouchers exported before whose invoice has since been cancelled and
+// not yet deleted in Tally, whatever their date
+export const collectCancelledVouchers = async (
+  types: TallyVoucherType[],
+): Promise<TallyExportVoucher[]> => {
+  if (!types.includes(TallyVoucherType.SALES)) return [];
+
+  const cancelled = await prisma.invoice.findMany({
+    where: { status: InvoiceStatus.CANCELLED },
+    select: { id: true },
+  });
+  if (cancelled.length === 0) return [];
+
+  return prisma.tallyExportVoucher.findMany({
+    where: {
+      voucherType: TallyVoucherType.SALES,
+      documentId: { in: cancelled.map((invoice) => invoice.id) },
+      deletedAt: null,
+    },
+    orderBy: { voucherDate: "asc" },
+  });
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// YYYYMMDD in IST
+const tallyDate = (date: Date) =>
+  formatDateDMY(date, "-").split("-").reverse().join("");
+
+// Tally shows debits as negative amounts with ISDEEMEDPOSITIVE set
+const ledgerEntryXml = (entry: TallyLedgerEntry) => {
+  const isDebit = entry.amount > 0;
+  const amount = (-entry.amount).toFixed(2);
+  const bill = entry.bill
+    ? `
+      <BILLALLOCATIONS.LIST>
+        <NAME>${escapeXml(entry.bill.name)}</NAME>
+        <BILLTYPE>${entry.bill.type}</BILLTYPE>
+        <AMOUNT>${amount}</AMOUNT>
+      </BILLALLOCATIONS.LIST>`
+    : "";
+
+  return `
+     <ALLLEDGERENTRIES.LIST>
+      <LEDGERNAME>${escapeXml(entry.ledger)}</LEDGERNAME>
+      <ISDEEMEDPOSITIVE>${isDebit ? "Yes" : "No"}</ISDEEMEDPOSITIVE>
+      <AMOUNT>${amount}</AMOUNT>${bill}
+     </ALLLEDGERENTRIES.LIST>`;
+};
+
+// The document id is sent as the voucher's REMOTEID, so importing a voucher
+// again alters it in Tally instead of creating a duplicate
+const voucherXml = (voucher: TallyVoucher, alter: boolean) => {
+  const typeName = VOUCHER_TYPE_NAMES[voucher.type];
+  return `
+   <TALLYMESSAGE xmlns:UDF="TallyUDF">
+    <VOUCHER REMOTEID="${voucher.documentId}" VCHTYPE="${typeName}" ACTION="${alter ? "Alter" : "Create"}">
+     <DATE>${tallyDate(voucher.date)}</DATE>
+     <VOUCHERTYPENAME>${typeName}</VOUCHERTYPENAME>
+     <VOUCHERNUMBER>${escapeXml(voucher.number)}</VOUCHERNUMBER>
+     <PARTYLEDGERNAME>${escapeXml(voucher.partyLedger)}</PARTYLEDGERNAME>
+     <NARRATION>${escapeXml(voucher.narration)}</NARRATION>${voucher.entries
+       .map(ledgerEntryXml)
+       .join("")}
+    </VOUCHER>
+   </TALLYMESSAGE>`;
+};
+
+// Removes a voucher imported earlier, matched on its REMOTEID
+const deletionXml = (voucher: TallyExportVoucher) => {
+  const typeName = VOUCHER_TYPE_NAMES[voucher.voucherType];
+  return `
+   <TALLYMESSAGE xmlns:UDF="TallyUDF">
+    <VOUCHER REMOTEID="${voucher.documentId}" VCHTYPE="${typeName}" ACTION="Delete">
+     <DATE>${tallyDate(voucher.voucherDate)}</DATE>
+     <VOUCHERTYPENAME>${typeName}</VOUCHERTYPENAME>
+     <VOUCHERNUMBER>${escapeXml(voucher.voucherNumber)}</VOUCHERNUMBER>
+    </VOUCHER>
+   </TALLYMESSAGE>`;
+};
+
+// Import Data envelope for Gateway of Tally > Import > Vouchers. Vouchers
+// in `alterIds` were exported before and are sent as alterations;
+// `deletions` are removed from Tally.
+export const buildTallyXml = (
+  companyName: string,
+  vouchers: TallyVoucher[],
+  alterIds: Set<string> = new Set(),
+  deletions: TallyExportVoucher[] = [],
+) => `<?xml version="1.0" encoding="UTF-8"?>
+<ENVELOPE>
+ <HEADER>
+  <TALLYREQUEST>Import Data</TALLYREQUEST>
+ </HEADER>
+ <BODY>
+  <IMPORTDATA>
+   <REQUESTDESC>
+    <REPORTNAME>Vouchers</REPORTNAME>
+    <STATICVARIABLES>
+     <SVCURRENTCOMPANY>${escapeXml(companyName)}</SVCURRENTCOMPANY>
+    </STATICVARIABLES>
+   </REQUESTDESC>
+   <REQUESTDATA>${vouchers
+     .map((voucher) => voucherXml(voucher, alterIds.has(voucher.documentId)))
+     .join("")}${deletions.map(deletionXml).join("")}
+   </REQUESTDATA>
+  </IMPORTDATA>
+ </BODY>
+</ENVELOPE>
+`;
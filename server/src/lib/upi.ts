@@ -0,0 +1,67 @@
+// UPI collection on invoices: the intent behind the printed QR and the
+// payment link, and matching recorded UPI payments back to the invoice
+import { ExportType, InvoiceStatus } from "@prisma/client";
+import { CompanyProfile } from "./company.js";
+import { invoiceBalance } from "./invoiceBalance.js";
+
+type UpiInvoice = Parameters<typeof invoiceBalance>[0] & {
+  invoiceNumber: string;
+  status: InvoiceStatus;
+  exportType?: ExportType | null;
+};
+
+// Apps show the note to the payer and pass the reference through to the
+// payee's statement; both carry the invoice number
+export const upiReference = (invoiceNumber: string) =>
+  invoiceNumber.replace(/[^A-Za-z0-9]/g, "").toUpperCase();
+
+// upi://pay intent for the balance due, or null when there is nothing to
+// collect, no VPA has been set up or the buyer is overseas
+export const buildUpiIntent = (
+  company: CompanyProfile,
+  invoice: UpiInvoice,
+) => {
+  const balance = invoiceBalance(invoice);
+  if (
+    !company.upiId ||
+    balance <= 0 ||
+    invoice.exportType ||
+    invoice.status === InvoiceStatus.DRAFT ||
+    invoice.status === InvoiceStatus.CANCELLED
+  ) {
+    return null;
+  }
+
+  const params = new URLSearchParams({
+    pa: company.upiId,
+    pn: company.companyName,
+    am: balance.toFixed(2),
+    cu: "INR",
+    tn: `Invoice ${invoice.invoiceNumber}`,
+    tr: upiReference(invoice.invoiceNumber),
+  });
+  // Some UPI apps reject `+` for spaces or an encoded `@` in the VPA
+  return `upi://pay?${params
+    .toString()
+    .replace(/\+/g, "%20")
+    .replace(/%40/g, "@")}`;
+};
+
+// Invoice whose UPI reference appears in a payment reference, e.g. the
+// remark copied from the bank statement
+export const matchUpiReference = <T extends { invoiceNumber: string }>(
+  reference: string | null | undefined,
+  invoices: T[],
+) => {
+  const normalised = upiReference(reference || "");
+  if (!normalised) return null;
+
+  // Longest first so INV10 is not taken for INV100
+  return (
+    [...invoices]
+      .sort((a, b) => b.invoiceNumber.length - a.invoiceNumber.length)
+      .find((invoice) =>
+        normalised.includes(upiReference(invoice.invoiceNumber)),
+      ) || null
+  );
+};
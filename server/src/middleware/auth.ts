@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
 import jwt from "jsonwebtoken";
 import { UserRole } from "@prisma/client";
 import prisma from "../lib/prisma.js";
@@ -66,3 +67,25 @@ export const authorize = (...roles: UserRole[]) => {
     next();
   };
 };
+
+// Scheduled job calls. Vercel Cron sends "Authorization: Bearer
+// <CRON_SECRET>"; without a secret configured every call is refused.
+export const authenticateCron = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const secret = process.env.CRON_SECRET;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(req.headers.authorization || "");
+
+  if (
+    !secret ||
+    given.length !== expected.length ||
+    !timingSafeEqual(given, expected)
+  ) {
+    return res.status(401).json({ success: false, message: "Unauthorized" });
+  }
+
+  next();
+};
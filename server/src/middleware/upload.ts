@@ -23,3 +23,18 @@ export const upload = multer({
     cb(new Error("Only images (jpeg, jpg, png, webp) are allowed!") as any);
   },
 });
+
+// Bank statements downloaded from net banking
+export const statementUpload = multer({
+  storage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    // Browsers report CSV and XLS under several MIME types; go by extension
+    if (/\.(csv|xls|xlsx)$/i.test(file.originalname)) {
+      return cb(null, true);
+    }
+    cb(new Error("Only CSV, XLS or XLSX statements are allowed!") as any);
+  },
+});
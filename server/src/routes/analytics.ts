@@ -4,9 +4,26 @@ import {
   POStatus,
   AttendanceStatus,
   MachineStatus,
+  NoteType,
 } from "@prisma/client";
 import prisma from "../lib/prisma.js";
 import { authenticate, AuthRequest } from "../middleware/auth.js";
+import { buildTaxBreakdown, round2 } from "../lib/gst.js";
+import { getCompanyProfile } from "../lib/company.js";
+import { istDayStart, istMonthStart, istParts } from "../lib/sequence.js";
+import { chequesDueForDeposit } from "../lib/cheques.js";
+import {
+  buildGstr1,
+  gstr1ToCsv,
+  Gstr1CsvSection,
+  GSTR1_CSV_SECTIONS,
+} from "../lib/gstr1.js";
+import {
+  ageingToCsv,
+  AgeingFilters,
+  buildAgeingReport,
+  isAgeingBucket,
+} from "../lib/receivablesAgeing.js";
 
 const router = Router();
 
@@ -19,6 +36,11 @@ router.get("/dashboard", authenticate, async (req, res) => {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
+    // Weeks run Monday to Sunday
+    const endOfWeek = new Date(today);
+    endOfWeek.setDate(endOfWeek.getDate() + ((7 - endOfWeek.getDay()) % 7));
+    endOfWeek.setHours(23, 59, 59, 999);
+
     const [
       totalEmployees,
       totalMachines,
@@ -30,6 +52,7 @@ router.get("/dashboard", authenticate, async (req, res) => {
       recentInvoices,
       monthlyRevenue,
       pendingPOs,
+      chequesDue,
     ] = await Promise.all([
       // Counts
       prisma.employee.count({ where: { isActive: true } }),
@@ -80,6 +103,9 @@ router.get("/dashboard", authenticate, async (req, res) => {
           status: { in: [POStatus.PENDING_APPROVAL, POStatus.ORDERED] },
         },
       }),
+
+      // Cheques to deposit this week, including any dated earlier
+      chequesDueForDeposit(endOfWeek),
     ]);
 
     res.json({
@@ -100,6 +126,7 @@ router.get("/dashboard", authenticate, async (req, res) => {
         materialStatus,
         recentInvoices,
         monthlyRevenue: monthlyRevenue._sum.paidAmount || 0,
+        chequesDue,
       },
     });
   } catch (error) {
@@ -172,6 +199,73 @@ router.get("/revenue", authenticate, async (req, res) => {
   }
 });
 
+// Sales by product over the last `period` days. Lines billed without a
+// product from the master are reported together.
+router.get("/products", authenticate, async (req, res) => {
+  try {
+    const { period = "30" } = req.query;
+    const days = parseInt(String(period));
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+    startDate.setHours(0, 0, 0, 0);
+
+    const groups = await prisma.invoiceItem.groupBy({
+      by: ["productId"],
+      where: {
+        invoice: {
+          issueDate: { gte: startDate },
+          status: { notIn: [InvoiceStatus.DRAFT, InvoiceStatus.CANCELLED] },
+        },
+      },
+      _sum: { amount: true, quantity: true },
+    });
+
+    const products = await prisma.product.findMany({
+      where: {
+        id: {
+          in: groups
+            .map((group) => group.productId)
+            .filter((id): id is string => Boolean(id)),
+        },
+      },
+      select: { id: true, sku: true, name: true, unit: true },
+    });
+    const productById = new Map(
+      products.map((product) => [product.id, product]),
+    );
+
+    const rows = groups
+      .map((group) => {
+        const product = group.productId
+          ? productById.get(group.productId)
+          : undefined;
+        return {
+          productId: group.productId,
+          sku: product?.sku || null,
+          name: product?.name || "Unlinked items",
+          unit: product?.unit || null,
+          quantity: round2(Number(group._sum.quantity || 0)),
+          amount: round2(Number(group._sum.amount || 0)),
+        };
+      })
+      .sort((a, b) => b.amount - a.amount);
+
+    res.json({
+      success: true,
+      data: {
+        labels: rows.map((row) => row.name),
+        data: rows.map((row) => row.amount),
+        rows,
+        period: days,
+      },
+    });
+  } catch (error) {
+    console.error("Product sales analytics error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
 // Attendance analytics
 router.get("/attendance", authenticate, async (req, res) => {
   try {
@@ -411,14 +505,14 @@ router.get("/productivity", authenticate, async (req, res) => {
 // Financial summary
 router.get("/financial", authenticate, async (req, res) => {
   try {
-    const { year = new Date().getFullYear() } = req.query;
-    const startOfYear = new Date(Number(year), 0, 1);
-    const endOfYear = new Date(Number(year), 11, 31);
+    const { year = istParts(new Date()).year } = req.query;
+    const startOfYear = istMonthStart(Number(year), 1);
+    const nextYear = istMonthStart(Number(year) + 1, 1);
 
     const [invoices, purchaseOrders] = await Promise.all([
       prisma.invoice.findMany({
         where: {
-          issueDate: { gte: startOfYear, lte: endOfYear },
+          issueDate: { gte: startOfYear, lt: nextYear },
           status: { not: InvoiceStatus.CANCELLED },
         },
         select: {
@@ -429,7 +523,7 @@ router.get("/financial", authenticate, async (req, res) => {
       }),
       prisma.purchaseOrder.findMany({
         where: {
-          orderDate: { gte: startOfYear, lte: endOfYear },
+          orderDate: { gte: startOfYear, lt: nextYear },
           status: { not: POStatus.CANCELLED },
         },
         select: {
@@ -447,12 +541,12 @@ router.get("/financial", authenticate, async (req, res) => {
     }
 
     invoices.forEach((inv) => {
-      const month = inv.issueDate.getMonth();
+      const month = istParts(inv.issueDate).month - 1;
       monthlyData[month].revenue += Number(inv.paidAmount);
     });
 
     purchaseOrders.forEach((po) => {
-      const month = po.orderDate.getMonth();
+      const month = istParts(po.orderDate).month - 1;
       monthlyData[month].expenses += Number(po.totalAmount);
     });
 
@@ -480,4 +574,322 @@ router.get("/financial", authenticate, async (req, res) => {
   }
 });
 
+// GST summary (CGST/SGST/IGST by rate)
+router.get("/gst", authenticate, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    // Whole Indian days: from the start of the first to the end of the last
+    const last = endDate ? new Date(String(endDate)) : new Date();
+    const lastDay = istParts(last);
+    const end = istDayStart(last, 1);
+    const start = startDate
+      ? istDayStart(new Date(String(startDate)))
+      : istMonthStart(lastDay.year, lastDay.month);
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        issueDate: { gte: start, lt: end },
+        status: { notIn: [InvoiceStatus.CANCELLED, InvoiceStatus.DRAFT] },
+      },
+      include: { items: true },
+    });
+    const notes = await prisma.invoiceNote.findMany({
+      where: {
+        issueDate: { gte: start, lt: end },
+        invoice: { status: { not: InvoiceStatus.CANCELLED } },
+      },
+      include: { items: true, invoice: { select: { exportType: true } } },
+    });
+
+    const byRate: Record<
+      string,
+      {
+        taxRate: number;
+        taxableValue: number;
+        cgstAmount: number;
+        sgstAmount: number;
+        igstAmount: number;
+      }
+    > = {};
+    const supply = {
+      intraState: { count: 0, taxableValue: 0, taxAmount: 0 },
+      interState: { count: 0, taxableValue: 0, taxAmount: 0 },
+      // Zero-rated exports, reported apart from domestic supplies
+      exports: { count: 0, taxableValue: 0, taxAmount: 0 },
+    };
+
+    // Credit notes reduce the period's tax, debit notes add to it
+    const documents = [
+      ...invoices.map((doc) => ({ doc, sign: 1, isNote: false })),
+      ...notes.map((doc) => ({
+        doc: { ...doc, exportType: doc.invoice.exportType },
+        sign: doc.noteType === NoteType.CREDIT ? -1 : 1,
+        isNote: true,
+      })),
+    ];
+
+    documents.forEach(({ doc, sign, isNote }) => {
+      const breakdown = buildTaxBreakdown(doc);
+      const bucket = doc.exportType
+        ? supply.exports
+        : breakdown.isInterState
+          ? supply.interState
+          : supply.intraState;
+      if (!isNote) bucket.count++;
+      bucket.taxableValue = round2(
+        bucket.taxableValue + sign * breakdown.totals.taxableValue,
+      );
+      bucket.taxAmount = round2(
+        bucket.taxAmount + sign * breakdown.totals.totalTax,
+      );
+
+      breakdown.rows.forEach((row) => {
+        const key = String(row.taxRate);
+        if (!byRate[key]) {
+          byRate[key] = {
+            taxRate: row.taxRate,
+            taxableValue: 0,
+            cgstAmount: 0,
+            sgstAmount: 0,
+            igstAmount: 0,
+          };
+        }
+        byRate[key].taxableValue = round2(
+          byRate[key].taxableValue + sign * row.taxableValue,
+        );
+        byRate[key].cgstAmount = round2(
+          byRate[key].cgstAmount + sign * row.cgstAmount,
+        );
+        byRate[key].sgstAmount = round2(
+          byRate[key].sgstAmount + sign * row.sgstAmount,
+        );
+        byRate[key].igstAmount = round2(
+          byRate[key].igstAmount + sign * row.igstAmount,
+        );
+      });
+    });
+
+    const rates = Object.values(byRate).sort((a, b) => a.taxRate - b.taxRate);
+    const totals = rates.reduce(
+      (acc, r) => ({
+        taxableValue: round2(acc.taxableValue + r.taxableValue),
+        cgstAmount: round2(acc.cgstAmount + r.cgstAmount),
+        sgstAmount: round2(acc.sgstAmount + r.sgstAmount),
+        igstAmount: round2(acc.igstAmount + r.igstAmount),
+      }),
+      { taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 },
+    );
+
+    res.json({
+      success: true,
+      data: {
+        startDate: start,
+        endDate: last,
+        byRate: rates,
+        supply,
+        totals: {
+          ...totals,
+          totalTax: round2(
+            totals.cgstAmount + totals.sgstAmount + totals.igstAmount,
+          ),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("GST analytics error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Build GSTR-1 for a month given as YYYY-MM (defaults to last month)
+const loadGstr1 = async (month?: string) => {
+  const now = istParts(new Date());
+  const [year, monthIndex] = month
+    ? month.split("-").map(Number)
+    : now.month === 1
+      ? [now.year - 1, 12]
+      : [now.year, now.month - 1];
+  // Return periods follow the Indian calendar month
+  const start = istMonthStart(year, monthIndex);
+  const end = istMonthStart(year, monthIndex + 1);
+
+  const [company, invoices, notes, hsnCodes] = await Promise.all([
+    getCompanyProfile(),
+    prisma.invoice.findMany({
+      where: {
+        issueDate: { gte: start, lt: end },
+        status: { notIn: [InvoiceStatus.CANCELLED, InvoiceStatus.DRAFT] },
+      },
+      include: {
+        customer: { select: { name: true, gstNumber: true } },
+        items: true,
+      },
+      orderBy: { issueDate: "asc" },
+    }),
+    prisma.invoiceNote.findMany({
+      where: {
+        issueDate: { gte: start, lt: end },
+        invoice: { status: { not: InvoiceStatus.CANCELLED } },
+      },
+      include: {
+        customer: { select: { name: true, gstNumber: true } },
+        invoice: { select: { totalAmount: true, exportType: true } },
+        items: true,
+      },
+      orderBy: { issueDate: "asc" },
+    }),
+    prisma.hSN.findMany({ select: { code: true, description: true } }),
+  ]);
+
+  const period = `${String(monthIndex).padStart(2, "0")}${year}`;
+  const result = buildGstr1({
+    gstin: company.gstNumber,
+    period,
+    companyStateCode: company.stateCode,
+    invoices: invoices.map((inv) => ({
+      ...inv,
+      number: inv.invoiceNumber,
+      date: inv.issueDate,
+    })),
+    notes: notes.map((note) => ({
+      ...note,
+      number: note.noteNumber,
+      date: note.issueDate,
+      noteType: note.noteType === NoteType.CREDIT ? "C" : "D",
+      invoiceValue: note.invoice.totalAmount,
+      exportType: note.invoice.exportType,
+    })),
+    hsnDescriptions: Object.fromEntries(
+      hsnCodes.map((h) => [h.code, h.description || ""]),
+    ),
+  });
+
+  const customerNames: Record<string, string> = {};
+  [...invoices, ...notes].forEach((doc) => {
+    const gstin = doc.customer.gstNumber?.trim().toUpperCase();
+    if (gstin) customerNames[gstin] = doc.customer.name;
+  });
+
+  return {
+    month: `${year}-${String(monthIndex).padStart(2, "0")}`,
+    period,
+    result,
+    customerNames,
+  };
+};
+
+const isValidMonth = (month: unknown) =>
+  month === undefined || /^\d{4}-(0[1-9]|1[0-2])$/.test(String(month));
+
+// GSTR-1 return for a month (portal JSON + section summary)
+router.get("/gstr1", authenticate, async (req, res) => {
+  try {
+    if (!isValidMonth(req.query.month)) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Month must be in YYYY-MM format" });
+    }
+
+    const { month, period, result } = await loadGstr1(
+      req.query.month as string | undefined,
+    );
+
+    res.json({
+      success: true,
+      data: {
+        month,
+        period,
+        summary: result.summary,
+        hsn: result.portal.hsn || {},
+        portal: result.portal,
+      },
+    });
+  } catch (error) {
+    console.error("GSTR-1 error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// GSTR-1 section as offline tool CSV
+router.get("/gstr1/csv", authenticate, async (req, res) => {
+  try {
+    const section = String(req.query.section || "b2b") as Gstr1CsvSection;
+    if (
+      !isValidMonth(req.query.month) ||
+      !GSTR1_CSV_SECTIONS.includes(section)
+    ) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Invalid month or section" });
+    }
+
+    const { period, result, customerNames } = await loadGstr1(
+      req.query.month as string | undefined,
+    );
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="GSTR1_${period}_${section}.csv"`,
+    );
+    res.send(gstr1ToCsv(result.portal, section, customerNames));
+  } catch (error) {
+    console.error("GSTR-1 CSV error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+const ageingFilters = (query: any): AgeingFilters => ({
+  customerId: query.customerId ? String(query.customerId) : undefined,
+  city: query.city ? String(query.city).trim() : undefined,
+});
+
+// Receivables ageing by days past due, per customer
+router.get("/ageing", authenticate, async (req, res) => {
+  try {
+    const report = await buildAgeingReport(ageingFilters(req.query));
+
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error("Ageing report error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Ageing summary as CSV, or invoice-level detail with ?detail=true. A bucket
+// limits the detail to the invoices in it.
+router.get("/ageing/csv", authenticate, async (req, res) => {
+  try {
+    const { bucket, detail } = req.query;
+    if (bucket !== undefined && !isAgeingBucket(bucket)) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Invalid ageing bucket" });
+    }
+
+    const report = await buildAgeingReport(ageingFilters(req.query));
+    if (bucket) {
+      report.customers = report.customers.map((customer) => ({
+        ...customer,
+        invoices: customer.invoices.filter(
+          (invoice) => invoice.bucket === bucket,
+        ),
+      }));
+    }
+
+    const invoiceLevel = detail === "true" || Boolean(bucket);
+    const date = new Date().toISOString().split("T")[0];
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="Ageing_${invoiceLevel ? "Invoices_" : ""}${date}.csv"`,
+    );
+    res.send(ageingToCsv(report, invoiceLevel));
+  } catch (error) {
+    console.error("Ageing CSV error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
 export default router;
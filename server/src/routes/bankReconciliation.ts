@@ -0,0 +1,481 @@
+import { Router } from "express";
+import { BankLineStatus, Prisma, UserRole } from "@prisma/client";
+import prisma from "../lib/prisma.js";
+import { body, validationResult } from "express-validator";
+import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import { statementUpload } from "../middleware/upload.js";
+import {
+  BANK_PRESETS,
+  cleanMapping,
+  fingerprintLines,
+  getBankStatementSettings,
+  readStatement,
+  StatementFormatError,
+} from "../lib/bankStatements.js";
+import {
+  autoMatchLines,
+  confirmMatch,
+  isMatchType,
+  ReconciliationError,
+  suggestMatches,
+} from "../lib/bankReconciliation.js";
+import { AllocationError } from "../lib/customerReceipts.js";
+
+const router = Router();
+
+const reconcilers = authorize(
+  UserRole.ADMIN,
+  UserRole.MANAGER,
+  UserRole.ACCOUNTANT,
+);
+
+const lineInclude = {
+  statement: { select: { fileName: true, bank: true } },
+  payment: {
+    select: {
+      id: true,
+      amount: true,
+      paidAt: true,
+      reference: true,
+      invoice: {
+        select: {
+          id: true,
+          invoiceNumber: true,
+          customer: { select: { name: true } },
+        },
+      },
+    },
+  },
+  receipt: {
+    select: {
+      id: true,
+      receiptNumber: true,
+      amount: true,
+      receivedAt: true,
+      reference: true,
+      customer: { select: { id: true, name: true } },
+    },
+  },
+  matchedBy: { select: { firstName: true, lastName: true } },
+} satisfies Prisma.BankStatementLineInclude;
+
+// Column presets and the mapping used last time
+router.get("/settings", authenticate, reconcilers, async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await getBankStatementSettings(),
+      presets: BANK_PRESETS,
+    });
+  } catch (error) {
+    console.error("Get bank statement settings error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Uploaded statements with how far each has been reconciled
+router.get("/statements", authenticate, reconcilers, async (req, res) => {
+  try {
+    const [statements, counts] = await Promise.all([
+      prisma.bankStatement.findMany({
+        include: {
+          uploadedBy: { select: { firstName: true, lastName: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.bankStatementLine.groupBy({
+        by: ["statementId", "status"],
+        _count: { _all: true },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: statements.map((statement) => {
+        const lines = counts.filter(
+          (count) => count.statementId === statement.id,
+        );
+        const byStatus = (status: BankLineStatus) =>
+          lines.find((count) => count.status === status)?._count._all || 0;
+        return {
+          ...statement,
+          lineCount: lines.reduce((sum, count) => sum + count._count._all, 0),
+          totalAmount: lines.reduce(
+            (sum, count) => sum + Number(count._sum.amount || 0),
+            0,
+          ),
+          matchedCount: byStatus(BankLineStatus.MATCHED),
+          unmatchedCount: byStatus(BankLineStatus.UNMATCHED),
+          ignoredCount: byStatus(BankLineStatus.IGNORED),
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Get bank statements error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Upload a statement. Credits not seen in an earlier statement are saved
+// and matched where there is one clear candidate; the rest wait in the
+// queue. The mapping is remembered for next time.
+router.post(
+  "/statements",
+  authenticate,
+  reconcilers,
+  statementUpload.single("file"),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.file) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Statement file is required" });
+      }
+
+      const settings = await getBankStatementSettings();
+      const bank =
+        typeof req.body.bank === "string" && req.body.bank in BANK_PRESETS
+          ? req.body.bank
+          : settings.bank;
+      let mapping = settings.mapping;
+      if (req.body.mapping) {
+        try {
+          mapping = cleanMapping(JSON.parse(req.body.mapping));
+        } catch {
+          return res
+            .status(400)
+            .json({ success: false, message: "Invalid column mapping" });
+        }
+      }
+      const dateWindowDays =
+        req.body.dateWindowDays !== undefined &&
+        Number(req.body.dateWindowDays) >= 0
+          ? Math.min(Number(req.body.dateWindowDays), 30)
+          : settings.dateWindowDays;
+
+      const { lines, debits } = readStatement(req.file.buffer, mapping);
+      const fingerprints = fingerprintLines(lines);
+      const existing = new Set(
+        (
+          await prisma.bankStatementLine.findMany({
+            where: { fingerprint: { in: fingerprints } },
+            select: { fingerprint: true },
+          })
+        ).map((line) => line.fingerprint),
+      );
+      const fresh = lines
+        .map((line, index) => ({ ...line, fingerprint: fingerprints[index] }))
+        .filter((line) => !existing.has(line.fingerprint));
+
+      const value = { bank, mapping, dateWindowDays };
+      await prisma.setting.upsert({
+        where: { key: "bankStatement" },
+        update: { value },
+        create: {
+          key: "bankStatement",
+          value,
+          description: "Bank statement column mapping",
+        },
+      });
+
+      if (fresh.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: lines.length
+            ? "Every credit in this statement has been imported before"
+            : "No credits found in this statement",
+        });
+      }
+
+      const dates = lines.map((line) => line.txnDate.getTime());
+      const statement = await prisma.bankStatement.create({
+        data: {
+          fileName: req.file.originalname,
+          bank,
+          fromDate: new Date(Math.min(...dates)),
+          toDate: new Date(Math.max(...dates)),
+          uploadedById: req.user!.id,
+          lines: { create: fresh },
+        },
+        include: { lines: { orderBy: { lineNumber: "asc" } } },
+      });
+
+      const autoMatched = await autoMatchLines(
+        statement.lines,
+        dateWindowDays,
+        req.user!.id,
+      );
+
+      const { lines: created, ...rest } = statement;
+      res.status(201).json({
+        success: true,
+        data: {
+          statement: rest,
+          imported: created.length,
+          duplicates: lines.length - fresh.length,
+          debits,
+          autoMatched,
+        },
+      });
+    } catch (error) {
+      if (error instanceof StatementFormatError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Import bank statement error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Remove a statement uploaded by mistake, before anything is matched
+router.delete(
+  "/statements/:id",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
+  async (req, res) => {
+    try {
+      const statement = await prisma.bankStatement.findUnique({
+        where: { id: req.params.id },
+        include: {
+          _count: {
+            select: { lines: { where: { status: BankLineStatus.MATCHED } } },
+          },
+        },
+      });
+
+      if (!statement) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Statement not found" });
+      }
+
+      if (statement._count.lines > 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Unmatch the statement's lines before deleting it",
+        });
+      }
+
+      await prisma.bankStatement.delete({ where: { id: statement.id } });
+
+      res.json({ success: true, message: "Statement deleted successfully" });
+    } catch (error) {
+      console.error("Delete bank statement error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Statement lines; unmatched lines come with suggested matches
+router.get("/lines", authenticate, reconcilers, async (req, res) => {
+  try {
+    const { status, statementId } = req.query;
+
+    const where: Prisma.BankStatementLineWhereInput = {};
+    if (Object.values(BankLineStatus).includes(status as BankLineStatus)) {
+      where.status = status as BankLineStatus;
+    }
+    if (statementId) where.statementId = statementId as string;
+
+    const [lines, settings] = await Promise.all([
+      prisma.bankStatementLine.findMany({
+        where,
+        include: lineInclude,
+        orderBy: [{ txnDate: "asc" }, { lineNumber: "asc" }],
+      }),
+      getBankStatementSettings(),
+    ]);
+
+    const suggestions = await suggestMatches(
+      lines.filter((line) => line.status === BankLineStatus.UNMATCHED),
+      settings.dateWindowDays,
+    );
+
+    res.json({
+      success: true,
+      data: lines.map((line) => ({
+        ...line,
+        suggestions: suggestions.get(line.id) || [],
+      })),
+    });
+  } catch (error) {
+    console.error("Get bank statement lines error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Try the automatic match again on the queue, e.g. after recording the
+// payments that were missing
+router.post(
+  "/auto-match",
+  authenticate,
+  reconcilers,
+  async (req: AuthRequest, res) => {
+    try {
+      const [lines, settings] = await Promise.all([
+        prisma.bankStatementLine.findMany({
+          where: { status: BankLineStatus.UNMATCHED },
+          orderBy: [{ txnDate: "asc" }, { lineNumber: "asc" }],
+        }),
+        getBankStatementSettings(),
+      ]);
+
+      const matched = await autoMatchLines(
+        lines,
+        settings.dateWindowDays,
+        req.user!.id,
+      );
+
+      res.json({
+        success: true,
+        data: { matched, remaining: lines.length - matched },
+        message: `${matched} line(s) matched`,
+      });
+    } catch (error) {
+      console.error("Auto-match bank lines error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Confirm a match: link a recorded payment or receipt, or record a payment
+// against an invoice or a receipt for a customer
+router.post(
+  "/lines/:id/match",
+  authenticate,
+  reconcilers,
+  [body("type").custom((type) => isMatchType(type)), body("id").notEmpty()],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const line = await prisma.bankStatementLine.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!line) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Bank line not found" });
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        await confirmMatch(
+          tx,
+          line.id,
+          { type: req.body.type, id: req.body.id },
+          req.user!.id,
+        );
+        return tx.bankStatementLine.findUniqueOrThrow({
+          where: { id: line.id },
+          include: lineInclude,
+        });
+      });
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      if (
+        error instanceof ReconciliationError ||
+        error instanceof AllocationError
+      ) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Match bank line error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Credits that are not customer payments, e.g. interest or a loan
+router.post(
+  "/lines/:id/ignore",
+  authenticate,
+  reconcilers,
+  async (req: AuthRequest, res) => {
+    try {
+      const line = await prisma.bankStatementLine.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!line) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Bank line not found" });
+      }
+
+      if (line.status !== BankLineStatus.UNMATCHED) {
+        return res.status(400).json({
+          success: false,
+          message: "Only unmatched lines can be ignored",
+        });
+      }
+
+      const updated = await prisma.bankStatementLine.update({
+        where: { id: line.id },
+        data: {
+          status: BankLineStatus.IGNORED,
+          matchedById: req.user!.id,
+          matchedAt: new Date(),
+        },
+        include: lineInclude,
+      });
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error("Ignore bank line error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Put a matched or ignored line back in the queue. Payments and receipts
+// recorded from it stay; reverse them on the invoice if they were wrong.
+router.post(
+  "/lines/:id/unmatch",
+  authenticate,
+  reconcilers,
+  async (req, res) => {
+    try {
+      const line = await prisma.bankStatementLine.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!line) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Bank line not found" });
+      }
+
+      const updated = await prisma.bankStatementLine.update({
+        where: { id: line.id },
+        data: {
+          status: BankLineStatus.UNMATCHED,
+          paymentId: null,
+          receiptId: null,
+          createdPayment: false,
+          autoMatched: false,
+          matchedById: null,
+          matchedAt: null,
+        },
+        include: lineInclude,
+      });
+
+      res.json({
+        success: true,
+        data: updated,
+        message: line.createdPayment
+          ? "Line unmatched. The payment recorded from it has been kept."
+          : "Line unmatched",
+      });
+    } catch (error) {
+      console.error("Unmatch bank line error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,268 @@
+import { Router } from "express";
+import { ChequeStatus, Prisma, UserRole } from "@prisma/client";
+import prisma from "../lib/prisma.js";
+import { body, validationResult } from "express-validator";
+import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import {
+  bounceCheque,
+  ChequeError,
+  chequesDueForDeposit,
+  clearCheque,
+  depositCheque,
+  notifyChequeBounced,
+} from "../lib/cheques.js";
+
+const router = Router();
+
+const accountants = authorize(
+  UserRole.ADMIN,
+  UserRole.MANAGER,
+  UserRole.ACCOUNTANT,
+);
+
+const chequeInclude = {
+  customer: { select: { id: true, name: true } },
+  receipt: { select: { id: true, receiptNumber: true } },
+  payments: {
+    select: {
+      id: true,
+      type: true,
+      amount: true,
+      invoice: { select: { id: true, invoiceNumber: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  },
+  createdBy: { select: { firstName: true, lastName: true } },
+} satisfies Prisma.ChequeInclude;
+
+const isChequeStatus = (status: unknown): status is ChequeStatus =>
+  Object.values(ChequeStatus).includes(status as ChequeStatus);
+
+// The register, newest cheque date first
+router.get("/", authenticate, accountants, async (req, res) => {
+  try {
+    const { status, customerId, search } = req.query;
+
+    const where: Prisma.ChequeWhereInput = {};
+    if (isChequeStatus(status)) where.status = status;
+    if (customerId) where.customerId = customerId as string;
+    if (search) {
+      where.OR = [
+        { chequeNumber: { contains: search as string, mode: "insensitive" } },
+        { bankName: { contains: search as string, mode: "insensitive" } },
+        {
+          customer: {
+            name: { contains: search as string, mode: "insensitive" },
+          },
+        },
+      ];
+    }
+
+    const [cheques, totals] = await Promise.all([
+      prisma.cheque.findMany({
+        where,
+        include: chequeInclude,
+        orderBy: [{ chequeDate: "desc" }, { createdAt: "desc" }],
+      }),
+      prisma.cheque.groupBy({
+        by: ["status"],
+        where: customerId ? { customerId: customerId as string } : undefined,
+        _count: { _all: true },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: cheques,
+      totals: totals.map((total) => ({
+        status: total.status,
+        count: total._count._all,
+        amount: Number(total._sum.amount || 0),
+      })),
+    });
+  } catch (error) {
+    console.error("Get cheques error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Cheques in hand that can go to the bank in the next few days
+router.get("/due", authenticate, accountants, async (req, res) => {
+  try {
+    const days = Math.min(Math.max(Number(req.query.days) || 7, 0), 90);
+    const until = new Date();
+    until.setDate(until.getDate() + days);
+    until.setHours(23, 59, 59, 999);
+
+    res.json({ success: true, data: await chequesDueForDeposit(until) });
+  } catch (error) {
+    console.error("Get cheques due error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+router.get("/:id", authenticate, accountants, async (req, res) => {
+  try {
+    const cheque = await prisma.cheque.findUnique({
+      where: { id: req.params.id },
+      include: chequeInclude,
+    });
+
+    if (!cheque) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Cheque not found" });
+    }
+
+    res.json({ success: true, data: cheque });
+  } catch (error) {
+    console.error("Get cheque error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+const findCheque = (id: string) =>
+  prisma.cheque.findUnique({ where: { id }, select: { id: true } });
+
+router.post(
+  "/:id/deposit",
+  authenticate,
+  accountants,
+  [body("date").optional({ values: "falsy" }).isISO8601()],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      if (!(await findCheque(req.params.id))) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Cheque not found" });
+      }
+
+      await depositCheque(
+        req.params.id,
+        req.body.date ? new Date(req.body.date) : new Date(),
+      );
+      const cheque = await prisma.cheque.findUniqueOrThrow({
+        where: { id: req.params.id },
+        include: chequeInclude,
+      });
+
+      res.json({ success: true, data: cheque, message: "Cheque deposited" });
+    } catch (error) {
+      if (error instanceof ChequeError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Deposit cheque error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// The amount now counts towards the invoices it paid
+router.post(
+  "/:id/clear",
+  authenticate,
+  accountants,
+  [body("date").optional({ values: "falsy" }).isISO8601()],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      if (!(await findCheque(req.params.id))) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Cheque not found" });
+      }
+
+      const cheque = await prisma.$transaction(async (tx) => {
+        await clearCheque(
+          tx,
+          req.params.id,
+          req.body.date ? new Date(req.body.date) : new Date(),
+          req.user!.id,
+        );
+        return tx.cheque.findUniqueOrThrow({
+          where: { id: req.params.id },
+          include: chequeInclude,
+        });
+      });
+
+      res.json({ success: true, data: cheque, message: "Cheque cleared" });
+    } catch (error) {
+      if (error instanceof ChequeError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Clear cheque error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Reverse what the cheque paid and let accounts know
+router.post(
+  "/:id/bounce",
+  authenticate,
+  accountants,
+  [body("reason").trim().notEmpty().withMessage("Reason is required")],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      if (!(await findCheque(req.params.id))) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Cheque not found" });
+      }
+
+      const { bounced, reversed, cheque } = await prisma.$transaction(
+        async (tx) => {
+          const result = await bounceCheque(
+            tx,
+            req.params.id,
+            req.body.reason,
+            req.user!.id,
+          );
+          return {
+            bounced: result.cheque,
+            reversed: result.reversed,
+            cheque: await tx.cheque.findUniqueOrThrow({
+              where: { id: req.params.id },
+              include: chequeInclude,
+            }),
+          };
+        },
+      );
+
+      try {
+        await notifyChequeBounced(bounced);
+      } catch (error) {
+        console.error("Cheque bounce notification error:", error);
+      }
+
+      res.json({
+        success: true,
+        data: cheque,
+        message: `Cheque marked bounced; ${reversed} payment(s) reversed`,
+      });
+    } catch (error) {
+      if (error instanceof ChequeError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Bounce cheque error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { authenticateCron } from "../middleware/auth.js";
+import { runInvoiceReminders } from "../lib/invoiceReminders.js";
+import { runRecurringInvoices } from "../lib/recurringInvoices.js";
+
+// Entry points for the crons in vercel.json. Vercel calls them with GET.
+const router = Router();
+
+router.use(authenticateCron);
+
+// Mark overdue invoices and send the payment reminders due today
+router.get("/invoice-reminders", async (req, res) => {
+  try {
+    res.json({ success: true, data: await runInvoiceReminders() });
+  } catch (error) {
+    console.error("Cron invoice reminders error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Generate every recurring invoice that has fallen due
+router.get("/recurring-invoices", async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: { generated: await runRecurringInvoices() },
+    });
+  } catch (error) {
+    console.error("Cron recurring invoices error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+export default router;
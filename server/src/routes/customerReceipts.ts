@@ -0,0 +1,392 @@
+import { Router } from "express";
+import { BankLineStatus, PaymentMethod, UserRole } from "@prisma/client";
+import prisma from "../lib/prisma.js";
+import { body, validationResult } from "express-validator";
+import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import {
+  AllocationError,
+  allocateReceipt,
+  autoAllocate,
+  openInvoices,
+  summariseReceipt,
+} from "../lib/customerReceipts.js";
+import { invoiceBalance } from "../lib/invoiceBalance.js";
+import { nextDocumentNumber } from "../lib/sequence.js";
+import { matchUpiReference } from "../lib/upi.js";
+import { chequeDetailsFrom, createCheque } from "../lib/cheques.js";
+
+const router = Router();
+
+const allocationValidators = [
+  body("allocations").optional().isArray(),
+  body("allocations.*.invoiceId").notEmpty(),
+  body("allocations.*.amount").isFloat({ min: 0 }),
+];
+
+// Oldest-first across the customer's open invoices, or the lines given.
+// A UPI receipt with no lines goes to the invoice its reference names,
+// as paid from the invoice's UPI QR or payment link.
+const resolveAllocations = async (
+  customerId: string,
+  amount: number,
+  { autoAllocate: auto, allocations, method, reference }: any,
+) => {
+  if (auto) {
+    return autoAllocate(amount, await openInvoices(customerId));
+  }
+  if (!allocations?.length && method === PaymentMethod.UPI) {
+    const invoice = matchUpiReference(
+      reference,
+      await openInvoices(customerId),
+    );
+    if (invoice) return autoAllocate(amount, [invoice]);
+  }
+  return (allocations || []).map((line: any) => ({
+    invoiceId: line.invoiceId,
+    amount: Number(line.amount),
+  }));
+};
+
+// Get all customer receipts
+router.get("/", authenticate, async (req, res) => {
+  try {
+    const { page = 1, limit = 10, search, customerId } = req.query;
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const where: any = {};
+    if (search) {
+      where.OR = [
+        { receiptNumber: { contains: String(search), mode: "insensitive" } },
+        { reference: { contains: String(search), mode: "insensitive" } },
+        {
+          customer: { name: { contains: String(search), mode: "insensitive" } },
+        },
+      ];
+    }
+    if (customerId) where.customerId = customerId;
+
+    const [receipts, total] = await Promise.all([
+      prisma.customerReceipt.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          customer: { select: { id: true, name: true, customerCode: true } },
+          payments: { select: { amount: true, type: true } },
+          cheque: true,
+        },
+        orderBy: { receivedAt: "desc" },
+      }),
+      prisma.customerReceipt.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: receipts.map(summariseReceipt),
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    });
+  } catch (error) {
+    console.error("Get customer receipts error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// A customer's open invoices with what is still owed, oldest due first
+router.get("/open-invoices", authenticate, async (req, res) => {
+  try {
+    const { customerId } = req.query;
+    if (!customerId) {
+      return res
+        .status(400)
+        .json({ success: false, message: "customerId is required" });
+    }
+
+    const invoices = await openInvoices(String(customerId));
+
+    res.json({
+      success: true,
+      data: invoices.map((invoice) => ({
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        status: invoice.status,
+        totalAmount: invoice.totalAmount,
+        balanceDue: invoiceBalance(invoice),
+      })),
+    });
+  } catch (error) {
+    console.error("Get open invoices error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Get customer receipt by ID
+router.get("/:id", authenticate, async (req, res) => {
+  try {
+    const receipt = await prisma.customerReceipt.findUnique({
+      where: { id: req.params.id },
+      include: {
+        customer: true,
+        createdBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+        cheque: true,
+        payments: {
+          include: {
+            invoice: {
+              select: {
+                id: true,
+                invoiceNumber: true,
+                issueDate: true,
+                totalAmount: true,
+                status: true,
+              },
+            },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!receipt) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Receipt not found" });
+    }
+
+    res.json({ success: true, data: summariseReceipt(receipt) });
+  } catch (error) {
+    console.error("Get customer receipt error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Record a receipt and allocate it. Whatever is not allocated is kept as
+// customer credit for later invoices.
+router.post(
+  "/",
+  authenticate,
+  [
+    body("customerId").notEmpty(),
+    body("amount").isFloat({ gt: 0 }),
+    body("method").notEmpty(),
+    body("chequeNumber")
+      .if(body("method").equals(PaymentMethod.CHEQUE))
+      .trim()
+      .notEmpty(),
+    body("bankName")
+      .if(body("method").equals(PaymentMethod.CHEQUE))
+      .trim()
+      .notEmpty(),
+    body("chequeDate").optional({ values: "falsy" }).isISO8601(),
+    ...allocationValidators,
+  ],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const { customerId, amount, method, reference, notes, receivedAt } =
+        req.body;
+
+      const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+      });
+
+      if (!customer) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Customer not found" });
+      }
+
+      const receiptDate = receivedAt ? new Date(receivedAt) : new Date();
+      const allocations = await resolveAllocations(
+        customer.id,
+        Number(amount),
+        req.body,
+      );
+
+      const receipt = await prisma.$transaction(async (tx) => {
+        const receiptNumber = await nextDocumentNumber("receipt", {
+          client: tx,
+          date: receiptDate,
+          taken: async (code) =>
+            Boolean(
+              await tx.customerReceipt.findUnique({
+                where: { receiptNumber: code },
+              }),
+            ),
+        });
+
+        // Allocations made with a cheque wait for it to clear
+        const chequeDetails = chequeDetailsFrom(req.body);
+        const cheque = chequeDetails
+          ? await createCheque(tx, {
+              ...chequeDetails,
+              amount: Number(amount),
+              customerId: customer.id,
+              createdById: req.user!.id,
+              receivedAt: receiptDate,
+            })
+          : null;
+
+        const created = await tx.customerReceipt.create({
+          data: {
+            receiptNumber,
+            customerId: customer.id,
+            createdById: req.user!.id,
+            amount: Number(amount),
+            method,
+            reference: reference || chequeDetails?.chequeNumber,
+            notes,
+            receivedAt: receiptDate,
+            chequeId: cheque?.id,
+          },
+        });
+
+        await allocateReceipt(tx, created.id, allocations, req.user!.id);
+
+        return tx.customerReceipt.findUniqueOrThrow({
+          where: { id: created.id },
+          include: { payments: true, cheque: true },
+        });
+      });
+
+      res.status(201).json({ success: true, data: summariseReceipt(receipt) });
+    } catch (error) {
+      if (error instanceof AllocationError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Create customer receipt error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Allocate a receipt's remaining credit to open invoices
+router.post(
+  "/:id/allocate",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.ACCOUNTANT),
+  allocationValidators,
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const existing = await prisma.customerReceipt.findUnique({
+        where: { id: req.params.id },
+        include: {
+          payments: { select: { amount: true, type: true } },
+          cheque: { select: { status: true } },
+        },
+      });
+
+      if (!existing) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Receipt not found" });
+      }
+
+      const allocations = await resolveAllocations(
+        existing.customerId,
+        summariseReceipt(existing).unallocatedAmount,
+        req.body,
+      );
+
+      if (allocations.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Nothing to allocate",
+        });
+      }
+
+      const receipt = await prisma.$transaction(async (tx) => {
+        await allocateReceipt(
+          tx,
+          existing.id,
+          allocations,
+          req.user!.id,
+          new Date(),
+        );
+        return tx.customerReceipt.findUniqueOrThrow({
+          where: { id: existing.id },
+          include: { payments: true, cheque: true },
+        });
+      });
+
+      res.json({ success: true, data: summariseReceipt(receipt) });
+    } catch (error) {
+      if (error instanceof AllocationError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Allocate customer receipt error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Delete a receipt entered by mistake; allocated receipts stay in history
+router.delete(
+  "/:id",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.ACCOUNTANT),
+  async (req, res) => {
+    try {
+      const receipt = await prisma.customerReceipt.findUnique({
+        where: { id: req.params.id },
+        include: { _count: { select: { payments: true } } },
+      });
+
+      if (!receipt) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Receipt not found" });
+      }
+
+      if (receipt._count.payments > 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Cannot delete a receipt that has been allocated",
+        });
+      }
+
+      // A bank credit matched to the receipt goes back to the queue
+      await prisma.$transaction([
+        prisma.bankStatementLine.updateMany({
+          where: { receiptId: receipt.id },
+          data: {
+            status: BankLineStatus.UNMATCHED,
+            receiptId: null,
+            createdPayment: false,
+            autoMatched: false,
+            matchedById: null,
+            matchedAt: null,
+          },
+        }),
+        prisma.customerReceipt.delete({ where: { id: receipt.id } }),
+        // The cheque came in with the receipt
+        ...(receipt.chequeId
+          ? [prisma.cheque.delete({ where: { id: receipt.chequeId } })]
+          : []),
+      ]);
+
+      res.json({ success: true, message: "Receipt deleted successfully" });
+    } catch (error) {
+      console.error("Delete customer receipt error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+export default router;
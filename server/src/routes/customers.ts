@@ -1,11 +1,68 @@
 import { Router } from "express";
-import { UserRole } from "@prisma/client";
+import {
+  UserRole,
+  InvoiceStatus,
+  Prisma,
+  SalesOrderStatus,
+} from "@prisma/client";
 import prisma from "../lib/prisma.js";
+import { nextDocumentNumber } from "../lib/sequence.js";
 import { body, validationResult } from "express-validator";
 import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import { invoiceBalance } from "../lib/invoiceBalance.js";
+import { round2 } from "../lib/gst.js";
+import { orderItemInclude, summariseOrder } from "../lib/salesOrders.js";
+import { customerCredit } from "../lib/customerReceipts.js";
+import { buildCustomerLedger, ledgerToCsv } from "../lib/customerLedger.js";
+import { renderStatementPdf } from "../lib/statementPdf.js";
+import { getCompanyProfile } from "../lib/company.js";
 
 const router = Router();
 
+// Amount owed per customer on issued invoices, net of credit/debit notes.
+// As in the ledger, the opening balance stands in for invoices issued
+// before its date.
+const outstandingBalances = async (
+  customers: Array<{
+    id: string;
+    openingBalance: Prisma.Decimal;
+    openingBalanceDate: Date | null;
+  }>,
+) => {
+  if (customers.length === 0) return {} as Record<string, number>;
+
+  const sums = await prisma.invoice.groupBy({
+    by: ["customerId"],
+    where: {
+      status: { notIn: [InvoiceStatus.DRAFT, InvoiceStatus.CANCELLED] },
+      OR: customers.map((customer) => ({
+        customerId: customer.id,
+        ...(customer.openingBalanceDate
+          ? { issueDate: { gte: customer.openingBalanceDate } }
+          : {}),
+      })),
+    },
+    _sum: {
+      totalAmount: true,
+      paidAmount: true,
+      creditedAmount: true,
+      debitedAmount: true,
+    },
+  });
+  return Object.fromEntries(
+    customers.map((customer) => {
+      const sum = sums.find((s) => s.customerId === customer.id);
+      return [
+        customer.id,
+        round2(
+          Number(customer.openingBalance) +
+            (sum ? invoiceBalance(sum._sum) : 0),
+        ),
+      ];
+    }),
+  ) as Record<string, number>;
+};
+
 // Get all customers
 router.get("/", authenticate, async (req, res) => {
   try {
@@ -37,10 +94,14 @@ router.get("/", authenticate, async (req, res) => {
       }),
       prisma.customer.count({ where }),
     ]);
+    const balances = await outstandingBalances(customers);
 
     res.json({
       success: true,
-      data: customers,
+      data: customers.map((customer) => ({
+        ...customer,
+        outstandingBalance: balances[customer.id] || 0,
+      })),
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -64,10 +125,26 @@ router.get("/:id", authenticate, async (req, res) => {
           take: 10,
           orderBy: { createdAt: "desc" },
         },
+        invoiceNotes: {
+          take: 10,
+          orderBy: { createdAt: "desc" },
+        },
         measurements: {
           take: 10,
           orderBy: { createdAt: "desc" },
         },
+        salesOrders: {
+          where: {
+            status: {
+              in: [SalesOrderStatus.OPEN, SalesOrderStatus.PARTIALLY_FULFILLED],
+            },
+          },
+          include: {
+            items: { include: orderItemInclude },
+            schedule: { orderBy: { dueDate: "asc" } },
+          },
+          orderBy: { orderDate: "asc" },
+        },
       },
     });
 
@@ -77,13 +154,126 @@ router.get("/:id", authenticate, async (req, res) => {
         .json({ success: false, message: "Customer not found" });
     }
 
-    res.json({ success: true, data: customer });
+    const [balances, credit] = await Promise.all([
+      outstandingBalances([customer]),
+      customerCredit(customer.id),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...customer,
+        salesOrders: customer.salesOrders.map(summariseOrder),
+        outstandingBalance: balances[customer.id] || 0,
+        creditBalance: credit,
+      },
+    });
   } catch (error) {
     console.error("Get customer error:", error);
     res.status(500).json({ success: false, message: "Server error" });
   }
 });
 
+// Statement of account for a date range, as JSON, CSV or PDF
+router.get("/:id/ledger", authenticate, async (req, res) => {
+  try {
+    const { from, to, format } = req.query;
+    const range = {
+      from: from ? new Date(String(from)) : undefined,
+      // Inclusive of the whole `to` day
+      to: to
+        ? new Date(new Date(String(to)).getTime() + 24 * 60 * 60 * 1000 - 1)
+        : undefined,
+    };
+
+    const ledger = await buildCustomerLedger(req.params.id, range);
+
+    if (!ledger) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Customer not found" });
+    }
+
+    const fileName = `Statement_${ledger.customer.customerCode.replace(/[^\w-]/g, "_")}`;
+
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${fileName}.csv"`,
+      );
+      return res.send(ledgerToCsv(ledger));
+    }
+
+    if (format === "pdf") {
+      const pdf = await renderStatementPdf(ledger, await getCompanyProfile());
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${fileName}.pdf"`,
+      );
+      res.setHeader("Content-Length", pdf.length);
+      return res.send(pdf);
+    }
+
+    res.json({ success: true, data: ledger });
+  } catch (error) {
+    console.error("Customer ledger error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Import opening balances at go-live, matched on customer code
+router.post(
+  "/opening-balances",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
+  [
+    body("balances").isArray({ min: 1 }),
+    body("balances.*.customerCode").notEmpty(),
+    body("balances.*.openingBalance").isFloat(),
+    body("balances.*.openingBalanceDate")
+      .optional({ values: "falsy" })
+      .isISO8601(),
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const notFound: string[] = [];
+      let updated = 0;
+
+      await prisma.$transaction(async (tx) => {
+        for (const row of req.body.balances) {
+          const { count } = await tx.customer.updateMany({
+            where: { customerCode: String(row.customerCode).trim() },
+            data: {
+              openingBalance: Number(row.openingBalance),
+              openingBalanceDate: row.openingBalanceDate
+                ? new Date(row.openingBalanceDate)
+                : null,
+            },
+          });
+          if (count === 0) notFound.push(row.customerCode);
+          updated += count;
+        }
+      });
+
+      res.json({
+        success: true,
+        data: { updated, notFound },
+        message: `${updated} opening balance(s) imported`,
+      });
+    } catch (error) {
+      console.error("Import opening balances error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
 // Create customer
 router.post(
   "/",
@@ -109,18 +299,17 @@ router.post(
         panNumber,
         paymentTerms,
         notes,
+        openingBalance,
+        openingBalanceDate,
       } = req.body;
 
       // Generate customer code
-      const lastCustomer = await prisma.customer.findFirst({
-        orderBy: { customerCode: "desc" },
+      const customerCode = await nextDocumentNumber("customer", {
+        taken: async (code) =>
+          Boolean(
+            await prisma.customer.findUnique({ where: { customerCode: code } }),
+          ),
       });
-      const nextId = lastCustomer
-        ? String(
-            parseInt(lastCustomer.customerCode.replace("CUST", "")) + 1,
-          ).padStart(4, "0")
-        : "0001";
-      const customerCode = `CUST${nextId}`;
 
       const customer = await prisma.customer.create({
         data: {
@@ -137,6 +326,10 @@ router.post(
           panNumber,
           paymentTerms: paymentTerms ? Number(paymentTerms) : undefined,
           notes,
+          openingBalance: openingBalance ? Number(openingBalance) : undefined,
+          openingBalanceDate: openingBalanceDate
+            ? new Date(openingBalanceDate)
+            : undefined,
         },
       });
 
@@ -165,6 +358,8 @@ router.put("/:id", authenticate, async (req, res) => {
       paymentTerms,
       notes,
       isActive,
+      openingBalance,
+      openingBalanceDate,
     } = req.body;
 
     const customer = await prisma.customer.update({
@@ -183,6 +378,16 @@ router.put("/:id", authenticate, async (req, res) => {
         paymentTerms: paymentTerms ? Number(paymentTerms) : undefined,
         notes,
         isActive,
+        openingBalance:
+          openingBalance !== undefined
+            ? Number(openingBalance) || 0
+            : undefined,
+        openingBalanceDate:
+          openingBalanceDate !== undefined
+            ? openingBalanceDate
+              ? new Date(openingBalanceDate)
+              : null
+            : undefined,
       },
     });
 
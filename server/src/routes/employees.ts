@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { UserRole } from "@prisma/client";
 import prisma from "../lib/prisma.js";
+import { nextDocumentNumber } from "../lib/sequence.js";
 import bcrypt from "bcryptjs";
 import { body, validationResult } from "express-validator";
 import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
@@ -194,15 +195,12 @@ router.post(
       }
 
       // Generate employee ID
-      const lastEmployee = await prisma.employee.findFirst({
-        orderBy: { employeeId: "desc" },
+      const employeeId = await nextDocumentNumber("employee", {
+        taken: async (code) =>
+          Boolean(
+            await prisma.employee.findUnique({ where: { employeeId: code } }),
+          ),
       });
-      const nextId = lastEmployee
-        ? String(
-            parseInt(lastEmployee.employeeId.replace("EMP", "")) + 1,
-          ).padStart(4, "0")
-        : "0001";
-      const employeeId = `EMP${nextId}`;
 
       const hashedPassword = await bcrypt.hash(password, 10);
 
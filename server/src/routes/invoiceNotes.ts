@@ -0,0 +1,370 @@
+import { Router } from "express";
+import {
+  UserRole,
+  ExportType,
+  InvoiceStatus,
+  MaterialStatus,
+  NoteType,
+  Prisma,
+} from "@prisma/client";
+import prisma from "../lib/prisma.js";
+import { body, validationResult } from "express-validator";
+import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import { getCompanyProfile } from "../lib/company.js";
+import {
+  buildTaxBreakdown,
+  calculateInvoiceItems,
+  round2,
+} from "../lib/gst.js";
+import { netInvoiceAmount, syncInvoiceNotes } from "../lib/invoiceBalance.js";
+import { InvoiceStatusError } from "../lib/invoiceStatus.js";
+import { nextDocumentNumber, SequenceSeries } from "../lib/sequence.js";
+
+const router = Router();
+
+const NOTE_SERIES: Record<NoteType, SequenceSeries> = {
+  [NoteType.CREDIT]: "creditNote",
+  [NoteType.DEBIT]: "debitNote",
+};
+
+// Move stock in (returned goods) or back out (note deleted) for linked materials
+const adjustStock = async (
+  tx: Prisma.TransactionClient,
+  items: Array<{ materialId: string | null; quantity: any }>,
+  direction: "IN" | "OUT",
+  noteNumber: string,
+) => {
+  for (const item of items) {
+    if (!item.materialId) continue;
+
+    const material = await tx.material.update({
+      where: { id: item.materialId },
+      data: {
+        quantity:
+          direction === "IN"
+            ? { increment: Number(item.quantity) }
+            : { decrement: Number(item.quantity) },
+      },
+    });
+
+    const quantity = Number(material.quantity);
+    let status: MaterialStatus = MaterialStatus.AVAILABLE;
+    if (quantity <= 0) status = MaterialStatus.OUT_OF_STOCK;
+    else if (quantity <= Number(material.minQuantity))
+      status = MaterialStatus.LOW_STOCK;
+    if (material.status !== MaterialStatus.DISCONTINUED) {
+      await tx.material.update({
+        where: { id: material.id },
+        data: { status },
+      });
+    }
+
+    await tx.materialTransaction.create({
+      data: {
+        materialId: item.materialId,
+        type: direction === "IN" ? "RETURN" : "OUT",
+        quantity: item.quantity,
+        reference: noteNumber,
+        notes:
+          direction === "IN"
+            ? `Returned against credit note ${noteNumber}`
+            : `Credit note ${noteNumber} deleted`,
+      },
+    });
+  }
+};
+
+// Get all credit/debit notes
+router.get("/", authenticate, async (req, res) => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      search,
+      noteType,
+      customerId,
+      invoiceId,
+    } = req.query;
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const where: any = {};
+    if (search) {
+      where.OR = [
+        { noteNumber: { contains: String(search), mode: "insensitive" } },
+        {
+          invoice: {
+            invoiceNumber: { contains: String(search), mode: "insensitive" },
+          },
+        },
+        {
+          customer: { name: { contains: String(search), mode: "insensitive" } },
+        },
+      ];
+    }
+    if (noteType) where.noteType = noteType;
+    if (customerId) where.customerId = customerId;
+    if (invoiceId) where.invoiceId = invoiceId;
+
+    const [notes, total] = await Promise.all([
+      prisma.invoiceNote.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          customer: { select: { id: true, name: true, customerCode: true } },
+          invoice: { select: { id: true, invoiceNumber: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.invoiceNote.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: notes,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    });
+  } catch (error) {
+    console.error("Get notes error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Get note by ID
+router.get("/:id", authenticate, async (req, res) => {
+  try {
+    const note = await prisma.invoiceNote.findUnique({
+      where: { id: req.params.id },
+      include: {
+        customer: true,
+        invoice: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+            issueDate: true,
+            totalAmount: true,
+            irn: true,
+            exportType: true,
+          },
+        },
+        createdBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+        items: {
+          include: { material: { select: { id: true, name: true } } },
+        },
+      },
+    });
+
+    if (!note) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Note not found" });
+    }
+
+    const company = await getCompanyProfile();
+
+    res.json({
+      success: true,
+      data: {
+        ...note,
+        taxBreakdown: buildTaxBreakdown({
+          ...note,
+          exportType: note.invoice.exportType,
+        }),
+        company,
+      },
+    });
+  } catch (error) {
+    console.error("Get note error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Create credit/debit note against an invoice
+router.post(
+  "/",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT, UserRole.MANAGER),
+  [
+    body("invoiceId").notEmpty(),
+    body("noteType").isIn(Object.values(NoteType)),
+    body("reason").trim().notEmpty(),
+    body("items").isArray({ min: 1 }),
+    body("items.*.description").notEmpty(),
+    body("items.*.quantity").isFloat({ gt: 0 }),
+    body("items.*.unitPrice").isFloat({ min: 0 }),
+  ],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const {
+        invoiceId,
+        noteType,
+        issueDate,
+        reason,
+        items,
+        roundOff,
+        returnToStock,
+        notes,
+      } = req.body;
+
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: invoiceId },
+      });
+
+      if (!invoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
+      }
+
+      if (
+        invoice.status === InvoiceStatus.DRAFT ||
+        invoice.status === InvoiceStatus.CANCELLED
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: "Notes can only be raised against issued invoices",
+        });
+      }
+
+      // Same place of supply as the invoice, so the tax split matches;
+      // notes on exports under LUT carry no tax either
+      const {
+        processedItems,
+        subtotal,
+        taxAmount,
+        cgstAmount,
+        sgstAmount,
+        igstAmount,
+      } = calculateInvoiceItems(
+        items,
+        invoice.isInterState,
+        invoice.exportType === ExportType.UNDER_LUT,
+      );
+      const roundOffNum = Number(roundOff || 0);
+      const totalAmount = round2(subtotal + taxAmount + roundOffNum);
+
+      if (
+        noteType === NoteType.CREDIT &&
+        totalAmount > netInvoiceAmount(invoice) + 0.01
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: `Credit note exceeds invoice value. Available: ${netInvoiceAmount(
+            invoice,
+          )}`,
+        });
+      }
+
+      const stockReturn =
+        noteType === NoteType.CREDIT && Boolean(returnToStock);
+      const noteItems = processedItems.map((item, index) => ({
+        ...item,
+        materialId: stockReturn ? items[index].materialId || null : null,
+      }));
+      const noteDate = issueDate ? new Date(issueDate) : new Date();
+
+      const note = await prisma.$transaction(async (tx) => {
+        const noteNumber = await nextDocumentNumber(NOTE_SERIES[noteType], {
+          client: tx,
+          date: noteDate,
+          taken: async (code) =>
+            Boolean(
+              await tx.invoiceNote.findUnique({ where: { noteNumber: code } }),
+            ),
+        });
+        const created = await tx.invoiceNote.create({
+          data: {
+            noteNumber,
+            noteType,
+            invoiceId,
+            customerId: invoice.customerId,
+            createdById: req.user!.id,
+            issueDate: noteDate,
+            reason,
+            subtotal,
+            taxAmount,
+            cgstAmount,
+            sgstAmount,
+            igstAmount,
+            roundOff: roundOffNum,
+            totalAmount,
+            placeOfSupply: invoice.placeOfSupply,
+            isInterState: invoice.isInterState,
+            returnToStock: stockReturn,
+            notes,
+            items: { create: noteItems },
+          },
+          include: { items: true },
+        });
+
+        await syncInvoiceNotes(invoiceId, req.user!.id, tx);
+
+        if (stockReturn) {
+          await adjustStock(tx, created.items, "IN", noteNumber);
+        }
+
+        return created;
+      });
+
+      res.status(201).json({ success: true, data: note });
+    } catch (error) {
+      if (error instanceof InvoiceStatusError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Create note error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Delete note, reversing its effect on the invoice and stock
+router.delete(
+  "/:id",
+  authenticate,
+  authorize(UserRole.ADMIN),
+  async (req, res) => {
+    try {
+      const note = await prisma.invoiceNote.findUnique({
+        where: { id: req.params.id },
+        include: { items: true },
+      });
+
+      if (!note) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Note not found" });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        if (note.returnToStock) {
+          await adjustStock(tx, note.items, "OUT", note.noteNumber);
+        }
+
+        await tx.invoiceNote.delete({ where: { id: note.id } });
+        await syncInvoiceNotes(note.invoiceId, req.user!.id, tx);
+      });
+
+      res.json({ success: true, message: "Note deleted successfully" });
+    } catch (error) {
+      if (error instanceof InvoiceStatusError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Delete note error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+export default router;
@@ -1,11 +1,148 @@
 import { Router } from "express";
-import { UserRole, InvoiceStatus } from "@prisma/client";
+import { randomBytes } from "node:crypto";
+import {
+  UserRole,
+  InvoiceStatus,
+  QuotationStatus,
+  SalesOrderStatus,
+  PaymentType,
+  DiscountType,
+  ItemUnit,
+  InvoiceRevisionAction,
+  EmailStatus,
+  ExportType,
+  PaymentMethod,
+  Prisma,
+} from "@prisma/client";
 import prisma from "../lib/prisma.js";
 import { body, validationResult } from "express-validator";
 import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import { getCompanyProfile } from "../lib/company.js";
+import { renderInvoicePdf } from "../lib/invoicePdf.js";
+import {
+  buildEwayBillJson,
+  EWAY_BILL_WARNING_HOURS,
+  ewayBillValidUntil,
+  validateEwayBill,
+} from "../lib/ewayBill.js";
+import {
+  buildEInvoicePayload,
+  IrpError,
+  requestIrn,
+  validateEInvoice,
+} from "../lib/einvoice.js";
+import {
+  buildTaxBreakdown,
+  calculateInvoiceItems,
+  round2,
+} from "../lib/gst.js";
+import {
+  BASE_CURRENCY,
+  EXPORT_FIELD_KEYS,
+  exportFields,
+  foreignPricing,
+  invoiceSupply,
+  rupeePricing,
+} from "../lib/exportInvoices.js";
+import {
+  collectableBalance,
+  invoiceBalance,
+  syncInvoicePayments,
+  unclearedChequeAmount,
+} from "../lib/invoiceBalance.js";
+import { createInvoice, invoiceLines } from "../lib/invoices.js";
+import {
+  AllocationError,
+  applyCreditToInvoice,
+  customerCredit,
+  OPEN_INVOICE_STATUSES,
+} from "../lib/customerReceipts.js";
+import { runInvoiceReminders } from "../lib/invoiceReminders.js";
+import { buildUpiIntent, matchUpiReference } from "../lib/upi.js";
+import { chequeDetailsFrom, createCheque } from "../lib/cheques.js";
+import {
+  emailInvoice,
+  EmailNotConfiguredError,
+  invoiceEmailDraft,
+} from "../lib/invoiceEmail.js";
+import {
+  diffSnapshots,
+  ensureBaselineRevision,
+  InvoiceSnapshot,
+  recordInvoiceRevision,
+} from "../lib/invoiceRevisions.js";
+import {
+  checkOrderQuantities,
+  refreshOrderStatus,
+} from "../lib/salesOrders.js";
+import {
+  assertCancellable,
+  assertTransition,
+  EDITABLE_STATUSES,
+  InvoiceStatusError,
+} from "../lib/invoiceStatus.js";
 
 const router = Router();
 
+// Unit of measure and trade discount on each line
+const lineValidators = [
+  body("items.*.unit").optional().isIn(Object.values(ItemUnit)),
+  body("items.*.discountType")
+    .optional({ values: "falsy" })
+    .isIn(Object.values(DiscountType)),
+  body("items.*.discountValue").optional().isFloat({ min: 0 }),
+  body("items.*.foreignUnitPrice")
+    .optional({ values: "null" })
+    .isFloat({ min: 0 }),
+  body("items.*.foreignDiscountValue")
+    .optional({ values: "null" })
+    .isFloat({ min: 0 }),
+];
+
+// Invoice currency and the shipping details of an export
+const exportValidators = [
+  body("currency")
+    .optional({ values: "falsy" })
+    .matches(/^[A-Za-z]{3}$/)
+    .withMessage("Currency must be a three letter code"),
+  body("exchangeRate")
+    .if(
+      (_value: unknown, { req }: any) =>
+        Boolean(req.body.currency) &&
+        String(req.body.currency).toUpperCase() !== BASE_CURRENCY,
+    )
+    .isFloat({ gt: 0 })
+    .withMessage("Exchange rate is required for a foreign currency invoice"),
+  body("exportType")
+    .optional({ values: "falsy" })
+    .isIn(Object.values(ExportType)),
+  body("lutNumber")
+    .if(body("exportType").equals(ExportType.UNDER_LUT))
+    .trim()
+    .notEmpty()
+    .withMessage("LUT number is required for exports under LUT"),
+  body("portCode")
+    .optional({ values: "falsy" })
+    .trim()
+    .matches(/^[A-Za-z0-9]{6}$/)
+    .withMessage("Port code must be 6 characters"),
+  body("shippingBillDate").optional({ values: "falsy" }).isISO8601(),
+];
+
+// Update an invoice and record the change in its revision history
+const updateWithRevision = (
+  invoiceId: string,
+  data: Prisma.InvoiceUpdateInput,
+  userId: string,
+  action: InvoiceRevisionAction,
+) =>
+  prisma.$transaction(async (tx) => {
+    await ensureBaselineRevision(tx, invoiceId);
+    const updated = await tx.invoice.update({ where: { id: invoiceId }, data });
+    await recordInvoiceRevision(tx, invoiceId, userId, action);
+    return updated;
+  });
+
 // Get all invoices
 router.get("/", authenticate, async (req, res) => {
   try {
@@ -60,6 +197,8 @@ router.get("/", authenticate, async (req, res) => {
         _sum: {
           totalAmount: true,
           paidAmount: true,
+          creditedAmount: true,
+          debitedAmount: true,
         },
         where: customerId ? { customerId: String(customerId) } : undefined,
       }),
@@ -77,19 +216,13 @@ router.get("/", authenticate, async (req, res) => {
       pendingAmount: statsResult.reduce(
         (sum, s) =>
           s.status === "PENDING" || s.status === "PARTIALLY_PAID"
-            ? sum +
-              ((Number(s._sum.totalAmount) || 0) -
-                (Number(s._sum.paidAmount) || 0))
+            ? sum + invoiceBalance(s._sum)
             : sum,
         0,
       ),
       overdueAmount: statsResult.reduce(
         (sum, s) =>
-          s.status === "OVERDUE"
-            ? sum +
-              ((Number(s._sum.totalAmount) || 0) -
-                (Number(s._sum.paidAmount) || 0))
-            : sum,
+          s.status === "OVERDUE" ? sum + invoiceBalance(s._sum) : sum,
         0,
       ),
     };
@@ -123,8 +256,31 @@ router.get("/:id", authenticate, async (req, res) => {
         },
         items: true,
         payments: {
-          orderBy: { paidAt: "desc" },
+          include: {
+            receipt: { select: { id: true, receiptNumber: true } },
+            cheque: true,
+          },
+          orderBy: [{ paidAt: "desc" }, { createdAt: "desc" }],
+        },
+        creditDebitNotes: {
+          select: {
+            id: true,
+            noteNumber: true,
+            noteType: true,
+            issueDate: true,
+            reason: true,
+            totalAmount: true,
+          },
+          orderBy: { issueDate: "desc" },
+        },
+        quotation: { select: { id: true, quotationNumber: true } },
+        salesOrder: { select: { id: true, orderNumber: true } },
+        reminders: { orderBy: { createdAt: "desc" } },
+        emails: {
+          include: { sentBy: { select: { firstName: true, lastName: true } } },
+          orderBy: { createdAt: "desc" },
         },
+        cancelledBy: { select: { firstName: true, lastName: true } },
       },
     });
 
@@ -134,283 +290,233 @@ router.get("/:id", authenticate, async (req, res) => {
         .json({ success: false, message: "Invoice not found" });
     }
 
-    res.json({ success: true, data: invoice });
+    const [company, credit] = await Promise.all([
+      getCompanyProfile(),
+      customerCredit(invoice.customerId),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...invoice,
+        taxBreakdown: buildTaxBreakdown(invoice),
+        company,
+        customerCredit: credit,
+        upiIntent: buildUpiIntent(company, invoice),
+      },
+    });
   } catch (error) {
     console.error("Get invoice error:", error);
     res.status(500).json({ success: false, message: "Server error" });
   }
 });
 
-// Create invoice
+// Download invoice as PDF
+router.get("/:id/pdf", authenticate, async (req, res) => {
+  try {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: req.params.id },
+      include: {
+        customer: true,
+        items: true,
+      },
+    });
+
+    if (!invoice) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Invoice not found" });
+    }
+
+    const company = await getCompanyProfile();
+    const pdf = await renderInvoicePdf(
+      invoice,
+      buildTaxBreakdown(invoice),
+      company,
+    );
+    const fileName = `Invoice_${invoice.invoiceNumber.replace(/[^\w-]/g, "_")}.pdf`;
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+    res.setHeader("Content-Length", pdf.length);
+    res.send(pdf);
+  } catch (error) {
+    console.error("Invoice PDF error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Token for the invoice's public payment link, created on first request
 router.post(
-  "/",
+  "/:id/payment-link",
   authenticate,
-  [
-    body("customerId").notEmpty(),
-    body("dueDate").notEmpty(),
-    body("items").isArray({ min: 1 }),
-  ],
-  async (req: AuthRequest, res) => {
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT, UserRole.MANAGER),
+  async (req, res) => {
     try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ success: false, errors: errors.array() });
-      }
-
-      const {
-        customerId,
-        invoiceDate,
-        dueDate,
-        items,
-        taxRate,
-        discountRate,
-        roundOff,
-        notes,
-        terms,
-        status,
-        deliveryNote,
-        deliveryNoteDate,
-        otherReference,
-        otherReferences,
-        buyersOrderNo,
-        buyersOrderDate,
-        dispatchDocNo,
-        dispatchedThrough,
-        destination,
-        billOfLading,
-        motorVehicleNo,
-        termsOfDelivery,
-      } = req.body;
-
-      // Generate invoice number
-      const prefix = "INV";
-      const year = new Date().getFullYear();
-      const month = String(new Date().getMonth() + 1).padStart(2, "0");
-      const lastInvoice = await prisma.invoice.findFirst({
-        where: {
-          invoiceNumber: { startsWith: `${prefix}${year}${month}` },
-        },
-        orderBy: { invoiceNumber: "desc" },
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: req.params.id },
       });
 
-      let sequence = "0001";
-      if (lastInvoice) {
-        const lastSeq = parseInt(lastInvoice.invoiceNumber.slice(-4));
-        sequence = String(lastSeq + 1).padStart(4, "0");
+      if (!invoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
       }
-      const invoiceNumber = `${prefix}${year}${month}${sequence}`;
-
-      // Calculate totals
-      let subtotal = 0;
-      let totalTaxAmount = 0;
-
-      const processedItems = items.map((item: any) => {
-        const amount = Number(item.quantity) * Number(item.unitPrice);
-        const itemTax = amount * (Number(item.taxRate || 0) / 100);
-        subtotal += amount;
-        totalTaxAmount += itemTax;
-        return {
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          amount: amount,
-          hsnCode: item.hsnCode,
-          taxRate: item.taxRate || 0,
-        };
-      });
 
-      const discountRateNum = Number(discountRate || 0);
-      const discountAmount = subtotal * (discountRateNum / 100);
-      const roundOffNum = Number(roundOff || 0);
-      const totalAmount =
-        subtotal + totalTaxAmount - discountAmount + roundOffNum;
+      if (
+        invoice.status === InvoiceStatus.DRAFT ||
+        invoice.status === InvoiceStatus.CANCELLED
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: "Payment links are for issued invoices only",
+        });
+      }
 
-      const invoice = await prisma.invoice.create({
-        data: {
-          invoiceNumber,
-          customerId,
-          createdById: req.user!.id,
-          issueDate: invoiceDate ? new Date(invoiceDate) : new Date(),
-          dueDate: new Date(dueDate),
-          subtotal,
-          taxRate: 0, // No longer used globally, but kept for schema compatibility
-          taxAmount: totalTaxAmount,
-          discountRate: discountRateNum,
-          discountAmount,
-          roundOff: roundOffNum,
-          totalAmount,
-          status: status || InvoiceStatus.DRAFT,
-          notes,
-          terms,
-          deliveryNote,
-          deliveryNoteDate: deliveryNoteDate
-            ? new Date(deliveryNoteDate)
-            : null,
-          otherReference,
-          otherReferences,
-          buyersOrderNo,
-          buyersOrderDate: buyersOrderDate ? new Date(buyersOrderDate) : null,
-          dispatchDocNo,
-          dispatchedThrough,
-          destination,
-          billOfLading,
-          motorVehicleNo,
-          termsOfDelivery,
-          items: {
-            create: processedItems,
-          },
-        },
-        include: {
-          customer: true,
-          items: true,
-        },
-      });
+      const token =
+        invoice.paymentLinkToken ||
+        (
+          await prisma.invoice.update({
+            where: { id: invoice.id },
+            data: { paymentLinkToken: randomBytes(16).toString("hex") },
+          })
+        ).paymentLinkToken;
 
-      res.status(201).json({ success: true, data: invoice });
+      res.json({ success: true, data: { token } });
     } catch (error) {
-      console.error("Create invoice error:", error);
+      console.error("Create payment link error:", error);
       res.status(500).json({ success: false, message: "Server error" });
     }
   },
 );
 
-// Update invoice
-router.put("/:id", authenticate, async (req: AuthRequest, res) => {
+// Revision history, newest first
+router.get("/:id/revisions", authenticate, async (req, res) => {
   try {
-    const {
-      invoiceDate,
-      dueDate,
-      items,
-      taxRate,
-      discountRate,
-      roundOff,
-      notes,
-      terms,
-      status,
-    } = req.body;
-
-    // Check if invoice can be edited
-    const existingInvoice = await prisma.invoice.findUnique({
+    const invoice = await prisma.invoice.findUnique({
       where: { id: req.params.id },
+      select: { id: true },
     });
 
-    if (!existingInvoice) {
+    if (!invoice) {
       return res
         .status(404)
         .json({ success: false, message: "Invoice not found" });
     }
 
-    if (existingInvoice.status === InvoiceStatus.PAID) {
-      return res
-        .status(400)
-        .json({ success: false, message: "Cannot edit a paid invoice" });
-    }
+    const revisions = await prisma.invoiceRevision.findMany({
+      where: { invoiceId: invoice.id },
+      include: {
+        createdBy: { select: { firstName: true, lastName: true } },
+      },
+      orderBy: { version: "desc" },
+    });
 
-    // Calculate new totals if items provided
-    let updateData: any = {
-      issueDate: invoiceDate ? new Date(invoiceDate) : undefined,
-      dueDate: dueDate ? new Date(dueDate) : undefined,
-      taxRate,
-      discountRate,
-      roundOff,
-      notes,
-      terms,
-      status,
-      deliveryNote: req.body.deliveryNote,
-      deliveryNoteDate: req.body.deliveryNoteDate
-        ? new Date(req.body.deliveryNoteDate)
-        : null,
-      otherReference: req.body.otherReference,
-      otherReferences: req.body.otherReferences,
-      buyersOrderNo: req.body.buyersOrderNo,
-      buyersOrderDate: req.body.buyersOrderDate
-        ? new Date(req.body.buyersOrderDate)
-        : null,
-      dispatchDocNo: req.body.dispatchDocNo,
-      dispatchedThrough: req.body.dispatchedThrough,
-      destination: req.body.destination,
-      billOfLading: req.body.billOfLading,
-      motorVehicleNo: req.body.motorVehicleNo,
-      termsOfDelivery: req.body.termsOfDelivery,
-    };
+    res.json({
+      success: true,
+      data: revisions.map(({ snapshot, ...revision }) => {
+        const { fields, items } = snapshot as unknown as InvoiceSnapshot;
+        return {
+          ...revision,
+          status: fields.status,
+          totalAmount: fields.totalAmount,
+          itemCount: items.length,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Get invoice revisions error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
 
-    if (items && items.length > 0) {
-      // Delete existing items
-      await prisma.invoiceItem.deleteMany({
-        where: { invoiceId: req.params.id },
-      });
+// Field and line changes between two versions; defaults to the latest
+// version against the one before it
+router.get("/:id/revisions/diff", authenticate, async (req, res) => {
+  try {
+    const revisions = await prisma.invoiceRevision.findMany({
+      where: { invoiceId: req.params.id },
+      orderBy: { version: "desc" },
+    });
+
+    if (revisions.length === 0) {
+      return res
+        .status(404)
+        .json({ success: false, message: "No revisions found" });
+    }
 
-      let subtotal = 0;
-      let totalTaxAmount = 0;
+    const toVersion = req.query.to
+      ? Number(req.query.to)
+      : revisions[0].version;
+    const fromVersion = req.query.from ? Number(req.query.from) : toVersion - 1;
 
-      const processedItems = items.map((item: any) => {
-        const amount = Number(item.quantity) * Number(item.unitPrice);
-        const itemTax = amount * (Number(item.taxRate || 0) / 100);
-        subtotal += amount;
-        totalTaxAmount += itemTax;
-        return {
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          amount: amount,
-          hsnCode: item.hsnCode,
-          taxRate: item.taxRate || 0,
-        };
-      });
+    const from = revisions.find((r) => r.version === fromVersion);
+    const to = revisions.find((r) => r.version === toVersion);
 
-      const currentDiscountRate =
-        discountRate !== undefined
-          ? Number(discountRate)
-          : Number(existingInvoice.discountRate);
-
-      const currentRoundOff =
-        roundOff !== undefined
-          ? Number(roundOff)
-          : Number(existingInvoice.roundOff);
-
-      const discountAmount = subtotal * (currentDiscountRate / 100);
-      const totalAmount =
-        subtotal + totalTaxAmount - discountAmount + currentRoundOff;
-
-      updateData = {
-        ...updateData,
-        subtotal,
-        taxAmount: totalTaxAmount,
-        discountAmount,
-        roundOff: currentRoundOff,
-        totalAmount,
-        items: {
-          create: processedItems,
-        },
-      };
+    if (!from || !to) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Revision not found" });
     }
 
-    const invoice = await prisma.invoice.update({
-      where: { id: req.params.id },
-      data: updateData,
-      include: {
-        customer: true,
-        items: true,
-        payments: true,
+    res.json({
+      success: true,
+      data: {
+        from: { version: from.version, createdAt: from.createdAt },
+        to: { version: to.version, createdAt: to.createdAt },
+        ...diffSnapshots(
+          from.snapshot as unknown as InvoiceSnapshot,
+          to.snapshot as unknown as InvoiceSnapshot,
+        ),
       },
     });
+  } catch (error) {
+    console.error("Get invoice revision diff error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Get e-invoice (IRN) JSON for an invoice
+router.get("/:id/einvoice", authenticate, async (req, res) => {
+  try {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: req.params.id },
+      include: { customer: true, items: true },
+    });
+
+    if (!invoice) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Invoice not found" });
+    }
 
-    res.json({ success: true, data: invoice });
+    const company = await getCompanyProfile();
+    const errors = validateEInvoice(invoice, company);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Invoice is not ready for e-invoicing",
+        errors,
+      });
+    }
+
+    res.json({ success: true, data: buildEInvoicePayload(invoice, company) });
   } catch (error) {
-    console.error("Update invoice error:", error);
+    console.error("Get e-invoice error:", error);
     res.status(500).json({ success: false, message: "Server error" });
   }
 });
 
-// Delete invoice
-router.delete(
-  "/:id",
+// Generate IRN through the IRP
+router.post(
+  "/:id/einvoice",
   authenticate,
   authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
-  async (req, res) => {
+  async (req: AuthRequest, res) => {
     try {
       const invoice = await prisma.invoice.findUnique({
         where: { id: req.params.id },
+        include: { customer: true, items: true },
       });
 
       if (!invoice) {
@@ -419,39 +525,60 @@ router.delete(
           .json({ success: false, message: "Invoice not found" });
       }
 
-      if (
-        invoice.status === InvoiceStatus.PAID ||
-        Number(invoice.paidAmount) > 0
-      ) {
+      const company = await getCompanyProfile();
+      const errors = validateEInvoice(invoice, company);
+      if (errors.length > 0) {
         return res.status(400).json({
           success: false,
-          message: "Cannot delete invoice with payments",
+          message: "Invoice is not ready for e-invoicing",
+          errors,
         });
       }
 
-      await prisma.invoice.delete({ where: { id: req.params.id } });
-      res.json({ success: true, message: "Invoice deleted successfully" });
+      const irnDetails = await requestIrn(
+        buildEInvoicePayload(invoice, company),
+      );
+
+      const updated = await updateWithRevision(
+        invoice.id,
+        irnDetails,
+        req.user!.id,
+        InvoiceRevisionAction.EINVOICE,
+      );
+
+      res.json({ success: true, data: updated });
     } catch (error) {
-      console.error("Delete invoice error:", error);
+      if (error instanceof IrpError) {
+        return res.status(502).json({
+          success: false,
+          message: error.message,
+          errors: error.details.map((d) => `${d.ErrorCode}: ${d.ErrorMessage}`),
+        });
+      }
+      console.error("Generate IRN error:", error);
       res.status(500).json({ success: false, message: "Server error" });
     }
   },
 );
 
-// Add payment to invoice
-router.post(
-  "/:id/payments",
+// Save IRN details obtained outside the app (e.g. from the IRP portal)
+router.put(
+  "/:id/einvoice",
   authenticate,
-  [body("amount").isNumeric(), body("method").notEmpty()],
-  async (req, res) => {
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
+  [
+    body("irn").isLength({ min: 64, max: 64 }),
+    body("ackNo").notEmpty(),
+    body("ackDate").isISO8601(),
+    body("signedQrCode").notEmpty(),
+  ],
+  async (req: AuthRequest, res) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         return res.status(400).json({ success: false, errors: errors.array() });
       }
 
-      const { amount, method, reference, notes, paymentDate } = req.body;
-
       const invoice = await prisma.invoice.findUnique({
         where: { id: req.params.id },
       });
@@ -462,59 +589,1362 @@ router.post(
           .json({ success: false, message: "Invoice not found" });
       }
 
-      const currentPaidAmount = Number(invoice.paidAmount || 0);
-      const totalAmount = Number(invoice.totalAmount);
-      const paymentAmount = Number(amount);
-      const newPaidAmount = currentPaidAmount + paymentAmount;
+      const { irn, ackNo, ackDate, signedQrCode } = req.body;
+      const updated = await updateWithRevision(
+        invoice.id,
+        {
+          irn,
+          ackNo: String(ackNo),
+          ackDate: new Date(ackDate),
+          signedQrCode,
+        },
+        req.user!.id,
+        InvoiceRevisionAction.EINVOICE,
+      );
 
-      if (newPaidAmount > totalAmount + 0.01) {
-        // Allow small precision diff
-        return res.status(400).json({
-          success: false,
-          message: `Payment exceeds invoice balance. Remaining: ${
-            totalAmount - currentPaidAmount
-          }`,
-        });
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error("Save IRN error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Get e-way bill bulk-upload JSON for an invoice
+router.get("/:id/ewaybill", authenticate, async (req, res) => {
+  try {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: req.params.id },
+      include: { customer: true, items: true },
+    });
+
+    if (!invoice) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Invoice not found" });
+    }
+
+    const company = await getCompanyProfile();
+    const errors = validateEwayBill(invoice, company);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Invoice is not ready for an e-way bill",
+        errors,
+      });
+    }
+
+    res.json({ success: true, data: buildEwayBillJson([invoice], company) });
+  } catch (error) {
+    console.error("Get e-way bill error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Save e-way bill number and validity from the EWB portal
+router.put(
+  "/:id/ewaybill",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT, UserRole.MANAGER),
+  [
+    body("ewbNumber").matches(/^\d{12}$/),
+    body("ewbDate").isISO8601(),
+    body("ewbValidUntil").optional({ values: "falsy" }).isISO8601(),
+  ],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
       }
 
-      // Determine new status
-      let newStatus = invoice.status;
-      if (newPaidAmount >= totalAmount - 0.01) {
-        newStatus = InvoiceStatus.PAID;
-      } else if (newPaidAmount > 0) {
-        newStatus = InvoiceStatus.PARTIALLY_PAID;
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!invoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
       }
 
-      const [payment, updatedInvoice] = await Promise.all([
-        prisma.payment.create({
-          data: {
-            invoiceId: req.params.id,
-            amount: paymentAmount,
-            method,
-            reference,
-            notes,
-            paidAt: paymentDate ? new Date(paymentDate) : new Date(),
-          },
-        }),
-        prisma.invoice.update({
-          where: { id: req.params.id },
-          data: {
-            paidAmount: newPaidAmount,
-            status: newStatus,
-          },
-        }),
-      ]);
+      const { ewbNumber, ewbDate, ewbValidUntil } = req.body;
+      const generatedAt = new Date(ewbDate);
 
-      res
-        .status(201)
+      const updated = await updateWithRevision(
+        invoice.id,
+        {
+          ewbNumber,
+          ewbDate: generatedAt,
+          ewbValidUntil: ewbValidUntil
+            ? new Date(ewbValidUntil)
+            : ewayBillValidUntil(generatedAt, invoice.transportDistance || 0),
+        },
+        req.user!.id,
+        InvoiceRevisionAction.EWAY_BILL,
+      );
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error("Save e-way bill error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Create invoice
+router.post(
+  "/",
+  authenticate,
+  [
+    body("customerId").notEmpty(),
+    body("dueDate").notEmpty(),
+    body("items").isArray({ min: 1 }),
+    body("status").optional().isIn(EDITABLE_STATUSES),
+    ...lineValidators,
+    ...exportValidators,
+  ],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const {
+        customerId,
+        invoiceDate,
+        dueDate,
+        items,
+        taxRate,
+        discountRate,
+        roundOff,
+        notes,
+        terms,
+        status,
+        deliveryNote,
+        deliveryNoteDate,
+        otherReference,
+        otherReferences,
+        buyersOrderNo,
+        buyersOrderDate,
+        dispatchDocNo,
+        dispatchedThrough,
+        destination,
+        billOfLading,
+        motorVehicleNo,
+        termsOfDelivery,
+        transporterId,
+        transportDistance,
+        quotationId,
+        salesOrderId,
+      } = req.body;
+
+      const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+      });
+
+      if (!customer) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Customer not found" });
+      }
+
+      // Invoice raised from a quotation keeps the link for win-rate reporting
+      if (quotationId) {
+        const quotation = await prisma.quotation.findUnique({
+          where: { id: quotationId },
+        });
+        if (!quotation) {
+          return res
+            .status(404)
+            .json({ success: false, message: "Quotation not found" });
+        }
+        if (quotation.invoiceId) {
+          return res.status(400).json({
+            success: false,
+            message: "Quotation has already been converted to an invoice",
+          });
+        }
+      }
+
+      // A lot billed against a sales order takes the buyer's order reference
+      // from it and may not exceed what is left to invoice on each line
+      let orderReference: {
+        buyersOrderNo: string;
+        buyersOrderDate: Date;
+      } | null = null;
+      if (salesOrderId) {
+        const salesOrder = await prisma.salesOrder.findUnique({
+          where: { id: salesOrderId },
+        });
+        if (!salesOrder || salesOrder.customerId !== customerId) {
+          return res
+            .status(404)
+            .json({ success: false, message: "Sales order not found" });
+        }
+        if (
+          salesOrder.status === SalesOrderStatus.CANCELLED ||
+          salesOrder.status === SalesOrderStatus.COMPLETED
+        ) {
+          return res
+            .status(400)
+            .json({ success: false, message: "Sales order is closed" });
+        }
+        const quantityError = await checkOrderQuantities(salesOrderId, items);
+        if (quantityError) {
+          return res
+            .status(400)
+            .json({ success: false, message: quantityError });
+        }
+        orderReference = {
+          buyersOrderNo: salesOrder.buyersOrderNo || salesOrder.orderNumber,
+          buyersOrderDate: salesOrder.buyersOrderDate || salesOrder.orderDate,
+        };
+      }
+
+      const invoice = await createInvoice(
+        {
+          customer,
+          createdById: req.user!.id,
+          issueDate: invoiceDate ? new Date(invoiceDate) : new Date(),
+          dueDate: new Date(dueDate),
+          items,
+          discountRate,
+          roundOff,
+          foreignRoundOff: req.body.foreignRoundOff,
+          status,
+          fields: {
+            ...exportFields(req.body),
+            notes,
+            terms,
+            deliveryNote,
+            deliveryNoteDate: deliveryNoteDate
+              ? new Date(deliveryNoteDate)
+              : null,
+            otherReference,
+            otherReferences,
+            buyersOrderNo: orderReference?.buyersOrderNo ?? buyersOrderNo,
+            buyersOrderDate:
+              orderReference?.buyersOrderDate ??
+              (buyersOrderDate ? new Date(buyersOrderDate) : null),
+            salesOrderId: salesOrderId || null,
+            dispatchDocNo,
+            dispatchedThrough,
+            destination,
+            billOfLading,
+            motorVehicleNo,
+            termsOfDelivery,
+            transporterId: transporterId || null,
+            transportDistance:
+              transportDistance !== undefined && transportDistance !== ""
+                ? Number(transportDistance)
+                : null,
+          },
+        },
+        async (tx, created) => {
+          if (salesOrderId) {
+            await refreshOrderStatus(salesOrderId, tx);
+          }
+
+          if (quotationId) {
+            await tx.quotation.update({
+              where: { id: quotationId },
+              data: { invoiceId: created.id, status: QuotationStatus.ACCEPTED },
+            });
+          }
+        },
+      );
+
+      res.status(201).json({ success: true, data: invoice });
+    } catch (error) {
+      console.error("Create invoice error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Update invoice
+router.put(
+  "/:id",
+  authenticate,
+  [...lineValidators, ...exportValidators],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const {
+        invoiceDate,
+        dueDate,
+        items,
+        taxRate,
+        discountRate,
+        roundOff,
+        notes,
+        terms,
+        status,
+      } = req.body;
+
+      // Check if invoice can be edited
+      const existingInvoice = await prisma.invoice.findUnique({
+        where: { id: req.params.id },
+        include: { customer: true, items: true },
+      });
+
+      if (!existingInvoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
+      }
+
+      if (existingInvoice.status === InvoiceStatus.PAID) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Cannot edit a paid invoice" });
+      }
+
+      if (existingInvoice.status === InvoiceStatus.CANCELLED) {
+        return res.status(400).json({
+          success: false,
+          message: "Reopen the invoice before editing it",
+        });
+      }
+
+      // Only a draft can be moved in and out of PENDING here; sending and
+      // cancelling have their own actions
+      if (status && status !== existingInvoice.status) {
+        if (!EDITABLE_STATUSES.includes(status)) {
+          return res.status(400).json({
+            success: false,
+            message: "Use the send, cancel or reopen actions to change status",
+          });
+        }
+        assertTransition(existingInvoice.status, status);
+      }
+
+      if (existingInvoice.irn && items) {
+        return res.status(400).json({
+          success: false,
+          message: "Items cannot be changed after the IRN has been generated",
+        });
+      }
+
+      // Currency and export details are sent together; switching between
+      // domestic, LUT and IGST exports changes the tax on every line
+      const exportUpdate = EXPORT_FIELD_KEYS.some(
+        (key) => req.body[key] !== undefined,
+      )
+        ? exportFields(req.body)
+        : null;
+      const exportTypeChanged = Boolean(
+        exportUpdate && exportUpdate.exportType !== existingInvoice.exportType,
+      );
+      const currency = exportUpdate
+        ? exportUpdate.currency
+        : existingInvoice.currency;
+      const exchangeRate = exportUpdate
+        ? exportUpdate.exchangeRate
+        : Number(existingInvoice.exchangeRate);
+      const foreignRoundOff = Number(
+        req.body.foreignRoundOff ?? existingInvoice.foreignRoundOff ?? 0,
+      );
+      // Foreign prices are converted at the rate, so a new currency, rate
+      // or round off reprices every line
+      const pricingChanged =
+        exportTypeChanged ||
+        currency !== existingInvoice.currency ||
+        Math.abs(exchangeRate - Number(existingInvoice.exchangeRate)) >=
+          0.00005 ||
+        Math.abs(
+          foreignRoundOff - Number(existingInvoice.foreignRoundOff || 0),
+        ) >= 0.005;
+      if (existingInvoice.irn && pricingChanged) {
+        return res.status(400).json({
+          success: false,
+          message:
+            "The currency and export type cannot be changed after the IRN has been generated",
+        });
+      }
+
+      if (existingInvoice.salesOrderId && items && items.length > 0) {
+        const quantityError = await checkOrderQuantities(
+          existingInvoice.salesOrderId,
+          items,
+          existingInvoice.id,
+        );
+        if (quantityError) {
+          return res
+            .status(400)
+            .json({ success: false, message: quantityError });
+        }
+      }
+
+      // Calculate new totals if items provided
+      let updateData: any = {
+        issueDate: invoiceDate ? new Date(invoiceDate) : undefined,
+        dueDate: dueDate ? new Date(dueDate) : undefined,
+        taxRate,
+        discountRate,
+        roundOff,
+        notes,
+        terms,
+        status,
+        deliveryNote: req.body.deliveryNote,
+        deliveryNoteDate: req.body.deliveryNoteDate
+          ? new Date(req.body.deliveryNoteDate)
+          : null,
+        otherReference: req.body.otherReference,
+        otherReferences: req.body.otherReferences,
+        buyersOrderNo: req.body.buyersOrderNo,
+        buyersOrderDate: req.body.buyersOrderDate
+          ? new Date(req.body.buyersOrderDate)
+          : null,
+        dispatchDocNo: req.body.dispatchDocNo,
+        dispatchedThrough: req.body.dispatchedThrough,
+        destination: req.body.destination,
+        billOfLading: req.body.billOfLading,
+        motorVehicleNo: req.body.motorVehicleNo,
+        termsOfDelivery: req.body.termsOfDelivery,
+        transporterId:
+          req.body.transporterId !== undefined
+            ? req.body.transporterId || null
+            : undefined,
+        transportDistance:
+          req.body.transportDistance !== undefined
+            ? req.body.transportDistance === ""
+              ? null
+              : Number(req.body.transportDistance)
+            : undefined,
+        ...exportUpdate,
+      };
+
+      // Without new items a change of export type or currency reprices the
+      // current ones
+      const given =
+        items && items.length > 0
+          ? items
+          : pricingChanged
+            ? existingInvoice.items
+            : null;
+
+      if (given) {
+        const { items: lines, roundOff: currentRoundOff } = rupeePricing(
+          given,
+          {
+            currency,
+            exchangeRate,
+            roundOff:
+              roundOff !== undefined
+                ? Number(roundOff)
+                : Number(existingInvoice.roundOff),
+            foreignRoundOff,
+          },
+        );
+
+        // Re-evaluate place of supply in case the customer's state changed
+        const company = await getCompanyProfile();
+        const { placeOfSupply, isInterState, zeroRated } = invoiceSupply(
+          company.stateCode,
+          existingInvoice.customer,
+          exportUpdate ? exportUpdate.exportType : existingInvoice.exportType,
+        );
+
+        const {
+          processedItems,
+          subtotal,
+          taxAmount: totalTaxAmount,
+          cgstAmount,
+          sgstAmount,
+          igstAmount,
+        } = calculateInvoiceItems(lines, isInterState, zeroRated);
+
+        const currentDiscountRate =
+          discountRate !== undefined
+            ? Number(discountRate)
+            : Number(existingInvoice.discountRate);
+
+        const discountAmount = subtotal * (currentDiscountRate / 100);
+        const totalAmount =
+          subtotal + totalTaxAmount - discountAmount + currentRoundOff;
+        const foreign = foreignPricing(lines, {
+          currency,
+          isInterState,
+          zeroRated,
+          discountRate: currentDiscountRate,
+          roundOff: foreignRoundOff,
+        });
+
+        updateData = {
+          ...updateData,
+          subtotal,
+          taxAmount: totalTaxAmount,
+          cgstAmount,
+          sgstAmount,
+          igstAmount,
+          placeOfSupply,
+          isInterState,
+          discountAmount,
+          roundOff: currentRoundOff,
+          totalAmount,
+          ...foreign.totals,
+          items: {
+            create: invoiceLines(
+              processedItems,
+              lines,
+              existingInvoice.salesOrderId,
+              foreign.lines,
+            ),
+          },
+        };
+      }
+
+      // Items are recreated, so the state before the edit is kept as a
+      // revision first
+      const invoice = await prisma.$transaction(async (tx) => {
+        await ensureBaselineRevision(tx, existingInvoice.id);
+
+        if (given) {
+          await tx.invoiceItem.deleteMany({
+            where: { invoiceId: existingInvoice.id },
+          });
+        }
+
+        await tx.invoice.update({
+          where: { id: existingInvoice.id },
+          data: updateData,
+        });
+
+        await recordInvoiceRevision(
+          tx,
+          existingInvoice.id,
+          req.user!.id,
+          InvoiceRevisionAction.UPDATED,
+        );
+
+        return tx.invoice.findUniqueOrThrow({
+          where: { id: existingInvoice.id },
+          include: {
+            customer: true,
+            items: true,
+            payments: true,
+          },
+        });
+      });
+
+      // Edited quantities change what is left on the order
+      if (existingInvoice.salesOrderId) {
+        await refreshOrderStatus(existingInvoice.salesOrderId);
+      }
+
+      res.json({ success: true, data: invoice });
+    } catch (error) {
+      if (error instanceof InvoiceStatusError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Update invoice error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Subject, body and recipient for the send form, from the templates
+router.get("/:id/email-draft", authenticate, async (req, res) => {
+  try {
+    const draft = await invoiceEmailDraft(req.params.id);
+
+    if (!draft) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Invoice not found" });
+    }
+
+    res.json({ success: true, data: draft });
+  } catch (error) {
+    console.error("Get invoice email draft error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Email the invoice PDF to the customer and move a draft or pending
+// invoice to SENT. With `email: false` the invoice is only marked as sent,
+// e.g. when it was handed over with the goods.
+router.post(
+  "/:id/send",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT, UserRole.MANAGER),
+  [
+    body("email").optional().isBoolean(),
+    body("to").optional({ values: "falsy" }).trim().isEmail(),
+    body("subject").optional().isString(),
+    body("body").optional().isString(),
+  ],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: req.params.id },
+        include: { customer: true },
+      });
+
+      if (!invoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
+      }
+
+      // Issued invoices can be emailed again; only drafts and pending
+      // invoices change status
+      const markSent =
+        invoice.status === InvoiceStatus.DRAFT ||
+        invoice.status === InvoiceStatus.PENDING;
+      const sendEmail = req.body.email !== false;
+      if (!sendEmail || invoice.status === InvoiceStatus.CANCELLED) {
+        assertTransition(invoice.status, InvoiceStatus.SENT);
+      }
+
+      let email = null;
+      if (sendEmail) {
+        const to = req.body.to || invoice.customer.email;
+        if (!to) {
+          return res.status(400).json({
+            success: false,
+            message: "The customer has no email address",
+          });
+        }
+
+        email = await emailInvoice(invoice.id, {
+          to,
+          subject: req.body.subject,
+          body: req.body.body,
+          sentById: req.user!.id,
+        });
+
+        if (email.status === EmailStatus.FAILED) {
+          return res.status(502).json({
+            success: false,
+            message: `Email could not be sent: ${email.error}`,
+            data: { email },
+          });
+        }
+      }
+
+      const updated = markSent
+        ? await updateWithRevision(
+            invoice.id,
+            { status: InvoiceStatus.SENT },
+            req.user!.id,
+            InvoiceRevisionAction.SENT,
+          )
+        : invoice;
+
+      res.json({ success: true, data: { invoice: updated, email } });
+    } catch (error) {
+      if (error instanceof InvoiceStatusError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      if (error instanceof EmailNotConfiguredError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Send invoice error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Cancel an invoice with a reason. Payments have to be reversed first.
+router.post(
+  "/:id/cancel",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
+  [body("reason").trim().notEmpty().withMessage("Reason is required")],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!invoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
+      }
+
+      assertCancellable(invoice, await unclearedChequeAmount(invoice.id));
+
+      const updated = await updateWithRevision(
+        invoice.id,
+        {
+          status: InvoiceStatus.CANCELLED,
+          cancelledAt: new Date(),
+          cancellationReason: req.body.reason,
+          cancelledBy: { connect: { id: req.user!.id } },
+        },
+        req.user!.id,
+        InvoiceRevisionAction.CANCELLED,
+      );
+
+      // A cancelled invoice no longer counts against its order
+      if (invoice.salesOrderId) {
+        await refreshOrderStatus(invoice.salesOrderId);
+      }
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      if (error instanceof InvoiceStatusError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Cancel invoice error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Bring a cancelled invoice back as a draft
+router.post(
+  "/:id/reopen",
+  authenticate,
+  authorize(UserRole.ADMIN),
+  async (req: AuthRequest, res) => {
+    try {
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: req.params.id },
+        include: { items: true },
+      });
+
+      if (!invoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
+      }
+
+      assertTransition(invoice.status, InvoiceStatus.DRAFT);
+
+      if (invoice.irn) {
+        return res.status(400).json({
+          success: false,
+          message: "An invoice with an IRN cannot be reopened; raise a new one",
+        });
+      }
+
+      // The order may have been invoiced again since the cancellation
+      if (invoice.salesOrderId) {
+        const quantityError = await checkOrderQuantities(
+          invoice.salesOrderId,
+          invoice.items,
+          invoice.id,
+        );
+        if (quantityError) {
+          return res
+            .status(400)
+            .json({ success: false, message: quantityError });
+        }
+      }
+
+      const updated = await updateWithRevision(
+        invoice.id,
+        {
+          status: InvoiceStatus.DRAFT,
+          cancelledAt: null,
+          cancellationReason: null,
+          cancelledBy: { disconnect: true },
+        },
+        req.user!.id,
+        InvoiceRevisionAction.REOPENED,
+      );
+
+      if (invoice.salesOrderId) {
+        await refreshOrderStatus(invoice.salesOrderId);
+      }
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      if (error instanceof InvoiceStatusError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Reopen invoice error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Delete invoice
+router.delete(
+  "/:id",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
+  async (req, res) => {
+    try {
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: req.params.id },
+        include: {
+          _count: { select: { creditDebitNotes: true, payments: true } },
+        },
+      });
+
+      if (!invoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
+      }
+
+      // Reversed payments still count: deleting would lose their history
+      if (
+        invoice.status === InvoiceStatus.PAID ||
+        invoice._count.payments > 0
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: "Cannot delete invoice with payments",
+        });
+      }
+
+      if (invoice._count.creditDebitNotes > 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Cannot delete invoice with credit/debit notes",
+        });
+      }
+
+      await prisma.invoice.delete({ where: { id: req.params.id } });
+      if (invoice.salesOrderId) {
+        await refreshOrderStatus(invoice.salesOrderId);
+      }
+      res.json({ success: true, message: "Invoice deleted successfully" });
+    } catch (error) {
+      console.error("Delete invoice error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Add payment to invoice
+router.post(
+  "/:id/payments",
+  authenticate,
+  [
+    body("amount").isFloat({ gt: 0 }),
+    body("method").notEmpty(),
+    body("chequeNumber")
+      .if(body("method").equals(PaymentMethod.CHEQUE))
+      .trim()
+      .notEmpty(),
+    body("bankName")
+      .if(body("method").equals(PaymentMethod.CHEQUE))
+      .trim()
+      .notEmpty(),
+    body("chequeDate").optional({ values: "falsy" }).isISO8601(),
+  ],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const { amount, method, reference, notes, paymentDate } = req.body;
+
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!invoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
+      }
+
+      // Drafts have not been issued and cancelled invoices are void
+      if (!OPEN_INVOICE_STATUSES.some((status) => status === invoice.status)) {
+        return res.status(400).json({
+          success: false,
+          message: `Payments cannot be recorded on a ${invoice.status.toLowerCase()} invoice`,
+        });
+      }
+
+      // A UPI payment made from an invoice's QR or payment link carries its
+      // invoice number; one naming another invoice belongs there instead
+      if (method === PaymentMethod.UPI && reference) {
+        const named = matchUpiReference(
+          reference,
+          await prisma.invoice.findMany({
+            where: { status: { not: InvoiceStatus.DRAFT } },
+            select: { id: true, invoiceNumber: true },
+          }),
+        );
+        if (named && named.id !== invoice.id) {
+          return res.status(400).json({
+            success: false,
+            message: `The UPI reference is for invoice ${named.invoiceNumber}`,
+          });
+        }
+      }
+
+      const paymentAmount = Number(amount);
+      const remaining = await collectableBalance(invoice);
+
+      // Balance is net of credit/debit notes and of cheques waiting to
+      // clear; allow small precision diff
+      if (paymentAmount > remaining + 0.01) {
+        return res.status(400).json({
+          success: false,
+          message: `Payment exceeds invoice balance. Remaining: ${remaining}`,
+        });
+      }
+
+      const paidAt = paymentDate ? new Date(paymentDate) : new Date();
+      const chequeDetails = chequeDetailsFrom(req.body);
+
+      // A cheque payment is recorded now but counts once the cheque clears
+      const [payment, updatedInvoice] = await prisma.$transaction(
+        async (tx) => {
+          const cheque = chequeDetails
+            ? await createCheque(tx, {
+                ...chequeDetails,
+                amount: paymentAmount,
+                customerId: invoice.customerId,
+                createdById: req.user!.id,
+                receivedAt: paidAt,
+              })
+            : null;
+          const created = await tx.payment.create({
+            data: {
+              invoiceId: invoice.id,
+              amount: paymentAmount,
+              method,
+              reference: reference || chequeDetails?.chequeNumber,
+              notes,
+              paidAt,
+              chequeId: cheque?.id,
+            },
+            include: { cheque: true },
+          });
+          return [
+            created,
+            await syncInvoicePayments(invoice.id, req.user!.id, tx),
+          ];
+        },
+      );
+
+      res
+        .status(201)
         .json({ success: true, data: { payment, invoice: updatedInvoice } });
     } catch (error) {
+      if (error instanceof InvoiceStatusError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
       console.error("Add payment error:", error);
       res.status(500).json({ success: false, message: "Server error" });
     }
   },
 );
 
+// Find a receipt on an invoice that has not been reversed yet
+const findOpenReceipt = (invoiceId: string, paymentId: string) =>
+  prisma.payment.findFirst({
+    where: {
+      id: paymentId,
+      invoiceId,
+      type: PaymentType.RECEIPT,
+      reversedBy: null,
+    },
+  });
+
+// Void/reverse a payment, e.g. a bounced cheque or a wrong UPI entry. The
+// original stays in the history next to its reversal.
+router.post(
+  "/:id/payments/:paymentId/reverse",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.ACCOUNTANT),
+  [body("reason").trim().notEmpty()],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const original = await findOpenReceipt(
+        req.params.id,
+        req.params.paymentId,
+      );
+
+      if (!original) {
+        return res.status(404).json({
+          success: false,
+          message: "Payment not found or already reversed",
+        });
+      }
+
+      const [reversal, invoice] = await prisma.$transaction(async (tx) => {
+        const created = await tx.payment.create({
+          data: {
+            invoiceId: original.invoiceId,
+            type: PaymentType.REVERSAL,
+            reversalOfId: original.id,
+            receiptId: original.receiptId,
+            chequeId: original.chequeId,
+            amount: original.amount,
+            method: original.method,
+            reference: original.reference,
+            reason: req.body.reason,
+          },
+        });
+        return [
+          created,
+          await syncInvoicePayments(original.invoiceId, req.user!.id, tx),
+        ];
+      });
+
+      res
+        .status(201)
+        .json({ success: true, data: { payment: reversal, invoice } });
+    } catch (error) {
+      if (error instanceof InvoiceStatusError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Reverse payment error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Edit a payment. Method, reference, date and notes are corrected in place;
+// a new amount reverses the original and records a corrected receipt.
+router.put(
+  "/:id/payments/:paymentId",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.ACCOUNTANT),
+  [body("amount").optional().isFloat({ gt: 0 })],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const { amount, method, reference, notes, paymentDate, reason } =
+        req.body;
+
+      const original = await findOpenReceipt(
+        req.params.id,
+        req.params.paymentId,
+      );
+
+      if (!original) {
+        return res.status(404).json({
+          success: false,
+          message: "Payment not found or already reversed",
+        });
+      }
+
+      const paidAt = paymentDate ? new Date(paymentDate) : undefined;
+
+      // Cheque payments follow the cheque register
+      if (
+        original.chequeId &&
+        ((method && method !== original.method) ||
+          (amount !== undefined &&
+            Math.abs(Number(amount) - Number(original.amount)) >= 0.005))
+      ) {
+        return res.status(400).json({
+          success: false,
+          message:
+            "Cheque payments cannot change amount or method; bounce or reverse the cheque instead",
+        });
+      }
+
+      // A cheque needs its register entry, which an edit can neither create
+      // nor remove
+      if (
+        method &&
+        method !== original.method &&
+        (method === PaymentMethod.CHEQUE ||
+          original.method === PaymentMethod.CHEQUE)
+      ) {
+        return res.status(400).json({
+          success: false,
+          message:
+            "Cheque payments cannot be switched to or from another method; reverse the payment and record it again",
+        });
+      }
+
+      if (
+        amount === undefined ||
+        Math.abs(Number(amount) - Number(original.amount)) < 0.005
+      ) {
+        const payment = await prisma.payment.update({
+          where: { id: original.id },
+          data: { method, reference, notes, paidAt },
+        });
+        return res.json({ success: true, data: { payment } });
+      }
+
+      if (!reason) {
+        return res.status(400).json({
+          success: false,
+          message: "A reason is required to change the payment amount",
+        });
+      }
+
+      // The amount is tied to the receipt's allocation; reverse and
+      // reallocate from the receipt instead
+      if (original.receiptId) {
+        return res.status(400).json({
+          success: false,
+          message:
+            "Payments allocated from a customer receipt cannot change amount",
+        });
+      }
+
+      const invoice = await prisma.invoice.findUniqueOrThrow({
+        where: { id: original.invoiceId },
+      });
+      const remaining = round2(
+        (await collectableBalance(invoice)) + Number(original.amount),
+      );
+      if (Number(amount) > remaining + 0.01) {
+        return res.status(400).json({
+          success: false,
+          message: `Payment exceeds invoice balance. Remaining: ${remaining}`,
+        });
+      }
+
+      const [payment, updatedInvoice] = await prisma.$transaction(
+        async (tx) => {
+          await tx.payment.create({
+            data: {
+              invoiceId: original.invoiceId,
+              type: PaymentType.REVERSAL,
+              reversalOfId: original.id,
+              amount: original.amount,
+              method: original.method,
+              reference: original.reference,
+              reason,
+            },
+          });
+          const corrected = await tx.payment.create({
+            data: {
+              invoiceId: original.invoiceId,
+              amount: Number(amount),
+              method: method ?? original.method,
+              reference: reference ?? original.reference,
+              notes: notes ?? original.notes,
+              paidAt: paidAt ?? original.paidAt,
+              reason,
+            },
+          });
+          return [
+            corrected,
+            await syncInvoicePayments(original.invoiceId, req.user!.id, tx),
+          ];
+        },
+      );
+
+      res.json({
+        success: true,
+        data: { payment, invoice: updatedInvoice },
+      });
+    } catch (error) {
+      if (error instanceof InvoiceStatusError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Edit payment error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Settle an invoice from the customer's unallocated receipts, oldest first
+router.post(
+  "/:id/apply-credit",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.ACCOUNTANT),
+  async (req, res) => {
+    try {
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!invoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
+      }
+
+      const [payments, updatedInvoice] = await prisma.$transaction(
+        async (tx) => {
+          const applied = await applyCreditToInvoice(
+            tx,
+            invoice.id,
+            req.user!.id,
+          );
+          return [
+            applied,
+            await tx.invoice.findUniqueOrThrow({ where: { id: invoice.id } }),
+          ];
+        },
+      );
+
+      if (payments.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: "No customer credit available for this invoice",
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { payments, invoice: updatedInvoice },
+      });
+    } catch (error) {
+      if (
+        error instanceof AllocationError ||
+        error instanceof InvoiceStatusError
+      ) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Apply credit error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Record money paid back to the customer, up to what they have paid
+router.post(
+  "/:id/refunds",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.ACCOUNTANT),
+  [
+    body("amount").isFloat({ gt: 0 }),
+    body("method").notEmpty(),
+    body("reason").trim().notEmpty(),
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const { amount, method, reference, notes, reason, paymentDate } =
+        req.body;
+
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!invoice) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Invoice not found" });
+      }
+
+      const paid = Number(invoice.paidAmount);
+      if (Number(amount) > paid + 0.01) {
+        return res.status(400).json({
+          success: false,
+          message: `Refund exceeds amount paid. Paid: ${paid}`,
+        });
+      }
+
+      const [refund, updatedInvoice] = await prisma.$transaction(async (tx) => {
+        const created = await tx.payment.create({
+          data: {
+            invoiceId: invoice.id,
+            type: PaymentType.REFUND,
+            amount: Number(amount),
+            method,
+            reference,
+            notes,
+            reason,
+            paidAt: paymentDate ? new Date(paymentDate) : new Date(),
+          },
+        });
+        return [
+          created,
+          await syncInvoicePayments(invoice.id, req.user!.id, tx),
+        ];
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { payment: refund, invoice: updatedInvoice },
+      });
+    } catch (error) {
+      if (error instanceof InvoiceStatusError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      console.error("Refund payment error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// E-way bills expiring soon
+router.get("/eway-bills/expiring", authenticate, async (req, res) => {
+  try {
+    const hours = Number(req.query.hours) || EWAY_BILL_WARNING_HOURS;
+    const now = new Date();
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        ewbValidUntil: {
+          gte: now,
+          lte: new Date(now.getTime() + hours * 60 * 60 * 1000),
+        },
+        status: { not: InvoiceStatus.CANCELLED },
+      },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        ewbNumber: true,
+        ewbValidUntil: true,
+        destination: true,
+        motorVehicleNo: true,
+        customer: { select: { id: true, name: true } },
+      },
+      orderBy: { ewbValidUntil: "asc" },
+    });
+
+    res.json({ success: true, data: invoices });
+  } catch (error) {
+    console.error("Expiring e-way bills error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Mark overdue invoices and raise the payment reminders due today
+router.post(
+  "/reminders/run",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.ACCOUNTANT),
+  async (req, res) => {
+    try {
+      const { overdue, reminders, delivered } = await runInvoiceReminders();
+      res.json({
+        success: true,
+        data: { overdue, reminders, delivered },
+        message: `${overdue} invoice(s) marked overdue, ${reminders} reminder(s) raised, ${delivered} emailed`,
+      });
+    } catch (error) {
+      console.error("Run invoice reminders error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
 // Get invoice summary
 router.get("/summary/stats", authenticate, async (req, res) => {
   try {
@@ -0,0 +1,102 @@
+import { Router } from "express";
+import { createHash, randomBytes } from "crypto";
+import jwt from "jsonwebtoken";
+
+// Local stand-in for the NIC IRP so e-invoicing can be tried without
+// sandbox credentials. Only mounted outside production.
+const router = Router();
+
+const issued = new Map<string, Record<string, any>>();
+
+// Throwaway signing key for this process. Never the app's JWT secret:
+// the stub signs whatever it is sent.
+const STUB_SIGNING_KEY = randomBytes(32).toString("hex");
+
+const irpError = (ErrorCode: string, ErrorMessage: string) => ({
+  Status: 0,
+  ErrorDetails: [{ ErrorCode, ErrorMessage }],
+  Data: null,
+});
+
+// IST timestamp in the IRP's yyyy-MM-dd HH:mm:ss format
+const irpTimestamp = (date: Date) =>
+  new Date(date.getTime() + 330 * 60000)
+    .toISOString()
+    .replace("T", " ")
+    .slice(0, 19);
+
+// Financial year (e.g. 2026-27) for a dd/mm/yyyy document date
+const financialYear = (docDate: string) => {
+  const [, month, year] = docDate.split("/").map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String(start + 1).slice(2)}`;
+};
+
+// Generate IRN
+router.post("/invoice", (req, res) => {
+  const payload = req.body || {};
+  const { DocDtls, SellerDtls, BuyerDtls, ItemList, ValDtls } = payload;
+
+  if (
+    payload.Version !== "1.1" ||
+    !DocDtls?.No ||
+    !DocDtls?.Dt ||
+    !SellerDtls?.Gstin ||
+    !BuyerDtls?.Gstin ||
+    !ItemList?.length ||
+    !ValDtls
+  ) {
+    return res.json(irpError("5002", "Invalid JSON: mandatory fields missing"));
+  }
+
+  const irn = createHash("sha256")
+    .update(
+      `${SellerDtls.Gstin}${financialYear(DocDtls.Dt)}${DocDtls.Typ}${DocDtls.No}`,
+    )
+    .digest("hex");
+
+  const existing = issued.get(irn);
+  if (existing) {
+    return res.json({
+      ...irpError("2150", "Duplicate IRN"),
+      InfoDtls: [{ InfCd: "DUPIRN", Desc: existing }],
+    });
+  }
+
+  const now = new Date();
+  const ackDt = irpTimestamp(now);
+  const ackNo = `1${String(now.getTime()).slice(-14)}`;
+
+  const qrData = {
+    SellerGstin: SellerDtls.Gstin,
+    BuyerGstin: BuyerDtls.Gstin,
+    DocNo: DocDtls.No,
+    DocTyp: DocDtls.Typ,
+    DocDt: DocDtls.Dt,
+    TotInvVal: ValDtls.TotInvVal,
+    ItemCnt: ItemList.length,
+    MainHsnCode: ItemList[0].HsnCd,
+    Irn: irn,
+    IrnDt: ackDt,
+  };
+
+  const data = {
+    AckNo: Number(ackNo),
+    AckDt: ackDt,
+    Irn: irn,
+    SignedInvoice: jwt.sign(
+      { data: JSON.stringify({ ...payload, Irn: irn, AckNo: ackNo }) },
+      STUB_SIGNING_KEY,
+      { issuer: "NIC Stub" },
+    ),
+    SignedQRCode: jwt.sign({ data: JSON.stringify(qrData) }, STUB_SIGNING_KEY, {
+      issuer: "NIC Stub",
+    }),
+    Status: "ACT",
+  };
+  issued.set(irn, { AckNo: data.AckNo, AckDt: ackDt, Irn: irn });
+
+  res.json({ Status: 1, ErrorDetails: null, Data: data });
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { UserRole, MachineStatus } from "@prisma/client";
 import prisma from "../lib/prisma.js";
+import { nextDocumentNumber } from "../lib/sequence.js";
 import { body, validationResult } from "express-validator";
 import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
 
@@ -126,15 +127,12 @@ router.post(
         req.body;
 
       // Generate machine code
-      const lastMachine = await prisma.machine.findFirst({
-        orderBy: { machineCode: "desc" },
+      const machineCode = await nextDocumentNumber("machine", {
+        taken: async (code) =>
+          Boolean(
+            await prisma.machine.findUnique({ where: { machineCode: code } }),
+          ),
       });
-      const nextId = lastMachine
-        ? String(
-            parseInt(lastMachine.machineCode.replace("MCH", "")) + 1,
-          ).padStart(4, "0")
-        : "0001";
-      const machineCode = `MCH${nextId}`;
 
       const machine = await prisma.machine.create({
         data: {
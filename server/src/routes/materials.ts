@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { UserRole, MaterialStatus } from "@prisma/client";
 import prisma from "../lib/prisma.js";
+import { nextDocumentNumber } from "../lib/sequence.js";
 import { body, validationResult } from "express-validator";
 import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
 
@@ -104,15 +105,12 @@ router.post(
       } = req.body;
 
       // Generate material code
-      const lastMaterial = await prisma.material.findFirst({
-        orderBy: { materialCode: "desc" },
+      const materialCode = await nextDocumentNumber("material", {
+        taken: async (code) =>
+          Boolean(
+            await prisma.material.findUnique({ where: { materialCode: code } }),
+          ),
       });
-      const nextId = lastMaterial
-        ? String(
-            parseInt(lastMaterial.materialCode.replace("MAT", "")) + 1,
-          ).padStart(4, "0")
-        : "0001";
-      const materialCode = `MAT${nextId}`;
 
       // Determine status based on quantity
       let status = MaterialStatus.AVAILABLE;
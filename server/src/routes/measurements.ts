@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { UserRole } from "@prisma/client";
 import prisma from "../lib/prisma.js";
+import { nextDocumentNumber } from "../lib/sequence.js";
 import { body, validationResult } from "express-validator";
 import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
 
@@ -138,15 +139,14 @@ router.post(
       } = req.body;
 
       // Generate measurement code
-      const lastMeasurement = await prisma.measurement.findFirst({
-        orderBy: { measurementCode: "desc" },
+      const measurementCode = await nextDocumentNumber("measurement", {
+        taken: async (code) =>
+          Boolean(
+            await prisma.measurement.findUnique({
+              where: { measurementCode: code },
+            }),
+          ),
       });
-      const nextId = lastMeasurement
-        ? String(
-            parseInt(lastMeasurement.measurementCode.replace("MSR", "")) + 1,
-          ).padStart(5, "0")
-        : "00001";
-      const measurementCode = `MSR${nextId}`;
 
       const measurement = await prisma.measurement.create({
         data: {
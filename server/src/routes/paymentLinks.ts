@@ -0,0 +1,47 @@
+import { Router } from "express";
+import prisma from "../lib/prisma.js";
+import { getCompanyProfile } from "../lib/company.js";
+import { invoiceBalance } from "../lib/invoiceBalance.js";
+import { buildUpiIntent } from "../lib/upi.js";
+
+const router = Router();
+
+// Public payment page data for a shared link. No login: the token is the
+// only key, so only what the customer needs to pay is returned.
+router.get("/:token", async (req, res) => {
+  try {
+    const invoice = await prisma.invoice.findUnique({
+      where: { paymentLinkToken: req.params.token },
+      include: { customer: { select: { name: true } } },
+    });
+
+    if (!invoice) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Payment link not found" });
+    }
+
+    const company = await getCompanyProfile();
+
+    res.json({
+      success: true,
+      data: {
+        invoiceNumber: invoice.invoiceNumber,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        status: invoice.status,
+        customerName: invoice.customer.name,
+        companyName: company.companyName,
+        totalAmount: invoice.totalAmount,
+        balanceDue: Math.max(0, invoiceBalance(invoice)),
+        upiId: company.upiId || null,
+        upiIntent: buildUpiIntent(company, invoice),
+      },
+    });
+  } catch (error) {
+    console.error("Get payment link error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,279 @@
+import { Router } from "express";
+import { ItemUnit, UserRole } from "@prisma/client";
+import prisma from "../lib/prisma.js";
+import { body, validationResult } from "express-validator";
+import { authenticate, authorize } from "../middleware/auth.js";
+
+const router = Router();
+
+const productInclude = {
+  hsn: { select: { id: true, code: true, description: true, taxRate: true } },
+  fabricType: { select: { id: true, code: true, imageUrl: true } },
+} as const;
+
+// Updates may send only the fields that change
+const productValidators = (partial = false) => {
+  const field = (name: string) =>
+    partial ? body(name).optional() : body(name);
+  return [
+    field("sku").trim().notEmpty(),
+    field("name").trim().notEmpty(),
+    field("basePrice").isFloat({ min: 0 }),
+    body("unit").optional().isIn(Object.values(ItemUnit)),
+  ];
+};
+
+const productData = (data: any) => ({
+  sku: data.sku?.trim(),
+  name: data.name?.trim(),
+  description: data.description,
+  hsnId: data.hsnId || null,
+  unit: data.unit,
+  basePrice: data.basePrice !== undefined ? Number(data.basePrice) : undefined,
+  fabricTypeId: data.fabricTypeId || null,
+  isActive: data.isActive,
+});
+
+const isDuplicateSku = (error: any) =>
+  error?.code === "P2002" && error?.meta?.target?.includes("sku");
+
+// Get all products. With a customerId, `price` is that customer's price
+// list rate where one is set and the base price otherwise.
+router.get("/", authenticate, async (req, res) => {
+  try {
+    const { page = 1, limit = 10, search, isActive, customerId } = req.query;
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const where: any = {};
+    if (search) {
+      where.OR = [
+        { sku: { contains: String(search), mode: "insensitive" } },
+        { name: { contains: String(search), mode: "insensitive" } },
+      ];
+    }
+    if (isActive !== undefined) where.isActive = isActive === "true";
+
+    const [products, total] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          ...productInclude,
+          prices: customerId
+            ? { where: { customerId: String(customerId) } }
+            : false,
+        },
+        orderBy: { name: "asc" },
+      }),
+      prisma.product.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: products.map(({ prices, ...product }) => {
+        const customerPrice = prices?.[0]?.price ?? null;
+        return {
+          ...product,
+          customerPrice,
+          price: customerPrice ?? product.basePrice,
+        };
+      }),
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    });
+  } catch (error) {
+    console.error("Get products error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Get product by ID with its customer price list
+router.get("/:id", authenticate, async (req, res) => {
+  try {
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ...productInclude,
+        prices: {
+          include: {
+            customer: { select: { id: true, name: true, customerCode: true } },
+          },
+          orderBy: { customer: { name: "asc" } },
+        },
+      },
+    });
+
+    if (!product) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Product not found" });
+    }
+
+    res.json({ success: true, data: product });
+  } catch (error) {
+    console.error("Get product error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Create product
+router.post(
+  "/",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  productValidators(),
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const product = await prisma.product.create({
+        data: {
+          ...productData(req.body),
+          basePrice: Number(req.body.basePrice),
+        },
+        include: productInclude,
+      });
+
+      res.status(201).json({ success: true, data: product });
+    } catch (error) {
+      if (isDuplicateSku(error)) {
+        return res
+          .status(400)
+          .json({ success: false, message: "SKU already exists" });
+      }
+      console.error("Create product error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Update product
+router.put(
+  "/:id",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  productValidators(true),
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const product = await prisma.product.update({
+        where: { id: req.params.id },
+        data: productData(req.body),
+        include: productInclude,
+      });
+
+      res.json({ success: true, data: product });
+    } catch (error) {
+      if (isDuplicateSku(error)) {
+        return res
+          .status(400)
+          .json({ success: false, message: "SKU already exists" });
+      }
+      console.error("Update product error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Set a customer's price for a product
+router.put(
+  "/:id/prices/:customerId",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.ACCOUNTANT),
+  [body("price").isFloat({ min: 0 })],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const { id: productId, customerId } = req.params;
+      const price = Number(req.body.price);
+
+      const entry = await prisma.customerPrice.upsert({
+        where: { customerId_productId: { customerId, productId } },
+        create: { customerId, productId, price },
+        update: { price },
+        include: {
+          customer: { select: { id: true, name: true, customerCode: true } },
+        },
+      });
+
+      res.json({ success: true, data: entry });
+    } catch (error) {
+      console.error("Set customer price error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Remove a customer's price so the base price applies again
+router.delete(
+  "/:id/prices/:customerId",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.ACCOUNTANT),
+  async (req, res) => {
+    try {
+      await prisma.customerPrice.deleteMany({
+        where: { productId: req.params.id, customerId: req.params.customerId },
+      });
+      res.json({ success: true, message: "Customer price removed" });
+    } catch (error) {
+      console.error("Remove customer price error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Delete product. Products already billed are kept for sales history and
+// can be deactivated instead.
+router.delete(
+  "/:id",
+  authenticate,
+  authorize(UserRole.ADMIN),
+  async (req, res) => {
+    try {
+      const used = await prisma.product.findUnique({
+        where: { id: req.params.id },
+        select: {
+          _count: { select: { invoiceItems: true, quotationItems: true } },
+        },
+      });
+
+      if (!used) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Product not found" });
+      }
+
+      if (used._count.invoiceItems > 0 || used._count.quotationItems > 0) {
+        return res.status(400).json({
+          success: false,
+          message:
+            "Product is used on invoices or quotations. Deactivate it instead.",
+        });
+      }
+
+      await prisma.product.delete({ where: { id: req.params.id } });
+      res.json({ success: true, message: "Product deleted successfully" });
+    } catch (error) {
+      console.error("Delete product error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+export default router;
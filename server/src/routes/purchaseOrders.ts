@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { UserRole, POStatus } from "@prisma/client";
 import prisma from "../lib/prisma.js";
+import { nextDocumentNumber } from "../lib/sequence.js";
 import { body, validationResult } from "express-validator";
 import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
 
@@ -130,23 +131,15 @@ router.post(
       } = req.body;
 
       // Generate PO number
-      const prefix = "PO";
-      const year = new Date().getFullYear();
-      const month = String(new Date().getMonth() + 1).padStart(2, "0");
-      const lastPO = await prisma.purchaseOrder.findFirst({
-        where: {
-          poNumber: { startsWith: `${prefix}${year}${month}` },
-        },
-        orderBy: { poNumber: "desc" },
+      const poNumber = await nextDocumentNumber("purchaseOrder", {
+        taken: async (code) =>
+          Boolean(
+            await prisma.purchaseOrder.findUnique({
+              where: { poNumber: code },
+            }),
+          ),
       });
 
-      let sequence = "0001";
-      if (lastPO) {
-        const lastSeq = parseInt(lastPO.poNumber.slice(-4));
-        sequence = String(lastSeq + 1).padStart(4, "0");
-      }
-      const poNumber = `${prefix}${year}${month}${sequence}`;
-
       // Calculate totals
       const subtotal = items.reduce((sum: number, item: any) => {
         return sum + Number(item.quantity) * Number(item.unitPrice);
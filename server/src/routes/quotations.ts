@@ -0,0 +1,505 @@
+import { Router } from "express";
+import { UserRole, QuotationStatus, Customer } from "@prisma/client";
+import prisma from "../lib/prisma.js";
+import { body, validationResult } from "express-validator";
+import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import { getCompanyProfile } from "../lib/company.js";
+import {
+  buildTaxBreakdown,
+  calculateInvoiceItems,
+  isInterStateSupply,
+  resolveStateCode,
+  round2,
+} from "../lib/gst.js";
+import { nextDocumentNumber } from "../lib/sequence.js";
+
+const router = Router();
+
+// Open quotations past their validity date are marked expired when read
+const expireQuotations = () =>
+  prisma.quotation.updateMany({
+    where: {
+      status: { in: [QuotationStatus.DRAFT, QuotationStatus.SENT] },
+      validUntil: { lt: new Date() },
+    },
+    data: { status: QuotationStatus.EXPIRED },
+  });
+
+// Items and totals, taxed the same way an invoice to this customer would be
+const calculateQuotation = async (
+  customer: Customer,
+  items: any[],
+  discountRate: any,
+  roundOff: any,
+) => {
+  const company = await getCompanyProfile();
+  const placeOfSupply =
+    resolveStateCode(customer.gstNumber, customer.state) || company.stateCode;
+  const isInterState = isInterStateSupply(company.stateCode, placeOfSupply);
+
+  const {
+    processedItems,
+    subtotal,
+    taxAmount,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+  } = calculateInvoiceItems(items, isInterState);
+
+  const discountRateNum = Number(discountRate || 0);
+  const discountAmount = round2(subtotal * (discountRateNum / 100));
+  const roundOffNum = Number(roundOff || 0);
+
+  return {
+    placeOfSupply,
+    isInterState,
+    processedItems: processedItems.map((item, index) => ({
+      ...item,
+      productId: items[index].productId || null,
+    })),
+    subtotal,
+    taxAmount,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+    discountRate: discountRateNum,
+    discountAmount,
+    roundOff: roundOffNum,
+    totalAmount: round2(subtotal + taxAmount - discountAmount + roundOffNum),
+  };
+};
+
+// Get all quotations
+router.get("/", authenticate, async (req, res) => {
+  try {
+    const { page = 1, limit = 10, search, status, customerId } = req.query;
+    const skip = (Number(page) - 1) * Number(limit);
+
+    await expireQuotations();
+
+    const where: any = {};
+    if (search) {
+      where.OR = [
+        { quotationNumber: { contains: String(search), mode: "insensitive" } },
+        {
+          customer: { name: { contains: String(search), mode: "insensitive" } },
+        },
+      ];
+    }
+    if (status) where.status = status;
+    if (customerId) where.customerId = customerId;
+
+    const [quotations, total] = await Promise.all([
+      prisma.quotation.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          customer: { select: { id: true, name: true, customerCode: true } },
+          invoice: { select: { id: true, invoiceNumber: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.quotation.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: quotations,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    });
+  } catch (error) {
+    console.error("Get quotations error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Win rate per customer: accepted out of the quotations that were decided
+router.get("/stats/win-rate", authenticate, async (req, res) => {
+  try {
+    const { customerId, startDate, endDate } = req.query;
+
+    await expireQuotations();
+
+    const where: any = {};
+    if (customerId) where.customerId = String(customerId);
+    if (startDate || endDate) {
+      where.issueDate = {};
+      if (startDate) where.issueDate.gte = new Date(String(startDate));
+      if (endDate) where.issueDate.lte = new Date(String(endDate));
+    }
+
+    const [grouped, converted] = await Promise.all([
+      prisma.quotation.groupBy({
+        by: ["customerId", "status"],
+        where,
+        _count: { _all: true },
+        _sum: { totalAmount: true },
+      }),
+      prisma.quotation.groupBy({
+        by: ["customerId"],
+        where: { ...where, invoiceId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const customers = await prisma.customer.findMany({
+      where: { id: { in: [...new Set(grouped.map((g) => g.customerId))] } },
+      select: { id: true, name: true, customerCode: true },
+    });
+
+    const rows = customers.map((customer) => {
+      const counts = Object.fromEntries(
+        Object.values(QuotationStatus).map((status) => [status, 0]),
+      ) as Record<QuotationStatus, number>;
+      let quotedValue = 0;
+      let wonValue = 0;
+
+      grouped
+        .filter((g) => g.customerId === customer.id)
+        .forEach((g) => {
+          counts[g.status] = g._count._all;
+          quotedValue += Number(g._sum.totalAmount) || 0;
+          if (g.status === QuotationStatus.ACCEPTED) {
+            wonValue += Number(g._sum.totalAmount) || 0;
+          }
+        });
+
+      const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+      const decided = counts.ACCEPTED + counts.REJECTED + counts.EXPIRED;
+
+      return {
+        customer,
+        total,
+        ...counts,
+        converted:
+          converted.find((c) => c.customerId === customer.id)?._count._all || 0,
+        quotedValue: round2(quotedValue),
+        wonValue: round2(wonValue),
+        winRate: decided ? round2((counts.ACCEPTED / decided) * 100) : null,
+      };
+    });
+
+    rows.sort((a, b) => b.total - a.total);
+
+    res.json({ success: true, data: rows });
+  } catch (error) {
+    console.error("Get quotation win rate error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Get quotation by ID
+router.get("/:id", authenticate, async (req, res) => {
+  try {
+    await expireQuotations();
+
+    const quotation = await prisma.quotation.findUnique({
+      where: { id: req.params.id },
+      include: {
+        customer: true,
+        createdBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+        items: true,
+        invoice: {
+          select: { id: true, invoiceNumber: true, status: true },
+        },
+      },
+    });
+
+    if (!quotation) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Quotation not found" });
+    }
+
+    const company = await getCompanyProfile();
+
+    res.json({
+      success: true,
+      data: {
+        ...quotation,
+        taxBreakdown: buildTaxBreakdown(quotation),
+        company,
+      },
+    });
+  } catch (error) {
+    console.error("Get quotation error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Create quotation
+router.post(
+  "/",
+  authenticate,
+  [
+    body("customerId").notEmpty(),
+    body("validUntil").notEmpty(),
+    body("items").isArray({ min: 1 }),
+    body("items.*.description").notEmpty(),
+    body("items.*.quantity").isFloat({ gt: 0 }),
+    body("items.*.unitPrice").isFloat({ min: 0 }),
+  ],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const {
+        customerId,
+        issueDate,
+        validUntil,
+        items,
+        discountRate,
+        roundOff,
+        notes,
+        terms,
+        status,
+      } = req.body;
+
+      const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+      });
+
+      if (!customer) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Customer not found" });
+      }
+
+      const { processedItems, ...totals } = await calculateQuotation(
+        customer,
+        items,
+        discountRate,
+        roundOff,
+      );
+      const quoteDate = issueDate ? new Date(issueDate) : new Date();
+
+      const quotation = await prisma.$transaction(async (tx) => {
+        const quotationNumber = await nextDocumentNumber("quotation", {
+          client: tx,
+          date: quoteDate,
+          taken: async (code) =>
+            Boolean(
+              await tx.quotation.findUnique({
+                where: { quotationNumber: code },
+              }),
+            ),
+        });
+
+        return tx.quotation.create({
+          data: {
+            quotationNumber,
+            customerId,
+            createdById: req.user!.id,
+            issueDate: quoteDate,
+            validUntil: new Date(validUntil),
+            ...totals,
+            status:
+              status === QuotationStatus.SENT
+                ? QuotationStatus.SENT
+                : QuotationStatus.DRAFT,
+            notes,
+            terms,
+            items: { create: processedItems },
+          },
+          include: { customer: true, items: true },
+        });
+      });
+
+      res.status(201).json({ success: true, data: quotation });
+    } catch (error) {
+      console.error("Create quotation error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Update quotation
+router.put(
+  "/:id",
+  authenticate,
+  [
+    body("items").optional().isArray({ min: 1 }),
+    body("items.*.description").optional().notEmpty(),
+    body("items.*.quantity").optional().isFloat({ gt: 0 }),
+    body("items.*.unitPrice").optional().isFloat({ min: 0 }),
+  ],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const existing = await prisma.quotation.findUnique({
+        where: { id: req.params.id },
+        include: { items: true },
+      });
+
+      if (!existing) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Quotation not found" });
+      }
+
+      if (existing.invoiceId) {
+        return res.status(400).json({
+          success: false,
+          message: "Quotation has been converted to an invoice",
+        });
+      }
+
+      const {
+        customerId,
+        issueDate,
+        validUntil,
+        items,
+        discountRate,
+        roundOff,
+        notes,
+        terms,
+      } = req.body;
+
+      const customer = await prisma.customer.findUnique({
+        where: { id: customerId || existing.customerId },
+      });
+
+      if (!customer) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Customer not found" });
+      }
+
+      const { processedItems, ...totals } = await calculateQuotation(
+        customer,
+        items || existing.items,
+        discountRate ?? existing.discountRate,
+        roundOff ?? existing.roundOff,
+      );
+
+      // A new validity date reopens an expired quotation
+      const newValidUntil = validUntil
+        ? new Date(validUntil)
+        : existing.validUntil;
+      const status =
+        existing.status === QuotationStatus.EXPIRED &&
+        newValidUntil > new Date()
+          ? QuotationStatus.SENT
+          : existing.status;
+
+      const quotation = await prisma.$transaction(async (tx) => {
+        await tx.quotationItem.deleteMany({
+          where: { quotationId: existing.id },
+        });
+
+        return tx.quotation.update({
+          where: { id: existing.id },
+          data: {
+            customerId: customer.id,
+            issueDate: issueDate ? new Date(issueDate) : undefined,
+            validUntil: newValidUntil,
+            ...totals,
+            status,
+            notes,
+            terms,
+            items: { create: processedItems },
+          },
+          include: { customer: true, items: true },
+        });
+      });
+
+      res.json({ success: true, data: quotation });
+    } catch (error) {
+      console.error("Update quotation error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Update quotation status (sent, accepted, rejected)
+router.patch(
+  "/:id/status",
+  authenticate,
+  [body("status").isIn(Object.values(QuotationStatus))],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const quotation = await prisma.quotation.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!quotation) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Quotation not found" });
+      }
+
+      if (quotation.invoiceId) {
+        return res.status(400).json({
+          success: false,
+          message: "Quotation has been converted to an invoice",
+        });
+      }
+
+      const updated = await prisma.quotation.update({
+        where: { id: quotation.id },
+        data: { status: req.body.status },
+      });
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error("Update quotation status error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Delete quotation
+router.delete(
+  "/:id",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  async (req, res) => {
+    try {
+      const quotation = await prisma.quotation.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!quotation) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Quotation not found" });
+      }
+
+      if (quotation.invoiceId) {
+        return res.status(400).json({
+          success: false,
+          message: "Cannot delete a quotation that was converted to an invoice",
+        });
+      }
+
+      await prisma.quotation.delete({ where: { id: quotation.id } });
+
+      res.json({ success: true, message: "Quotation deleted successfully" });
+    } catch (error) {
+      console.error("Delete quotation error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+export default router;
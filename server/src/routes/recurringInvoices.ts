@@ -0,0 +1,489 @@
+import { Router } from "express";
+import {
+  DiscountType,
+  ItemUnit,
+  UserRole,
+  InvoiceStatus,
+  RecurrenceFrequency,
+  RecurringInvoiceStatus,
+} from "@prisma/client";
+import prisma from "../lib/prisma.js";
+import { body, validationResult } from "express-validator";
+import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import {
+  runAfter,
+  runOnOrAfter,
+  runRecurringInvoices,
+  toRunDate,
+  upcomingRuns,
+} from "../lib/recurringInvoices.js";
+
+const router = Router();
+
+const templateItems = (items: any[]) =>
+  items.map((item) => ({
+    productId: item.productId || null,
+    description: item.description,
+    hsnCode: item.hsnCode || null,
+    quantity: Number(item.quantity),
+    unit: item.unit || ItemUnit.PCS,
+    unitPrice: Number(item.unitPrice),
+    discountType: item.discountType || null,
+    discountValue: Number(item.discountValue || 0),
+    taxRate: Number(item.taxRate || 0),
+  }));
+
+const withUpcomingRuns = <
+  T extends Parameters<typeof upcomingRuns>[0] & {
+    status: RecurringInvoiceStatus;
+  },
+>(
+  template: T,
+) => ({
+  ...template,
+  upcomingRuns:
+    template.status === RecurringInvoiceStatus.ACTIVE
+      ? upcomingRuns(template)
+      : [],
+});
+
+const templateValidators = [
+  body("frequency").optional().isIn(Object.values(RecurrenceFrequency)),
+  body("interval").optional().isInt({ min: 1, max: 12 }),
+  body("startDate").optional().isISO8601(),
+  body("endDate").optional({ values: "falsy" }).isISO8601(),
+  body("invoiceStatus")
+    .optional()
+    .isIn([InvoiceStatus.DRAFT, InvoiceStatus.PENDING]),
+  body("dueDays").optional().isInt({ min: 0 }),
+  body("items.*.description").notEmpty(),
+  body("items.*.quantity").isFloat({ gt: 0 }),
+  body("items.*.unitPrice").isFloat({ min: 0 }),
+  body("items.*.unit").optional().isIn(Object.values(ItemUnit)),
+  body("items.*.discountType")
+    .optional({ values: "falsy" })
+    .isIn(Object.values(DiscountType)),
+  body("items.*.discountValue").optional().isFloat({ min: 0 }),
+];
+
+// Get all recurring invoices
+router.get("/", authenticate, async (req, res) => {
+  try {
+    const { status, customerId } = req.query;
+
+    const where: any = {};
+    if (status) where.status = status;
+    if (customerId) where.customerId = customerId;
+
+    const templates = await prisma.recurringInvoice.findMany({
+      where,
+      include: {
+        customer: { select: { id: true, name: true, customerCode: true } },
+        items: true,
+        _count: { select: { invoices: true } },
+      },
+      orderBy: [{ nextRunDate: "asc" }, { createdAt: "desc" }],
+    });
+
+    res.json({ success: true, data: templates.map(withUpcomingRuns) });
+  } catch (error) {
+    console.error("Get recurring invoices error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Generate every invoice that has fallen due
+router.post(
+  "/run",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  async (req, res) => {
+    try {
+      const generated = await runRecurringInvoices();
+      res.json({
+        success: true,
+        data: { generated },
+        message: `${generated} invoice(s) generated`,
+      });
+    } catch (error) {
+      console.error("Run recurring invoices error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Get recurring invoice by ID
+router.get("/:id", authenticate, async (req, res) => {
+  try {
+    const template = await prisma.recurringInvoice.findUnique({
+      where: { id: req.params.id },
+      include: {
+        customer: true,
+        createdBy: { select: { id: true, firstName: true, lastName: true } },
+        items: true,
+        invoices: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+            issueDate: true,
+            totalAmount: true,
+            status: true,
+          },
+          orderBy: { issueDate: "desc" },
+          take: 12,
+        },
+      },
+    });
+
+    if (!template) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Recurring invoice not found" });
+    }
+
+    res.json({ success: true, data: withUpcomingRuns(template) });
+  } catch (error) {
+    console.error("Get recurring invoice error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Create recurring invoice
+router.post(
+  "/",
+  authenticate,
+  [
+    body("name").notEmpty(),
+    body("customerId").notEmpty(),
+    body("frequency").isIn(Object.values(RecurrenceFrequency)),
+    body("startDate").isISO8601(),
+    body("items").isArray({ min: 1 }),
+    ...templateValidators,
+  ],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const {
+        name,
+        customerId,
+        frequency,
+        interval,
+        startDate,
+        endDate,
+        invoiceStatus,
+        dueDays,
+        discountRate,
+        items,
+        notes,
+        terms,
+      } = req.body;
+
+      const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+      });
+
+      if (!customer) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Customer not found" });
+      }
+
+      // Start dates in the past are not back-billed
+      const schedule = {
+        frequency,
+        interval: Number(interval || 1),
+        startDate: toRunDate(startDate),
+        endDate: endDate ? toRunDate(endDate) : null,
+      };
+      const nextRunDate = runOnOrAfter(schedule, toRunDate(new Date()));
+
+      if (!nextRunDate) {
+        return res.status(400).json({
+          success: false,
+          message: "End date is before the first run",
+        });
+      }
+
+      const template = await prisma.recurringInvoice.create({
+        data: {
+          name,
+          customerId,
+          createdById: req.user!.id,
+          ...schedule,
+          nextRunDate,
+          invoiceStatus: invoiceStatus || InvoiceStatus.DRAFT,
+          dueDays:
+            dueDays !== undefined && dueDays !== ""
+              ? Number(dueDays)
+              : (customer.paymentTerms ?? 30),
+          discountRate: Number(discountRate || 0),
+          notes,
+          terms,
+          items: { create: templateItems(items) },
+        },
+        include: { customer: true, items: true },
+      });
+
+      res.status(201).json({ success: true, data: withUpcomingRuns(template) });
+    } catch (error) {
+      console.error("Create recurring invoice error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Update recurring invoice. A changed schedule restarts from today, never
+// re-billing the last run; otherwise a skipped run stays skipped.
+router.put(
+  "/:id",
+  authenticate,
+  [body("items").optional().isArray({ min: 1 }), ...templateValidators],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const existing = await prisma.recurringInvoice.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!existing) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Recurring invoice not found" });
+      }
+
+      const {
+        name,
+        frequency,
+        interval,
+        startDate,
+        endDate,
+        invoiceStatus,
+        dueDays,
+        discountRate,
+        items,
+        notes,
+        terms,
+      } = req.body;
+
+      const schedule = {
+        frequency: frequency ?? existing.frequency,
+        interval: interval !== undefined ? Number(interval) : existing.interval,
+        startDate: startDate ? toRunDate(startDate) : existing.startDate,
+        endDate:
+          endDate !== undefined
+            ? endDate
+              ? toRunDate(endDate)
+              : null
+            : existing.endDate,
+      };
+
+      const scheduleChanged =
+        schedule.frequency !== existing.frequency ||
+        schedule.interval !== existing.interval ||
+        schedule.startDate.getTime() !== existing.startDate.getTime() ||
+        schedule.endDate?.getTime() !== existing.endDate?.getTime();
+
+      let scheduleData = {};
+      if (scheduleChanged) {
+        const today = toRunDate(new Date());
+        const from =
+          existing.lastRunDate && existing.lastRunDate >= today
+            ? new Date(existing.lastRunDate.getTime() + 1)
+            : today;
+        const nextRunDate = runOnOrAfter(schedule, from);
+        scheduleData = {
+          ...schedule,
+          nextRunDate,
+          status: !nextRunDate
+            ? RecurringInvoiceStatus.ENDED
+            : existing.status === RecurringInvoiceStatus.ENDED
+              ? RecurringInvoiceStatus.ACTIVE
+              : existing.status,
+        };
+      }
+
+      const template = await prisma.$transaction(async (tx) => {
+        if (items) {
+          await tx.recurringInvoiceItem.deleteMany({
+            where: { recurringInvoiceId: existing.id },
+          });
+        }
+
+        return tx.recurringInvoice.update({
+          where: { id: existing.id },
+          data: {
+            name,
+            invoiceStatus,
+            dueDays: dueDays !== undefined ? Number(dueDays) : undefined,
+            discountRate:
+              discountRate !== undefined ? Number(discountRate) : undefined,
+            notes,
+            terms,
+            ...scheduleData,
+            items: items ? { create: templateItems(items) } : undefined,
+          },
+          include: { customer: true, items: true },
+        });
+      });
+
+      res.json({ success: true, data: withUpcomingRuns(template) });
+    } catch (error) {
+      console.error("Update recurring invoice error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Pause recurring invoice
+router.post("/:id/pause", authenticate, async (req, res) => {
+  try {
+    const template = await prisma.recurringInvoice.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!template) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Recurring invoice not found" });
+    }
+
+    if (template.status !== RecurringInvoiceStatus.ACTIVE) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Recurring invoice is not active" });
+    }
+
+    const updated = await prisma.recurringInvoice.update({
+      where: { id: template.id },
+      data: { status: RecurringInvoiceStatus.PAUSED },
+    });
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error("Pause recurring invoice error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Resume recurring invoice. Runs that fell due while paused are skipped.
+router.post("/:id/resume", authenticate, async (req, res) => {
+  try {
+    const template = await prisma.recurringInvoice.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!template) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Recurring invoice not found" });
+    }
+
+    if (template.status !== RecurringInvoiceStatus.PAUSED) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Recurring invoice is not paused" });
+    }
+
+    const today = toRunDate(new Date());
+    const nextRunDate = runOnOrAfter(
+      template,
+      template.nextRunDate && template.nextRunDate > today
+        ? template.nextRunDate
+        : today,
+    );
+
+    const updated = await prisma.recurringInvoice.update({
+      where: { id: template.id },
+      data: {
+        nextRunDate,
+        status: nextRunDate
+          ? RecurringInvoiceStatus.ACTIVE
+          : RecurringInvoiceStatus.ENDED,
+      },
+    });
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error("Resume recurring invoice error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Skip the next run
+router.post("/:id/skip", authenticate, async (req, res) => {
+  try {
+    const template = await prisma.recurringInvoice.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!template) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Recurring invoice not found" });
+    }
+
+    if (
+      template.status === RecurringInvoiceStatus.ENDED ||
+      !template.nextRunDate
+    ) {
+      return res
+        .status(400)
+        .json({ success: false, message: "No run left to skip" });
+    }
+
+    const nextRunDate = runAfter(template, template.nextRunDate);
+
+    const updated = await prisma.recurringInvoice.update({
+      where: { id: template.id },
+      data: {
+        nextRunDate,
+        status: nextRunDate ? undefined : RecurringInvoiceStatus.ENDED,
+      },
+    });
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error("Skip recurring invoice error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Delete recurring invoice. Invoices already generated are kept.
+router.delete(
+  "/:id",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  async (req, res) => {
+    try {
+      const template = await prisma.recurringInvoice.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!template) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Recurring invoice not found" });
+      }
+
+      await prisma.recurringInvoice.delete({ where: { id: template.id } });
+
+      res.json({
+        success: true,
+        message: "Recurring invoice deleted successfully",
+      });
+    } catch (error) {
+      console.error("Delete recurring invoice error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+export default router;
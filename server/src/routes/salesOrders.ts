@@ -0,0 +1,470 @@
+import { Router } from "express";
+import { UserRole, SalesOrderStatus } from "@prisma/client";
+import prisma from "../lib/prisma.js";
+import { body, validationResult } from "express-validator";
+import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import { calculateInvoiceItems, round2 } from "../lib/gst.js";
+import {
+  orderItemInclude,
+  refreshOrderStatus,
+  summariseOrder,
+} from "../lib/salesOrders.js";
+import { nextDocumentNumber } from "../lib/sequence.js";
+
+const router = Router();
+
+const OPEN_STATUSES = [
+  SalesOrderStatus.OPEN,
+  SalesOrderStatus.PARTIALLY_FULFILLED,
+];
+
+// Order lines and totals; the GST split is decided when each lot is invoiced
+const calculateOrderItems = (items: any[]) => {
+  const { processedItems, subtotal, taxAmount } = calculateInvoiceItems(
+    items,
+    false,
+  );
+
+  return {
+    orderItems: processedItems.map((item) => ({
+      description: item.description,
+      hsnCode: item.hsnCode,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      taxRate: item.taxRate,
+      amount: item.amount,
+    })),
+    subtotal,
+    taxAmount,
+    totalAmount: round2(subtotal + taxAmount),
+  };
+};
+
+const scheduleData = (schedule: any[] = []) =>
+  schedule
+    .filter((lot) => lot.dueDate && Number(lot.quantity) > 0)
+    .map((lot) => ({
+      dueDate: new Date(lot.dueDate),
+      quantity: Number(lot.quantity),
+      notes: lot.notes || null,
+    }));
+
+const orderValidators = [
+  body("items.*.description").notEmpty(),
+  body("items.*.quantity").isFloat({ gt: 0 }),
+  body("items.*.unitPrice").isFloat({ min: 0 }),
+  body("schedule").optional().isArray(),
+];
+
+// Get all sales orders
+router.get("/", authenticate, async (req, res) => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      search,
+      status,
+      customerId,
+      open,
+    } = req.query;
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const where: any = {};
+    if (search) {
+      where.OR = [
+        { orderNumber: { contains: String(search), mode: "insensitive" } },
+        { buyersOrderNo: { contains: String(search), mode: "insensitive" } },
+        {
+          customer: { name: { contains: String(search), mode: "insensitive" } },
+        },
+      ];
+    }
+    if (status) where.status = status;
+    if (open === "true") where.status = { in: OPEN_STATUSES };
+    if (customerId) where.customerId = customerId;
+
+    const [orders, total] = await Promise.all([
+      prisma.salesOrder.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          customer: { select: { id: true, name: true, customerCode: true } },
+          items: { include: orderItemInclude },
+          schedule: { orderBy: { dueDate: "asc" } },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.salesOrder.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: orders.map(summariseOrder),
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    });
+  } catch (error) {
+    console.error("Get sales orders error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Get sales order by ID
+router.get("/:id", authenticate, async (req, res) => {
+  try {
+    const order = await prisma.salesOrder.findUnique({
+      where: { id: req.params.id },
+      include: {
+        customer: true,
+        createdBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+        items: { include: orderItemInclude },
+        schedule: { orderBy: { dueDate: "asc" } },
+        invoices: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+            issueDate: true,
+            totalAmount: true,
+            status: true,
+          },
+          orderBy: { issueDate: "asc" },
+        },
+      },
+    });
+
+    if (!order) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Sales order not found" });
+    }
+
+    res.json({ success: true, data: summariseOrder(order) });
+  } catch (error) {
+    console.error("Get sales order error:", error);
+    res.status(500).json({ success: false, message: "Server error" });
+  }
+});
+
+// Create sales order
+router.post(
+  "/",
+  authenticate,
+  [
+    body("customerId").notEmpty(),
+    body("items").isArray({ min: 1 }),
+    ...orderValidators,
+  ],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const {
+        customerId,
+        orderDate,
+        buyersOrderNo,
+        buyersOrderDate,
+        items,
+        schedule,
+        notes,
+        terms,
+      } = req.body;
+
+      const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+      });
+
+      if (!customer) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Customer not found" });
+      }
+
+      const { orderItems, ...totals } = calculateOrderItems(items);
+      const date = orderDate ? new Date(orderDate) : new Date();
+
+      const order = await prisma.$transaction(async (tx) => {
+        const orderNumber = await nextDocumentNumber("salesOrder", {
+          client: tx,
+          date,
+          taken: async (code) =>
+            Boolean(
+              await tx.salesOrder.findUnique({
+                where: { orderNumber: code },
+              }),
+            ),
+        });
+
+        return tx.salesOrder.create({
+          data: {
+            orderNumber,
+            customerId,
+            createdById: req.user!.id,
+            orderDate: date,
+            buyersOrderNo: buyersOrderNo || null,
+            buyersOrderDate: buyersOrderDate ? new Date(buyersOrderDate) : null,
+            ...totals,
+            notes,
+            terms,
+            items: { create: orderItems },
+            schedule: { create: scheduleData(schedule) },
+          },
+          include: { customer: true, items: true, schedule: true },
+        });
+      });
+
+      res.status(201).json({ success: true, data: order });
+    } catch (error) {
+      console.error("Create sales order error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Update sales order. Lines are locked once anything is dispatched or
+// invoiced; the header and delivery schedule can still change.
+router.put(
+  "/:id",
+  authenticate,
+  [body("items").optional().isArray({ min: 1 }), ...orderValidators],
+  async (req: AuthRequest, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const existing = await prisma.salesOrder.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!existing) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Sales order not found" });
+      }
+
+      if (!OPEN_STATUSES.includes(existing.status)) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Sales order is closed" });
+      }
+
+      const {
+        orderDate,
+        buyersOrderNo,
+        buyersOrderDate,
+        items,
+        schedule,
+        notes,
+        terms,
+      } = req.body;
+
+      if (items && existing.status !== SalesOrderStatus.OPEN) {
+        return res.status(400).json({
+          success: false,
+          message: "Items cannot be changed after dispatch or invoicing",
+        });
+      }
+
+      const order = await prisma.$transaction(async (tx) => {
+        let itemData = {};
+        if (items) {
+          await tx.salesOrderItem.deleteMany({
+            where: { salesOrderId: existing.id },
+          });
+          const { orderItems, ...totals } = calculateOrderItems(items);
+          itemData = { ...totals, items: { create: orderItems } };
+        }
+
+        if (schedule) {
+          await tx.salesOrderSchedule.deleteMany({
+            where: { salesOrderId: existing.id },
+          });
+        }
+
+        return tx.salesOrder.update({
+          where: { id: existing.id },
+          data: {
+            orderDate: orderDate ? new Date(orderDate) : undefined,
+            buyersOrderNo,
+            buyersOrderDate:
+              buyersOrderDate !== undefined
+                ? buyersOrderDate
+                  ? new Date(buyersOrderDate)
+                  : null
+                : undefined,
+            notes,
+            terms,
+            ...itemData,
+            schedule: schedule ? { create: scheduleData(schedule) } : undefined,
+          },
+          include: { customer: true, items: true, schedule: true },
+        });
+      });
+
+      res.json({ success: true, data: order });
+    } catch (error) {
+      console.error("Update sales order error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Record a dispatched lot
+router.post(
+  "/:id/dispatch",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.FLOOR_MANAGER),
+  async (req, res) => {
+    try {
+      const { items } = req.body;
+
+      if (!items || !Array.isArray(items)) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Items array required" });
+      }
+
+      const order = await prisma.salesOrder.findUnique({
+        where: { id: req.params.id },
+        include: { items: true },
+      });
+
+      if (!order) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Sales order not found" });
+      }
+
+      if (!OPEN_STATUSES.includes(order.status)) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Sales order is closed" });
+      }
+
+      for (const dispatchItem of items) {
+        const orderItem = order.items.find((i) => i.id === dispatchItem.id);
+        const quantity = Number(dispatchItem.quantity);
+        if (!orderItem || !(quantity >= 0)) {
+          return res
+            .status(400)
+            .json({ success: false, message: "Invalid dispatch line" });
+        }
+        const pending = round2(
+          Number(orderItem.quantity) - Number(orderItem.dispatchedQty),
+        );
+        if (quantity > pending + 0.001) {
+          return res.status(400).json({
+            success: false,
+            message: `${orderItem.description}: only ${pending} left to dispatch`,
+          });
+        }
+      }
+
+      await prisma.$transaction(async (tx) => {
+        for (const dispatchItem of items) {
+          if (!Number(dispatchItem.quantity)) continue;
+          await tx.salesOrderItem.update({
+            where: { id: dispatchItem.id },
+            data: {
+              dispatchedQty: { increment: Number(dispatchItem.quantity) },
+            },
+          });
+        }
+        await refreshOrderStatus(order.id, tx);
+      });
+
+      res.json({ success: true, message: "Dispatch recorded successfully" });
+    } catch (error) {
+      console.error("Dispatch sales order error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Cancel (short-close) the rest of an order
+router.post(
+  "/:id/cancel",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  async (req, res) => {
+    try {
+      const order = await prisma.salesOrder.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!order) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Sales order not found" });
+      }
+
+      if (!OPEN_STATUSES.includes(order.status)) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Sales order is already closed" });
+      }
+
+      const updated = await prisma.salesOrder.update({
+        where: { id: order.id },
+        data: { status: SalesOrderStatus.CANCELLED },
+      });
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error("Cancel sales order error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Delete sales order
+router.delete(
+  "/:id",
+  authenticate,
+  authorize(UserRole.ADMIN),
+  async (req, res) => {
+    try {
+      const order = await prisma.salesOrder.findUnique({
+        where: { id: req.params.id },
+        include: { items: true, _count: { select: { invoices: true } } },
+      });
+
+      if (!order) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Sales order not found" });
+      }
+
+      if (
+        order._count.invoices > 0 ||
+        order.items.some((item) => Number(item.dispatchedQty) > 0)
+      ) {
+        return res.status(400).json({
+          success: false,
+          message:
+            "Cannot delete an order that has been dispatched or invoiced",
+        });
+      }
+
+      await prisma.salesOrder.delete({ where: { id: order.id } });
+
+      res.json({ success: true, message: "Sales order deleted successfully" });
+    } catch (error) {
+      console.error("Delete sales order error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+export default router;
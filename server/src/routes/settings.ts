@@ -3,6 +3,13 @@ import { UserRole } from "@prisma/client";
 import prisma from "../lib/prisma.js";
 import { body, validationResult } from "express-validator";
 import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import { isValidPattern } from "../lib/sequence.js";
+import {
+  getEmailSettings,
+  isEmailConfigured,
+  sendEmail,
+  TEMPLATE_PLACEHOLDERS,
+} from "../lib/mailer.js";
 
 const router = Router();
 
@@ -56,6 +63,19 @@ router.put(
     try {
       const { value, description } = req.body;
 
+      // A number format without a sequence token would repeat the same number
+      if (req.params.key === "invoice" && value) {
+        const invalid = ["invoiceNumberFormat", "poNumberFormat"].find(
+          (field) => value[field] && !isValidPattern(String(value[field])),
+        );
+        if (invalid) {
+          return res.status(400).json({
+            success: false,
+            message: "Number format must include {SEQ} or {SEQ:n}",
+          });
+        }
+      }
+
       const setting = await prisma.setting.upsert({
         where: { key: req.params.key },
         update: { value, description },
@@ -114,6 +134,73 @@ router.delete(
   },
 );
 
+// Email settings in effect, including defaults from the environment
+router.get(
+  "/email/effective",
+  authenticate,
+  authorize(UserRole.ADMIN),
+  async (req, res) => {
+    try {
+      const settings = await getEmailSettings();
+      res.json({
+        success: true,
+        data: settings,
+        configured: isEmailConfigured(settings),
+        passwordSet: Boolean(process.env.SMTP_PASS),
+        placeholders: TEMPLATE_PLACEHOLDERS,
+      });
+    } catch (error) {
+      console.error("Get email settings error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Send a test message with the saved SMTP settings
+router.post(
+  "/email/test",
+  authenticate,
+  authorize(UserRole.ADMIN),
+  [body("to").trim().isEmail()],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const settings = await getEmailSettings();
+      if (!isEmailConfigured(settings)) {
+        return res.status(400).json({
+          success: false,
+          message: "Set the SMTP host and from address first",
+        });
+      }
+
+      try {
+        await sendEmail(settings, {
+          to: req.body.to,
+          subject: "Test email",
+          text: "Email from the invoicing app is working.",
+        });
+      } catch (sendError) {
+        return res.status(502).json({
+          success: false,
+          message:
+            sendError instanceof Error
+              ? sendError.message
+              : "Could not send email",
+        });
+      }
+
+      res.json({ success: true, message: `Test email sent to ${req.body.to}` });
+    } catch (error) {
+      console.error("Test email error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
 // Get company info
 router.get("/company/info", authenticate, async (req, res) => {
   try {
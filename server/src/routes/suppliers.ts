@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { UserRole } from "@prisma/client";
 import prisma from "../lib/prisma.js";
+import { nextDocumentNumber } from "../lib/sequence.js";
 import { body, validationResult } from "express-validator";
 import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
 
@@ -107,15 +108,12 @@ router.post(
       } = req.body;
 
       // Generate supplier code
-      const lastSupplier = await prisma.supplier.findFirst({
-        orderBy: { supplierCode: "desc" },
+      const supplierCode = await nextDocumentNumber("supplier", {
+        taken: async (code) =>
+          Boolean(
+            await prisma.supplier.findUnique({ where: { supplierCode: code } }),
+          ),
       });
-      const nextId = lastSupplier
-        ? String(
-            parseInt(lastSupplier.supplierCode.replace("SUP", "")) + 1,
-          ).padStart(4, "0")
-        : "0001";
-      const supplierCode = `SUP${nextId}`;
 
       const supplier = await prisma.supplier.create({
         data: {
@@ -0,0 +1,287 @@
+import { Router } from "express";
+import { TallyVoucherType, UserRole } from "@prisma/client";
+import prisma from "../lib/prisma.js";
+import { body, validationResult } from "express-validator";
+import { authenticate, authorize, AuthRequest } from "../middleware/auth.js";
+import {
+  buildTallyXml,
+  collectCancelledVouchers,
+  collectTallyVouchers,
+  DEFAULT_TALLY_SETTINGS,
+  getTallySettings,
+  isTallyVoucherType,
+  TallyVoucher,
+} from "../lib/tally.js";
+import { getCompanyProfile } from "../lib/company.js";
+
+const router = Router();
+
+const DEFAULT_TYPES = [
+  TallyVoucherType.SALES,
+  TallyVoucherType.RECEIPT,
+  TallyVoucherType.PAYMENT,
+];
+
+// Dates are inclusive; `types` is a list or comma separated string
+const parseRequest = (input: any) => {
+  const rawTypes = Array.isArray(input.types)
+    ? input.types
+    : input.types
+      ? String(input.types).split(",")
+      : DEFAULT_TYPES;
+  const types = rawTypes.map((type: string) => String(type).trim());
+  if (!input.from || !input.to || !types.every(isTallyVoucherType)) {
+    return null;
+  }
+
+  const from = new Date(String(input.from));
+  const to = new Date(
+    new Date(String(input.to)).getTime() + 24 * 60 * 60 * 1000 - 1,
+  );
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) return null;
+
+  return { range: { from, to }, types: types as TallyVoucherType[] };
+};
+
+const exportedVouchers = async (vouchers: TallyVoucher[]) => {
+  const records = await prisma.tallyExportVoucher.findMany({
+    where: {
+      documentId: { in: vouchers.map((voucher) => voucher.documentId) },
+    },
+    select: { voucherType: true, documentId: true, createdAt: true },
+  });
+  return new Map(
+    records.map((record) => [
+      `${record.voucherType}:${record.documentId}`,
+      record.createdAt,
+    ]),
+  );
+};
+
+const voucherKey = (voucher: TallyVoucher) =>
+  `${voucher.type}:${voucher.documentId}`;
+
+// Ledger mapping
+router.get(
+  "/settings",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
+  async (req, res) => {
+    try {
+      res.json({
+        success: true,
+        data: await getTallySettings(),
+        defaults: DEFAULT_TALLY_SETTINGS,
+      });
+    } catch (error) {
+      console.error("Get Tally settings error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+router.put(
+  "/settings",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
+  [body("partyLedgers").optional().isObject()],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const value = Object.fromEntries(
+        Object.keys(DEFAULT_TALLY_SETTINGS)
+          .filter((key) => req.body[key] !== undefined)
+          .map((key) => [key, req.body[key]]),
+      );
+
+      await prisma.setting.upsert({
+        where: { key: "tally" },
+        update: { value },
+        create: {
+          key: "tally",
+          value,
+          description: "Tally ledger mapping",
+        },
+      });
+
+      res.json({ success: true, data: await getTallySettings() });
+    } catch (error) {
+      console.error("Update Tally settings error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Vouchers in the period and whether each has been exported before, and
+// exported vouchers the next export will delete
+router.get(
+  "/preview",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
+  async (req, res) => {
+    try {
+      const request = parseRequest(req.query);
+      if (!request) {
+        return res.status(400).json({
+          success: false,
+          message: "Valid from, to and voucher types are required",
+        });
+      }
+
+      const vouchers = await collectTallyVouchers(request.range, request.types);
+      const exported = await exportedVouchers(vouchers);
+      const deletions = await collectCancelledVouchers(request.types);
+
+      res.json({
+        success: true,
+        data: vouchers.map(({ entries, ...voucher }) => ({
+          ...voucher,
+          exportedAt: exported.get(voucherKey(voucher)) || null,
+        })),
+        deletions: deletions.map((voucher) => ({
+          type: voucher.voucherType,
+          documentId: voucher.documentId,
+          number: voucher.voucherNumber,
+          date: voucher.voucherDate,
+          amount: Number(voucher.amount),
+          exportedAt: voucher.createdAt,
+        })),
+      });
+    } catch (error) {
+      console.error("Tally preview error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Download the period's vouchers as Tally XML. Only vouchers not exported
+// before are included unless includeExported is set; those go out as
+// alterations of the vouchers already in Tally. Exported sales vouchers
+// whose invoice has since been cancelled are deleted.
+router.post(
+  "/exports",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
+  async (req: AuthRequest, res) => {
+    try {
+      const request = parseRequest(req.body);
+      if (!request) {
+        return res.status(400).json({
+          success: false,
+          message: "Valid from, to and voucher types are required",
+        });
+      }
+
+      const all = await collectTallyVouchers(request.range, request.types);
+      const exported = await exportedVouchers(all);
+      const fresh = all.filter((voucher) => !exported.has(voucherKey(voucher)));
+      const vouchers = req.body.includeExported ? all : fresh;
+      const deletions = await collectCancelledVouchers(request.types);
+
+      if (vouchers.length === 0 && deletions.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: "No new vouchers to export for this period",
+        });
+      }
+
+      const company = await getCompanyProfile();
+      const alterIds = new Set(
+        all
+          .filter((voucher) => exported.has(voucherKey(voucher)))
+          .map((voucher) => voucher.documentId),
+      );
+      const xml = buildTallyXml(
+        company.companyName,
+        vouchers,
+        alterIds,
+        deletions,
+      );
+
+      const record = prisma.tallyExport.create({
+        data: {
+          fromDate: request.range.from,
+          toDate: request.range.to,
+          voucherCount: vouchers.length + deletions.length,
+          createdById: req.user!.id,
+          vouchers: {
+            createMany: {
+              data: fresh.map((voucher) => ({
+                voucherType: voucher.type,
+                documentId: voucher.documentId,
+                voucherNumber: voucher.number,
+                voucherDate: voucher.date,
+                amount: voucher.amount,
+              })),
+              skipDuplicates: true,
+            },
+          },
+        },
+      });
+      await prisma.$transaction([
+        record,
+        prisma.tallyExportVoucher.updateMany({
+          where: { id: { in: deletions.map((voucher) => voucher.id) } },
+          data: { deletedAt: new Date() },
+        }),
+      ]);
+
+      const fileName = `Tally_${String(req.body.from)}_${String(req.body.to)}.xml`;
+      res.setHeader("Content-Type", "application/xml; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${fileName}"`,
+      );
+      res.send(xml);
+    } catch (error) {
+      console.error("Tally export error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+// Export history
+router.get(
+  "/exports",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.ACCOUNTANT),
+  async (req, res) => {
+    try {
+      const { page = 1, limit = 10 } = req.query;
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const [exports, total] = await Promise.all([
+        prisma.tallyExport.findMany({
+          skip,
+          take: Number(limit),
+          include: {
+            createdBy: { select: { firstName: true, lastName: true } },
+            _count: { select: { vouchers: true } },
+          },
+          orderBy: { createdAt: "desc" },
+        }),
+        prisma.tallyExport.count(),
+      ]);
+
+      res.json({
+        success: true,
+        data: exports,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Get Tally exports error:", error);
+      res.status(500).json({ success: false, message: "Server error" });
+    }
+  },
+);
+
+export default router;